@@ -20,6 +20,11 @@ import diaryRoutes from "./routes/diaryRoutes";
 import uploadRoutes from "./routes/uploadRoutes";
 import emotionAnalysisRoutes from "./routes/emotionAnalysisRoutes";
 import chatRoutes from "./routes/chatRoutes";
+import embeddingRoutes from "./routes/embeddingRoutes";
+import exportRoutes from "./routes/exportRoutes";
+import importRoutes from "./routes/importRoutes";
+import { scheduleTrashPurge } from "./services/trash.service";
+import { scheduleExportCleanup } from "./services/account-export.service";
 
 import "./config/passport";
 
@@ -54,6 +59,9 @@ const authLimiter = rateLimit({
 app.use("/api/", limiter); // 모든 API 라우트에 적용
 app.use("/api/login", authLimiter); // 로그인 라우트에 추가 제한
 app.use("/api/register", authLimiter); // 회원가입 라우트에 추가 제한
+app.use("/api/token/refresh", authLimiter); // 토큰 갱신 라우트에 추가 제한
+app.use("/api/password", authLimiter); // 비밀번호 재설정 라우트에 추가 제한
+app.use("/api/user/password", authLimiter); // 비밀번호 변경 라우트에 추가 제한
 
 // 미들웨어 설정
 // CORS 설정 - 클라이언트와 서버 분리 배포를 위한 환경 변수 지원
@@ -139,6 +147,9 @@ app.use("/api", moodmeterRoutes);
 app.use("/api", diaryRoutes);
 app.use("/api", emotionAnalysisRoutes);
 app.use("/api", chatRoutes);
+app.use("/api", embeddingRoutes);
+app.use("/api", exportRoutes);
+app.use("/api", importRoutes);
 
 // 클라이언트와 서버 분리 배포 지원
 // SERVE_CLIENT_STATIC=true로 설정하면 서버에서 클라이언트 빌드 파일을 서빙 (통합 배포용)
@@ -200,6 +211,12 @@ const HOST = process.env.HOST || "0.0.0.0"; // 공유망 접근을 위해 0.0.0.
 app.listen(Number(PORT), HOST, () => {
   console.log(`Server running on http://${HOST}:${PORT}`);
   console.log(`Environment: ${process.env.NODE_ENV || "development"}`);
+
+  // 보관 기간이 지난 휴지통 항목 영구 삭제
+  scheduleTrashPurge();
+
+  // 만료된 내보내기 파일 삭제, 재시작으로 중단된 내보내기 작업 정리
+  scheduleExportCleanup();
 });
 
 // Vercel Blob Storage 사용으로 로컬 업로드 폴더는 더 이상 필요 없음
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { Request, Response } from 'express';
+
+/**
+ * Analyze Controller Tests
+ * The emotion letter is returned as JSON by default and streamed over SSE on request.
+ */
+
+vi.mock('../db', () => ({ default: {} }));
+
+import { analyzeEmotion } from './analyzeController';
+import { MockLLMProvider } from '../services/mock-llm-provider';
+import { setLLMProvider } from '../services/llm-provider';
+
+const mock = new MockLLMProvider();
+
+function createRequest(overrides: Partial<Request> = {}): Request {
+  return {
+    body: { text: '오늘 친구랑 카페에 갔다', userName: '민지' },
+    headers: {},
+    query: {},
+    on: vi.fn(),
+    ...overrides,
+  } as unknown as Request;
+}
+
+function createResponse() {
+  const written: string[] = [];
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    flushHeaders: vi.fn(),
+    write: vi.fn((data: string) => {
+      written.push(data);
+      return true;
+    }),
+    end: vi.fn(),
+  };
+  return { res: res as unknown as Response & typeof res, written };
+}
+
+function parseEvents(written: string[]): Array<{ event: string; data: any }> {
+  return written.map((chunk) => {
+    const [, event] = chunk.match(/^event: (\w+)\n/)!;
+    const [, data] = chunk.match(/\ndata: (.*)\n\n$/)!;
+    return { event, data: JSON.parse(data) };
+  });
+}
+
+describe('analyzeEmotion', () => {
+  beforeEach(() => {
+    mock.reset();
+    setLLMProvider(mock);
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+  });
+
+  it('should return the whole letter as JSON by default', async () => {
+    mock.enqueue({ content: '민지야, 카페 이야기 읽었어. 무디타가' });
+    const { res } = createResponse();
+
+    await analyzeEmotion(createRequest(), res);
+
+    expect(res.json).toHaveBeenCalledWith({ emotion: '민지야, 카페 이야기 읽었어. 무디타가' });
+    expect(res.write).not.toHaveBeenCalled();
+  });
+
+  it('should stream token events followed by done when the client accepts SSE', async () => {
+    mock.enqueue({ content: '민지야, 카페 이야기 읽었어. 무디타가' });
+    const { res, written } = createResponse();
+
+    await analyzeEmotion(createRequest({ headers: { accept: 'text/event-stream' } }), res);
+
+    const events = parseEvents(written);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(events.filter((e) => e.event === 'token').length).toBeGreaterThan(1);
+    expect(events.filter((e) => e.event === 'token').map((e) => e.data.token).join('')).toBe(
+      '민지야, 카페 이야기 읽었어. 무디타가'
+    );
+    expect(events[events.length - 1]).toEqual({
+      event: 'done',
+      data: { emotion: '민지야, 카페 이야기 읽었어. 무디타가' },
+    });
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it('should send an error event with the partial letter when generation fails', async () => {
+    setLLMProvider({
+      ...mock,
+      name: 'failing',
+      async *streamChat() {
+        yield { content: '민지야, ' };
+        throw new Error('upstream closed');
+      },
+    } as any);
+    const { res, written } = createResponse();
+
+    await analyzeEmotion(createRequest({ query: { stream: 'true' } as any }), res);
+
+    const events = parseEvents(written);
+    expect(events.map((e) => e.event)).toEqual(['token', 'error']);
+    expect(events[1].data.partial_content).toBe('민지야, ');
+    expect(res.end).toHaveBeenCalled();
+  });
+});
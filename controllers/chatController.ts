@@ -5,6 +5,7 @@
  */
 
 import { Request, Response } from 'express';
+import { z } from 'zod';
 import {
   getOrCreateSession,
   createSession,
@@ -13,6 +14,9 @@ import {
   saveMessage,
   getRecentMessages,
   deleteSession,
+  getTrashedSessions,
+  restoreSession,
+  purgeSession,
   needsSummarization,
   summarizeOldMessages,
   getSessionContext,
@@ -25,9 +29,13 @@ import {
   runGuardrails,
   sanitizeOutput,
 } from '../services/guardrail.service';
-
-// SSE retry interval in milliseconds
-const SSE_RETRY_INTERVAL = 3000;
+import { getTrashPurgeDate } from '../services/trash.service';
+import { confirmAction, rejectAction, ActionResolution } from '../services/pending-action.service';
+import { muditaTools } from '../services/mudita-tools';
+import { generateDiaryDraft } from '../services/diary-draft.service';
+import { openEventStream, writeEvent, writeRetry } from '../util/sse';
+import { koreanErrorMap, toFieldErrors } from '../middleware/validate';
+import { ConfirmActionBody } from '../schemas/chat.schema';
 
 // Default supportive message for empty responses (Requirement 9.5)
 const DEFAULT_SUPPORTIVE_MESSAGE = '지금은 적절한 답변을 드리기 어려워요. 잠시 후 다시 시도해주세요. 💜';
@@ -35,6 +43,9 @@ const DEFAULT_SUPPORTIVE_MESSAGE = '지금은 적절한 답변을 드리기 어
 // Prompt for empty message (Requirement 9.4)
 const EMPTY_MESSAGE_PROMPT = '무슨 생각을 하고 있어? 편하게 이야기해줘 😊';
 
+// Session and action ids are uuids; anything else cannot match a row
+const isUuid = (value: string) => z.string().uuid().safeParse(value).success;
+
 /**
  * POST /api/chat/message
  * Send a message and receive a streaming response via SSE
@@ -68,7 +79,7 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       let session;
       if (session_id) {
         session = await getSessionById(session_id);
-        if (!session || session.user_id !== userId) {
+        if (!session) {
           res.status(404).json({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
           return;
         }
@@ -80,31 +91,27 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       await saveMessage(session.session_id, 'user', message.trim());
 
       // Set up SSE headers
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('X-Accel-Buffering', 'no');
-      res.flushHeaders();
+      openEventStream(res);
 
       // Send session info
-      res.write(`event: session\ndata: ${JSON.stringify({ session_id: session.session_id })}\n\n`);
-      res.write(`retry: ${SSE_RETRY_INTERVAL}\n\n`);
+      writeEvent(res, 'session', { session_id: session.session_id });
+      writeRetry(res);
 
       // Stream the guardrail message
       const guardrailMessage = guardrailResult.reason || '요청을 처리할 수 없어요.';
       for (const char of guardrailMessage) {
-        res.write(`event: token\ndata: ${JSON.stringify({ token: char })}\n\n`);
+        writeEvent(res, 'token', { token: char });
       }
 
       // Save assistant response
       await saveMessage(session.session_id, 'assistant', guardrailMessage, []);
 
       // Send completion event
-      res.write(`event: done\ndata: ${JSON.stringify({ 
+      writeEvent(res, 'done', {
         message_id: session.session_id,
         diary_ids: [],
         action: null
-      })}\n\n`);
+      });
 
       res.end();
       return;
@@ -126,7 +133,7 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
     let session;
     if (session_id) {
       session = await getSessionById(session_id);
-      if (!session || session.user_id !== userId) {
+      if (!session) {
         res.status(404).json({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
         return;
       }
@@ -147,15 +154,11 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       }));
 
     // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
-    res.flushHeaders();
+    openEventStream(res);
 
     // Send session info as first event
-    res.write(`event: session\ndata: ${JSON.stringify({ session_id: session.session_id })}\n\n`);
-    res.write(`retry: ${SSE_RETRY_INTERVAL}\n\n`);
+    writeEvent(res, 'session', { session_id: session.session_id });
+    writeRetry(res);
 
     let fullResponse = '';
     let diaryIds: number[] = [];
@@ -182,13 +185,20 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
           }
           // Send each token as an SSE event
           try {
-            res.write(`event: token\ndata: ${JSON.stringify({ token })}\n\n`);
+            writeEvent(res, 'token', { token });
           } catch (writeError) {
             // Client may have disconnected
             streamingInterrupted = true;
           }
         },
-        profileName
+        profileName,
+        ({ type, ...data }) => {
+          // Tool progress lets the client show e.g. "일기를 찾아보고 있어요…"
+          if (!streamingInterrupted) {
+            writeEvent(res, type, data);
+          }
+        },
+        session.session_id
       );
 
       fullResponse = sanitizeOutput(result.response);
@@ -201,7 +211,7 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
         // Stream the default message
         for (const char of fullResponse) {
           if (!streamingInterrupted) {
-            res.write(`event: token\ndata: ${JSON.stringify({ token: char })}\n\n`);
+            writeEvent(res, 'token', { token: char });
           }
         }
       }
@@ -221,11 +231,11 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
 
       // Send completion event (if client still connected)
       if (!streamingInterrupted) {
-        res.write(`event: done\ndata: ${JSON.stringify({ 
+        writeEvent(res, 'done', {
           message_id: session.session_id,
           diary_ids: diaryIds,
           action: action || null
-        })}\n\n`);
+        });
       }
 
     } catch (error: any) {
@@ -233,10 +243,10 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       
       // Send error event with partial content if any (Requirement 8.5)
       if (!streamingInterrupted) {
-        res.write(`event: error\ndata: ${JSON.stringify({ 
+        writeEvent(res, 'error', {
           error: error.message || 'Failed to generate response',
           partial_content: fullResponse || null
-        })}\n\n`);
+        });
       }
 
       // Save partial response if we have any content
@@ -263,9 +273,9 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       });
     } else {
       // Headers already sent (SSE mode), send error event
-      res.write(`event: error\ndata: ${JSON.stringify({ 
+      writeEvent(res, 'error', {
         error: error.message || 'Internal server error'
-      })}\n\n`);
+      });
       res.end();
     }
   }
@@ -330,11 +340,6 @@ export const getSession = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    if (session.user_id !== userId) {
-      res.status(403).json({ error: 'Access denied', code: 'FORBIDDEN' });
-      return;
-    }
-
     res.status(200).json({ session });
   } catch (error: any) {
     console.error('Get session error:', error);
@@ -373,7 +378,7 @@ export const createNewSession = async (req: Request, res: Response): Promise<voi
 
 /**
  * DELETE /api/chat/session/:session_id
- * Delete a chat session
+ * Move a chat session to the trash
  * Validates: Requirements 2.3
  */
 export const removeSession = async (req: Request, res: Response): Promise<void> => {
@@ -391,23 +396,11 @@ export const removeSession = async (req: Request, res: Response): Promise<void>
   }
 
   try {
-    // Verify ownership before deletion
-    const session = await getSessionById(session_id);
-
-    if (!session) {
-      res.status(404).json({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
-      return;
-    }
-
-    if (session.user_id !== userId) {
-      res.status(403).json({ error: 'Access denied', code: 'FORBIDDEN' });
-      return;
-    }
-
+    // Ownership is checked by requireSessionOwnership on the route
     const deleted = await deleteSession(session_id);
 
     if (deleted) {
-      res.status(200).json({ message: 'Session deleted successfully' });
+      res.status(200).json({ message: 'Session moved to trash' });
     } else {
       res.status(500).json({ error: 'Failed to delete session', code: 'DELETE_FAILED' });
     }
@@ -420,6 +413,65 @@ export const removeSession = async (req: Request, res: Response): Promise<void>
   }
 };
 
+/**
+ * GET /api/chat/trash/:user_id
+ * List trashed sessions with the time each one will be purged
+ */
+export const listTrashedSessions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessions = await getTrashedSessions(req.userId);
+    res.status(200).json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        purge_at: getTrashPurgeDate(session.deleted_at),
+      })),
+    });
+  } catch (error: any) {
+    console.error('List trashed sessions error:', error);
+    res.status(500).json({ error: 'Failed to retrieve trash', code: 'INTERNAL_ERROR' });
+  }
+};
+
+/**
+ * POST /api/chat/session/:session_id/restore
+ * Restore a trashed session
+ */
+export const restoreTrashedSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const restored = isUuid(req.params.session_id) && (await restoreSession(req.params.session_id, req.userId));
+
+    if (!restored) {
+      res.status(404).json({ error: 'Session not found in trash', code: 'SESSION_NOT_FOUND' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Session restored', session_id: req.params.session_id });
+  } catch (error: any) {
+    console.error('Restore session error:', error);
+    res.status(500).json({ error: 'Failed to restore session', code: 'INTERNAL_ERROR' });
+  }
+};
+
+/**
+ * DELETE /api/chat/trash/:session_id
+ * Permanently delete a trashed session and its messages
+ */
+export const purgeTrashedSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const purged = isUuid(req.params.session_id) && (await purgeSession(req.params.session_id, req.userId));
+
+    if (!purged) {
+      res.status(404).json({ error: 'Session not found in trash', code: 'SESSION_NOT_FOUND' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Session permanently deleted' });
+  } catch (error: any) {
+    console.error('Purge session error:', error);
+    res.status(500).json({ error: 'Failed to delete session', code: 'INTERNAL_ERROR' });
+  }
+};
+
 /**
  * GET /api/chat/session/:session_id/context
  * Get session context (summary + recent messages) for LLM
@@ -441,26 +493,99 @@ export const getSessionContextEndpoint = async (req: Request, res: Response): Pr
   }
 
   try {
-    // Verify ownership
-    const session = await getSessionById(session_id);
+    // Ownership is checked by requireSessionOwnership on the route
+    const context = await getSessionContext(session_id, limit);
+    res.status(200).json({ context });
+  } catch (error: any) {
+    console.error('Get session context error:', error);
+    res.status(500).json({ 
+      error: 'Failed to retrieve session context',
+      code: 'INTERNAL_ERROR'
+    });
+  }
+};
 
-    if (!session) {
+/**
+ * POST /api/chat/session/:session_id/diary-draft
+ * Turn the conversation into a diary draft (title, content, suggested color) for editing
+ * The edited draft is saved with POST /api/diary and source_session_id.
+ */
+export const createDiaryDraft = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Ownership is checked by requireSessionOwnership on the route
+    const result = await generateDiaryDraft(req.params.session_id, req.profileName);
+
+    if (result.status === 'not_found') {
       res.status(404).json({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
       return;
     }
 
-    if (session.user_id !== userId) {
-      res.status(403).json({ error: 'Access denied', code: 'FORBIDDEN' });
+    if (result.status === 'empty') {
+      res.status(400).json({ error: 'Nothing in this conversation to write about yet', code: 'EMPTY_SESSION' });
       return;
     }
 
-    const context = await getSessionContext(session_id, limit);
-    res.status(200).json({ context });
+    res.status(200).json({ draft: result.draft });
   } catch (error: any) {
-    console.error('Get session context error:', error);
-    res.status(500).json({ 
-      error: 'Failed to retrieve session context',
-      code: 'INTERNAL_ERROR'
-    });
+    console.error('Diary draft error:', error);
+    res.status(500).json({ error: 'Failed to create diary draft', code: 'INTERNAL_ERROR' });
+  }
+};
+
+function sendActionResolution(res: Response, resolution: ActionResolution): void {
+  switch (resolution.status) {
+    case 'not_found':
+      res.status(404).json({ error: 'Action not found or already resolved', code: 'ACTION_NOT_FOUND' });
+      return;
+    case 'invalid':
+      res.status(400).json({
+        message: '요청 형식이 올바르지 않습니다.',
+        error: 'VALIDATION_ERROR',
+        fields: toFieldErrors(resolution.error),
+      });
+      return;
+    default:
+      res.status(200).json(resolution);
+  }
+}
+
+/**
+ * POST /api/chat/actions/:action_id/confirm
+ * Apply a write tool's proposal (e.g. save the mood or diary draft), with the user's edits
+ */
+export const confirmPendingAction = async (req: Request, res: Response): Promise<void> => {
+  const { action_id } = req.params;
+  const { edits }: ConfirmActionBody = req.body;
+
+  if (!isUuid(action_id)) {
+    res.status(400).json({ error: 'Invalid action ID', code: 'INVALID_ID' });
+    return;
+  }
+
+  try {
+    sendActionResolution(res, await confirmAction(muditaTools, req.userId, action_id, edits, koreanErrorMap));
+  } catch (error: any) {
+    console.error('Confirm action error:', error);
+    res.status(500).json({ error: 'Failed to apply action', code: 'INTERNAL_ERROR' });
+  }
+};
+
+/**
+ * POST /api/chat/actions/:action_id/reject
+ * Discard a write tool's proposal
+ */
+export const rejectPendingAction = async (req: Request, res: Response): Promise<void> => {
+  const { action_id } = req.params;
+
+  if (!isUuid(action_id)) {
+    res.status(400).json({ error: 'Invalid action ID', code: 'INVALID_ID' });
+    return;
+  }
+
+  try {
+    sendActionResolution(res, await rejectAction(req.userId, action_id));
+  } catch (error: any) {
+    console.error('Reject action error:', error);
+    res.status(500).json({ error: 'Failed to reject action', code: 'INTERNAL_ERROR' });
   }
 };
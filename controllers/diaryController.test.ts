@@ -0,0 +1,472 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { Request, Response } from 'express';
+
+/**
+ * Diary Controller Tests
+ * The diary list pages with opaque keyset cursors: paging visits every diary exactly once
+ * in sort order (ties broken by diary_id), filters narrow both the page and the total, and
+ * a cursor is only accepted for the sort it was made for.
+ * Reading a diary decrypts it with the key version it was written with; editing its content
+ * re-encrypts it with the current key, re-embeds it and invalidates cached chat answers.
+ * Search date filters follow the list: a date-only `to` includes that whole day.
+ */
+
+type DiaryRow = {
+  diary_id: number;
+  user_id: number;
+  title: string;
+  content: string;
+  color: string;
+  date: Date;
+  key_version: number;
+  content_version: number;
+  deleted_at: Date | null;
+  source_session_id: string | null;
+};
+
+const diaries = new Map<number, DiaryRow>();
+let emotionAnalysisCount = 0;
+
+// Evaluates the subset of Prisma where clauses the diary model builds
+function matches(row: any, where: any): boolean {
+  return Object.entries(where ?? {}).every(([key, condition]: [string, any]) => {
+    if (key === 'AND') return condition.every((part: any) => matches(row, part));
+    if (key === 'OR') return condition.some((part: any) => matches(row, part));
+    const value = row[key];
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+      return compare(value, condition) === 0;
+    }
+    return Object.entries(condition).every(([op, operand]: [string, any]) => {
+      switch (op) {
+        case 'gt':
+          return compare(value, operand) > 0;
+        case 'gte':
+          return compare(value, operand) >= 0;
+        case 'lt':
+          return compare(value, operand) < 0;
+        case 'contains':
+          return condition.mode === 'insensitive'
+            ? value.toLowerCase().includes(operand.toLowerCase())
+            : value.includes(operand);
+        case 'mode':
+          return true;
+        default:
+          throw new Error(`Unsupported operator: ${op}`);
+      }
+    });
+  });
+}
+
+function compare(a: any, b: any): number {
+  if (a === null || b === null) return a === b ? 0 : NaN;
+  const [x, y] = a instanceof Date ? [a.getTime(), new Date(b).getTime()] : [a, b];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+vi.mock('../db', () => ({
+  default: {
+    diary: {
+      count: vi.fn(async ({ where }: any) => [...diaries.values()].filter((row) => matches(row, where)).length),
+      findMany: vi.fn(async ({ where, orderBy, take }: any) =>
+        [...diaries.values()]
+          .filter((row) => matches(row, where))
+          .sort((a: any, b: any) => {
+            for (const order of orderBy) {
+              const [[field, direction]] = Object.entries(order);
+              const result = compare(a[field], b[field]);
+              if (result !== 0) return direction === 'desc' ? -result : result;
+            }
+            return 0;
+          })
+          .slice(0, take)
+          .map((row) => ({ ...row }))
+      ),
+      findUnique: vi.fn(async ({ where }: any) => {
+        const row = diaries.get(where.diary_id);
+        return row && matches(row, where) ? { ...row } : null;
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const row = diaries.get(where.diary_id)!;
+        const { content_version, ...fields } = data;
+        Object.assign(row, fields, content_version && { content_version: row.content_version + content_version.increment });
+        return { ...row };
+      }),
+    },
+    emotionAnalysis: {
+      count: vi.fn(async () => emotionAnalysisCount),
+    },
+    $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('../services/key-management.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/key-management.service')>()),
+  // Version 0 is the key from before the last rotation
+  getUserKeyring: vi.fn(async (userId: number) => ({ userId, version: 1, keys: { 0: OLD_KEY, 1: DATA_KEY } })),
+}));
+
+vi.mock('../services/user-settings.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/user-settings.service')>()),
+  getUserTimeSettings: vi.fn(async () => ({ timeZone: 'Asia/Seoul', locale: 'ko-KR' })),
+}));
+
+vi.mock('../services/embedding.service', () => ({
+  upsertDiaryEmbedding: vi.fn(),
+  deleteDiaryEmbedding: vi.fn(),
+}));
+
+vi.mock('../services/semantic-cache.service', () => ({
+  invalidateCacheByDiaries: vi.fn(),
+}));
+
+vi.mock('../services/diary-search.service', () => ({
+  searchUserDiaries: vi.fn(),
+}));
+
+import prisma from '../db';
+import { z } from 'zod';
+import { encrypt, decrypt } from '../util/encrypt';
+import { encodeDiaryCursor, decodeDiaryCursor, DiaryCursor } from '../models/diaryModel';
+import { upsertDiaryEmbedding } from '../services/embedding.service';
+import { invalidateCacheByDiaries } from '../services/semantic-cache.service';
+import { validateBody } from '../middleware/validate';
+import { updateDiarySchema, patchDiarySchema } from '../schemas/diary.schema';
+import { searchUserDiaries } from '../services/diary-search.service';
+import { getUserDiaries, getDiary, updateDiary, searchDiaries } from './diaryController';
+
+const OLD_KEY = 'cd'.repeat(32);
+const DATA_KEY = 'ab'.repeat(32);
+const USER_ID = 7;
+
+function addDiary(diary: Partial<DiaryRow> & { diary_id: number }) {
+  diaries.set(diary.diary_id, {
+    user_id: USER_ID,
+    title: `일기 ${diary.diary_id}`,
+    content: encrypt(`내용 ${diary.diary_id}`, DATA_KEY),
+    color: '노란색',
+    date: new Date('2025-03-01T03:00:00Z'),
+    key_version: 1,
+    content_version: 1,
+    deleted_at: null,
+    source_session_id: null,
+    ...diary,
+  });
+}
+
+// Calls a callback-style handler and resolves with the response it sends
+function call(
+  handler: (req: Request, res: Response) => void,
+  req: Partial<Request>
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve) => {
+    let status = 200;
+    const res = {
+      status: vi.fn((code: number) => {
+        status = code;
+        return res;
+      }),
+      json: vi.fn((body: unknown) => {
+        resolve({ status, body });
+        return res;
+      }),
+    };
+    handler({ userId: USER_ID, params: {}, query: {}, body: {}, ...req } as Request, res as unknown as Response);
+  });
+}
+
+function listDiaries(query: Record<string, string>) {
+  return call(getUserDiaries, { params: { user_id: String(USER_ID) }, query });
+}
+
+// Follows nextCursor until the last page and returns the diary IDs in order
+async function collectPages(query: Record<string, string>): Promise<number[]> {
+  const ids: number[] = [];
+  let cursor: string | null = null;
+  do {
+    const { status, body } = await listDiaries(cursor ? { ...query, cursor } : query);
+    expect(status).toBe(200);
+    ids.push(...body.items.map((item: DiaryRow) => item.diary_id));
+    expect(body.pageInfo.hasMore).toBe(body.pageInfo.nextCursor !== null);
+    cursor = body.pageInfo.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+// Runs the route's body validation before the handler, like PUT/PATCH /api/diary/:diary_id
+function editDiary(schema: z.ZodTypeAny, diaryId: number, body: Record<string, unknown>) {
+  return call(
+    (req, res) => validateBody(schema)(req, res, () => updateDiary(req, res)),
+    { params: { diary_id: String(diaryId) }, body }
+  );
+}
+
+const putDiary = (diaryId: number, body: Record<string, unknown>) => editDiary(updateDiarySchema, diaryId, body);
+const patchDiary = (diaryId: number, body: Record<string, unknown>) => editDiary(patchDiarySchema, diaryId, body);
+
+beforeEach(() => {
+  diaries.clear();
+  emotionAnalysisCount = 0;
+  vi.clearAllMocks();
+});
+
+describe('diary cursors', () => {
+  const cursorArb: fc.Arbitrary<DiaryCursor> = fc.record({
+    sort: fc.constantFrom('date' as const, 'title' as const),
+    order: fc.constantFrom('asc' as const, 'desc' as const),
+    value: fc.string(),
+    diary_id: fc.integer({ min: 1 }),
+  });
+
+  it('should decode every cursor it encodes', () => {
+    fc.assert(
+      fc.property(cursorArb, (cursor) => {
+        expect(decodeDiaryCursor(encodeDiaryCursor(cursor))).toEqual(cursor);
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject cursors that are not ones it made', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeDiaryCursor('not a cursor')).toBeNull();
+    expect(decodeDiaryCursor(encode({ value: '2025-03-01T00:00:00.000Z', diary_id: 3 }))).toBeNull();
+    expect(decodeDiaryCursor(encode({ sort: 'color', order: 'asc', value: '노란색', diary_id: 3 }))).toBeNull();
+    expect(decodeDiaryCursor(encode({ sort: 'date', order: 'up', value: '2025', diary_id: 3 }))).toBeNull();
+    expect(decodeDiaryCursor(encode({ sort: 'date', order: 'asc', value: '2025', diary_id: 1.5 }))).toBeNull();
+  });
+});
+
+describe('getUserDiaries', () => {
+  it('should visit every diary exactly once in sort order across page boundaries', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        // Few distinct dates and titles so many diaries tie on the sort key
+        fc.array(fc.record({ day: fc.integer({ min: 1, max: 3 }), title: fc.constantFrom('가', '나', 'a', 'B') }), {
+          minLength: 0,
+          maxLength: 15,
+        }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.constantFrom('date', 'title'),
+        fc.constantFrom('asc', 'desc'),
+        async (rows, limit, sort, order) => {
+          diaries.clear();
+          rows.forEach((row, i) => addDiary({ diary_id: i + 1, title: row.title, date: new Date(`2025-03-0${row.day}T03:00:00Z`) }));
+
+          const key = (id: number) => (sort === 'date' ? diaries.get(id)!.date.getTime() : diaries.get(id)!.title);
+          const expected = [...diaries.keys()].sort((a, b) => {
+            const result = key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : a - b;
+            return order === 'asc' ? result : -result;
+          });
+
+          const paged = await collectPages({ sort, order, limit: String(limit) });
+          const { body } = await listDiaries({ sort, order, limit: '1' });
+
+          // Property: the pages together hold every diary once, ordered by the sort key then diary_id
+          expect(paged).toEqual(expected);
+          expect(body.totalCount).toBe(rows.length);
+
+          return true;
+        }
+      ),
+      { numRuns: 40 }
+    );
+  });
+
+  it('should break ties on the sort key by diary_id in the requested order', async () => {
+    for (const diaryId of [3, 1, 2]) addDiary({ diary_id: diaryId, title: '같은 제목' });
+
+    expect(await collectPages({ sort: 'title', order: 'asc', limit: '1' })).toEqual([1, 2, 3]);
+    expect(await collectPages({ sort: 'date', order: 'desc', limit: '2' })).toEqual([3, 2, 1]);
+  });
+
+  it('should end on the last page when the total is a multiple of the limit', async () => {
+    for (let diaryId = 1; diaryId <= 4; diaryId++) addDiary({ diary_id: diaryId });
+
+    const { body: first } = await listDiaries({ limit: '2' });
+    const { body: last } = await listDiaries({ limit: '2', cursor: first.pageInfo.nextCursor });
+
+    expect(first.pageInfo.hasMore).toBe(true);
+    expect(last.items).toHaveLength(2);
+    expect(last.pageInfo).toEqual({ nextCursor: null, hasMore: false });
+  });
+
+  it('should reject an invalid cursor', async () => {
+    const { status, body } = await listDiaries({ cursor: 'garbage' });
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('잘못된 cursor입니다.');
+  });
+
+  it('should reject a cursor made for another sort or order', async () => {
+    for (let diaryId = 1; diaryId <= 3; diaryId++) addDiary({ diary_id: diaryId });
+    const { body } = await listDiaries({ sort: 'date', order: 'desc', limit: '1' });
+
+    for (const query of [{ sort: 'title' }, { sort: 'date', order: 'asc' }, {}]) {
+      const { status } = await listDiaries({ ...query, limit: '1', cursor: body.pageInfo.nextCursor });
+      // The default sort is date desc, so only the last query matches the cursor
+      expect(status).toBe(Object.keys(query).length === 0 ? 200 : 400);
+    }
+  });
+
+  it('should apply from/to in the user\'s time zone, color and title filters to items and total', async () => {
+    // 2025-03-02 in Asia/Seoul is 2025-03-01T15:00Z to 2025-03-02T15:00Z
+    addDiary({ diary_id: 1, date: new Date('2025-03-01T14:59:59Z'), title: '산책', color: '초록색' });
+    addDiary({ diary_id: 2, date: new Date('2025-03-01T15:00:00Z'), title: '아침 산책', color: '초록색' });
+    addDiary({ diary_id: 3, date: new Date('2025-03-03T14:59:59Z'), title: 'Walk', color: '파란색' });
+    addDiary({ diary_id: 4, date: new Date('2025-03-03T15:00:00Z'), title: 'walk again', color: '초록색' });
+    addDiary({ diary_id: 5, date: new Date('2025-03-02T00:00:00Z'), title: '휴지통', deleted_at: new Date() });
+    addDiary({ diary_id: 6, date: new Date('2025-03-02T00:00:00Z'), title: '남의 일기', user_id: USER_ID + 1 });
+
+    const cases: Array<[Record<string, string>, number[]]> = [
+      [{ from: '2025-03-02', to: '2025-03-03' }, [2, 3]],
+      [{ from: '2025-03-02' }, [2, 3, 4]],
+      [{ to: '2025-03-02' }, [1, 2]],
+      [{ color: '초록색' }, [1, 2, 4]],
+      [{ title: 'WALK' }, [3, 4]],
+      [{ title: '산책', color: '초록색', from: '2025-03-02' }, [2]],
+    ];
+
+    for (const [filters, expected] of cases) {
+      const { status, body } = await listDiaries({ ...filters, order: 'asc' });
+      expect(status).toBe(200);
+      expect(body.items.map((item: DiaryRow) => item.diary_id)).toEqual(expected);
+      expect(body.totalCount).toBe(expected.length);
+    }
+  });
+
+  it('should reject invalid list options', async () => {
+    for (const query of [{ limit: '0' }, { limit: '101' }, { sort: 'color' }, { order: 'up' }, { from: 'yesterday' }]) {
+      expect((await listDiaries(query)).status).toBe(400);
+    }
+  });
+
+  it('should return decrypted content', async () => {
+    addDiary({ diary_id: 1, color: '빨간색' });
+
+    const { body } = await listDiaries({});
+
+    expect(body.items[0]).toMatchObject({ diary_id: 1, content: '내용 1', color: '빨간색' });
+  });
+});
+
+describe('searchDiaries', () => {
+  it('should include the whole day of a date-only `to` and stop at an exact one', async () => {
+    vi.mocked(searchUserDiaries).mockResolvedValue({ query: '산책', items: [], totalCount: 0 } as any);
+    const cases: Array<[string, Date]> = [
+      // Asia/Seoul: 2025-03-02 ends at 2025-03-02T15:00Z
+      ['2025-03-02', new Date('2025-03-02T15:00:00Z')],
+      ['2025-03-02T09:30:00Z', new Date('2025-03-02T09:30:00Z')],
+    ];
+
+    for (const [to, endDate] of cases) {
+      const { status } = await call(searchDiaries, { query: { q: '산책', from: '2025-03-01', to } });
+      expect(status).toBe(200);
+      expect(vi.mocked(searchUserDiaries).mock.lastCall![2].dateRange).toEqual({
+        startDate: new Date('2025-02-28T15:00:00Z'),
+        endDate,
+        timeZone: 'Asia/Seoul',
+        endExclusive: true,
+      });
+    }
+  });
+});
+
+describe('getDiary', () => {
+  it('should decrypt a diary written with an older key version', async () => {
+    addDiary({ diary_id: 1, content: encrypt('로테이션 전에 쓴 일기', OLD_KEY), key_version: 0 });
+
+    const { status, body } = await call(getDiary, { params: { diary_id: '1' } });
+
+    expect(status).toBe(200);
+    // 03:00 UTC is noon in the user's time zone (Asia/Seoul)
+    expect(body).toMatchObject({ diary_id: 1, content: '로테이션 전에 쓴 일기', key_version: 0, formatted_date: '12:00' });
+  });
+
+  it('should not find a diary in the trash', async () => {
+    addDiary({ diary_id: 1, deleted_at: new Date() });
+
+    const { status, body } = await call(getDiary, { params: { diary_id: '1' } });
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ message: '일기를 찾을 수 없습니다.' });
+  });
+});
+
+describe('updateDiary', () => {
+  it('should re-encrypt changed content with the current key and re-embed it', async () => {
+    addDiary({ diary_id: 1, content: encrypt('수정 전', OLD_KEY), key_version: 0 });
+    emotionAnalysisCount = 2;
+
+    const { status, body } = await putDiary(1, { title: '새 제목', content: '수정 후', color: '파란색' });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ message: '일기가 수정되었습니다.', diary_id: 1, emotion_analyses_stale: 2 });
+    const saved = diaries.get(1)!;
+    expect(saved).toMatchObject({ title: '새 제목', color: '파란색', key_version: 1, content_version: 2 });
+    expect(decrypt(saved.content, DATA_KEY)).toBe('수정 후');
+    expect(upsertDiaryEmbedding).toHaveBeenCalledWith(1, '수정 후');
+    expect(invalidateCacheByDiaries).toHaveBeenCalledWith(USER_ID, [1]);
+  });
+
+  it('should keep the ciphertext and embedding when PUT sends the same content', async () => {
+    addDiary({ diary_id: 1, content: encrypt('그대로', OLD_KEY), key_version: 0 });
+    const ciphertext = diaries.get(1)!.content;
+
+    const { status, body } = await putDiary(1, { title: '제목만 수정', content: '그대로', color: '노란색' });
+
+    expect(status).toBe(200);
+    expect(body.emotion_analyses_stale).toBe(0);
+    expect(diaries.get(1)).toMatchObject({ title: '제목만 수정', content: ciphertext, key_version: 0, content_version: 1 });
+    expect(upsertDiaryEmbedding).not.toHaveBeenCalled();
+    expect(invalidateCacheByDiaries).toHaveBeenCalledWith(USER_ID, [1]);
+  });
+
+  it('should change only the fields PATCH sends', async () => {
+    addDiary({ diary_id: 1, title: '원래 제목', color: '노란색' });
+    const before = { ...diaries.get(1)! };
+
+    const { status } = await patchDiary(1, { color: '초록색' });
+
+    expect(status).toBe(200);
+    expect(diaries.get(1)).toEqual({ ...before, color: '초록색' });
+    expect(prisma.diary.update).toHaveBeenCalledWith({ where: { diary_id: 1 }, data: { color: '초록색' } });
+    expect(upsertDiaryEmbedding).not.toHaveBeenCalled();
+    expect(invalidateCacheByDiaries).toHaveBeenCalledWith(USER_ID, [1]);
+  });
+
+  it('should re-embed when PATCH changes the content', async () => {
+    addDiary({ diary_id: 1 });
+
+    await patchDiary(1, { content: '내용만 수정' });
+
+    expect(decrypt(diaries.get(1)!.content, DATA_KEY)).toBe('내용만 수정');
+    expect(diaries.get(1)!.title).toBe('일기 1');
+    expect(upsertDiaryEmbedding).toHaveBeenCalledWith(1, '내용만 수정');
+  });
+
+  it('should require every field for PUT and at least one for PATCH', async () => {
+    addDiary({ diary_id: 1 });
+
+    const put = await putDiary(1, { title: '제목만' });
+    const patch = await patchDiary(1, {});
+
+    for (const { status, body } of [put, patch]) {
+      expect(status).toBe(400);
+      expect(body.error).toBe('VALIDATION_ERROR');
+    }
+    expect(put.body.fields.map((f: { field: string }) => f.field).sort()).toEqual(['color', 'content']);
+    expect(prisma.diary.update).not.toHaveBeenCalled();
+    expect(invalidateCacheByDiaries).not.toHaveBeenCalled();
+  });
+
+  it('should not touch the cache or embeddings when the diary is gone', async () => {
+    const { status } = await patchDiary(1, { title: '없는 일기' });
+
+    expect(status).toBe(404);
+    expect(prisma.diary.update).not.toHaveBeenCalled();
+    expect(invalidateCacheByDiaries).not.toHaveBeenCalled();
+  });
+});
@@ -2,13 +2,39 @@ import { Request, Response } from "express";
 import {
   saveDiary,
   getDiariesByUserId,
+  getDiaryById,
+  updateDiaryById,
   countDiariesByUserId,
-  getConsecutiveDaysByUserId,
-  deleteDiaryById,
+  trashDiaryById,
+  getTrashedDiariesByUserId,
+  restoreDiaryById,
+  purgeDiaryById,
+  decodeDiaryCursor,
+  DiaryListOptions,
 } from "../models/diaryModel";
-import { getUserPasswordAndSalt } from "../models/user";
-import { encrypt, generateEncryptionKey } from "../util/encrypt";
+import { encrypt } from "../util/encrypt";
+import {
+  UserKeyring,
+  getUserKeyring,
+  getCurrentKey,
+} from "../services/key-management.service";
 import { upsertDiaryEmbedding, deleteDiaryEmbedding } from "../services/embedding.service";
+import { invalidateCacheByDiaries } from "../services/semantic-cache.service";
+import { searchUserDiaries } from "../services/diary-search.service";
+import { getTrashPurgeDate } from "../services/trash.service";
+import { getUserStreaks } from "../services/streak.service";
+import { CreateDiaryBody, UpdateDiaryBody } from "../schemas/diary.schema";
+import {
+  UserTimeSettings,
+  getUserTimeSettings,
+} from "../services/user-settings.service";
+import {
+  isValidTimeZone,
+  parseLocalDateTime,
+  toLocalDate,
+  addDays,
+  zonedTimeToDate,
+} from "../util/timezone";
 
 /**
  * Generates embedding for a diary entry asynchronously (non-blocking)
@@ -23,7 +49,8 @@ async function generateEmbeddingAsync(diaryId: number, content: string): Promise
   } catch (error) {
     // Log the error but don't throw - embedding generation should not block diary creation
     console.error(`Failed to generate embedding for diary ${diaryId}:`, error);
-    // The embedding can be regenerated later if needed
+    // Diaries left without an embedding are picked up by the backfill job
+    // (POST /api/embeddings/backfill or `npm run embeddings -- backfill`)
   }
 }
 
@@ -43,53 +70,145 @@ async function cleanupEmbeddingAsync(diaryId: number): Promise<void> {
   }
 }
 
-export const createDiary = (req: Request, res: Response): void => {
-  const { user_id, title, content, color } = req.body;
-
-  getUserPasswordAndSalt(user_id, (err, user) => {
-    if (err) {
-      console.error("사용자의 비밀번호 및 salt 가져오는 중 오류 발생:", err);
+/**
+ * 사용자의 데이터 키(keyring)와 시간대·언어 설정을 불러온 뒤 콜백을 실행합니다.
+ * 키를 불러오지 못하면 500 응답을 보내고 콜백은 호출하지 않습니다.
+ */
+function withUserKeyring(
+  userId: number,
+  res: Response,
+  onReady: (keyring: UserKeyring, settings: UserTimeSettings) => void
+): void {
+  Promise.all([getUserKeyring(userId), getUserTimeSettings(userId)]).then(
+    ([keyring, settings]) => onReady(keyring, settings),
+    (err) => {
+      console.error("사용자 암호화 키를 가져오는 중 오류 발생:", err);
       res.status(500).json({
-        error: "사용자의 비밀번호 및 salt를 가져오는 중 오류가 발생했습니다.",
+        error: "사용자 암호화 키를 가져오는 중 오류가 발생했습니다.",
       });
-      return;
     }
+  );
+}
 
-    if (!user || !user.password || !user.salt) {
-      console.error("비밀번호 또는 Salt 값이 정의되지 않았습니다.");
-      res.status(500).json({
-        error: "비밀번호 또는 Salt 값이 정의되지 않았습니다.",
-      });
-      return;
-    }
+export const createDiary = (req: Request, res: Response): void => {
+  const { title, content, color, source_session_id }: CreateDiaryBody = req.body;
+  const user_id = req.userId;
 
-    const encryptionKey = generateEncryptionKey(user.password, user.salt);
-    const encryptedContent = encrypt(content, encryptionKey);
+  withUserKeyring(user_id, res, (keyring) => {
+    const encryptedContent = encrypt(content, getCurrentKey(keyring));
 
-    saveDiary({ user_id, title, encryptedContent, color }, (err, result) => {
-      if (err) {
-        res
-          .status(500)
-          .json({ error: "DB 저장 중 오류가 발생했습니다." });
-        return;
-      }
-      
-      // Trigger async embedding generation (non-blocking)
-      // Uses original unencrypted content for semantic search
-      // Validates: Requirements 4.1 - Generate embedding within 30 seconds
-      if (result?.diary_id) {
-        generateEmbeddingAsync(result.diary_id, content);
+    saveDiary(
+      {
+        user_id,
+        title,
+        encryptedContent,
+        color,
+        key_version: keyring.version,
+        source_session_id,
+      },
+      (err, result) => {
+        if (err) {
+          res
+            .status(500)
+            .json({ error: "DB 저장 중 오류가 발생했습니다." });
+          return;
+        }
+
+        // Trigger async embedding generation (non-blocking)
+        // Uses original unencrypted content for semantic search
+        // Validates: Requirements 4.1 - Generate embedding within 30 seconds
+        if (result?.diary_id) {
+          generateEmbeddingAsync(result.diary_id, content);
+        }
+
+        res.status(200).json({
+          message: "일기가 저장되었습니다.",
+          diary_id: result.diary_id,
+        });
+        console.log("암호화 일기 저장 성공!");
       }
-      
-      res.status(200).json({
-        message: "일기가 저장되었습니다.",
-        diary_id: result.diary_id,
-      });
-      console.log("암호화 일기 저장 성공!");
-    });
+    );
   });
 };
 
+// 일기 목록 조회 옵션 (쿼리스트링)
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 날짜 쿼리 파라미터를 해석합니다. 날짜만 주어지면 사용자 시간대의 그날 0시로 보고,
+ * 날짜만 주어진 to는 그날 전체를 포함합니다.
+ */
+function parseDateParam(raw: unknown, endOfRange: boolean, timeZone: string): Date | null {
+  if (typeof raw !== "string" || raw.length === 0) return null;
+  const isDateOnly = DATE_ONLY_PATTERN.test(raw);
+  const date = isDateOnly ? parseLocalDateTime(raw, timeZone) : new Date(raw);
+  if (!date || isNaN(date.getTime())) return null;
+  if (isDateOnly && endOfRange) {
+    return zonedTimeToDate(addDays(toLocalDate(date, timeZone), 1), timeZone);
+  }
+  return date;
+}
+
+function parseListOptions(
+  query: Request["query"],
+  timeZone: string
+): { options?: DiaryListOptions; error?: string } {
+  const { cursor, limit, sort, order, from, to, color, title } = query;
+
+  const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `limit은 1에서 ${MAX_PAGE_SIZE} 사이의 정수여야 합니다.` };
+  }
+
+  const sortField = sort ?? "date";
+  if (sortField !== "date" && sortField !== "title") {
+    return { error: "sort는 date 또는 title이어야 합니다." };
+  }
+
+  const sortOrder = order ?? (sortField === "date" ? "desc" : "asc");
+  if (sortOrder !== "asc" && sortOrder !== "desc") {
+    return { error: "order는 asc 또는 desc여야 합니다." };
+  }
+
+  const decodedCursor =
+    cursor !== undefined ? decodeDiaryCursor(String(cursor)) : undefined;
+  if (decodedCursor === null) {
+    return { error: "잘못된 cursor입니다." };
+  }
+  if (decodedCursor && (decodedCursor.sort !== sortField || decodedCursor.order !== sortOrder)) {
+    return { error: "cursor가 현재 정렬(sort/order)과 맞지 않습니다. 첫 페이지부터 다시 조회해 주세요." };
+  }
+
+  const fromDate = from !== undefined ? parseDateParam(from, false, timeZone) : undefined;
+  const toDate = to !== undefined ? parseDateParam(to, true, timeZone) : undefined;
+  if (fromDate === null || toDate === null) {
+    return { error: "from/to는 올바른 날짜여야 합니다." };
+  }
+
+  return {
+    options: {
+      sort: sortField,
+      order: sortOrder,
+      limit: pageSize,
+      cursor: decodedCursor,
+      from: fromDate,
+      to: toDate,
+      color: typeof color === "string" && color ? color : undefined,
+      title: typeof title === "string" && title.trim() ? title.trim() : undefined,
+      timeZone,
+    },
+  };
+}
+
+/**
+ * GET /api/diary/:user_id
+ * 쿼리: cursor, limit(기본 20, 최대 100), sort(date|title), order(asc|desc),
+ *       from/to(날짜 범위), color, title(제목 부분 일치)
+ * cursor는 그 커서를 받은 요청과 같은 sort/order로만 사용할 수 있습니다. (다르면 400)
+ * 응답: { items, pageInfo: { nextCursor, hasMore }, totalCount }
+ */
 export const getUserDiaries = (req: Request, res: Response): void => {
   const { user_id } = req.params;
 
@@ -98,38 +217,180 @@ export const getUserDiaries = (req: Request, res: Response): void => {
     return;
   }
 
-  getUserPasswordAndSalt(parseInt(user_id), (err, user) => {
-    if (err) {
-      console.error("사용자의 비밀번호 및 salt 가져오는 중 오류 발생:", err);
-      res.status(500).json({
-        error: "사용자의 비밀번호 및 salt를 가져오는 중 오류가 발생했습니다.",
-      });
+  withUserKeyring(parseInt(user_id), res, (keyring, settings) => {
+    // 날짜 범위(from/to)는 사용자 시간대 기준
+    const { options, error } = parseListOptions(req.query, settings.timeZone);
+    if (error) {
+      res.status(400).json({ error });
       return;
     }
 
-    if (!user || !user.password || !user.salt) {
-      console.error("비밀번호 또는 Salt 값이 정의되지 않았습니다.");
-      res.status(500).json({
-        error: "비밀번호 또는 Salt 값이 정의되지 않았습니다.",
-      });
-      return;
-    }
+    getDiariesByUserId(parseInt(user_id), keyring, options, (err, page) => {
+      if (err) {
+        console.error("DB 조회 중 오류 발생:", err);
+        res.status(500).json({ error: "DB 조회 중 오류 발생" });
+        return;
+      }
 
-    const encryptionKey = generateEncryptionKey(user.password, user.salt);
+      res.status(200).json(page);
+    });
+  });
+};
+
+const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/**
+ * GET /api/diary/search?q=
+ * 키워드 + 벡터 하이브리드 검색 (선택: limit, from, to, color)
+ * 응답: { query, items: [{ diary_id, title, snippet, highlights, ... }], totalCount }
+ */
+export const searchDiaries = (req: Request, res: Response): void => {
+  const userId = req.userId;
+  const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
 
-    getDiariesByUserId(parseInt(user_id), encryptionKey, (err, diaries) => {
+  if (!q) {
+    res.status(400).json({ error: "검색어(q)가 누락되었습니다." });
+    return;
+  }
+
+  if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+    res.status(400).json({
+      error: `검색어는 ${MAX_SEARCH_QUERY_LENGTH}자 이하여야 합니다.`,
+    });
+    return;
+  }
+
+  const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    res.status(400).json({
+      error: `limit은 1에서 ${MAX_PAGE_SIZE} 사이의 정수여야 합니다.`,
+    });
+    return;
+  }
+
+  const color = typeof req.query.color === "string" && req.query.color ? req.query.color : undefined;
+
+  getUserTimeSettings(userId)
+    .then(({ timeZone }) => {
+      // 날짜 범위(from/to)는 사용자 시간대 기준, to는 목록과 같이 제외 경계 (날짜만 주면 그날 전체 포함)
+      const from = req.query.from !== undefined ? parseDateParam(req.query.from, false, timeZone) : undefined;
+      const to = req.query.to !== undefined ? parseDateParam(req.query.to, true, timeZone) : undefined;
+      if (from === null || to === null) {
+        res.status(400).json({ error: "from/to는 올바른 날짜여야 합니다." });
+        return;
+      }
+
+      return searchUserDiaries(userId, q, {
+        limit,
+        color,
+        dateRange:
+          from || to
+            ? {
+                startDate: from ?? new Date(0),
+                endDate: to ?? zonedTimeToDate(addDays(toLocalDate(new Date(), timeZone), 1), timeZone),
+                timeZone,
+                endExclusive: true,
+              }
+            : null,
+      }).then((result) => res.status(200).json(result));
+    })
+    .catch((err) => {
+      console.error("일기 검색 중 오류 발생:", err);
+      res.status(500).json({ error: "일기 검색 중 오류가 발생했습니다." });
+    });
+};
+
+export const getDiary = (req: Request, res: Response): void => {
+  const { diary_id } = req.params;
+  const userId = req.userId;
+
+  if (!diary_id) {
+    res.status(400).json({ error: "diary_id가 누락되었습니다." });
+    return;
+  }
+
+  withUserKeyring(userId, res, (keyring, settings) => {
+    getDiaryById(parseInt(diary_id), keyring, settings.timeZone, (err, diary) => {
       if (err) {
         console.error("DB 조회 중 오류 발생:", err);
         res.status(500).json({ error: "DB 조회 중 오류 발생" });
         return;
       }
 
-      if (diaries && diaries.length === 0) {
-        res.status(404).json({ message: "일기가 없습니다." });
+      if (!diary) {
+        res.status(404).json({ message: "일기를 찾을 수 없습니다." });
         return;
       }
 
-      res.status(200).json(diaries);
+      res.status(200).json(diary);
+    });
+  });
+};
+
+/**
+ * PUT/PATCH /api/diary/:diary_id
+ * PUT은 title, content, color를 모두 요구하고 PATCH는 보낸 필드만 수정합니다. (라우트의 스키마로 검증)
+ * 내용이 바뀌면 재암호화, 임베딩 갱신, 시맨틱 캐시 무효화를 함께 수행합니다.
+ */
+export const updateDiary = (req: Request, res: Response): void => {
+  const { diary_id } = req.params;
+  const { title, content, color }: UpdateDiaryBody = req.body;
+  const userId = req.userId;
+
+  if (!diary_id) {
+    res.status(400).json({ error: "diary_id가 누락되었습니다." });
+    return;
+  }
+
+  const diaryIdNum = parseInt(diary_id);
+
+  withUserKeyring(userId, res, (keyring, settings) => {
+    // 소유권은 라우트의 requireDiaryOwnership에서 확인
+    getDiaryById(diaryIdNum, keyring, settings.timeZone, (err, existing) => {
+      if (err) {
+        console.error("DB 조회 중 오류 발생:", err);
+        res.status(500).json({ error: "DB 조회 중 오류 발생" });
+        return;
+      }
+
+      if (!existing) {
+        res.status(404).json({ message: "일기를 찾을 수 없습니다." });
+        return;
+      }
+
+      const contentChanged =
+        content !== undefined && content !== existing.content;
+
+      updateDiaryById(
+        diaryIdNum,
+        {
+          title,
+          color,
+          ...(contentChanged && {
+            encryptedContent: encrypt(content, getCurrentKey(keyring)),
+            key_version: keyring.version,
+          }),
+        },
+        (err, result) => {
+          if (err) {
+            res.status(500).json({ error: "DB 저장 중 오류가 발생했습니다." });
+            return;
+          }
+
+          // 수정된 일기를 참조하던 캐시 응답은 더 이상 유효하지 않음
+          invalidateCacheByDiaries(userId, [diaryIdNum]);
+
+          if (contentChanged) {
+            generateEmbeddingAsync(diaryIdNum, content);
+          }
+
+          res.status(200).json({
+            message: "일기가 수정되었습니다.",
+            diary_id: result.diary.diary_id,
+            emotion_analyses_stale: result.staleEmotionAnalyses,
+          });
+        }
+      );
     });
   });
 };
@@ -153,30 +414,50 @@ export const getDiaryCountByUser = (req: Request, res: Response): void => {
   });
 };
 
+/**
+ * GET /api/diary/consecutive/:user_id?tz=Asia/Seoul
+ * 사용자 시간대 기준 연속 작성 기록 (tz가 없으면 사용자 설정 시간대)
+ * 응답: { timezone, today, current_streak, longest_streak, streaks: [{ start_date, end_date, consecutive_days }], calendar: [{ date, count }] }
+ */
 export const getConsecutiveDaysByUser = (
   req: Request,
   res: Response
 ): void => {
   const { user_id } = req.params;
+  const requestedTimeZone =
+    typeof req.query.tz === "string" && req.query.tz ? req.query.tz : undefined;
 
   if (!user_id) {
     res.status(400).json({ error: "user_id가 누락되었습니다." });
     return;
   }
 
-  getConsecutiveDaysByUserId(parseInt(user_id), (err, result) => {
-    if (err) {
+  if (requestedTimeZone !== undefined && !isValidTimeZone(requestedTimeZone)) {
+    res.status(400).json({ error: "tz는 올바른 IANA 시간대여야 합니다. (예: Asia/Seoul)" });
+    return;
+  }
+
+  const userId = parseInt(user_id);
+  (requestedTimeZone
+    ? Promise.resolve(requestedTimeZone)
+    : getUserTimeSettings(userId).then((settings) => settings.timeZone)
+  )
+    .then((timeZone) => getUserStreaks(userId, timeZone))
+    .then((result) => res.status(200).json(result))
+    .catch((err) => {
       console.error("DB 조회 중 오류 발생:", err);
       res.status(500).json({ error: "DB 조회 중 오류 발생" });
-      return;
-    }
-
-    res.status(200).json(result);
-  });
+    });
 };
 
+/**
+ * DELETE /api/diary/delete/:diary_id
+ * 일기를 휴지통으로 옮깁니다. 임베딩과 감정 분석은 복원을 위해 남겨두고,
+ * 검색·목록·RAG에서는 제외됩니다.
+ */
 export const deleteDiary = (req: Request, res: Response): void => {
   const { diary_id } = req.params;
+  const userId = req.userId;
 
   if (!diary_id) {
     res.status(400).json({ error: "Diary ID is required" });
@@ -185,17 +466,104 @@ export const deleteDiary = (req: Request, res: Response): void => {
 
   const diaryIdNum = parseInt(diary_id);
 
-  // Attempt manual embedding cleanup as fallback before diary deletion
-  // Note: CASCADE delete should handle this automatically, but this ensures cleanup
-  // Validates: Requirements 6.3
-  cleanupEmbeddingAsync(diaryIdNum);
-
-  deleteDiaryById(diaryIdNum, (err, result) => {
+  trashDiaryById(diaryIdNum, userId, (err, deletedAt) => {
     if (err) {
       res.status(500).json({ error: "Failed to delete diary" });
       return;
     }
 
-    res.status(200).json({ message: "Diary deleted successfully" });
+    if (!deletedAt) {
+      res.status(404).json({ message: "일기를 찾을 수 없습니다." });
+      return;
+    }
+
+    // 휴지통의 일기를 참조하던 캐시 응답은 더 이상 사용하지 않음
+    invalidateCacheByDiaries(userId, [diaryIdNum]);
+
+    res.status(200).json({
+      message: "Diary moved to trash",
+      deleted_at: deletedAt,
+      purge_at: getTrashPurgeDate(deletedAt),
+    });
+  });
+};
+
+/**
+ * GET /api/diary/trash/:user_id
+ * 휴지통 목록 (영구 삭제 예정 시각 포함)
+ */
+export const getDiaryTrash = (req: Request, res: Response): void => {
+  const userId = parseInt(req.params.user_id);
+
+  getTrashedDiariesByUserId(userId, (err, diaries) => {
+    if (err) {
+      console.error("DB 조회 중 오류 발생:", err);
+      res.status(500).json({ error: "DB 조회 중 오류 발생" });
+      return;
+    }
+
+    res.status(200).json({
+      items: diaries.map((diary) => ({
+        ...diary,
+        purge_at: getTrashPurgeDate(diary.deleted_at),
+      })),
+    });
+  });
+};
+
+/**
+ * POST /api/diary/:diary_id/restore
+ * 휴지통의 일기를 복원합니다.
+ */
+export const restoreDiary = (req: Request, res: Response): void => {
+  const diaryIdNum = parseInt(req.params.diary_id);
+
+  if (isNaN(diaryIdNum)) {
+    res.status(400).json({ error: "diary_id가 올바르지 않습니다." });
+    return;
+  }
+
+  restoreDiaryById(diaryIdNum, req.userId, (err, restored) => {
+    if (err) {
+      res.status(500).json({ error: "일기 복원 중 오류가 발생했습니다." });
+      return;
+    }
+
+    if (!restored) {
+      res.status(404).json({ message: "휴지통에서 일기를 찾을 수 없습니다." });
+      return;
+    }
+
+    res.status(200).json({ message: "일기가 복원되었습니다.", diary_id: diaryIdNum });
+  });
+};
+
+/**
+ * DELETE /api/diary/trash/:diary_id
+ * 휴지통의 일기를 즉시 영구 삭제합니다.
+ */
+export const purgeDiary = (req: Request, res: Response): void => {
+  const diaryIdNum = parseInt(req.params.diary_id);
+
+  if (isNaN(diaryIdNum)) {
+    res.status(400).json({ error: "diary_id가 올바르지 않습니다." });
+    return;
+  }
+
+  purgeDiaryById(diaryIdNum, req.userId, (err, purged) => {
+    if (err) {
+      res.status(500).json({ error: "일기 영구 삭제 중 오류가 발생했습니다." });
+      return;
+    }
+
+    if (!purged) {
+      res.status(404).json({ message: "휴지통에서 일기를 찾을 수 없습니다." });
+      return;
+    }
+
+    // CASCADE가 처리하지만 명시적으로 한 번 더 정리
+    cleanupEmbeddingAsync(diaryIdNum);
+
+    res.status(200).json({ message: "일기가 영구 삭제되었습니다." });
   });
 };
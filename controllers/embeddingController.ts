@@ -0,0 +1,81 @@
+/**
+ * Embedding Controller
+ * Lets a user regenerate missing diary embeddings and poll the backfill job
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { startUserEmbeddingBackfill, EMBEDDING_BACKFILL_JOB_TYPE } from '../services/embedding-backfill.service';
+import { getJob } from '../services/background-job.service';
+import { StartBackfillBody } from '../schemas/embedding.schema';
+
+const jobIdSchema = z.string().uuid();
+
+/**
+ * POST /api/embeddings/backfill
+ * Starts (or resumes) a backfill of the caller's diaries
+ * Body: { mode?: 'missing' | 'reindex' } (validated by startBackfillSchema)
+ */
+export const startBackfill = async (req: Request, res: Response): Promise<void> => {
+  const userId = req.userId;
+  const { mode } = req.body as StartBackfillBody;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Authentication required', code: 'NOT_AUTHENTICATED' });
+    return;
+  }
+
+  try {
+    const job = await startUserEmbeddingBackfill(userId, mode);
+
+    res.status(202).json({
+      job_id: job.job_id,
+      status: job.status,
+      progress: job.progress,
+    });
+  } catch (error: any) {
+    console.error('Start embedding backfill error:', error);
+    res.status(500).json({ error: 'Failed to start embedding backfill', code: 'INTERNAL_ERROR' });
+  }
+};
+
+/**
+ * GET /api/embeddings/backfill/:job_id
+ * Returns the status and progress of a backfill job owned by the caller
+ */
+export const getBackfillStatus = async (req: Request, res: Response): Promise<void> => {
+  const userId = req.userId;
+  const { job_id } = req.params;
+
+  if (!userId) {
+    res.status(401).json({ error: 'Authentication required', code: 'NOT_AUTHENTICATED' });
+    return;
+  }
+
+  try {
+    // A malformed id cannot name a job
+    const job = jobIdSchema.safeParse(job_id).success ? await getJob(job_id) : null;
+
+    if (!job || job.type !== EMBEDDING_BACKFILL_JOB_TYPE) {
+      res.status(404).json({ error: 'Job not found', code: 'JOB_NOT_FOUND' });
+      return;
+    }
+
+    if (job.user_id !== userId) {
+      res.status(403).json({ error: 'Access denied', code: 'FORBIDDEN' });
+      return;
+    }
+
+    res.status(200).json({
+      job_id: job.job_id,
+      status: job.status,
+      progress: job.progress,
+      error: job.error,
+      created_at: job.created_at,
+      finished_at: job.finished_at,
+    });
+  } catch (error: any) {
+    console.error('Get embedding backfill status error:', error);
+    res.status(500).json({ error: 'Failed to retrieve job status', code: 'INTERNAL_ERROR' });
+  }
+};
@@ -4,14 +4,16 @@ import {
   getEmotionAnalysisByDiaryId,
   countEmotionAnalysisByUserId,
 } from "../models/emotionAnalysisModel";
+import {
+  createDiaryLetter,
+  findOrCreateDiaryLetter,
+  listDiaryLetters,
+} from "../services/emotion-letter.service";
+import { CreateEmotionAnalysisBody } from "../schemas/emotion.schema";
 
 export const createEmotionAnalysis = (req: Request, res: Response): void => {
-  const { user_id, diary_id, emotion_result } = req.body;
-
-  if (!user_id || !diary_id || !emotion_result) {
-    res.status(400).json({ error: "필수 데이터가 누락되었습니다." });
-    return;
-  }
+  const { diary_id, emotion_result }: CreateEmotionAnalysisBody = req.body;
+  const user_id = req.userId;
 
   saveEmotionAnalysis({ user_id, diary_id, emotion_result }, (err, result) => {
     if (err) {
@@ -65,3 +67,60 @@ export const getEmotionAnalysisCount = (req: Request, res: Response): void => {
     res.status(200).json({ totalEmotionResults: count });
   });
 };
+
+/**
+ * POST /api/diary/:diary_id/letter
+ * 일기의 현재 내용에 대한 무디타의 편지를 반환합니다. 없으면(수정 후 포함) 새로 생성해 저장합니다(201).
+ */
+export const getOrCreateDiaryLetter = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const diaryId = parseInt(req.params.diary_id);
+
+    const { letter, created } = await findOrCreateDiaryLetter(diaryId, req.profileName);
+    res.status(created ? 201 : 200).json({ letter });
+  } catch (error) {
+    console.error("편지 생성 중 오류 발생:", error);
+    res.status(500).json({ error: "편지 생성 중 오류 발생" });
+  }
+};
+
+/**
+ * POST /api/diary/:diary_id/letter/regenerate
+ * 편지를 새로 생성합니다. 이전 편지는 기록으로 남습니다.
+ */
+export const regenerateDiaryLetter = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const diaryId = parseInt(req.params.diary_id);
+
+    const letter = await createDiaryLetter(diaryId, req.profileName);
+    res.status(201).json({ letter });
+  } catch (error) {
+    console.error("편지 재생성 중 오류 발생:", error);
+    res.status(500).json({ error: "편지 재생성 중 오류 발생" });
+  }
+};
+
+/**
+ * GET /api/diary/:diary_id/letters
+ * 일기에 대해 생성된 편지 기록을 최신순으로 반환합니다. 수정 전 내용 기준의 편지는 stale: true.
+ */
+export const getDiaryLetterHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const diaryId = parseInt(req.params.diary_id);
+
+    const letters = await listDiaryLetters(diaryId);
+    res.status(200).json({ letters });
+  } catch (error) {
+    console.error("편지 기록 조회 중 오류 발생:", error);
+    res.status(500).json({ error: "DB 조회 중 오류 발생" });
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * Export Controller
+ * Account data takeout: small accounts download immediately, large ones poll a background job
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  ExportFormat,
+  ExportFile,
+  EXPORT_FORMATS,
+  ACCOUNT_EXPORT_JOB_TYPE,
+  SYNC_EXPORT_MAX_DIARIES,
+  countExportDiaries,
+  buildAccountExport,
+  startAccountExport,
+  readExportFile,
+} from '../services/account-export.service';
+import { BackgroundJob, getJob } from '../services/background-job.service';
+
+const jobIdSchema = z.string().uuid();
+
+// The requester's export job, or null for a malformed id or someone else's job
+async function findOwnExport(req: Request): Promise<BackgroundJob | null> {
+  if (!jobIdSchema.safeParse(req.params.job_id).success) {
+    return null;
+  }
+
+  const job = await getJob(req.params.job_id);
+  return job && job.type === ACCOUNT_EXPORT_JOB_TYPE && job.user_id === req.userId ? job : null;
+}
+
+function sendExportFile(res: Response, file: ExportFile): void {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).send(file.content);
+}
+
+/**
+ * GET /api/user/:user_id/export?format=json|markdown[&async=true]
+ * Returns the archive directly, or 202 with a job to poll when the account is large
+ */
+export const exportAccount = async (req: Request, res: Response): Promise<void> => {
+  const userId = req.userId!;
+  const format = (req.query.format ?? 'json') as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}`, code: 'INVALID_FORMAT' });
+    return;
+  }
+
+  try {
+    const diaryCount = await countExportDiaries(userId);
+
+    if (req.query.async === 'true' || diaryCount > SYNC_EXPORT_MAX_DIARIES) {
+      const job = await startAccountExport(userId, format);
+      res.status(202).json({ job_id: job.job_id, status: job.status, progress: job.progress });
+      return;
+    }
+
+    sendExportFile(res, await buildAccountExport(userId, format));
+  } catch (error: any) {
+    console.error('Account export error:', error);
+    res.status(500).json({ error: 'Failed to export account data', code: 'INTERNAL_ERROR' });
+  }
+};
+
+/**
+ * GET /api/user/:user_id/export/:job_id
+ * Returns the status of a background export
+ */
+export const getExportStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await findOwnExport(req);
+
+    if (!job) {
+      res.status(404).json({ error: 'Export not found', code: 'EXPORT_NOT_FOUND' });
+      return;
+    }
+
+    res.status(200).json({
+      job_id: job.job_id,
+      status: job.status,
+      progress: job.progress,
+      error: job.error,
+      expires_at: job.result?.expires_at ?? null,
+      download_url: job.status === 'completed' ? `${req.baseUrl}${req.path}/download` : null,
+    });
+  } catch (error: any) {
+    console.error('Get export status error:', error);
+    res.status(500).json({ error: 'Failed to retrieve export status', code: 'INTERNAL_ERROR' });
+  }
+};
+
+/**
+ * GET /api/user/:user_id/export/:job_id/download
+ * Downloads the archive of a completed export (until it expires)
+ */
+export const downloadExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await findOwnExport(req);
+
+    if (!job) {
+      res.status(404).json({ error: 'Export not found', code: 'EXPORT_NOT_FOUND' });
+      return;
+    }
+
+    const file = await readExportFile(job.job_id);
+    if (!file) {
+      res.status(410).json({ error: 'Export is not ready or has expired', code: 'EXPORT_UNAVAILABLE' });
+      return;
+    }
+
+    sendExportFile(res, file);
+  } catch (error: any) {
+    console.error('Download export error:', error);
+    res.status(500).json({ error: 'Failed to download export', code: 'INTERNAL_ERROR' });
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * Import Controller
+ * Diary import from other journaling apps, with a dry-run report before anything is saved
+ */
+
+import { Request, Response } from 'express';
+import {
+  ImportFile,
+  ImportFormat,
+  IMPORT_FORMATS,
+  importDiaries,
+} from '../services/diary-import.service';
+
+/**
+ * POST /api/user/:user_id/import?dry_run=true[&format=maegeul|markdown|csv|dayone]
+ * multipart/form-data with one or more `files`; the format is detected per file unless given
+ */
+export const importUserDiaries = async (req: Request, res: Response): Promise<void> => {
+  const userId = req.userId!;
+  const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+  const format = req.query.format as ImportFormat | undefined;
+
+  if (uploads.length === 0) {
+    res.status(400).json({ error: 'No files uploaded (use the "files" field)', code: 'NO_FILES' });
+    return;
+  }
+
+  if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+    res.status(400).json({ error: `format must be one of: ${IMPORT_FORMATS.join(', ')}`, code: 'INVALID_FORMAT' });
+    return;
+  }
+
+  const files: ImportFile[] = uploads.map((file) => ({
+    name: file.originalname,
+    content: file.buffer.toString('utf8').replace(/^\uFEFF/, ''),
+  }));
+
+  try {
+    const result = await importDiaries(userId, files, {
+      format,
+      dryRun: req.query.dry_run === 'true',
+    });
+
+    if (result.status === 'too_many_entries') {
+      res.status(413).json({
+        error: `Found ${result.found} entries; at most ${result.limit} can be imported at once`,
+        code: 'TOO_MANY_ENTRIES',
+      });
+      return;
+    }
+
+    const { report } = result;
+    res.status(report.imported > 0 ? 201 : 200).json(report);
+  } catch (error: any) {
+    console.error('Diary import error:', error);
+    res.status(500).json({ error: 'Failed to import diaries', code: 'INTERNAL_ERROR' });
+  }
+};
@@ -6,16 +6,19 @@ import {
   getLabelByUserId,
   getRecentMoodColorsByUserId,
 } from "../models/moodModel";
+import {
+  MAX_STATS_RANGE_DAYS,
+  getMoodStats as getMoodStatsForUser,
+  getMoodStatsRange,
+} from "../services/mood-analytics.service";
+import { getUserTimeSettings } from "../services/user-settings.service";
+import { isValidTimeZone, parseLocalDay, daysBetween } from "../util/timezone";
+import { CreateMoodMeterBody } from "../schemas/mood.schema";
 
 export const createMoodMeter = (req: Request, res: Response): void => {
-  const moodData = req.body;
-
-  if (!moodData.user_id || !moodData.pleasantness || !moodData.energy) {
-    res.status(400).json({ error: "필수 데이터가 누락되었습니다." });
-    return;
-  }
+  const moodData: CreateMoodMeterBody = req.body;
 
-  saveMoodMeter(moodData, (err, result) => {
+  saveMoodMeter({ ...moodData, user_id: req.userId }, (err, result) => {
     if (err) {
       console.error("DB 저장 중 오류 발생:", err);
       res.status(500).json({ error: "DB 저장 중 오류 발생" });
@@ -115,3 +118,59 @@ export const getRecentMoodColors = (req: Request, res: Response): void => {
     res.status(200).json(result || []);
   });
 };
+
+/**
+ * GET /api/moodmeter/stats/:user_id?from=YYYY-MM-DD&to=YYYY-MM-DD&tz=Asia/Seoul
+ * 무드 미터 시계열 통계 (기본: 오늘까지 최근 90일, 최대 366일, tz가 없으면 사용자 설정 시간대)
+ * 응답: { timezone, from, to, total_entries, averages, daily, weekly, monthly,
+ *         quadrants: [{ color, count, percentage }], volatility, heatmap: [{ weekday, hour, count, pleasantness, energy }] }
+ */
+export const getMoodStats = (req: Request, res: Response): void => {
+  const { user_id } = req.params;
+  const { from, to, tz } = req.query;
+
+  if (!user_id) {
+    res.status(400).json({ error: "user_id가 누락되었습니다." });
+    return;
+  }
+
+  const fromDay = typeof from === "string" && from ? parseLocalDay(from) : undefined;
+  const toDay = typeof to === "string" && to ? parseLocalDay(to) : undefined;
+  if (fromDay === null || toDay === null) {
+    res.status(400).json({ error: "from/to는 YYYY-MM-DD 형식의 날짜여야 합니다." });
+    return;
+  }
+
+  const requestedTimeZone = typeof tz === "string" && tz ? tz : undefined;
+  if (requestedTimeZone !== undefined && !isValidTimeZone(requestedTimeZone)) {
+    res.status(400).json({ error: "tz는 올바른 IANA 시간대여야 합니다. (예: Asia/Seoul)" });
+    return;
+  }
+
+  const userId = parseInt(user_id);
+  (requestedTimeZone
+    ? Promise.resolve(requestedTimeZone)
+    : getUserTimeSettings(userId).then((settings) => settings.timeZone)
+  )
+    .then((timeZone) => {
+      const range = getMoodStatsRange(fromDay ?? null, toDay ?? null, timeZone);
+      const days = daysBetween(range.from, range.to) + 1;
+
+      if (days < 1) {
+        res.status(400).json({ error: "from은 to보다 늦을 수 없습니다." });
+        return;
+      }
+      if (days > MAX_STATS_RANGE_DAYS) {
+        res.status(400).json({ error: `조회 기간은 최대 ${MAX_STATS_RANGE_DAYS}일입니다.` });
+        return;
+      }
+
+      return getMoodStatsForUser(userId, timeZone, range).then((stats) =>
+        res.status(200).json(stats)
+      );
+    })
+    .catch((err) => {
+      console.error("DB 조회 중 오류 발생:", err);
+      res.status(500).json({ error: "DB 조회 중 오류 발생" });
+    });
+};
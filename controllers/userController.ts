@@ -1,44 +1,40 @@
 import { Request, Response } from "express";
 import * as userModel from "../models/user";
-import jwt from "jsonwebtoken";
-import bcrypt from "bcrypt";
-import crypto from "crypto";
 import { put } from "@vercel/blob";
-
-// JWT_SECRET 검증
-const JWT_SECRET = (() => {
-  if (!process.env.JWT_SECRET) {
-    if (process.env.NODE_ENV === "production") {
-      console.error(
-        "⚠️  CRITICAL: JWT_SECRET is not set in production! This is a serious security risk."
-      );
-      process.exit(1);
-    }
-    console.warn(
-      "⚠️  JWT_SECRET not set. Using default for development only!"
-    );
-    return "dev-jwt-secret-change-in-production";
-  }
-  return process.env.JWT_SECRET;
-})();
+import {
+  startSession,
+  refreshSession,
+  revokeSession,
+  findSessionIdByRefreshToken,
+} from "../services/token.service";
+import {
+  changePassword as changeUserPassword,
+  requestPasswordReset,
+  resetPassword as resetUserPassword,
+  MIN_PASSWORD_LENGTH,
+  DIARY_RESET_NOTICE,
+} from "../services/password.service";
+import { MailNotConfiguredError } from "../services/mail-transport";
+import { isValidTimeZone, isValidLocale } from "../util/timezone";
+import {
+  RegisterBody,
+  LoginBody,
+  ResetPasswordBody,
+  ChangePasswordBody,
+  UpdateUserBody,
+} from "../schemas/user.schema";
 
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
     const {
       email,
       password,
-      salt,
       username,
       profile_name,
       age,
       gender,
       birthdate,
-    } = req.body;
-
-    if (!email || !password || !username) {
-      res.status(400).json({ message: "필수 항목이 누락되었습니다." });
-      return;
-    }
+    }: RegisterBody = req.body;
 
     // 프로필 사진이 업로드된 경우 Vercel Blob에 저장
     let profile_picture = req.body.profile_picture || null;
@@ -93,7 +89,6 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     const userData = {
       email,
       password,
-      salt,
       username,
       profile_name,
       age,
@@ -115,9 +110,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 };
 
 export const login = async (req: Request, res: Response): Promise<void> => {
-  const { email, password } = req.body;
-
-  console.log(req.body);
+  const { email, password }: LoginBody = req.body;
 
   userModel.select(email, password, async (err, user) => {
     console.log(user);
@@ -135,27 +128,103 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const token = jwt.sign(
-      { userId: user.user_id, profileName: user.profile_name || user.username },
-      JWT_SECRET,
-      { expiresIn: "1h" }
-    );
+    let tokens;
+    try {
+      tokens = await startSession(user, req.headers["user-agent"]);
+    } catch (sessionError) {
+      console.error("세션 생성 오류:", sessionError);
+      res.status(500).json({ message: "서버 오류" });
+      return;
+    }
 
     console.log("로그인 성공: ", user.profile_name, user.user_id);
 
     res.status(200).json({
       message: "로그인 성공",
-      token,
+      token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+      expires_in: tokens.expiresIn,
       user: {
         user_id: user.user_id,
         profile_name: user.profile_name,
         email: user.email,
         profile_picture: user.profile_picture,
+        timezone: user.timezone,
+        locale: user.locale,
       },
     });
   });
 };
 
+/**
+ * POST /api/token/refresh
+ * 리프레시 토큰을 새 액세스/리프레시 토큰 쌍으로 교환합니다 (사용한 리프레시 토큰은 폐기).
+ * 이미 사용된 리프레시 토큰이 다시 오면 탈취로 보고 해당 세션 전체를 폐기합니다.
+ */
+export const refreshToken = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { refresh_token } = req.body;
+
+  try {
+    const result = await refreshSession(refresh_token);
+
+    if (result.status !== "ok") {
+      const messages = {
+        invalid: "유효하지 않은 리프레시 토큰입니다.",
+        expired: "리프레시 토큰이 만료되었습니다. 다시 로그인해주세요.",
+        revoked: "로그아웃된 세션입니다. 다시 로그인해주세요.",
+        reused: "이미 사용된 리프레시 토큰입니다. 보안을 위해 다시 로그인해주세요.",
+      };
+      res.status(401).json({
+        message: messages[result.status],
+        error: `REFRESH_TOKEN_${result.status.toUpperCase()}`,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      token: result.tokens.accessToken,
+      refresh_token: result.tokens.refreshToken,
+      expires_in: result.tokens.expiresIn,
+    });
+  } catch (error) {
+    console.error("토큰 갱신 오류:", error);
+    res.status(500).json({ message: "토큰 갱신 중 오류가 발생했습니다." });
+  }
+};
+
+/**
+ * POST /api/logout
+ * 현재 세션을 폐기합니다. 액세스 토큰이 만료된 경우 body의 refresh_token으로 세션을 찾습니다.
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  const { refresh_token } = req.body ?? {};
+
+  try {
+    const sessionId =
+      req.sessionId ??
+      (typeof refresh_token === "string"
+        ? await findSessionIdByRefreshToken(refresh_token)
+        : null);
+
+    if (!sessionId) {
+      res.status(400).json({
+        message: "로그아웃할 세션을 찾을 수 없습니다.",
+        error: "NO_SESSION",
+      });
+      return;
+    }
+
+    await revokeSession(sessionId, "logout");
+    res.status(200).json({ message: "로그아웃 성공" });
+  } catch (error) {
+    console.error("로그아웃 오류:", error);
+    res.status(500).json({ message: "로그아웃 중 오류가 발생했습니다." });
+  }
+};
+
 export const getUser = (req: Request, res: Response): void => {
   const { user_id } = req.params;
 
@@ -190,8 +259,8 @@ export const updateUser = async (
   req: Request,
   res: Response
 ): Promise<void> => {
+  const user_id = req.userId;
   const {
-    user_id,
     username,
     email,
     profile_name,
@@ -200,19 +269,34 @@ export const updateUser = async (
     gender,
     login_type,
     profile_picture,
-  } = req.body;
+    timezone,
+    locale,
+  }: UpdateUserBody = req.body;
 
-  if (!user_id) {
-    res.status(400).json({ message: "사용자 ID가 필요합니다." });
+  // 비밀번호는 일기 키 재포장이 필요하므로 전용 엔드포인트에서만 변경
+  if (password) {
+    res.status(400).json({
+      message: "비밀번호는 PUT /api/user/password 로 변경해주세요.",
+      error: "PASSWORD_CHANGE_NOT_ALLOWED",
+    });
     return;
   }
 
-  let updatedPassword = null;
-  let salt = null;
+  // 시간대·언어는 날짜 계산과 표시에 쓰이므로 알 수 없는 값은 거부
+  if (timezone !== undefined && !isValidTimeZone(timezone)) {
+    res.status(400).json({
+      message: "지원하지 않는 시간대입니다. (예: Asia/Seoul)",
+      error: "INVALID_TIMEZONE",
+    });
+    return;
+  }
 
-  if (password) {
-    salt = crypto.randomBytes(16).toString("hex");
-    updatedPassword = await bcrypt.hash(password + salt, 10);
+  if (locale !== undefined && !isValidLocale(locale)) {
+    res.status(400).json({
+      message: "지원하지 않는 언어 설정입니다. (예: ko-KR)",
+      error: "INVALID_LOCALE",
+    });
+    return;
   }
 
   const userData = {
@@ -220,12 +304,12 @@ export const updateUser = async (
     username,
     email,
     profile_name,
-    password: updatedPassword || password,
-    salt: salt || null,
     age,
     gender,
     login_type,
     profile_picture,
+    timezone,
+    locale,
   };
 
   userModel.update(userData, (err, result) => {
@@ -241,6 +325,124 @@ export const updateUser = async (
   });
 };
 
+/**
+ * PUT /api/user/password
+ * 현재 비밀번호를 확인한 뒤 새 비밀번호로 변경합니다.
+ * 일기 데이터 키는 같은 트랜잭션에서 새 비밀번호 기준으로 다시 감싸지고,
+ * 현재 세션을 제외한 모든 세션은 로그아웃됩니다.
+ */
+export const changePassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { current_password, new_password }: ChangePasswordBody = req.body;
+
+  try {
+    const result = await changeUserPassword(
+      req.userId!,
+      current_password,
+      new_password,
+      req.sessionId
+    );
+
+    switch (result.status) {
+      case "ok":
+        res.status(200).json({
+          message: "비밀번호가 변경되었습니다. 다른 기기에서는 로그아웃됩니다.",
+          revoked_sessions: result.revokedSessions,
+        });
+        return;
+      case "weak_password":
+        res.status(400).json({
+          message: `새 비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`,
+          error: "WEAK_PASSWORD",
+        });
+        return;
+      case "invalid_current_password":
+        res.status(401).json({
+          message: "현재 비밀번호가 올바르지 않습니다.",
+          error: "INVALID_CURRENT_PASSWORD",
+        });
+        return;
+      case "not_local_account":
+        res.status(400).json({
+          message: "소셜 로그인 계정은 비밀번호를 변경할 수 없습니다.",
+          error: "NOT_LOCAL_ACCOUNT",
+        });
+        return;
+      case "not_found":
+        res.status(404).json({ message: "사용자를 찾을 수 없습니다." });
+        return;
+    }
+  } catch (error) {
+    console.error("비밀번호 변경 오류:", error);
+    res.status(500).json({ message: "비밀번호 변경 중 오류가 발생했습니다." });
+  }
+};
+
+/**
+ * POST /api/password/forgot
+ * 가입된 이메일이면 재설정 링크를 보냅니다. 가입 여부는 응답으로 알려주지 않습니다.
+ * 메일을 보낼 수 없는 환경이면(예: 프로덕션에서 MAIL_TRANSPORT=console) 가입 여부와 무관하게 503
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { email } = req.body;
+
+  try {
+    await requestPasswordReset(email);
+  } catch (error) {
+    if (error instanceof MailNotConfiguredError) {
+      console.error("비밀번호 재설정 메일을 보낼 수 없습니다:", error.message);
+      res.status(503).json({
+        message: "지금은 비밀번호 재설정 메일을 보낼 수 없습니다. 잠시 후 다시 시도해주세요.",
+        error: "MAIL_NOT_CONFIGURED",
+      });
+      return;
+    }
+    // 실패 여부가 가입 여부를 드러내지 않도록 응답은 항상 같음
+    console.error("비밀번호 재설정 요청 오류:", error);
+  }
+
+  res.status(200).json({
+    message: "가입된 이메일이라면 비밀번호 재설정 링크를 보냈습니다.",
+    diary_notice: DIARY_RESET_NOTICE,
+  });
+};
+
+/**
+ * POST /api/password/reset
+ * 재설정 토큰으로 새 비밀번호를 설정하고 모든 세션을 로그아웃합니다.
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { token, new_password }: ResetPasswordBody = req.body;
+
+  try {
+    const result = await resetUserPassword(token, new_password);
+
+    if (result.status !== "ok") {
+      res.status(400).json({
+        message: "재설정 링크가 만료되었거나 이미 사용되었습니다. 다시 요청해주세요.",
+        error: "INVALID_RESET_TOKEN",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      message: "비밀번호가 재설정되었습니다. 새 비밀번호로 로그인해주세요.",
+      diary_notice: DIARY_RESET_NOTICE,
+    });
+  } catch (error) {
+    console.error("비밀번호 재설정 오류:", error);
+    res.status(500).json({ message: "비밀번호 재설정 중 오류가 발생했습니다." });
+  }
+};
+
 export const deleteUser = (req: Request, res: Response): void => {
   const { user_id } = req.params;
 
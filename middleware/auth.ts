@@ -1,16 +1,10 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
-
-// JWT_SECRET 가져오기
-const JWT_SECRET = (() => {
-  if (!process.env.JWT_SECRET) {
-    if (process.env.NODE_ENV === "production") {
-      throw new Error("JWT_SECRET must be set in production");
-    }
-    return "dev-jwt-secret-change-in-production";
-  }
-  return process.env.JWT_SECRET;
-})();
+import {
+  JWT_SECRET,
+  AccessTokenPayload,
+  isSessionActive,
+} from "../services/token.service";
 
 // JWT 토큰에서 추출한 사용자 정보를 Request에 추가
 declare global {
@@ -18,6 +12,7 @@ declare global {
     interface Request {
       userId?: number;
       profileName?: string;
+      sessionId?: string;
     }
   }
 }
@@ -25,6 +20,7 @@ declare global {
 /**
  * JWT 토큰 인증 미들웨어
  * Authorization 헤더에서 Bearer 토큰을 추출하고 검증합니다.
+ * 세션(sid)이 있는 토큰은 로그아웃 등으로 세션이 폐기되었는지도 확인합니다.
  */
 export const authenticateToken = (
   req: Request,
@@ -60,11 +56,39 @@ export const authenticateToken = (
       }
 
       // 토큰에서 사용자 정보 추출
-      const payload = decoded as { userId: number; profileName: string };
-      req.userId = payload.userId;
-      req.profileName = payload.profileName;
+      const payload = decoded as AccessTokenPayload;
 
-      next();
+      // sid가 없는 토큰은 세션 도입 이전에 발급된 것으로, 만료(1시간)까지 허용
+      if (!payload.sid) {
+        req.userId = payload.userId;
+        req.profileName = payload.profileName;
+        next();
+        return;
+      }
+
+      isSessionActive(payload.sid).then(
+        (active) => {
+          if (!active) {
+            res.status(401).json({
+              message: "로그아웃되었거나 폐기된 세션입니다. 다시 로그인해주세요.",
+              error: "SESSION_REVOKED",
+            });
+            return;
+          }
+
+          req.userId = payload.userId;
+          req.profileName = payload.profileName;
+          req.sessionId = payload.sid;
+          next();
+        },
+        (sessionError) => {
+          console.error("Session check error:", sessionError);
+          res.status(500).json({
+            message: "인증 처리 중 오류가 발생했습니다.",
+            error: "AUTH_ERROR",
+          });
+        }
+      );
     });
   } catch (error) {
     console.error("Authentication error:", error);
@@ -93,27 +117,42 @@ export const optionalAuth = (
   }
 
   jwt.verify(token, JWT_SECRET, (err, decoded) => {
-    if (!err && decoded) {
-      const payload = decoded as { userId: number; profileName: string };
-      req.userId = payload.userId;
-      req.profileName = payload.profileName;
+    if (err || !decoded) {
+      next();
+      return;
     }
-    next();
+
+    const payload = decoded as AccessTokenPayload;
+    const sessionCheck = payload.sid
+      ? isSessionActive(payload.sid)
+      : Promise.resolve(true);
+
+    sessionCheck
+      .then((active) => {
+        if (active) {
+          req.userId = payload.userId;
+          req.profileName = payload.profileName;
+          req.sessionId = payload.sid;
+        }
+      })
+      .catch((sessionError) => {
+        console.error("Session check error:", sessionError);
+      })
+      .finally(() => next());
   });
 };
 
 /**
  * 사용자 ID 검증 미들웨어
- * 요청의 user_id 파라미터가 인증된 사용자의 ID와 일치하는지 확인합니다.
+ * URL의 user_id 파라미터가 인증된 사용자의 ID와 일치하는지 확인합니다.
+ * 요청 본문·쿼리의 user_id는 보지 않습니다 (본문으로 받는 작업은 req.userId를 사용).
  */
 export const verifyUserOwnership = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const requestedUserId = parseInt(
-    req.params.user_id || req.body.user_id || req.query.user_id
-  );
+  const requestedUserId = parseInt(req.params.user_id);
 
   if (!req.userId) {
     res.status(401).json({
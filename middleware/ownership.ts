@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import {
+  getDiaryOwnerId,
+  getSessionOwnerId,
+} from "../services/ownership.service";
+import { idSchema } from "../schemas/common.schema";
+
+// ID를 읽을 위치 (URL 경로 또는 요청 본문)
+type IdLocation = "params" | "body";
+
+interface OwnedResource<Id> {
+  field: string;
+  parseId: (raw: unknown) => Id | null;
+  findOwnerId: (id: Id) => Promise<number | null>;
+  notFound: { message: string; error: string };
+}
+
+const sessionIdSchema = z.string().uuid();
+
+const parseWith =
+  <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+  (raw: unknown): T | null => {
+    const result = schema.safeParse(raw);
+    return result.success ? result.data : null;
+  };
+
+/**
+ * 리소스 소유권 확인 미들웨어를 만듭니다.
+ * 소유자는 항상 토큰의 사용자(req.userId)와 비교하며, 요청에 담긴 user_id는 사용하지 않습니다.
+ * 리소스가 없으면(휴지통 포함) 404, 다른 사람의 것이면 403을 응답합니다.
+ * 본문에서 읽을 때 ID가 없으면 확인할 대상이 없으므로 그대로 통과합니다.
+ * field를 주면 기본 필드 이름 대신 그 필드에서 ID를 읽습니다. (예: source_session_id)
+ */
+const requireOwnership =
+  <Id>(resource: OwnedResource<Id>) =>
+  (location: IdLocation = "params", field: string = resource.field) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.userId) {
+      res.status(401).json({
+        message: "인증이 필요합니다.",
+        error: "NOT_AUTHENTICATED",
+      });
+      return;
+    }
+
+    const raw = req[location]?.[field];
+
+    if (location === "body" && (raw === undefined || raw === null)) {
+      next();
+      return;
+    }
+
+    const id = resource.parseId(raw);
+
+    if (id === null) {
+      res.status(400).json({
+        message: `${field}가 올바르지 않습니다.`,
+        error: "INVALID_ID",
+      });
+      return;
+    }
+
+    try {
+      const ownerId = await resource.findOwnerId(id);
+
+      if (ownerId === null) {
+        res.status(404).json(resource.notFound);
+        return;
+      }
+
+      if (ownerId !== req.userId) {
+        res.status(403).json({
+          message: "권한이 없습니다.",
+          error: "FORBIDDEN",
+        });
+        return;
+      }
+    } catch (error) {
+      console.error("소유권 확인 중 오류 발생:", error);
+      res.status(500).json({ message: "권한 확인 중 오류가 발생했습니다." });
+      return;
+    }
+
+    next();
+  };
+
+/**
+ * 일기 소유권 확인 (diary_id)
+ */
+export const requireDiaryOwnership = requireOwnership({
+  field: "diary_id",
+  parseId: parseWith(idSchema),
+  findOwnerId: getDiaryOwnerId,
+  notFound: { message: "일기를 찾을 수 없습니다.", error: "DIARY_NOT_FOUND" },
+});
+
+/**
+ * 채팅 세션 소유권 확인 (session_id)
+ */
+export const requireSessionOwnership = requireOwnership({
+  field: "session_id",
+  parseId: parseWith(sessionIdSchema),
+  findOwnerId: getSessionOwnerId,
+  notFound: { message: "대화를 찾을 수 없습니다.", error: "SESSION_NOT_FOUND" },
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { Request, Response } from 'express';
+import { validateBody } from './validate';
+import { createMoodMeterSchema } from '../schemas/mood.schema';
+import { createDiarySchema, patchDiarySchema } from '../schemas/diary.schema';
+import { MOOD_COLORS } from '../schemas/common.schema';
+
+/**
+ * Request body validation
+ * Every body is checked against its route schema; failures return 400 with the field errors
+ * and only the parsed (coerced, unknown keys removed) body reaches the controller.
+ */
+
+function createResponse() {
+  const res = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+  };
+  return res as unknown as Response & typeof res;
+}
+
+function run(schema: Parameters<typeof validateBody>[0], body: unknown) {
+  const req = { body } as Request;
+  const res = createResponse();
+  const next = vi.fn();
+
+  validateBody(schema)(req, res, next);
+
+  return { req, res, next };
+}
+
+const validMood = {
+  label: '설렘',
+  color: '노란색',
+  pleasantness: 8,
+  energy: 9,
+};
+
+describe('validateBody', () => {
+  it('should pass coerced values to the controller and drop unknown fields', () => {
+    const { req, res, next } = run(createMoodMeterSchema, {
+      ...validMood,
+      pleasantness: '8',
+      user_id: 99, // the owner always comes from the token
+    });
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.status).not.toHaveBeenCalled();
+    expect(req.body).toEqual(validMood);
+  });
+
+  it('should reject mood values outside the 1-10 scale', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.integer({ max: 0 }), fc.integer({ min: 11 }), fc.double({ min: 1.01, max: 9.99, noInteger: true })),
+        (pleasantness) => {
+          const { res, next } = run(createMoodMeterSchema, { ...validMood, pleasantness });
+
+          // Property: the controller never sees an out-of-range value
+          expect(next).not.toHaveBeenCalled();
+          expect(res.status).toHaveBeenCalledWith(400);
+          expect(res.json.mock.calls[0][0].fields.map((f: { field: string }) => f.field)).toEqual(['pleasantness']);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should list every invalid field in one response', () => {
+    const { res, next } = run(createDiarySchema, { title: '  ', color: '보라색' });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      message: '요청 형식이 올바르지 않습니다.',
+      error: 'VALIDATION_ERROR',
+      fields: [
+        { field: 'title', message: '비어 있을 수 없습니다.' },
+        { field: 'content', message: '필수 항목입니다.' },
+        { field: 'color', message: `다음 중 하나여야 합니다: ${MOOD_COLORS.join(', ')}` },
+      ],
+    });
+  });
+
+  it('should require at least one field for a partial diary update', () => {
+    expect(run(patchDiarySchema, {}).res.status).toHaveBeenCalledWith(400);
+    expect(run(patchDiarySchema, undefined).res.status).toHaveBeenCalledWith(400);
+    expect(run(patchDiarySchema, { color: '파란색' }).next).toHaveBeenCalledOnce();
+  });
+});
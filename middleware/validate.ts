@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// zod 기본 메시지(영어)를 API의 다른 오류 메시지처럼 한국어로 바꿈
+export const koreanErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === z.ZodParsedType.undefined) {
+        return { message: "필수 항목입니다." };
+      }
+      if (issue.received === z.ZodParsedType.nan) {
+        return { message: "숫자여야 합니다." };
+      }
+      if (issue.expected === z.ZodParsedType.integer) {
+        return { message: "정수여야 합니다." };
+      }
+      return { message: `${issue.expected} 형식이어야 합니다.` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `다음 중 하나여야 합니다: ${issue.options.join(", ")}` };
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === "email") {
+        return { message: "올바른 이메일 형식이 아닙니다." };
+      }
+      return { message: "형식이 올바르지 않습니다." };
+    case z.ZodIssueCode.too_small:
+      if (issue.type === "string") {
+        return {
+          message:
+            issue.minimum === 1
+              ? "비어 있을 수 없습니다."
+              : `${issue.minimum}자 이상이어야 합니다.`,
+        };
+      }
+      if (issue.type === "number") {
+        return { message: `${issue.minimum} 이상이어야 합니다.` };
+      }
+      return { message: ctx.defaultError };
+    case z.ZodIssueCode.too_big:
+      if (issue.type === "string") {
+        return { message: `${issue.maximum}자 이하여야 합니다.` };
+      }
+      if (issue.type === "number") {
+        return { message: `${issue.maximum} 이하여야 합니다.` };
+      }
+      return { message: ctx.defaultError };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+export const toFieldErrors = (error: z.ZodError): FieldError[] =>
+  error.issues.map((issue) => ({
+    field: issue.path.join("."),
+    message: issue.message,
+  }));
+
+/**
+ * 요청 본문을 zod 스키마로 검증하는 미들웨어
+ * 실패하면 400과 필드별 오류 목록을 응답하고, 성공하면 req.body를 검증·변환된 값으로 바꿉니다.
+ * (스키마에 없는 필드는 제거되므로 컨트롤러는 검증된 필드만 받습니다.)
+ */
+export const validateBody =
+  (schema: z.ZodTypeAny) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.body ?? {}, {
+      errorMap: koreanErrorMap,
+    });
+
+    if (!result.success) {
+      res.status(400).json({
+        message: "요청 형식이 올바르지 않습니다.",
+        error: "VALIDATION_ERROR",
+        fields: toFieldErrors(result.error),
+      });
+      return;
+    }
+
+    req.body = result.data;
+    next();
+  };
@@ -1,6 +1,8 @@
 import prisma from "../db";
-import { encrypt, decrypt, generateEncryptionKey } from "../util/encrypt";
-import { Diary } from "@prisma/client";
+import { decrypt } from "../util/encrypt";
+import { Diary, Prisma } from "@prisma/client";
+import { UserKeyring, getKeyForVersion } from "../services/key-management.service";
+import { DEFAULT_TIMEZONE, toLocalTime } from "../util/timezone";
 
 type Callback<T> = (error: Error | null, result?: T) => void;
 
@@ -9,30 +11,92 @@ interface DiaryData {
   title: string;
   encryptedContent: string;
   color: string;
+  key_version: number;
+  date?: Date; // 가져오기 시 원래 작성 시각 유지 (없으면 현재 시각)
+  source_session_id?: string; // 채팅 대화로 만든 일기의 원본 세션
+}
+
+interface DiaryUpdateData {
+  title?: string;
+  encryptedContent?: string;
+  color?: string;
+  key_version?: number;
 }
 
 interface DiaryWithFormattedDate extends Diary {
   formatted_date: string;
 }
 
-interface ConsecutiveDaysResult {
-  start_date: string;
-  consecutive_days: number;
+interface DiaryUpdateResult {
+  diary: Diary;
+  staleEmotionAnalyses: number;
+}
+
+export type DiarySortField = "date" | "title";
+export type DiarySortOrder = "asc" | "desc";
+
+// 커서는 만들어진 정렬(sort/order)에서만 유효
+export interface DiaryCursor {
+  sort: DiarySortField;
+  order: DiarySortOrder;
+  value: string;
+  diary_id: number;
+}
+
+export interface DiaryListOptions {
+  sort: DiarySortField;
+  order: DiarySortOrder;
+  limit: number;
+  cursor?: DiaryCursor;
+  from?: Date;
+  to?: Date;
+  color?: string;
+  title?: string;
+  timeZone?: string; // formatted_date(작성 시각)를 표시할 사용자 시간대
+}
+
+interface DiaryPage {
+  items: DiaryWithFormattedDate[];
+  pageInfo: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+  totalCount: number;
+}
+
+interface TrashedDiary {
+  diary_id: number;
+  title: string;
+  color: string;
+  date: Date;
+  deleted_at: Date | null;
 }
 
 export const saveDiary = async (
   diaryData: DiaryData,
-  callback: Callback<Diary>
+  callback: Callback<Diary>,
+  client: Prisma.TransactionClient | typeof prisma = prisma // 트랜잭션 안에서 저장할 때
 ): Promise<void> => {
   try {
-    const { user_id, title, encryptedContent, color } = diaryData;
+    const {
+      user_id,
+      title,
+      encryptedContent,
+      color,
+      key_version,
+      date,
+      source_session_id,
+    } = diaryData;
 
-    const result = await prisma.diary.create({
+    const result = await client.diary.create({
       data: {
         user_id: parseInt(String(user_id)),
         title,
         content: encryptedContent,
         color,
+        key_version,
+        ...(date && { date }),
+        ...(source_session_id && { source_session_id }),
       },
     });
 
@@ -43,58 +107,211 @@ export const saveDiary = async (
   }
 };
 
+export const encodeDiaryCursor = (cursor: DiaryCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+// 잘못된 커서면 null 반환
+export const decodeDiaryCursor = (raw: string): DiaryCursor | null => {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      (parsed?.sort !== "date" && parsed?.sort !== "title") ||
+      (parsed?.order !== "asc" && parsed?.order !== "desc") ||
+      typeof parsed?.value !== "string" ||
+      !Number.isInteger(parsed?.diary_id)
+    ) {
+      return null;
+    }
+    return {
+      sort: parsed.sort,
+      order: parsed.order,
+      value: parsed.value,
+      diary_id: parsed.diary_id,
+    };
+  } catch {
+    return null;
+  }
+};
+
+// 일기 복호화 및 작성 시각 포맷팅 (사용자 시간대 기준 HH:mm)
+const decryptDiary = (
+  diary: Diary,
+  keyring: UserKeyring,
+  timeZone: string = DEFAULT_TIMEZONE
+): DiaryWithFormattedDate => {
+  let decryptedContent: string;
+  try {
+    decryptedContent = decrypt(
+      diary.content,
+      getKeyForVersion(keyring, diary.key_version)
+    );
+  } catch (error) {
+    console.error("일기 복호화 중 오류 발생:", error);
+    decryptedContent = "복호화 실패";
+  }
+
+  const formatted_date = toLocalTime(new Date(diary.date), timeZone);
+
+  return {
+    ...diary,
+    content: decryptedContent,
+    formatted_date,
+  };
+};
+
+// 일기 목록 커서 페이지네이션
+// 커서는 마지막 항목의 정렬 값과 diary_id를 담은 base64url JSON (정렬 값이 같아도 순서가 안정적)
 export const getDiariesByUserId = async (
   user_id: number,
-  encryptionKey: string,
-  callback: Callback<DiaryWithFormattedDate[]>
+  keyring: UserKeyring,
+  options: DiaryListOptions,
+  callback: Callback<DiaryPage>
 ): Promise<void> => {
   try {
-    const diaries = await prisma.diary.findMany({
-      where: { user_id: parseInt(String(user_id)) },
-      orderBy: { date: "desc" },
-      select: {
-        diary_id: true,
-        user_id: true,
-        title: true,
-        content: true,
-        color: true,
-        date: true,
+    const { sort, order, limit, cursor, from, to, color, title, timeZone } = options;
+    const op = order === "desc" ? "lt" : "gt";
+    const cursorValue =
+      cursor && (sort === "date" ? new Date(cursor.value) : cursor.value);
+
+    const where: Prisma.DiaryWhereInput = {
+      user_id: parseInt(String(user_id)),
+      deleted_at: null,
+      ...((from || to) && {
+        date: {
+          ...(from && { gte: from }),
+          ...(to && { lt: to }),
+        },
+      }),
+      ...(color && { color }),
+      ...(title && { title: { contains: title, mode: "insensitive" } }),
+    };
+
+    const keyset: Prisma.DiaryWhereInput | undefined = cursor && {
+      OR: [
+        { [sort]: { [op]: cursorValue } },
+        { [sort]: cursorValue, diary_id: { [op]: cursor.diary_id } },
+      ],
+    };
+
+    const [totalCount, diaries] = await Promise.all([
+      prisma.diary.count({ where }),
+      prisma.diary.findMany({
+        where: keyset ? { AND: [where, keyset] } : where,
+        orderBy: [{ [sort]: order }, { diary_id: order }],
+        take: limit + 1,
+        select: {
+          diary_id: true,
+          user_id: true,
+          title: true,
+          content: true,
+          color: true,
+          date: true,
+          key_version: true,
+          content_version: true,
+          deleted_at: true,
+          source_session_id: true,
+        },
+      }),
+    ]);
+
+    const hasMore = diaries.length > limit;
+    const page = diaries.slice(0, limit);
+    const last = page[page.length - 1];
+
+    callback(null, {
+      items: page.map((diary) => decryptDiary(diary, keyring, timeZone)),
+      pageInfo: {
+        nextCursor:
+          hasMore && last
+            ? encodeDiaryCursor({
+                sort,
+                order,
+                value: sort === "date" ? last.date.toISOString() : last.title,
+                diary_id: last.diary_id,
+              })
+            : null,
+        hasMore,
       },
+      totalCount,
     });
+  } catch (error) {
+    console.error("Get diaries error:", error);
+    callback(error as Error, undefined);
+  }
+};
 
-    const decryptedDiaries = diaries.map((diary) => {
-      let decryptedContent: string;
-      try {
-        decryptedContent = decrypt(diary.content, encryptionKey);
-      } catch (error) {
-        console.error("일기 복호화 중 오류 발생:", error);
-        decryptedContent = "복호화 실패";
-      }
-
-      const date = new Date(diary.date);
-      const formatted_date = `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
-
-      return {
-        ...diary,
-        content: decryptedContent,
-        formatted_date,
-      };
+export const getDiaryById = async (
+  diary_id: number,
+  keyring: UserKeyring,
+  timeZone: string,
+  callback: Callback<DiaryWithFormattedDate | null>
+): Promise<void> => {
+  try {
+    const diary = await prisma.diary.findUnique({
+      where: { diary_id: parseInt(String(diary_id)), deleted_at: null },
     });
 
-    callback(null, decryptedDiaries);
+    if (!diary) {
+      callback(null, null);
+      return;
+    }
+
+    callback(null, decryptDiary(diary, keyring, timeZone));
   } catch (error) {
-    console.error("Get diaries error:", error);
+    console.error("Get diary error:", error);
     callback(error as Error, undefined);
   }
 };
 
+// 일기 수정 (내용이 바뀌면 content_version을 올려 이전 내용 기준의 편지를 기록으로만 남김)
+export const updateDiaryById = async (
+  diary_id: number,
+  updateData: DiaryUpdateData,
+  callback: Callback<DiaryUpdateResult>
+): Promise<void> => {
+  try {
+    const diaryId = parseInt(String(diary_id));
+    const { title, encryptedContent, color, key_version } = updateData;
+
+    const diaryUpdate = prisma.diary.update({
+      where: { diary_id: diaryId },
+      data: {
+        ...(title !== undefined && { title }),
+        ...(encryptedContent !== undefined && {
+          content: encryptedContent,
+          key_version,
+          content_version: { increment: 1 },
+        }),
+        ...(color !== undefined && { color }),
+      },
+    });
+
+    if (encryptedContent === undefined) {
+      const diary = await diaryUpdate;
+      callback(null, { diary, staleEmotionAnalyses: 0 });
+      return;
+    }
+
+    // 지금까지의 편지는 모두 수정 전 내용 기준 (삭제하지 않고 기록으로 남김)
+    const [diary, stale] = await prisma.$transaction([
+      diaryUpdate,
+      prisma.emotionAnalysis.count({ where: { diary_id: diaryId } }),
+    ]);
+
+    callback(null, { diary, staleEmotionAnalyses: stale });
+  } catch (error) {
+    console.error("Update diary error:", error);
+    callback(error as Error);
+  }
+};
+
 export const countDiariesByUserId = async (
   user_id: number,
   callback: Callback<number>
 ): Promise<void> => {
   try {
     const totalDiaries = await prisma.diary.count({
-      where: { user_id: parseInt(String(user_id)) },
+      where: { user_id: parseInt(String(user_id)), deleted_at: null },
     });
 
     callback(null, totalDiaries);
@@ -104,45 +321,84 @@ export const countDiariesByUserId = async (
   }
 };
 
-export const getConsecutiveDaysByUserId = async (
+// 휴지통으로 이동 (본인 일기이고 아직 삭제되지 않은 경우만, 없으면 null)
+export const trashDiaryById = async (
+  diary_id: number,
   user_id: number,
-  callback: Callback<ConsecutiveDaysResult[]>
+  callback: Callback<Date | null>
 ): Promise<void> => {
   try {
-    const result = await prisma.$queryRaw<ConsecutiveDaysResult[]>`
-      SELECT
-        TO_CHAR(MIN(date), 'YYYY-MM-DD') AS start_date,
-        EXTRACT(DAY FROM (MAX(date) - MIN(date))) + 1 AS consecutive_days
-      FROM (
-        SELECT date,
-               ROW_NUMBER() OVER (ORDER BY date) -
-               EXTRACT(DAY FROM (date - MIN(date) OVER (PARTITION BY user_id))) AS grp
-        FROM "Diary"
-        WHERE user_id = ${parseInt(String(user_id))}
-      ) AS subquery
-      GROUP BY grp
-      ORDER BY start_date
-    `;
+    const deletedAt = new Date();
+    const { count } = await prisma.diary.updateMany({
+      where: { diary_id: parseInt(String(diary_id)), user_id, deleted_at: null },
+      data: { deleted_at: deletedAt },
+    });
 
-    callback(null, result);
+    callback(null, count > 0 ? deletedAt : null);
   } catch (error) {
-    console.error("Get consecutive days error:", error);
+    console.error("Trash diary error:", error);
+    callback(error as Error);
+  }
+};
+
+// 휴지통 목록 (본문은 복호화하지 않음)
+export const getTrashedDiariesByUserId = async (
+  user_id: number,
+  callback: Callback<TrashedDiary[]>
+): Promise<void> => {
+  try {
+    const diaries = await prisma.diary.findMany({
+      where: { user_id, deleted_at: { not: null } },
+      orderBy: { deleted_at: "desc" },
+      select: {
+        diary_id: true,
+        title: true,
+        color: true,
+        date: true,
+        deleted_at: true,
+      },
+    });
+
+    callback(null, diaries);
+  } catch (error) {
+    console.error("Get trashed diaries error:", error);
     callback(error as Error, undefined);
   }
 };
 
-export const deleteDiaryById = async (
+// 휴지통에서 복원 (휴지통에 있는 본인 일기만)
+export const restoreDiaryById = async (
   diary_id: number,
-  callback: Callback<Diary>
+  user_id: number,
+  callback: Callback<boolean>
 ): Promise<void> => {
   try {
-    const result = await prisma.diary.delete({
-      where: { diary_id: parseInt(String(diary_id)) },
+    const { count } = await prisma.diary.updateMany({
+      where: { diary_id: parseInt(String(diary_id)), user_id, deleted_at: { not: null } },
+      data: { deleted_at: null },
     });
 
-    callback(null, result);
+    callback(null, count > 0);
+  } catch (error) {
+    console.error("Restore diary error:", error);
+    callback(error as Error);
+  }
+};
+
+// 영구 삭제 (휴지통에 있는 본인 일기만, 임베딩·감정 분석은 CASCADE로 함께 삭제)
+export const purgeDiaryById = async (
+  diary_id: number,
+  user_id: number,
+  callback: Callback<boolean>
+): Promise<void> => {
+  try {
+    const { count } = await prisma.diary.deleteMany({
+      where: { diary_id: parseInt(String(diary_id)), user_id, deleted_at: { not: null } },
+    });
+
+    callback(null, count > 0);
   } catch (error) {
-    console.error("Delete diary error:", error);
+    console.error("Purge diary error:", error);
     callback(error as Error);
   }
 };
@@ -16,11 +16,18 @@ export const saveEmotionAnalysis = async (
   try {
     const { user_id, diary_id, emotion_result } = analysisData;
 
+    // 편지가 어느 내용 기준인지 기록 (일기가 수정되면 content_version이 올라감)
+    const diary = await prisma.diary.findUnique({
+      where: { diary_id: parseInt(String(diary_id)) },
+      select: { content_version: true },
+    });
+
     const result = await prisma.emotionAnalysis.create({
       data: {
         user_id: parseInt(String(user_id)),
         diary_id: parseInt(String(diary_id)),
         emotion_result,
+        content_version: diary?.content_version,
       },
     });
 
@@ -36,8 +43,15 @@ export const getEmotionAnalysisByDiaryId = async (
   callback: Callback<string | null>
 ): Promise<void> => {
   try {
-    const result = await prisma.emotionAnalysis.findFirst({
+    const diary = await prisma.diary.findUnique({
       where: { diary_id: parseInt(String(diary_id)) },
+      select: { content_version: true },
+    });
+
+    // 수정 전 내용 기준의 편지는 기록으로만 남아 있으므로 제외
+    const result = await prisma.emotionAnalysis.findFirst({
+      where: { diary_id: parseInt(String(diary_id)), content_version: diary?.content_version },
+      orderBy: [{ created_at: "desc" }, { id: "desc" }],
       select: { emotion_result: true },
     });
 
@@ -58,7 +72,7 @@ export const countEmotionAnalysisByUserId = async (
 ): Promise<void> => {
   try {
     const totalEmotionResults = await prisma.emotionAnalysis.count({
-      where: { user_id: parseInt(String(user_id)) },
+      where: { user_id: parseInt(String(user_id)), diary: { deleted_at: null } },
     });
 
     callback(null, totalEmotionResults);
@@ -1,29 +1,23 @@
 import prisma from "../db";
-import { MoodMeter } from "@prisma/client";
+import { MoodMeter, Prisma } from "@prisma/client";
+import { CreateMoodMeterBody } from "../schemas/mood.schema";
 
 type Callback<T> = (error: Error | null, result?: T) => void;
 
-interface MoodData {
-  user_id: number;
-  label: string;
-  color: string;
-  pleasantness: number;
-  energy: number;
-}
-
 interface ColorCountResult {
   color: string;
   count: number;
 }
 
 export const saveMoodMeter = async (
-  moodData: MoodData,
-  callback: Callback<MoodMeter>
+  moodData: CreateMoodMeterBody & { user_id: number },
+  callback: Callback<MoodMeter>,
+  client: Prisma.TransactionClient | typeof prisma = prisma // 트랜잭션 안에서 저장할 때
 ): Promise<void> => {
   try {
     const { user_id, label, color, pleasantness, energy } = moodData;
 
-    const result = await prisma.moodMeter.create({
+    const result = await client.moodMeter.create({
       data: {
         user_id: parseInt(String(user_id)),
         label,
@@ -1,4 +1,3 @@
-import bcrypt from "bcrypt";
 import prisma from "../db";
 import {
   generateEncryptionKey,
@@ -6,6 +5,7 @@ import {
 } from "../util/encrypt";
 import crypto from "crypto";
 import { User } from "@prisma/client";
+import { hashPassword } from "../services/password.service";
 
 type Callback<T> = (error: Error | null, result?: T) => void;
 
@@ -33,16 +33,18 @@ interface InsertUserData {
   profile_picture?: string;
 }
 
+// 비밀번호는 일기 키 재포장이 필요하므로 password.service의 changePassword로만 변경
 interface UpdateUserData {
   user_id: number;
   username: string;
   email: string;
   profile_name: string;
-  password: string;
   age?: number;
   gender?: string;
   login_type: string;
   profile_picture?: string;
+  timezone?: string; // IANA 시간대 (예: "Asia/Seoul")
+  locale?: string; // 날짜 표시 언어 (예: "ko-KR")
 }
 
 // 카카오 로그인 로직
@@ -154,9 +156,7 @@ export const insertUser = async (
     // salt 생성
     const salt = crypto.randomBytes(16).toString("hex");
     // PBKDF2를 사용한 비밀번호 해싱
-    const hashedPassword = crypto
-      .pbkdf2Sync(data.password, salt, 10000, 64, "sha512")
-      .toString("hex");
+    const hashedPassword = hashPassword(data.password, salt);
 
     const newUser = await prisma.user.create({
       data: {
@@ -199,9 +199,7 @@ export const select = async (
     }
 
     // 저장된 salt를 사용해 입력된 비밀번호를 다시 해싱
-    const hashedInputPassword = crypto
-      .pbkdf2Sync(password, user.salt, 10000, 64, "sha512")
-      .toString("hex");
+    const hashedInputPassword = hashPassword(password, user.salt);
 
     // 해싱된 비밀번호가 일치하는지 비교
     if (hashedInputPassword === user.password) {
@@ -261,22 +259,18 @@ export const update = async (
   cb: Callback<User> = () => {}
 ): Promise<void> => {
   try {
-    // 비밀번호가 수정된 경우에만 암호화
-    const hashedPassword = data.password
-      ? await bcrypt.hash(data.password, 10)
-      : null;
-
     const updatedUser = await prisma.user.update({
       where: { user_id: parseInt(String(data.user_id)) },
       data: {
         username: data.username,
         email: data.email,
         profile_name: data.profile_name,
-        password: hashedPassword || data.password,
         age: data.age,
         gender: data.gender,
         login_type: data.login_type,
         profile_picture: data.profile_picture,
+        timezone: data.timezone,
+        locale: data.locale,
       },
     });
 
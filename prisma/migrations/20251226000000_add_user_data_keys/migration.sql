@@ -0,0 +1,21 @@
+-- Per-user data keys for diary encryption
+-- The data key is wrapped by a key-encryption key derived from the user's credentials,
+-- so credential changes only re-wrap the key instead of re-encrypting every diary.
+
+-- CreateTable
+CREATE TABLE "user_keys" (
+    "user_id" INTEGER NOT NULL,
+    "wrapped_key" TEXT NOT NULL,
+    "key_version" INTEGER NOT NULL DEFAULT 0,
+    "previous_wrapped_key" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_keys_pkey" PRIMARY KEY ("user_id")
+);
+
+-- AlterTable: key version used to encrypt each diary (0 = legacy credential-derived key)
+ALTER TABLE "Diary" ADD COLUMN "key_version" INTEGER NOT NULL DEFAULT 0;
+
+-- AddForeignKey
+ALTER TABLE "user_keys" ADD CONSTRAINT "user_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
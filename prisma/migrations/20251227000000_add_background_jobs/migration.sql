@@ -0,0 +1,29 @@
+-- Background jobs (diary re-encryption, embedding backfill, ...)
+-- Jobs persist a cursor so an interrupted or failed run can resume where it stopped.
+
+-- CreateTable
+CREATE TABLE "background_jobs" (
+    "job_id" UUID NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "user_id" INTEGER,
+    "progress" JSONB NOT NULL DEFAULT '{}',
+    "cursor" VARCHAR(255),
+    "error" TEXT,
+    "result" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "background_jobs_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE INDEX "background_jobs_type_status_idx" ON "background_jobs"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "background_jobs_user_id_idx" ON "background_jobs"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "background_jobs" ADD CONSTRAINT "background_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
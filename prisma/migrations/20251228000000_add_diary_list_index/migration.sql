@@ -0,0 +1,4 @@
+-- Supports cursor pagination of a user's diaries ordered by date (diary_id breaks ties)
+
+-- CreateIndex
+CREATE INDEX "Diary_user_id_date_diary_id_idx" ON "Diary"("user_id", "date", "diary_id");
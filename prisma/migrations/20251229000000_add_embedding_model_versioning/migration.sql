@@ -0,0 +1,40 @@
+-- Record which embedding model produced each vector so models can be switched without
+-- mixing incompatible vectors in a search.
+--
+-- The vector columns become dimension-less (`vector`) so models with different dimensions
+-- can coexist. ivfflat needs a fixed dimension, so each model gets a partial expression index
+-- that casts to its dimension; queries use the same cast and model filter to hit it.
+--
+-- Switching to a new model (e.g. text-embedding-3-large, 3072 dims):
+--   1. Set EMBEDDING_SECONDARY_MODEL / EMBEDDING_SECONDARY_DIMENSION → new diaries are written for both models
+--   2. npm run embeddings -- backfill → fills the new model's vectors for existing diaries
+--   3. Create the new model's index, e.g.
+--        CREATE INDEX "idx_diary_embeddings_vector_3_large" ON "diary_embeddings"
+--        USING hnsw ((embedding::vector(3072)) vector_cosine_ops) WHERE model = 'text-embedding-3-large';
+--      (ivfflat/hnsw support up to 2000 dims; larger models need halfvec or a sequential scan)
+--   4. Swap EMBEDDING_MODEL and EMBEDDING_SECONDARY_MODEL → searches use the new model
+--   5. Unset EMBEDDING_SECONDARY_MODEL, then npm run embeddings -- prune <old model>
+
+-- diary_embeddings: one row per (diary, model)
+ALTER TABLE "diary_embeddings" ADD COLUMN "model" VARCHAR(100) NOT NULL DEFAULT 'text-embedding-3-small';
+ALTER TABLE "diary_embeddings" ADD COLUMN "dimension" INTEGER NOT NULL DEFAULT 1536;
+
+DROP INDEX IF EXISTS "idx_diary_embeddings_vector";
+ALTER TABLE "diary_embeddings" ALTER COLUMN "embedding" TYPE vector;
+
+DROP INDEX IF EXISTS "diary_embeddings_diary_id_key";
+CREATE UNIQUE INDEX "diary_embeddings_diary_id_model_key" ON "diary_embeddings"("diary_id", "model");
+
+CREATE INDEX "idx_diary_embeddings_vector_3_small" ON "diary_embeddings"
+USING ivfflat ((embedding::vector(1536)) vector_cosine_ops) WITH (lists = 100)
+WHERE model = 'text-embedding-3-small';
+
+-- semantic_cache: cached queries only match queries embedded with the same model
+ALTER TABLE semantic_cache ADD COLUMN model VARCHAR(100) NOT NULL DEFAULT 'text-embedding-3-small';
+
+DROP INDEX IF EXISTS idx_semantic_cache_embedding;
+ALTER TABLE semantic_cache ALTER COLUMN query_embedding TYPE vector;
+
+CREATE INDEX idx_semantic_cache_embedding_3_small ON semantic_cache
+USING ivfflat ((query_embedding::vector(1536)) vector_cosine_ops) WITH (lists = 100)
+WHERE model = 'text-embedding-3-small';
@@ -0,0 +1,8 @@
+-- Letters generated on the server record the model and prompt version that produced them.
+-- Rows saved through POST /api/emotion (client-provided text) leave both NULL.
+ALTER TABLE "EmotionAnalysis" ADD COLUMN "model" VARCHAR(100);
+ALTER TABLE "EmotionAnalysis" ADD COLUMN "prompt_version" VARCHAR(50);
+
+-- A diary can have several letters (regenerations); history is read newest first
+DROP INDEX "EmotionAnalysis_diary_id_idx";
+CREATE INDEX "EmotionAnalysis_diary_id_created_at_idx" ON "EmotionAnalysis"("diary_id", "created_at");
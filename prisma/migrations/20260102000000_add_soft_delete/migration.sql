@@ -0,0 +1,14 @@
+-- Soft delete: trashed diaries and chat sessions keep their rows (and embeddings,
+-- letters, messages) until they are restored or purged after the retention period
+
+-- AlterTable
+ALTER TABLE "Diary" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Diary_deleted_at_idx" ON "Diary"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_deleted_at_idx" ON "chat_sessions"("deleted_at");
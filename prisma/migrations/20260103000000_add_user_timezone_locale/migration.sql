@@ -0,0 +1,6 @@
+-- Per-user time zone and locale: "today", "this week", streaks and displayed dates
+-- are computed on the user's calendar instead of the server's
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "timezone" VARCHAR(64) NOT NULL DEFAULT 'Asia/Seoul',
+ADD COLUMN "locale" VARCHAR(20) NOT NULL DEFAULT 'ko-KR';
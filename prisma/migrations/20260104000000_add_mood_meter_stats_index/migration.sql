@@ -0,0 +1,4 @@
+-- Supports mood meter statistics over a user's entries in a date range
+
+-- CreateIndex
+CREATE INDEX "MoodMeter_user_id_created_at_idx" ON "MoodMeter"("user_id", "created_at");
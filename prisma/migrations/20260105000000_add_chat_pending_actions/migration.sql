@@ -0,0 +1,22 @@
+-- Proposals from the chatbot's write tools, applied only after the user confirms them
+
+-- CreateTable
+CREATE TABLE "chat_pending_actions" (
+    "action_id" UUID NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "tool_name" VARCHAR(100) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "result" JSONB,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "chat_pending_actions_pkey" PRIMARY KEY ("action_id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_pending_actions_user_id_status_idx" ON "chat_pending_actions"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "chat_pending_actions" ADD CONSTRAINT "chat_pending_actions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Link from a diary drafted from a chat session back to that session
+
+-- AlterTable
+ALTER TABLE "Diary" ADD COLUMN "source_session_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "Diary_source_session_id_idx" ON "Diary"("source_session_id");
+
+-- AddForeignKey
+ALTER TABLE "Diary" ADD CONSTRAINT "Diary_source_session_id_fkey" FOREIGN KEY ("source_session_id") REFERENCES "chat_sessions"("session_id") ON DELETE SET NULL ON UPDATE CASCADE;
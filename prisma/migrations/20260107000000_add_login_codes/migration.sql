@@ -0,0 +1,23 @@
+-- One-time codes handed to the client in the social login redirect (only SHA-256 hashes are stored)
+
+-- CreateTable
+CREATE TABLE "login_codes" (
+    "code_id" UUID NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "code_hash" VARCHAR(64) NOT NULL,
+    "user_agent" VARCHAR(255),
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_codes_pkey" PRIMARY KEY ("code_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_codes_code_hash_key" ON "login_codes"("code_hash");
+
+-- CreateIndex
+CREATE INDEX "login_codes_user_id_idx" ON "login_codes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "login_codes" ADD CONSTRAINT "login_codes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Letters are kept when a diary is edited; content_version tells which content a letter was written for
+
+-- AlterTable
+ALTER TABLE "Diary" ADD COLUMN "content_version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "EmotionAnalysis" ADD COLUMN "content_version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,7 @@
+-- Remember which chat session a write-tool proposal came from (a confirmed diary draft links back to it)
+
+-- AlterTable
+ALTER TABLE "chat_pending_actions" ADD COLUMN "session_id" UUID;
+
+-- AddForeignKey
+ALTER TABLE "chat_pending_actions" ADD CONSTRAINT "chat_pending_actions_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "chat_sessions"("session_id") ON DELETE SET NULL ON UPDATE CASCADE;
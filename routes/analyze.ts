@@ -1,10 +1,17 @@
 import express from "express";
 import { analyzeEmotion } from "../controllers/analyzeController";
 import { authenticateToken } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { analyzeEmotionSchema } from "../schemas/emotion.schema";
 
 const router = express.Router();
 
 // Emotion analysis requires authentication (uses OpenAI API)
-router.post("/", authenticateToken, analyzeEmotion);
+router.post(
+  "/",
+  authenticateToken,
+  validateBody(analyzeEmotionSchema),
+  analyzeEmotion
+);
 
 export default router;
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Authorization Integration Tests
+ * Requests go through the real routers: the owner of a diary, emotion analysis or chat
+ * session is always the user in the access token, never a user_id sent by the client.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    diary: { findUnique: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+    chatSession: { findUnique: vi.fn(), update: vi.fn() },
+    emotionAnalysis: { create: vi.fn(), findFirst: vi.fn() },
+    moodMeter: { create: vi.fn() },
+    user: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}));
+
+import prisma from '../db';
+import { JWT_SECRET } from '../services/token.service';
+import userRoutes from './user';
+import moodRoutes from './moodRoutes';
+import diaryRoutes from './diaryRoutes';
+import emotionAnalysisRoutes from './emotionAnalysisRoutes';
+import chatRoutes from './chatRoutes';
+
+const ALICE = 1;
+const BOB = 2;
+
+// Resources owned by Alice (diary 10, session A) and Bob (diary 20, session B)
+const DIARY_OWNERS: Record<number, number> = { 10: ALICE, 20: BOB };
+const SESSION_A = '00000000-0000-4000-8000-00000000000a';
+const SESSION_B = '00000000-0000-4000-8000-00000000000b';
+const SESSION_OWNERS: Record<string, number> = { [SESSION_A]: ALICE, [SESSION_B]: BOB };
+
+let server: Server;
+let baseUrl: string;
+
+const tokenFor = (userId: number) => jwt.sign({ userId, profileName: `user${userId}` }, JWT_SECRET);
+
+async function request(userId: number, method: string, path: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${tokenFor(userId)}`,
+      'Content-Type': 'application/json',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json().catch(() => null) };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  for (const router of [userRoutes, moodRoutes, diaryRoutes, emotionAnalysisRoutes, chatRoutes]) {
+    app.use('/api', router);
+  }
+
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, '127.0.0.1', () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(prisma.diary.findUnique).mockImplementation((async ({ where }: any) =>
+    DIARY_OWNERS[where.diary_id] ? { user_id: DIARY_OWNERS[where.diary_id] } : null) as any);
+  vi.mocked(prisma.chatSession.findUnique).mockImplementation((async ({ where }: any) =>
+    SESSION_OWNERS[where.session_id] ? { user_id: SESSION_OWNERS[where.session_id] } : null) as any);
+  vi.mocked(prisma.emotionAnalysis.findFirst).mockResolvedValue({ emotion_result: '편지' } as any);
+  vi.mocked(prisma.emotionAnalysis.create).mockResolvedValue({ id: 1 } as any);
+  vi.mocked(prisma.moodMeter.create).mockResolvedValue({ id: 1 } as any);
+  vi.mocked(prisma.user.update).mockResolvedValue({ user_id: ALICE } as any);
+});
+
+// Endpoints that act on one of Bob's resources (or Bob's user_id) on Alice's behalf
+const crossUserRequests: Array<[string, string, unknown?]> = [
+  ['GET', '/diary/entry/20'],
+  ['PUT', '/diary/20', { title: '제목', content: '내용', color: '파란색' }],
+  ['PATCH', '/diary/20', { title: '제목' }],
+  ['DELETE', '/diary/delete/20'],
+  ['GET', '/emotion/20'],
+  ['POST', '/emotion', { diary_id: 20, emotion_result: '편지' }],
+  ['POST', '/diary/20/letter'],
+  ['POST', '/diary/20/letter/regenerate'],
+  ['GET', '/diary/20/letters'],
+  ['GET', `/chat/session/${SESSION_B}`],
+  ['DELETE', `/chat/session/${SESSION_B}`],
+  ['GET', `/chat/session/${SESSION_B}/context`],
+  ['POST', '/chat/message', { message: '안녕', session_id: SESSION_B }],
+  ['POST', `/chat/session/${SESSION_B}/diary-draft`],
+  ['POST', '/diary', { title: '제목', content: '내용', color: '파란색', source_session_id: SESSION_B }],
+  ['GET', `/diary/${BOB}`],
+  ['GET', `/moodmeter/user/${BOB}`],
+  ['GET', `/chat/sessions/${BOB}`],
+];
+
+describe('Cross-user access', () => {
+  it('should reject every request for another user\'s resources with 403', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...crossUserRequests), async ([method, path, body]) => {
+        const response = await request(ALICE, method, path, body);
+
+        // Property: the guard answers before any controller reads or writes data
+        expect(response.status).toBe(403);
+        expect(response.body.error).toBe('FORBIDDEN');
+        expect(prisma.diary.updateMany).not.toHaveBeenCalled();
+        expect(prisma.chatSession.update).not.toHaveBeenCalled();
+        expect(prisma.emotionAnalysis.create).not.toHaveBeenCalled();
+        expect(prisma.emotionAnalysis.findFirst).not.toHaveBeenCalled();
+        expect(prisma.diary.create).not.toHaveBeenCalled();
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should return 404 for missing resources and 400 for malformed IDs', async () => {
+    expect((await request(ALICE, 'GET', '/diary/entry/99')).body).toEqual({
+      message: '일기를 찾을 수 없습니다.',
+      error: 'DIARY_NOT_FOUND',
+    });
+    expect((await request(ALICE, 'GET', '/chat/session/00000000-0000-4000-8000-000000000099')).status).toBe(404);
+    expect((await request(ALICE, 'GET', '/diary/entry/abc')).status).toBe(400);
+    expect((await request(ALICE, 'GET', '/chat/session/not-a-uuid')).status).toBe(400);
+  });
+
+  it('should let the owner through the guard', async () => {
+    const response = await request(ALICE, 'GET', '/emotion/10');
+
+    expect(response).toEqual({ status: 200, body: { emotionReport: '편지' } });
+  });
+});
+
+describe('Owner from the access token', () => {
+  it('should ignore user_id in the body when creating records', async () => {
+    await request(ALICE, 'POST', '/save-moodmeter', {
+      user_id: BOB,
+      label: '설렘',
+      color: '노란색',
+      pleasantness: 8,
+      energy: 9,
+    });
+    await request(ALICE, 'POST', '/emotion', { user_id: BOB, diary_id: 10, emotion_result: '편지' });
+
+    expect(prisma.moodMeter.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ user_id: ALICE }),
+    });
+    expect(prisma.emotionAnalysis.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ user_id: ALICE, diary_id: 10 }),
+    });
+  });
+
+  it('should update the caller\'s profile whatever user_id the body names', async () => {
+    const response = await request(ALICE, 'PUT', '/user', { user_id: BOB, profile_name: '앨리스' });
+
+    expect(response.status).toBe(200);
+    expect(prisma.user.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { user_id: ALICE } })
+    );
+  });
+
+  it('should not accept another user_id from the query string', async () => {
+    expect((await request(ALICE, 'GET', `/diary/count/${BOB}?user_id=${ALICE}`)).status).toBe(403);
+  });
+});
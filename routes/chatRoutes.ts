@@ -12,8 +12,17 @@ import {
   createNewSession,
   removeSession,
   getSessionContextEndpoint,
+  listTrashedSessions,
+  restoreTrashedSession,
+  purgeTrashedSession,
+  confirmPendingAction,
+  rejectPendingAction,
+  createDiaryDraft,
 } from '../controllers/chatController';
 import { authenticateToken, verifyUserOwnership } from '../middleware/auth';
+import { requireSessionOwnership } from '../middleware/ownership';
+import { validateBody } from '../middleware/validate';
+import { sendMessageSchema, createSessionSchema, confirmActionSchema } from '../schemas/chat.schema';
 
 const router = express.Router();
 
@@ -21,7 +30,13 @@ const router = express.Router();
 
 // Message endpoint with SSE streaming
 // POST /api/chat/message - send message and stream response
-router.post('/chat/message', authenticateToken, sendMessage);
+router.post(
+  '/chat/message',
+  authenticateToken,
+  validateBody(sendMessageSchema),
+  requireSessionOwnership('body'),
+  sendMessage
+);
 
 // Session management endpoints
 // GET /api/chat/sessions/:user_id - list user sessions
@@ -33,15 +48,50 @@ router.get(
 );
 
 // GET /api/chat/session/:session_id - get session with messages
-router.get('/chat/session/:session_id', authenticateToken, getSession);
+router.get('/chat/session/:session_id', authenticateToken, requireSessionOwnership(), getSession);
 
 // POST /api/chat/session - create new session
-router.post('/chat/session', authenticateToken, createNewSession);
+router.post('/chat/session', authenticateToken, validateBody(createSessionSchema), createNewSession);
+
+// DELETE /api/chat/session/:session_id - move session to trash
+router.delete('/chat/session/:session_id', authenticateToken, requireSessionOwnership(), removeSession);
+
+// Trash (sessions are purged automatically after the retention period)
+// GET /api/chat/trash/:user_id - list trashed sessions
+router.get('/chat/trash/:user_id', authenticateToken, verifyUserOwnership, listTrashedSessions);
 
-// DELETE /api/chat/session/:session_id - delete session
-router.delete('/chat/session/:session_id', authenticateToken, removeSession);
+// POST /api/chat/session/:session_id/restore - restore a trashed session
+router.post('/chat/session/:session_id/restore', authenticateToken, restoreTrashedSession);
+
+// DELETE /api/chat/trash/:session_id - permanently delete a trashed session
+router.delete('/chat/trash/:session_id', authenticateToken, purgeTrashedSession);
 
 // GET /api/chat/session/:session_id/context - get session context for LLM
-router.get('/chat/session/:session_id/context', authenticateToken, getSessionContextEndpoint);
+router.get(
+  '/chat/session/:session_id/context',
+  authenticateToken,
+  requireSessionOwnership(),
+  getSessionContextEndpoint
+);
+
+// POST /api/chat/session/:session_id/diary-draft - draft a diary from the conversation
+router.post(
+  '/chat/session/:session_id/diary-draft',
+  authenticateToken,
+  requireSessionOwnership(),
+  createDiaryDraft
+);
+
+// Write tool proposals (sent as SSE action_required events) are applied only on confirm
+// POST /api/chat/actions/:action_id/confirm - apply a proposal, optionally with edits
+router.post(
+  '/chat/actions/:action_id/confirm',
+  authenticateToken,
+  validateBody(confirmActionSchema),
+  confirmPendingAction
+);
+
+// POST /api/chat/actions/:action_id/reject - discard a proposal
+router.post('/chat/actions/:action_id/reject', authenticateToken, rejectPendingAction);
 
 export default router;
@@ -2,16 +2,40 @@ import express from "express";
 import {
   createDiary,
   getUserDiaries,
+  searchDiaries,
+  getDiary,
+  updateDiary,
   getDiaryCountByUser,
   getConsecutiveDaysByUser,
   deleteDiary,
+  getDiaryTrash,
+  restoreDiary,
+  purgeDiary,
 } from "../controllers/diaryController";
 import { authenticateToken, verifyUserOwnership } from "../middleware/auth";
+import {
+  requireDiaryOwnership,
+  requireSessionOwnership,
+} from "../middleware/ownership";
+import { validateBody } from "../middleware/validate";
+import {
+  createDiarySchema,
+  updateDiarySchema,
+  patchDiarySchema,
+} from "../schemas/diary.schema";
 
 const router = express.Router();
 
 // All diary routes require authentication
-router.post("/diary", authenticateToken, createDiary);
+router.post(
+  "/diary",
+  authenticateToken,
+  validateBody(createDiarySchema),
+  requireSessionOwnership("body", "source_session_id"),
+  createDiary
+);
+// /diary/:user_id보다 먼저 등록해야 "search"가 user_id로 해석되지 않음
+router.get("/diary/search", authenticateToken, searchDiaries);
 router.get(
   "/diary/:user_id",
   authenticateToken,
@@ -30,6 +54,42 @@ router.get(
   verifyUserOwnership,
   getConsecutiveDaysByUser
 );
-router.delete("/diary/delete/:diary_id", authenticateToken, deleteDiary);
+router.get(
+  "/diary/entry/:diary_id",
+  authenticateToken,
+  requireDiaryOwnership(),
+  getDiary
+);
+router.put(
+  "/diary/:diary_id",
+  authenticateToken,
+  requireDiaryOwnership(),
+  validateBody(updateDiarySchema),
+  updateDiary
+);
+router.patch(
+  "/diary/:diary_id",
+  authenticateToken,
+  requireDiaryOwnership(),
+  validateBody(patchDiarySchema),
+  updateDiary
+);
+router.delete(
+  "/diary/delete/:diary_id",
+  authenticateToken,
+  requireDiaryOwnership(),
+  deleteDiary
+);
+
+// 휴지통: 목록, 복원, 영구 삭제 (보관 기간이 지나면 자동 영구 삭제)
+// 복원·영구 삭제는 휴지통 조회 자체가 req.userId로 한정됨
+router.get(
+  "/diary/trash/:user_id",
+  authenticateToken,
+  verifyUserOwnership,
+  getDiaryTrash
+);
+router.post("/diary/:diary_id/restore", authenticateToken, restoreDiary);
+router.delete("/diary/trash/:diary_id", authenticateToken, purgeDiary);
 
 export default router;
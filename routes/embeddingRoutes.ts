@@ -0,0 +1,20 @@
+/**
+ * Embedding Routes
+ * Backfill/re-index of diary embeddings for the authenticated user
+ */
+
+import express from 'express';
+import { startBackfill, getBackfillStatus } from '../controllers/embeddingController';
+import { authenticateToken } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { startBackfillSchema } from '../schemas/embedding.schema';
+
+const router = express.Router();
+
+// POST /api/embeddings/backfill - embed the caller's diaries that have no vector
+router.post('/embeddings/backfill', authenticateToken, validateBody(startBackfillSchema), startBackfill);
+
+// GET /api/embeddings/backfill/:job_id - poll backfill progress
+router.get('/embeddings/backfill/:job_id', authenticateToken, getBackfillStatus);
+
+export default router;
@@ -3,14 +3,31 @@ import {
   createEmotionAnalysis,
   getEmotionAnalysis,
   getEmotionAnalysisCount,
+  getOrCreateDiaryLetter,
+  regenerateDiaryLetter,
+  getDiaryLetterHistory,
 } from "../controllers/emotionAnalysisController";
 import { authenticateToken, verifyUserOwnership } from "../middleware/auth";
+import { requireDiaryOwnership } from "../middleware/ownership";
+import { validateBody } from "../middleware/validate";
+import { createEmotionAnalysisSchema } from "../schemas/emotion.schema";
 
 const router = express.Router();
 
 // All emotion analysis routes require authentication
-router.post("/emotion", authenticateToken, createEmotionAnalysis);
-router.get("/emotion/:diary_id", authenticateToken, getEmotionAnalysis);
+router.post(
+  "/emotion",
+  authenticateToken,
+  validateBody(createEmotionAnalysisSchema),
+  requireDiaryOwnership("body"),
+  createEmotionAnalysis
+);
+router.get(
+  "/emotion/:diary_id",
+  authenticateToken,
+  requireDiaryOwnership(),
+  getEmotionAnalysis
+);
 router.get(
   "/emotion/user/:user_id/count",
   authenticateToken,
@@ -18,4 +35,24 @@ router.get(
   getEmotionAnalysisCount
 );
 
+// Server-generated letters (stored with model and prompt version)
+router.post(
+  "/diary/:diary_id/letter",
+  authenticateToken,
+  requireDiaryOwnership(),
+  getOrCreateDiaryLetter
+);
+router.post(
+  "/diary/:diary_id/letter/regenerate",
+  authenticateToken,
+  requireDiaryOwnership(),
+  regenerateDiaryLetter
+);
+router.get(
+  "/diary/:diary_id/letters",
+  authenticateToken,
+  requireDiaryOwnership(),
+  getDiaryLetterHistory
+);
+
 export default router;
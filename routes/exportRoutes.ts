@@ -0,0 +1,21 @@
+/**
+ * Export Routes
+ * Account data takeout (JSON or per-day Markdown archive)
+ */
+
+import express from 'express';
+import { exportAccount, getExportStatus, downloadExport } from '../controllers/exportController';
+import { authenticateToken, verifyUserOwnership } from '../middleware/auth';
+
+const router = express.Router();
+
+// GET /api/user/:user_id/export - download now, or start a background export for large accounts
+router.get('/user/:user_id/export', authenticateToken, verifyUserOwnership, exportAccount);
+
+// GET /api/user/:user_id/export/:job_id - poll a background export
+router.get('/user/:user_id/export/:job_id', authenticateToken, verifyUserOwnership, getExportStatus);
+
+// GET /api/user/:user_id/export/:job_id/download - download a finished export
+router.get('/user/:user_id/export/:job_id/download', authenticateToken, verifyUserOwnership, downloadExport);
+
+export default router;
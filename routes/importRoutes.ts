@@ -0,0 +1,52 @@
+/**
+ * Import Routes
+ * Diary import (maegeul JSON, Markdown, CSV, Day One JSON)
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { importUserDiaries } from '../controllers/importController';
+import { authenticateToken, verifyUserOwnership } from '../middleware/auth';
+
+const router = express.Router();
+
+const MAX_IMPORT_FILE_MB = 5;
+const MAX_IMPORT_FILES = 5;
+
+// Files are parsed in memory and never stored, so a request holds at most 25MB
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_MB * 1024 * 1024, files: MAX_IMPORT_FILES },
+});
+
+// Receives the `files` field and answers upload limit errors in the import controller's shape
+function receiveImportFiles(req: Request, res: Response, next: NextFunction): void {
+  upload.array('files')(req, res, (error: unknown) => {
+    if (!(error instanceof multer.MulterError)) {
+      next(error);
+      return;
+    }
+
+    switch (error.code) {
+      case 'LIMIT_FILE_SIZE':
+        res.status(413).json({ error: `Each file must be at most ${MAX_IMPORT_FILE_MB}MB`, code: 'FILE_TOO_LARGE' });
+        return;
+      case 'LIMIT_FILE_COUNT':
+        res.status(413).json({ error: `At most ${MAX_IMPORT_FILES} files can be imported at once`, code: 'TOO_MANY_FILES' });
+        return;
+      default:
+        res.status(400).json({ error: `Invalid upload: ${error.message}`, code: 'INVALID_UPLOAD' });
+    }
+  });
+}
+
+// POST /api/user/:user_id/import - import diaries (dry_run=true only reports duplicates and invalid rows)
+router.post(
+  '/user/:user_id/import',
+  authenticateToken,
+  verifyUserOwnership,
+  receiveImportFiles,
+  importUserDiaries
+);
+
+export default router;
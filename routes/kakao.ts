@@ -1,9 +1,15 @@
 import express, { Request, Response, NextFunction } from "express";
 import passport from "passport";
-import jwt from "jsonwebtoken";
+import { createLoginCode, exchangeLoginCode, startSession } from "../services/token.service";
+import { validateBody } from "../middleware/validate";
+import { loginCodeSchema } from "../schemas/user.schema";
 
 const router = express.Router();
 
+// 전환 기간용: true면 콜백에 예전 클라이언트가 읽는 userId, token도 함께 실음
+// 모든 클라이언트가 code 교환으로 바뀌면 끄세요 (토큰이 URL과 브라우저 기록에 남음)
+const KAKAO_LEGACY_CALLBACK_PARAMS = process.env.KAKAO_LEGACY_CALLBACK_PARAMS === "true";
+
 // 클라이언트 콜백 URL을 동적으로 가져오는 함수
 const getClientCallbackURL = (req: Request): string => {
   // 1. 환경 변수로 명시적으로 설정된 경우
@@ -163,7 +169,7 @@ router.get(
       stateParam: stateParam ? "있음" : "없음",
     });
 
-    passport.authenticate("kakao", (err: any, user: any, info: any) => {
+    passport.authenticate("kakao", async (err: any, user: any, info: any) => {
       clearTimeout(timeout); // 타임아웃 제거
 
       const elapsedTime = Date.now() - startTime;
@@ -188,21 +194,20 @@ router.get(
       }
 
       try {
-        const token = jwt.sign(
-          { userId: user.user_id, profileName: user.profile_name || user.username },
-          process.env.JWT_SECRET as string,
-          {
-            expiresIn: "1h",
-          }
-        );
+        // 토큰은 URL에 싣지 않고, 클라이언트가 POST /api/kakao/token으로 교환할 일회용 코드만 전달
+        const code = await createLoginCode(user, req.headers["user-agent"]);
 
         const callbackURL = getClientCallbackURL(req);
-        const redirectURL = `${callbackURL}kakao/callback?userId=${user.user_id}&token=${token}`;
+        let redirectURL = `${callbackURL}kakao/callback?code=${encodeURIComponent(code)}`;
+
+        if (KAKAO_LEGACY_CALLBACK_PARAMS) {
+          // 예전 클라이언트는 code를 모르므로 액세스 토큰을 바로 전달 (새 클라이언트는 무시)
+          const { accessToken } = await startSession(user, req.headers["user-agent"]);
+          redirectURL += `&userId=${user.user_id}&token=${encodeURIComponent(accessToken)}`;
+        }
 
         console.log(
-          `카카오 로그인 성공 (${elapsedTime}ms) - 리다이렉트: ${callbackURL}kakao/callback?userId=${
-            user.user_id
-          }&token=${token.substring(0, 20)}...`
+          `카카오 로그인 성공 (${elapsedTime}ms) - 사용자 ${user.user_id}, 리다이렉트: ${callbackURL}kakao/callback`
         );
 
         if (!res.headersSent) {
@@ -211,7 +216,7 @@ router.get(
           console.warn("응답이 이미 전송되었습니다. 리다이렉트 불가능.");
         }
       } catch (tokenError) {
-        console.error("JWT 토큰 생성 실패:", tokenError);
+        console.error("로그인 코드 생성 실패:", tokenError);
         const callbackURL = getClientCallbackURL(req);
         if (!res.headersSent) {
           res.redirect(`${callbackURL}mainlogin?error=token_error`);
@@ -232,4 +237,34 @@ router.get(
   }
 );
 
+// 카카오 콜백에서 받은 일회용 코드를 토큰으로 교환 (코드는 한 번만, 짧은 시간 동안 유효)
+router.post(
+  "/kakao/token",
+  validateBody(loginCodeSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await exchangeLoginCode(req.body.code);
+
+      if (!result) {
+        res.status(401).json({
+          message: "유효하지 않거나 만료된 로그인 코드입니다. 다시 로그인해주세요.",
+          error: "LOGIN_CODE_INVALID",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        message: "로그인 성공",
+        token: result.tokens.accessToken,
+        refresh_token: result.tokens.refreshToken,
+        expires_in: result.tokens.expiresIn,
+        userId: result.userId,
+      });
+    } catch (error) {
+      console.error("로그인 코드 교환 오류:", error);
+      res.status(500).json({ message: "서버 오류" });
+    }
+  }
+);
+
 export default router;
@@ -5,13 +5,21 @@ import {
   getColorKeywordCount,
   getLabelForUser,
   getRecentMoodColors,
+  getMoodStats,
 } from "../controllers/moodController";
 import { authenticateToken, verifyUserOwnership } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { createMoodMeterSchema } from "../schemas/mood.schema";
 
 const router = express.Router();
 
 // All mood routes require authentication
-router.post("/save-moodmeter", authenticateToken, createMoodMeter);
+router.post(
+  "/save-moodmeter",
+  authenticateToken,
+  validateBody(createMoodMeterSchema),
+  createMoodMeter
+);
 router.get(
   "/moodmeter/user/:user_id",
   authenticateToken,
@@ -36,5 +44,11 @@ router.get(
   verifyUserOwnership,
   getLabelForUser
 );
+router.get(
+  "/moodmeter/stats/:user_id",
+  authenticateToken,
+  verifyUserOwnership,
+  getMoodStats
+);
 
 export default router;
@@ -1,7 +1,22 @@
 import express, { Request, Response } from "express";
 import * as userController from "../controllers/userController";
 import multer from "multer";
-import { authenticateToken, verifyUserOwnership } from "../middleware/auth";
+import {
+  authenticateToken,
+  optionalAuth,
+  verifyUserOwnership,
+} from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import {
+  registerSchema,
+  loginSchema,
+  emailOnlySchema,
+  refreshTokenSchema,
+  logoutSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  updateUserSchema,
+} from "../schemas/user.schema";
 
 const router = express.Router();
 
@@ -17,31 +32,52 @@ const upload = multer({
 router.post(
   "/register",
   upload.single("profile_picture"),
+  validateBody(registerSchema),
   userController.register
 );
-router.post("/login", userController.login);
-router.post("/check-email", (req: Request, res: Response) => {
-  const { email } = req.body;
-
-  if (!email) {
-    res.status(400).json({ message: "Email is required" });
-    return;
-  }
+router.post("/login", validateBody(loginSchema), userController.login);
+router.post(
+  "/token/refresh",
+  validateBody(refreshTokenSchema),
+  userController.refreshToken
+);
+router.post(
+  "/logout",
+  optionalAuth,
+  validateBody(logoutSchema),
+  userController.logout
+);
+router.post(
+  "/password/forgot",
+  validateBody(emailOnlySchema),
+  userController.forgotPassword
+);
+router.post(
+  "/password/reset",
+  validateBody(resetPasswordSchema),
+  userController.resetPassword
+);
+router.post(
+  "/check-email",
+  validateBody(emailOnlySchema),
+  (req: Request, res: Response) => {
+    const { email } = req.body;
 
-  userController.checkDuplicateEmail(email, (err, isDuplicate) => {
-    if (err) {
-      res.status(500).json({ message: "Internal server error", error: err });
-      return;
-    }
+    userController.checkDuplicateEmail(email, (err, isDuplicate) => {
+      if (err) {
+        res.status(500).json({ message: "Internal server error", error: err });
+        return;
+      }
 
-    if (isDuplicate) {
-      res.status(409).json({ message: "Email already exists" });
-      return;
-    }
+      if (isDuplicate) {
+        res.status(409).json({ message: "Email already exists" });
+        return;
+      }
 
-    res.status(200).json({ message: "Email is available" });
-  });
-});
+      res.status(200).json({ message: "Email is available" });
+    });
+  }
+);
 
 // Protected routes - require authentication
 router.get(
@@ -50,10 +86,16 @@ router.get(
   verifyUserOwnership,
   userController.getUser
 );
+router.put(
+  "/user/password",
+  authenticateToken,
+  validateBody(changePasswordSchema),
+  userController.changePassword
+);
 router.put(
   "/user",
   authenticateToken,
-  verifyUserOwnership,
+  validateBody(updateUserSchema),
   userController.updateUser
 );
 router.delete(
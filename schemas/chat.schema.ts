@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// POST /api/chat/message
+// 빈 메시지는 컨트롤러가 EMPTY_MESSAGE 안내로 응답하므로 여기서는 형식만 확인
+export const sendMessageSchema = z.object({
+  message: z.string().optional(),
+  session_id: z.string().uuid().nullish(),
+});
+
+// POST /api/chat/session
+export const createSessionSchema = z.object({
+  title: z.string().trim().max(255).optional(),
+});
+
+// POST /api/chat/actions/:action_id/confirm
+// edits: 사용자가 제안 내용을 고친 값 (도구의 입력 스키마로 다시 검증)
+export const confirmActionSchema = z.object({
+  edits: z.record(z.unknown()).optional(),
+});
+
+export type SendMessageBody = z.infer<typeof sendMessageSchema>;
+export type CreateSessionBody = z.infer<typeof createSessionSchema>;
+export type ConfirmActionBody = z.infer<typeof confirmActionSchema>;
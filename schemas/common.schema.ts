@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+// 무드미터 4분면 색상 (일기 색상도 같은 값을 사용)
+export const MOOD_COLORS = ["빨간색", "노란색", "파란색", "초록색"] as const;
+
+export type MoodColor = (typeof MOOD_COLORS)[number];
+
+export const moodColorSchema = z.enum(MOOD_COLORS);
+
+// 무드미터 쾌적함·에너지 수치 (1~10)
+export const MOOD_SCALE_MIN = 1;
+export const MOOD_SCALE_MAX = 10;
+
+export const moodScaleSchema = z.coerce
+  .number()
+  .int()
+  .min(MOOD_SCALE_MIN)
+  .max(MOOD_SCALE_MAX);
+
+// 폼 데이터나 문자열로 온 ID도 숫자로 변환
+export const idSchema = z.coerce.number().int().positive();
+
+// 앞뒤 공백을 제거한 비어 있지 않은 문자열 (DB 컬럼 길이 제한)
+export const requiredText = (max: number) => z.string().trim().min(1).max(max);
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { moodColorSchema, requiredText } from "./common.schema";
+
+// 일기 본문 항목
+const diaryFieldsSchema = z.object({
+  title: requiredText(255),
+  content: z.string().min(1),
+  color: moodColorSchema,
+});
+
+// POST /api/diary
+// 작성자는 토큰의 사용자(req.userId)이므로 본문의 user_id는 받지 않음
+// source_session_id: 채팅 대화로 만든 초안을 저장할 때 원본 세션 (본인 세션만 가능)
+export const createDiarySchema = diaryFieldsSchema.extend({
+  source_session_id: z.string().uuid().optional(),
+});
+
+// PUT /api/diary/:diary_id (모든 항목 필요)
+export const updateDiarySchema = diaryFieldsSchema;
+
+// PATCH /api/diary/:diary_id (보낸 항목만 수정, 최소 한 개)
+export const patchDiarySchema = updateDiarySchema
+  .partial()
+  .refine(
+    (body) =>
+      body.title !== undefined ||
+      body.content !== undefined ||
+      body.color !== undefined,
+    { message: "수정할 항목이 없습니다." }
+  );
+
+export type CreateDiaryBody = z.infer<typeof createDiarySchema>;
+export type UpdateDiaryBody = z.infer<typeof patchDiarySchema>;
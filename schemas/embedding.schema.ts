@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { BACKFILL_MODES } from "../services/embedding-backfill.service";
+
+// POST /api/embeddings/backfill (mode를 생략하면 임베딩이 없는 일기만)
+export const startBackfillSchema = z.object({
+  mode: z.enum(BACKFILL_MODES).default("missing"),
+});
+
+export type StartBackfillBody = z.infer<typeof startBackfillSchema>;
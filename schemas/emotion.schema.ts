@@ -0,0 +1,28 @@
+import { z } from "zod";
+import {
+  idSchema,
+  moodColorSchema,
+  moodScaleSchema,
+  requiredText,
+} from "./common.schema";
+
+// POST /api/emotion (diary_id의 소유권은 requireDiaryOwnership으로 확인)
+export const createEmotionAnalysisSchema = z.object({
+  diary_id: idSchema,
+  emotion_result: z.string().trim().min(1),
+});
+
+// POST /api/analyze (LetterContext)
+export const analyzeEmotionSchema = z.object({
+  text: z.string().trim().min(1),
+  moodColor: moodColorSchema.optional(),
+  moodLabels: z.array(requiredText(255)).max(20).optional(),
+  pleasantness: moodScaleSchema.optional(),
+  energy: moodScaleSchema.optional(),
+  userName: requiredText(255).optional(),
+});
+
+export type CreateEmotionAnalysisBody = z.infer<
+  typeof createEmotionAnalysisSchema
+>;
+export type AnalyzeEmotionBody = z.infer<typeof analyzeEmotionSchema>;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import {
+  moodColorSchema,
+  moodScaleSchema,
+  requiredText,
+} from "./common.schema";
+
+// POST /api/save-moodmeter (기록하는 사용자는 req.userId)
+export const createMoodMeterSchema = z.object({
+  label: requiredText(255),
+  color: moodColorSchema,
+  pleasantness: moodScaleSchema,
+  energy: moodScaleSchema,
+});
+
+export type CreateMoodMeterBody = z.infer<typeof createMoodMeterSchema>;
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { MIN_PASSWORD_LENGTH } from "../services/password.service";
+import { requiredText } from "./common.schema";
+
+const emailSchema = z.string().trim().email().max(255);
+const newPasswordSchema = z.string().min(MIN_PASSWORD_LENGTH).max(255);
+const ageSchema = z.coerce.number().int().min(0).max(150);
+
+// POST /api/register (multipart 폼이면 숫자도 문자열로 옴)
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: newPasswordSchema,
+  username: requiredText(255),
+  profile_name: requiredText(255).optional(),
+  age: ageSchema.optional(),
+  gender: z.string().max(10).optional(),
+  birthdate: z.string().optional(),
+  profile_picture: z.string().optional(),
+});
+
+// POST /api/login
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1),
+});
+
+// POST /api/check-email, POST /api/password/forgot
+export const emailOnlySchema = z.object({
+  email: emailSchema,
+});
+
+// POST /api/token/refresh
+export const refreshTokenSchema = z.object({
+  refresh_token: z.string().min(1),
+});
+
+// POST /api/kakao/token (카카오 콜백 리다이렉트로 받은 일회용 코드)
+export const loginCodeSchema = z.object({
+  code: z.string().min(1),
+});
+
+// POST /api/logout (액세스 토큰이 만료된 경우에만 refresh_token 사용)
+export const logoutSchema = z.object({
+  refresh_token: z.string().min(1).optional(),
+});
+
+// POST /api/password/reset
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  new_password: newPasswordSchema,
+});
+
+// PUT /api/user/password
+export const changePasswordSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: newPasswordSchema,
+});
+
+// PUT /api/user (수정 대상은 req.userId)
+// password는 컨트롤러가 전용 엔드포인트로 안내하도록 그대로 통과시킴
+export const updateUserSchema = z.object({
+  username: requiredText(255).optional(),
+  email: emailSchema.optional(),
+  profile_name: requiredText(255).optional(),
+  password: z.string().optional(),
+  age: ageSchema.nullish(),
+  gender: z.string().max(10).nullish(),
+  login_type: z.string().max(50).optional(),
+  profile_picture: z.string().nullish(),
+  timezone: z.string().max(64).optional(),
+  locale: z.string().max(20).optional(),
+});
+
+export type RegisterBody = z.infer<typeof registerSchema>;
+export type LoginBody = z.infer<typeof loginSchema>;
+export type ResetPasswordBody = z.infer<typeof resetPasswordSchema>;
+export type ChangePasswordBody = z.infer<typeof changePasswordSchema>;
+export type UpdateUserBody = z.infer<typeof updateUserSchema>;
@@ -0,0 +1,61 @@
+/**
+ * Diary embedding backfill CLI
+ *   npm run embeddings -- backfill [userId]  embed diaries missing a vector for an active model (resumes unfinished jobs)
+ *   npm run embeddings -- reindex [userId]   re-embed every diary with the active models
+ *   npm run embeddings -- status <jobId>     print a job's progress
+ *   npm run embeddings -- prune <model>      delete the vectors of a model no longer in use
+ */
+
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { getJob } from '../services/background-job.service';
+import { runEmbeddingBackfillJob } from '../services/embedding-backfill.service';
+import { pruneEmbeddingModel } from '../services/embedding.service';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const [command, arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'backfill':
+    case 'reindex': {
+      const job = await runEmbeddingBackfillJob({
+        mode: command === 'backfill' ? 'missing' : 'reindex',
+        userId: arg ? parseInt(arg) : null,
+        onProgress: (p) =>
+          console.log(`[Embeddings] ${p.processed}/${p.total} processed (embedded=${p.embedded} failed=${p.failed})`),
+      });
+      console.log('[Embeddings] Finished:', job.progress);
+      if (job.progress.failed > 0) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    case 'status': {
+      const job = arg ? await getJob(arg) : null;
+      if (!job) {
+        throw new Error(`Job ${arg} not found`);
+      }
+      console.log(`[Embeddings] ${job.status}`, job.progress, job.error ?? '');
+      break;
+    }
+    case 'prune': {
+      if (!arg) {
+        throw new Error('Usage: embeddings prune <model>');
+      }
+      const deleted = await pruneEmbeddingModel(arg);
+      console.log(`[Embeddings] Deleted ${deleted} embeddings of ${arg}`);
+      break;
+    }
+    default:
+      throw new Error('Usage: embeddings <backfill [userId] | reindex [userId] | status <jobId> | prune <model>>');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[Embeddings]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
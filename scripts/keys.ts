@@ -0,0 +1,51 @@
+/**
+ * Diary key management CLI
+ *   npm run keys -- migrate [afterUserId]   provision data keys for legacy users (resumable)
+ *   npm run keys -- rotate <userId>         rotate a user's data key and re-encrypt diaries
+ */
+
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { migrateLegacyUserKeys, rotateUserDataKey } from '../services/key-management.service';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const [command, arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'migrate': {
+      const progress = await migrateLegacyUserKeys({
+        afterUserId: arg ? parseInt(arg) : undefined,
+        onProgress: (p) =>
+          console.log(`[Keys] processed=${p.processed} failed=${p.failed.length} lastUserId=${p.lastUserId}`),
+      });
+      console.log('[Keys] Migration finished:', progress);
+      if (progress.failed.length > 0) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    case 'rotate': {
+      const userId = parseInt(arg);
+      if (Number.isNaN(userId)) {
+        throw new Error('Usage: keys rotate <userId>');
+      }
+      const progress = await rotateUserDataKey(userId);
+      console.log('[Keys] Rotation finished:', progress);
+      if (!progress.completed) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    default:
+      throw new Error('Usage: keys <migrate [afterUserId] | rotate <userId>>');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[Keys]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,49 @@
+/**
+ * Diary re-encryption CLI (legacy CBC → v2 AES-GCM envelope)
+ *   npm run reencrypt -- run [jobId]    start a job, or resume the latest unfinished one
+ *   npm run reencrypt -- status <jobId> print a job's progress
+ */
+
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { getJob } from '../services/background-job.service';
+import { runReencryptionJob, countLegacyDiaries } from '../services/reencryption.service';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const [command, jobId] = process.argv.slice(2);
+
+  switch (command) {
+    case 'run': {
+      const job = await runReencryptionJob({
+        jobId,
+        onProgress: (p) =>
+          console.log(`[Reencrypt] ${p.processed}/${p.total} processed (upgraded=${p.upgraded} failed=${p.failed})`),
+      });
+      console.log('[Reencrypt] Finished:', job.progress);
+      if (job.progress.failed > 0) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    case 'status': {
+      const job = jobId ? await getJob(jobId) : null;
+      if (!job) {
+        throw new Error(`Job ${jobId} not found`);
+      }
+      console.log(`[Reencrypt] ${job.status}`, job.progress, job.error ?? '');
+      console.log(`[Reencrypt] Legacy diaries remaining: ${await countLegacyDiaries()}`);
+      break;
+    }
+    default:
+      throw new Error('Usage: reencrypt <run [jobId] | status <jobId>>');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[Reencrypt]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import zlib from 'zlib';
+
+/**
+ * Account Export Tests
+ * Diaries are decrypted and serialized with serializeDiary, and the Markdown archive is a
+ * valid tar.gz with one file per day and per chat session.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    user: { findUniqueOrThrow: vi.fn() },
+    diary: { findMany: vi.fn(), count: vi.fn() },
+    moodMeter: { findMany: vi.fn() },
+    emotionAnalysis: { findMany: vi.fn() },
+    chatSession: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('./key-management.service', () => ({
+  getUserKeyring: vi.fn(async (userId: number) => ({ userId, version: 0, keys: { 0: 'key' } })),
+  getKeyForVersion: vi.fn(() => 'key'),
+}));
+
+vi.mock('./background-job.service', () => ({
+  findOrCreateJob: vi.fn(),
+  claimJob: vi.fn(),
+  getJob: vi.fn(),
+  failStaleJobs: vi.fn(async () => 0),
+  updateJobProgress: vi.fn(),
+  completeJob: vi.fn(),
+  failJob: vi.fn(),
+}));
+
+vi.mock('../util/encrypt', () => ({
+  decrypt: vi.fn((content: string) => content.replace('enc:', '')),
+}));
+
+import prisma from '../db';
+import { decrypt } from '../util/encrypt';
+import { findOrCreateJob, claimJob, failStaleJobs } from './background-job.service';
+import {
+  ACCOUNT_EXPORT_JOB_TYPE,
+  collectAccountData,
+  renderExport,
+  startAccountExport,
+  cleanUpExports,
+} from './account-export.service';
+
+// Minimal ustar reader: returns file name → content
+function readTarGz(archive: Buffer): Map<string, string> {
+  const tar = zlib.gunzipSync(archive);
+  const files = new Map<string, string>();
+  let offset = 0;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((b) => b === 0)) break;
+
+    const field = (start: number, length: number) =>
+      header.subarray(start, start + length).toString('utf8').replace(/\0.*$/s, '');
+    const size = parseInt(field(124, 12), 8);
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+
+    const checksum = parseInt(field(148, 8), 8);
+    const computed = [...header].reduce((sum, b, i) => sum + (i >= 148 && i < 156 ? 32 : b), 0);
+    expect(computed).toBe(checksum);
+
+    files.set(name, tar.subarray(offset + 512, offset + 512 + size).toString('utf8'));
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+describe('Account export', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.user.findUniqueOrThrow).mockResolvedValue({
+      user_id: 7,
+      email: 'minji@example.com',
+      username: 'minji',
+      profile_name: '민지',
+      login_type: 'local',
+      timezone: 'Asia/Seoul',
+      locale: 'ko-KR',
+      created_at: new Date('2025-01-01T00:00:00+09:00'),
+    } as any);
+    vi.mocked(prisma.diary.findMany)
+      .mockResolvedValueOnce([
+        { diary_id: 1, user_id: 7, title: '카페', content: 'enc:친구랑 카페', color: '노란색', date: new Date('2025-06-01T10:00:00+09:00'), key_version: 0 },
+        { diary_id: 2, user_id: 7, title: '야근', content: 'enc:회의가 길었다', color: '파란색', date: new Date('2025-06-02T22:00:00+09:00'), key_version: 0 },
+      ] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(prisma.moodMeter.findMany).mockResolvedValue([
+      { id: 1, user_id: 7, label: '신나는', color: '노란색', pleasantness: 8, energy: 9, created_at: new Date('2025-06-01T09:00:00+09:00') },
+    ]);
+    vi.mocked(prisma.emotionAnalysis.findMany).mockResolvedValue([
+      { id: 5, user_id: 7, diary_id: 1, emotion_result: '민지야, 카페 이야기 읽었어.', model: 'gpt-4o-mini', prompt_version: 'letter-v1', created_at: new Date('2025-06-01T10:05:00+09:00') },
+    ]);
+    vi.mocked(prisma.chatSession.findMany).mockResolvedValue([
+      {
+        session_id: 'session-1',
+        title: '퇴근길',
+        created_at: new Date('2025-06-02T23:00:00+09:00'),
+        messages: [
+          { role: 'user', content: '오늘 힘들었어', created_at: new Date('2025-06-02T23:00:00+09:00') },
+          { role: 'assistant', content: '많이 지쳤겠다', created_at: new Date('2025-06-02T23:00:05+09:00') },
+        ],
+      },
+    ] as any);
+  });
+
+  it('should export decrypted diaries in the serializeDiary format', async () => {
+    const data = await collectAccountData(7);
+
+    expect(data.diaries[0]).toEqual({
+      diary_id: 1,
+      user_id: 7,
+      title: '카페',
+      content: '친구랑 카페',
+      color: '노란색',
+      date: new Date('2025-06-01T10:00:00+09:00').toISOString(),
+    });
+    expect(data.emotion_letters[0]).toMatchObject({ diary_id: 1, model: 'gpt-4o-mini' });
+    expect(data.chat_sessions[0].messages).toHaveLength(2);
+
+    const file = renderExport(data, 'json');
+    expect(file.contentType).toBe('application/json');
+    expect(JSON.parse(file.content.toString()).diaries).toHaveLength(2);
+  });
+
+  it('should build a tar.gz with one Markdown file per day and per chat', async () => {
+    const file = renderExport(await collectAccountData(7), 'markdown');
+    const files = readTarGz(file.content);
+
+    expect(file.fileName).toMatch(/\.tar\.gz$/);
+    expect([...files.keys()].sort()).toEqual([
+      'README.md',
+      'chats/2025-06-02-session-1.md',
+      'diaries/2025-06-01.md',
+      'diaries/2025-06-02.md',
+    ]);
+
+    const day = files.get('diaries/2025-06-01.md')!;
+    expect(day).toContain('## 카페 (10:00 · 노란색)');
+    expect(day).toContain('친구랑 카페');
+    expect(day).toContain('민지야, 카페 이야기 읽었어.');
+    expect(day).toContain('신나는');
+    expect(files.get('chats/2025-06-02-session-1.md')).toContain('**무디타**');
+  });
+
+  it('should leave out a diary that fails to decrypt and list it in the manifest', async () => {
+    vi.mocked(decrypt).mockImplementationOnce(() => {
+      throw new Error('Unsupported state or unable to authenticate data');
+    });
+
+    const data = await collectAccountData(7);
+
+    expect(data.diaries.map((d) => d.diary_id)).toEqual([2]);
+    expect(data.failed_diary_ids).toEqual([1]);
+    expect(readTarGz(renderExport(data, 'markdown').content).get('README.md')).toContain(
+      '복호화하지 못해 빠진 일기 1개 (diary_id): 1'
+    );
+  });
+
+  it('should hand back an unfinished export of the same format instead of starting another', async () => {
+    const running = {
+      job_id: '5b0f8d5e-2f7c-4c43-9a57-6f1f4b1c2d3e',
+      type: ACCOUNT_EXPORT_JOB_TYPE,
+      status: 'running',
+      progress: { format: 'json', totalDiaries: 2, processedDiaries: 1 },
+      user_id: 7,
+    } as any;
+    vi.mocked(prisma.diary.count).mockResolvedValue(2);
+    vi.mocked(findOrCreateJob).mockResolvedValue(running);
+    vi.mocked(claimJob).mockResolvedValue(false);
+
+    const job = await startAccountExport(7, 'json');
+
+    expect(findOrCreateJob).toHaveBeenCalledWith(
+      ACCOUNT_EXPORT_JOB_TYPE,
+      7,
+      { format: 'json' },
+      { format: 'json', totalDiaries: 2, processedDiaries: 0 }
+    );
+    expect(job).toBe(running);
+    expect(prisma.user.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it('should fail exports that stopped saving progress during cleanup', async () => {
+    const now = new Date('2025-06-02T12:00:00Z');
+
+    await cleanUpExports(now);
+
+    expect(failStaleJobs).toHaveBeenCalledWith(ACCOUNT_EXPORT_JOB_TYPE, new Date('2025-06-02T11:45:00Z'));
+  });
+});
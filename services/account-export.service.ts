@@ -0,0 +1,451 @@
+/**
+ * Account Export Service
+ * Builds a takeout archive of everything a user owns: decrypted diaries (serializeDiary),
+ * mood meter history, emotion letters and chat transcripts.
+ *
+ * - json: a single JSON document
+ * - markdown: a tar.gz with one Markdown file per day (diaries, letters, moods) and one per chat
+ *
+ * Small accounts are exported in the request. Larger ones run as a background job that
+ * writes the archive to EXPORT_DIR; archives contain decrypted diaries, so they are
+ * deleted after EXPORT_TTL_HOURS. A user has at most one unfinished export per format:
+ * repeated requests get the same job. A scheduled cleanup deletes expired archives and
+ * fails jobs a restart interrupted, so the next request runs them again.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import prisma from '../db';
+import { decrypt } from '../util/encrypt';
+import { createTarGz, TarEntry } from '../util/tar';
+import { DEFAULT_TIMEZONE, isValidTimeZone, toLocalDay, toLocalTime } from '../util/timezone';
+import { serializeDiary, SerializedDiaryEntry } from './diary-serialization';
+import { getUserKeyring, getKeyForVersion } from './key-management.service';
+import {
+  BackgroundJob,
+  findOrCreateJob,
+  claimJob,
+  getJob,
+  failStaleJobs,
+  updateJobProgress,
+  completeJob,
+  failJob,
+} from './background-job.service';
+
+export const ACCOUNT_EXPORT_JOB_TYPE = 'account_export';
+
+// Export configuration
+const EXPORT_DIR = process.env.EXPORT_DIR || 'exports';
+const EXPORT_TTL_HOURS = Number(process.env.EXPORT_TTL_HOURS) || 24;
+export const SYNC_EXPORT_MAX_DIARIES = Number(process.env.SYNC_EXPORT_MAX_DIARIES) || 300;
+const DIARY_BATCH_SIZE = 200;
+const EXPORT_CLEANUP_INTERVAL_MINUTES = Number(process.env.EXPORT_CLEANUP_INTERVAL_MINUTES ?? 15);
+// A running export saves progress after every diary batch; one silent this long was interrupted
+const STALE_EXPORT_MINUTES = 15;
+
+export type ExportFormat = 'json' | 'markdown';
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown'];
+
+export interface AccountExport {
+  exported_at: string;
+  user: {
+    user_id: number;
+    email: string;
+    username: string;
+    profile_name: string | null;
+    login_type: string;
+    timezone: string;
+    locale: string;
+    created_at: string;
+  };
+  diaries: SerializedDiaryEntry[];
+  // Diaries that could not be decrypted; they are left out of the archive
+  failed_diary_ids: number[];
+  mood_meters: Array<{
+    id: number;
+    label: string;
+    color: string;
+    pleasantness: number;
+    energy: number;
+    created_at: string;
+  }>;
+  emotion_letters: Array<{
+    id: number;
+    diary_id: number;
+    letter: string;
+    model: string | null;
+    prompt_version: string | null;
+    created_at: string;
+  }>;
+  chat_sessions: Array<{
+    session_id: string;
+    title: string | null;
+    created_at: string;
+    messages: Array<{ role: string; content: string; created_at: string }>;
+  }>;
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface AccountExportProgress {
+  format: ExportFormat;
+  totalDiaries: number;
+  processedDiaries: number;
+}
+
+/**
+ * Counts the diaries an export would contain (decides sync vs background)
+ */
+export async function countExportDiaries(userId: number): Promise<number> {
+  return prisma.diary.count({ where: { user_id: userId, deleted_at: null } });
+}
+
+/**
+ * Collects and decrypts all data owned by a user
+ * A diary that fails to decrypt does not stop the export: it is left out and its id is
+ * listed in failed_diary_ids.
+ * @param onDiaries - Called with the number of diaries processed so far
+ */
+export async function collectAccountData(
+  userId: number,
+  onDiaries?: (processed: number) => Promise<void> | void
+): Promise<AccountExport> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { user_id: userId } });
+  const keyring = await getUserKeyring(userId);
+
+  const diaries: SerializedDiaryEntry[] = [];
+  const failedDiaryIds: number[] = [];
+  let cursor = 0;
+  while (true) {
+    const batch = await prisma.diary.findMany({
+      where: { user_id: userId, deleted_at: null, diary_id: { gt: cursor } },
+      orderBy: { diary_id: 'asc' },
+      take: DIARY_BATCH_SIZE,
+    });
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const diary of batch) {
+      let content: string;
+      try {
+        content = decrypt(diary.content, getKeyForVersion(keyring, diary.key_version));
+      } catch (error) {
+        console.error(`[AccountExport] Failed to decrypt diary ${diary.diary_id}:`, error);
+        failedDiaryIds.push(diary.diary_id);
+        continue;
+      }
+      diaries.push(JSON.parse(serializeDiary({ ...diary, content })));
+    }
+    cursor = batch[batch.length - 1].diary_id;
+    await onDiaries?.(diaries.length + failedDiaryIds.length);
+  }
+
+  const [moods, letters, sessions] = await Promise.all([
+    prisma.moodMeter.findMany({ where: { user_id: userId }, orderBy: { created_at: 'asc' } }),
+    prisma.emotionAnalysis.findMany({
+      where: { user_id: userId, diary: { deleted_at: null } },
+      orderBy: { created_at: 'asc' },
+    }),
+    prisma.chatSession.findMany({
+      where: { user_id: userId, deleted_at: null },
+      orderBy: { created_at: 'asc' },
+      include: { messages: { orderBy: { created_at: 'asc' } } },
+    }),
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    user: {
+      user_id: user.user_id,
+      email: user.email,
+      username: user.username,
+      profile_name: user.profile_name,
+      login_type: user.login_type,
+      timezone: user.timezone,
+      locale: user.locale,
+      created_at: user.created_at.toISOString(),
+    },
+    diaries,
+    failed_diary_ids: failedDiaryIds,
+    mood_meters: moods.map((m) => ({
+      id: m.id,
+      label: m.label,
+      color: m.color,
+      pleasantness: m.pleasantness,
+      energy: m.energy,
+      created_at: m.created_at.toISOString(),
+    })),
+    emotion_letters: letters.map((l) => ({
+      id: l.id,
+      diary_id: l.diary_id,
+      letter: l.emotion_result,
+      model: l.model,
+      prompt_version: l.prompt_version,
+      created_at: l.created_at.toISOString(),
+    })),
+    chat_sessions: sessions.map((s) => ({
+      session_id: s.session_id,
+      title: s.title,
+      created_at: s.created_at.toISOString(),
+      messages: s.messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+        created_at: m.created_at.toISOString(),
+      })),
+    })),
+  };
+}
+
+// Days and times in the archive are shown in the user's time zone
+const exportTimeZone = (data: AccountExport) =>
+  isValidTimeZone(data.user.timezone) ? data.user.timezone : DEFAULT_TIMEZONE;
+
+/**
+ * Renders the export as Markdown files: one per day and one per chat session
+ */
+export function buildMarkdownEntries(data: AccountExport): TarEntry[] {
+  const timeZone = exportTimeZone(data);
+  const formatDay = (iso: string) => toLocalDay(new Date(iso), timeZone);
+  const formatTime = (iso: string) => toLocalTime(new Date(iso), timeZone);
+  const days = new Map<string, string[]>();
+  const section = (day: string) => {
+    if (!days.has(day)) days.set(day, [`# ${day}`, '']);
+    return days.get(day)!;
+  };
+
+  const lettersByDiary = new Map<number, AccountExport['emotion_letters']>();
+  for (const letter of data.emotion_letters) {
+    lettersByDiary.set(letter.diary_id, [...(lettersByDiary.get(letter.diary_id) ?? []), letter]);
+  }
+
+  for (const diary of [...data.diaries].sort((a, b) => a.date.localeCompare(b.date))) {
+    const lines = section(formatDay(diary.date));
+    lines.push(`## ${diary.title} (${formatTime(diary.date)} · ${diary.color})`, '', diary.content, '');
+
+    for (const letter of lettersByDiary.get(diary.diary_id) ?? []) {
+      lines.push(`### 무디타의 편지 (${formatDay(letter.created_at)} ${formatTime(letter.created_at)})`, '', letter.letter, '');
+    }
+  }
+
+  const moodsByDay = new Map<string, AccountExport['mood_meters']>();
+  for (const mood of data.mood_meters) {
+    const day = formatDay(mood.created_at);
+    moodsByDay.set(day, [...(moodsByDay.get(day) ?? []), mood]);
+  }
+  for (const [day, moods] of moodsByDay) {
+    const lines = section(day);
+    lines.push('## 무드 미터', '');
+    for (const mood of moods) {
+      lines.push(
+        `- ${formatTime(mood.created_at)} ${mood.label} (${mood.color}, 편안함 ${mood.pleasantness} · 에너지 ${mood.energy})`
+      );
+    }
+    lines.push('');
+  }
+
+  const entries: TarEntry[] = [
+    {
+      name: 'README.md',
+      content: [
+        `# 매글 데이터 내보내기`,
+        '',
+        `- 계정: ${data.user.email}`,
+        `- 내보낸 시각: ${data.exported_at}`,
+        `- 일기 ${data.diaries.length}개, 무드 기록 ${data.mood_meters.length}개, 편지 ${data.emotion_letters.length}개, 대화 ${data.chat_sessions.length}개`,
+        '',
+        '`diaries/`에는 날짜별 일기와 편지, 무드 기록이, `chats/`에는 무디타와의 대화가 있습니다.',
+        '',
+        ...(data.failed_diary_ids.length > 0
+          ? [
+              `복호화하지 못해 빠진 일기 ${data.failed_diary_ids.length}개 (diary_id): ${data.failed_diary_ids.join(', ')}`,
+              '',
+            ]
+          : []),
+      ].join('\n'),
+    },
+  ];
+
+  for (const day of [...days.keys()].sort()) {
+    entries.push({ name: `diaries/${day}.md`, content: days.get(day)!.join('\n') });
+  }
+
+  for (const session of data.chat_sessions) {
+    const lines = [`# ${session.title || '무디타와의 대화'}`, '', `${formatDay(session.created_at)} 시작`, ''];
+    for (const message of session.messages) {
+      const speaker = message.role === 'user' ? '나' : message.role === 'assistant' ? '무디타' : message.role;
+      lines.push(`**${speaker}** (${formatDay(message.created_at)} ${formatTime(message.created_at)})`, '', message.content, '');
+    }
+    entries.push({
+      name: `chats/${formatDay(session.created_at)}-${session.session_id}.md`,
+      content: lines.join('\n'),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Encodes collected data in the requested format
+ */
+export function renderExport(data: AccountExport, format: ExportFormat): ExportFile {
+  const stamp = toLocalDay(new Date(data.exported_at), exportTimeZone(data));
+
+  if (format === 'json') {
+    return {
+      fileName: `maegeul-export-${stamp}.json`,
+      contentType: 'application/json',
+      content: Buffer.from(JSON.stringify(data, null, 2)),
+    };
+  }
+
+  return {
+    fileName: `maegeul-export-${stamp}.tar.gz`,
+    contentType: 'application/gzip',
+    content: createTarGz(buildMarkdownEntries(data)),
+  };
+}
+
+/**
+ * Builds an export in the request (small accounts)
+ */
+export async function buildAccountExport(userId: number, format: ExportFormat): Promise<ExportFile> {
+  return renderExport(await collectAccountData(userId), format);
+}
+
+/**
+ * Deletes archives whose download window has passed
+ */
+async function pruneExpiredExports(): Promise<void> {
+  const files = await fs.readdir(EXPORT_DIR).catch(() => [] as string[]);
+  const cutoff = Date.now() - EXPORT_TTL_HOURS * 60 * 60 * 1000;
+
+  for (const file of files) {
+    const filePath = path.join(EXPORT_DIR, file);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (stat && stat.mtimeMs < cutoff) {
+      await fs.rm(filePath, { force: true });
+    }
+  }
+}
+
+// Runs a job this process has claimed
+async function runAccountExportJob(job: BackgroundJob<AccountExportProgress>): Promise<void> {
+  const progress = job.progress;
+
+  try {
+    const data = await collectAccountData(job.user_id!, async (processed) => {
+      progress.processedDiaries = processed;
+      await updateJobProgress(job.job_id, progress, null);
+    });
+    const file = renderExport(data, progress.format);
+
+    await fs.mkdir(EXPORT_DIR, { recursive: true });
+    const storedName = `${job.job_id}.${progress.format === 'json' ? 'json' : 'tar.gz'}`;
+    await fs.writeFile(path.join(EXPORT_DIR, storedName), file.content, { mode: 0o600 });
+
+    await completeJob(job.job_id, {
+      stored_name: storedName,
+      file_name: file.fileName,
+      content_type: file.contentType,
+      size: file.content.length,
+      failed_diary_ids: data.failed_diary_ids,
+      expires_at: new Date(Date.now() + EXPORT_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+    console.log(`[AccountExport] Job ${job.job_id} completed (${file.content.length} bytes)`);
+  } catch (error) {
+    console.error(`[AccountExport] Job ${job.job_id} failed:`, error);
+    await failJob(job.job_id, error);
+  }
+}
+
+/**
+ * Starts a background export without waiting for it
+ * Reuses the user's unfinished export of the same format instead of starting another;
+ * a failed one is run again.
+ * @returns The job to poll
+ */
+export async function startAccountExport(
+  userId: number,
+  format: ExportFormat
+): Promise<BackgroundJob<AccountExportProgress>> {
+  const job = await findOrCreateJob<AccountExportProgress>(ACCOUNT_EXPORT_JOB_TYPE, userId, { format }, {
+    format,
+    totalDiaries: await countExportDiaries(userId),
+    processedDiaries: 0,
+  });
+
+  // Only the request that claims the job runs it; the others poll the same job
+  if (!(await claimJob(job.job_id))) {
+    return job;
+  }
+
+  const running = { ...job, status: 'running' as const };
+  runAccountExportJob(running).catch(() => {
+    // Failure is recorded on the job row
+  });
+
+  return running;
+}
+
+/**
+ * Deletes expired archives and fails exports interrupted by a restart
+ * @param now - Reference time (for tests)
+ */
+export async function cleanUpExports(now: Date = new Date()): Promise<void> {
+  await pruneExpiredExports();
+
+  const interrupted = await failStaleJobs(
+    ACCOUNT_EXPORT_JOB_TYPE,
+    new Date(now.getTime() - STALE_EXPORT_MINUTES * 60 * 1000)
+  );
+  if (interrupted > 0) {
+    console.log(`[AccountExport] Marked ${interrupted} interrupted exports as failed`);
+  }
+}
+
+/**
+ * Runs cleanUpExports now and then every EXPORT_CLEANUP_INTERVAL_MINUTES
+ * Set EXPORT_CLEANUP_INTERVAL_MINUTES=0 to disable (e.g. when an external cron does it).
+ * @returns Stops the schedule
+ */
+export function scheduleExportCleanup(): () => void {
+  if (EXPORT_CLEANUP_INTERVAL_MINUTES <= 0) {
+    return () => {};
+  }
+
+  const run = () =>
+    cleanUpExports().catch((error) => {
+      console.error('[AccountExport] Scheduled cleanup failed:', error);
+    });
+
+  run();
+  const timer = setInterval(run, EXPORT_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Reads the archive of a completed export job
+ * @returns The file, or null if the job has no archive or it has expired
+ */
+export async function readExportFile(jobId: string): Promise<ExportFile | null> {
+  const job = await getJob(jobId);
+  const result = job?.result;
+
+  if (!job || job.status !== 'completed' || !result?.stored_name) {
+    return null;
+  }
+
+  if (new Date(result.expires_at).getTime() < Date.now()) {
+    await fs.rm(path.join(EXPORT_DIR, result.stored_name), { force: true });
+    return null;
+  }
+
+  const content = await fs.readFile(path.join(EXPORT_DIR, result.stored_name)).catch(() => null);
+  return content ? { fileName: result.file_name, contentType: result.content_type, content } : null;
+}
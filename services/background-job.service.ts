@@ -0,0 +1,214 @@
+/**
+ * Background Job Service
+ * Persists the state of long-running jobs (re-encryption, embedding backfill, ...)
+ * so progress can be reported and an interrupted run can resume from its cursor.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface BackgroundJob<TProgress = Record<string, any>> {
+  job_id: string;
+  type: string;
+  status: JobStatus;
+  user_id: number | null;
+  progress: TProgress;
+  cursor: string | null;
+  error: string | null;
+  result: Record<string, any> | null;
+  created_at: Date;
+  updated_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+function toJob<TProgress>(row: any): BackgroundJob<TProgress> {
+  return {
+    job_id: row.job_id,
+    type: row.type,
+    status: row.status as JobStatus,
+    user_id: row.user_id,
+    progress: (row.progress ?? {}) as TProgress,
+    cursor: row.cursor,
+    error: row.error,
+    result: row.result as Record<string, any> | null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+  };
+}
+
+/**
+ * Creates a new pending job
+ * @param type - Job type identifier
+ * @param progress - Initial progress payload
+ * @param userId - Owning user (null for system-wide jobs)
+ * @param client - Transaction client (defaults to the shared client)
+ * @returns The created job
+ */
+export async function createJob<TProgress extends Record<string, any>>(
+  type: string,
+  progress: TProgress,
+  userId: number | null = null,
+  client: DbClient = prisma
+): Promise<BackgroundJob<TProgress>> {
+  const row = await client.backgroundJob.create({
+    data: {
+      type,
+      user_id: userId,
+      progress: progress as Prisma.InputJsonValue,
+    },
+  });
+  return toJob<TProgress>(row);
+}
+
+/**
+ * Gets a job by ID
+ * @param jobId - The job ID
+ * @returns The job or null if not found
+ */
+export async function getJob<TProgress = Record<string, any>>(
+  jobId: string
+): Promise<BackgroundJob<TProgress> | null> {
+  const row = await prisma.backgroundJob.findUnique({ where: { job_id: jobId } });
+  return row ? toJob<TProgress>(row) : null;
+}
+
+/**
+ * Finds the most recent unfinished (pending, running or failed) job of a type
+ * Used to resume a job after a crash or failure instead of starting over
+ * @param type - Job type identifier
+ * @param userId - Owning user (null for system-wide jobs)
+ * @param match - Top-level progress fields the job must have (e.g. its mode); others are skipped
+ * @param client - Transaction client (defaults to the shared client)
+ * @returns The job or null if every matching job of this type has completed
+ */
+export async function findResumableJob<TProgress = Record<string, any>>(
+  type: string,
+  userId: number | null = null,
+  match: Partial<TProgress> = {},
+  client: DbClient = prisma
+): Promise<BackgroundJob<TProgress> | null> {
+  const row = await client.backgroundJob.findFirst({
+    where: {
+      type,
+      user_id: userId,
+      status: { in: ['pending', 'running', 'failed'] },
+      AND: Object.entries(match).map(([key, value]) => ({
+        progress: { path: [key], equals: value as Prisma.InputJsonValue },
+      })),
+    },
+    orderBy: { created_at: 'desc' },
+  });
+  return row ? toJob<TProgress>(row) : null;
+}
+
+/**
+ * Resumes the latest unfinished job whose progress matches, or creates a new one
+ * The check and the insert run in one transaction holding an advisory lock on
+ * (type, user), so concurrent requests for the same scope end up with the same job.
+ * @param type - Job type identifier
+ * @param userId - Owning user (null for system-wide jobs)
+ * @param match - Top-level progress fields a resumable job must have
+ * @param initialProgress - Progress of the job to create when none matches
+ * @returns The resumed or created job
+ */
+export async function findOrCreateJob<TProgress extends Record<string, any>>(
+  type: string,
+  userId: number | null,
+  match: Partial<TProgress>,
+  initialProgress: TProgress
+): Promise<BackgroundJob<TProgress>> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${type}), ${userId ?? 0}::int)`;
+
+    const existing = await findResumableJob<TProgress>(type, userId, match, tx);
+    return existing ?? createJob(type, initialProgress, userId, tx);
+  });
+}
+
+/**
+ * Marks a job as running (clears any previous error)
+ */
+export async function markJobRunning(jobId: string): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { job_id: jobId },
+    data: { status: 'running', error: null, started_at: new Date() },
+  });
+}
+
+/**
+ * Marks a pending or failed job as running unless a runner already has it
+ * Lets concurrent requests that found the same job start it only once.
+ * @returns True if this caller claimed the job
+ */
+export async function claimJob(jobId: string): Promise<boolean> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { job_id: jobId, status: { in: ['pending', 'failed'] } },
+    data: { status: 'running', error: null, started_at: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Fails running jobs of a type that have not saved progress since `staleBefore`
+ * (their process was restarted or died), so they can be resumed or started again
+ * @returns Number of jobs failed
+ */
+export async function failStaleJobs(type: string, staleBefore: Date): Promise<number> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: { type, status: 'running', updated_at: { lt: staleBefore } },
+    data: { status: 'failed', error: 'Interrupted before finishing', finished_at: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Persists progress and the resume cursor after a batch
+ */
+export async function updateJobProgress<TProgress extends Record<string, any>>(
+  jobId: string,
+  progress: TProgress,
+  cursor: string | null
+): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { job_id: jobId },
+    data: { progress: progress as Prisma.InputJsonValue, cursor },
+  });
+}
+
+/**
+ * Marks a job as completed with an optional result payload
+ */
+export async function completeJob(
+  jobId: string,
+  result: Record<string, any> | null = null
+): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { job_id: jobId },
+    data: {
+      status: 'completed',
+      result: result === null ? Prisma.JsonNull : (result as Prisma.InputJsonValue),
+      finished_at: new Date(),
+    },
+  });
+}
+
+/**
+ * Marks a job as failed; the cursor is kept so the job can be resumed
+ */
+export async function failJob(jobId: string, error: unknown): Promise<void> {
+  await prisma.backgroundJob.update({
+    where: { job_id: jobId },
+    data: {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date(),
+    },
+  });
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+
+/**
+ * Conversation-to-diary drafts
+ * A session's summary and messages become a first-person draft; the draft is only returned,
+ * never saved, and always points back to its session.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    chatSession: { findUnique: vi.fn() },
+  },
+}));
+
+import prisma from '../db';
+import { MockLLMProvider } from './mock-llm-provider';
+import { setLLMProvider } from './llm-provider';
+import { generateDiaryDraft, buildDraftMessages } from './diary-draft.service';
+
+const SESSION_ID = '00000000-0000-4000-8000-0000000000d1';
+const mock = new MockLLMProvider();
+
+function message(role: string, content: string) {
+  return { message_id: content, session_id: SESSION_ID, role, content, related_diary_ids: [], created_at: new Date() };
+}
+
+function mockSession(summary: string | null, messages: ReturnType<typeof message>[]) {
+  vi.mocked(prisma.chatSession.findUnique).mockResolvedValue({
+    session_id: SESSION_ID,
+    user_id: 1,
+    title: null,
+    summary,
+    is_active: true,
+    created_at: new Date(),
+    updated_at: new Date(),
+    messages,
+  } as any);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mock.reset();
+  setLLMProvider(mock);
+});
+
+afterAll(() => {
+  setLLMProvider(null);
+});
+
+describe('generateDiaryDraft', () => {
+  it('should draft from the summary and the messages and link the session', async () => {
+    mockSession('회사에서 발표를 앞두고 긴장했다고 이야기함', [
+      message('user', '발표 드디어 끝났어!'),
+      message('assistant', '정말 수고했어 💛'),
+    ]);
+    const draft = { title: '발표가 끝난 날', content: '오늘 드디어 발표를 마쳤다.', color: '노란색' };
+    mock.enqueue({ structured: draft });
+
+    const result = await generateDiaryDraft(SESSION_ID, '민지');
+
+    expect(result).toEqual({ status: 'ok', draft: { ...draft, source_session_id: SESSION_ID } });
+    const prompt = mock.calls[0].messages.map((m) => m.content).join('\n');
+    expect(prompt).toContain('회사에서 발표를 앞두고 긴장했다고 이야기함');
+    expect(prompt).toContain('나: 발표 드디어 끝났어!');
+    expect(prompt).toContain('무디타: 정말 수고했어 💛');
+    expect(mock.calls[0].options).toMatchObject({ schemaName: 'diary_draft' });
+  });
+
+  it('should not call the model when the user has said nothing yet', async () => {
+    mockSession(null, [message('assistant', '안녕! 오늘 어땠어?')]);
+
+    expect(await generateDiaryDraft(SESSION_ID)).toEqual({ status: 'empty' });
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  it('should report a missing session', async () => {
+    vi.mocked(prisma.chatSession.findUnique).mockResolvedValue(null);
+
+    expect(await generateDiaryDraft(SESSION_ID)).toEqual({ status: 'not_found' });
+  });
+
+  it('should reject a draft that could not be saved as a diary', async () => {
+    mockSession(null, [message('user', '그냥 그랬어')]);
+    mock.enqueue({ structured: { title: '오늘', content: '평범한 하루였다.', color: '보라색' } });
+
+    await expect(generateDiaryDraft(SESSION_ID)).rejects.toThrow('invalid draft');
+  });
+});
+
+describe('buildDraftMessages', () => {
+  it('should keep the latest messages of a long conversation', () => {
+    fc.assert(
+      fc.property(fc.array(fc.string({ minLength: 1, maxLength: 400 }), { minLength: 1, maxLength: 60 }), (texts) => {
+        const messages = texts.map((text, i) => ({ role: i % 2 === 0 ? 'user' : 'assistant', content: `${i}:${text}` }));
+
+        const [, user] = buildDraftMessages({ summary: null, messages });
+
+        // Property: the transcript always ends with the latest message and stays bounded
+        const transcript = (user.content as string).split('## 대화\n')[1];
+        expect(transcript).toContain(messages[messages.length - 1].content);
+        expect(transcript.length).toBeLessThan(6000 + 500);
+
+        return true;
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
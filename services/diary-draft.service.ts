@@ -0,0 +1,112 @@
+/**
+ * Diary Draft Service
+ * Turns a chat session (its summary and remaining messages) into a first-person diary draft
+ * with a title and a suggested mood color. Nothing is saved here: the user edits the draft
+ * and saves it through POST /api/diary with source_session_id, like any other diary.
+ */
+
+import { z } from 'zod';
+import { getLLMProvider, ChatMessage } from './llm-provider';
+import { getSessionById } from './session.service';
+import { zodToJsonSchema } from './tool-registry';
+import { createDiarySchema } from '../schemas/diary.schema';
+
+export const DIARY_DRAFT_MODEL = 'gpt-4o-mini';
+
+// Longer conversations keep their latest messages (older ones are in the summary)
+const MAX_TRANSCRIPT_CHARS = 6000;
+
+const diaryDraftSchema = createDiarySchema.pick({ title: true, content: true, color: true });
+
+export type DiaryDraft = z.infer<typeof diaryDraftSchema> & { source_session_id: string };
+
+export type DiaryDraftResult =
+  | { status: 'ok'; draft: DiaryDraft }
+  | { status: 'not_found' }
+  | { status: 'empty' };
+
+export interface DraftConversation {
+  summary: string | null;
+  messages: Array<{ role: string; content: string }>;
+  userName?: string;
+}
+
+function buildTranscript(messages: DraftConversation['messages']): string {
+  const lines: string[] = [];
+  let length = 0;
+
+  for (const message of [...messages].reverse()) {
+    const line = `${message.role === 'user' ? '나' : '무디타'}: ${message.content}`;
+    if (lines.length > 0 && length + line.length > MAX_TRANSCRIPT_CHARS) break;
+    lines.unshift(line);
+    length += line.length;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the system and user messages for a diary draft
+ */
+export function buildDraftMessages(conversation: DraftConversation): ChatMessage[] {
+  const displayName = conversation.userName || '사용자';
+
+  const systemPrompt = `당신은 ${displayName}가 무디타(AI 친구)와 나눈 대화를 ${displayName}의 일기로 옮겨 적는 역할이에요.
+
+## 규칙
+- ${displayName}가 직접 쓴 것처럼 1인칭("나")으로 써요
+- 대화에서 ${displayName}가 말한 사건, 사람, 감정만 사용하고 없는 내용은 지어내지 않아요
+- 무디타의 말은 ${displayName}가 받은 위로나 깨달은 점으로만 짧게 담아요
+- 일기 문체로 자연스럽게 (예: "~했다", "~였다"), 3-6문단 이내
+- 제목은 오늘 하루를 담은 짧은 한 줄
+
+## 무드 색상 (오늘 ${displayName}의 감정에 가장 가까운 것 하나)
+- 빨간색: 화남, 불안, 스트레스 (고에너지 + 불쾌감)
+- 노란색: 기쁨, 설렘, 활력 (고에너지 + 쾌적함)
+- 파란색: 슬픔, 우울, 피로 (저에너지 + 불쾌감)
+- 초록색: 평온, 만족, 편안함 (저에너지 + 쾌적함)`;
+
+  const userMessage = `${conversation.summary ? `## 앞선 대화 요약\n${conversation.summary}\n\n` : ''}## 대화
+${buildTranscript(conversation.messages)}
+
+이 대화를 바탕으로 ${displayName}의 일기 초안을 써줘.`;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userMessage },
+  ];
+}
+
+/**
+ * Generates a diary draft from a chat session without saving it
+ * @param sessionId - The session to summarize (ownership is checked by the route)
+ * @param userName - Optional user name for the prompt
+ * @returns The draft, or not_found / empty when there is nothing to write about
+ */
+export async function generateDiaryDraft(sessionId: string, userName?: string): Promise<DiaryDraftResult> {
+  const session = await getSessionById(sessionId, true);
+  if (!session) return { status: 'not_found' };
+
+  const messages = (session.messages ?? []).filter((m) => m.role === 'user' || m.role === 'assistant');
+  if (!session.summary && !messages.some((m) => m.role === 'user')) {
+    return { status: 'empty' };
+  }
+
+  const response = await getLLMProvider().structured<unknown>(
+    buildDraftMessages({ summary: session.summary, messages, userName }),
+    {
+      model: DIARY_DRAFT_MODEL,
+      schemaName: 'diary_draft',
+      schema: { ...zodToJsonSchema(diaryDraftSchema), additionalProperties: false },
+      temperature: 0.7,
+      maxTokens: 1200,
+    }
+  );
+
+  const parsed = diaryDraftSchema.safeParse(response);
+  if (!parsed.success) {
+    throw new Error('Diary draft generation returned an invalid draft');
+  }
+
+  console.log(`[DiaryDraft] Drafted "${parsed.data.title}" from session ${sessionId}`);
+  return { status: 'ok', draft: { ...parsed.data, source_session_id: sessionId } };
+}
@@ -0,0 +1,51 @@
+/**
+ * Diary Entry Service
+ * Saves a diary written outside the diary editor (e.g. a draft accepted from the chat)
+ * through the same pipeline as POST /api/diary: content encrypted with the user's current
+ * key, saved with saveDiary, then embedded for search without blocking the caller. The two
+ * steps are separate so the save can join a transaction and the embedding wait for its commit.
+ */
+
+import { Diary, Prisma } from '@prisma/client';
+import prisma from '../db';
+import { saveDiary } from '../models/diaryModel';
+import { encrypt } from '../util/encrypt';
+import { getUserKeyring, getCurrentKey } from './key-management.service';
+import { upsertDiaryEmbedding } from './embedding.service';
+import { CreateDiaryBody } from '../schemas/diary.schema';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Encrypts and saves a diary for the user without embedding it
+ * @param client - Transaction to save in (the embedding must wait for its commit)
+ * @returns The saved diary (content encrypted)
+ */
+export async function saveDiaryEntry(userId: number, entry: CreateDiaryBody, client: DbClient = prisma): Promise<Diary> {
+  const keyring = await getUserKeyring(userId);
+
+  return new Promise<Diary>((resolve, reject) => {
+    saveDiary(
+      {
+        user_id: userId,
+        title: entry.title,
+        encryptedContent: encrypt(entry.content, getCurrentKey(keyring)),
+        color: entry.color,
+        key_version: keyring.version,
+        source_session_id: entry.source_session_id,
+      },
+      (error, result) => (error ? reject(error) : resolve(result!)),
+      client
+    );
+  });
+}
+
+/**
+ * Starts the embedding of a saved diary without blocking the caller
+ */
+export function embedDiaryEntry(diaryId: number, content: string): void {
+  // Diaries left without an embedding are picked up by the backfill job
+  upsertDiaryEmbedding(diaryId, content).catch((error) => {
+    console.error(`[DiaryEntry] Failed to generate embedding for diary ${diaryId}:`, error);
+  });
+}
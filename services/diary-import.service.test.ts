@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Diary Import Tests
+ * Each format yields the same entries, duplicates and invalid rows are reported,
+ * and a dry run saves nothing.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    user: { findUnique: vi.fn() },
+    diary: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('./key-management.service', () => ({
+  getUserKeyring: vi.fn(async (userId: number) => ({ userId, version: 3, keys: { 3: 'key' } })),
+  getCurrentKey: vi.fn(() => 'key'),
+  getKeyForVersion: vi.fn(() => 'key'),
+}));
+
+vi.mock('../util/encrypt', () => ({
+  encrypt: vi.fn((content: string) => `enc:${content}`),
+  decrypt: vi.fn((content: string) => content.replace('enc:', '')),
+}));
+
+vi.mock('../models/diaryModel', () => ({
+  saveDiary: vi.fn(async (data: any, callback: any) => callback(null, { diary_id: 100 + data.title.length })),
+}));
+
+vi.mock('./embedding-backfill.service', () => ({
+  startUserEmbeddingBackfill: vi.fn(async () => ({ job_id: 'job-1' })),
+}));
+
+import prisma from '../db';
+import { saveDiary } from '../models/diaryModel';
+import { startUserEmbeddingBackfill } from './embedding-backfill.service';
+import {
+  parseMarkdown,
+  parseCsv,
+  parseDayOneJson,
+  parseMaegeulJson,
+  detectImportFormat,
+  importDiaries,
+} from './diary-import.service';
+
+const local = (value: string) => new Date(value);
+const kst = (value: string) => new Date(`${value}+09:00`);
+
+describe('Diary import parsers', () => {
+  it('should read the Markdown export layout and skip letters and mood meters', () => {
+    const { entries, invalid } = parseMarkdown({
+      name: 'diaries/2025-06-01.md',
+      content: [
+        '# 2025-06-01',
+        '',
+        '## 카페 (10:00 · 노란색)',
+        '',
+        '친구랑 카페',
+        '',
+        '### 무디타의 편지 (2025-06-01 10:05)',
+        '',
+        '민지야, 카페 이야기 읽었어.',
+        '',
+        '## 무드 미터',
+        '',
+        '- 09:00 신나는 (노란색, 편안함 8 · 에너지 9)',
+      ].join('\n'),
+    });
+
+    expect(invalid).toEqual([]);
+    expect(entries).toEqual([
+      expect.objectContaining({ row: 3, title: '카페', content: '친구랑 카페', color: '노란색', date: local('2025-06-01T10:00') }),
+    ]);
+  });
+
+  it('should take the day from the file name for plain notes', () => {
+    const { entries } = parseMarkdown({ name: '2025-03-02.md', content: '봄비가 왔다.\n\n우산을 잃어버렸다.' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ title: '봄비가 왔다.', content: '봄비가 왔다.\n\n우산을 잃어버렸다.', color: '', date: local('2025-03-02T00:00') }),
+    ]);
+  });
+
+  it('should report Markdown entries without a day', () => {
+    const { entries, invalid } = parseMarkdown({ name: 'notes.md', content: '# My Journal\n\n## 첫 글\n\n내용' });
+
+    expect(entries).toEqual([]);
+    expect(invalid).toEqual([expect.objectContaining({ row: 3, reason: expect.stringContaining('No date') })]);
+  });
+
+  it('should read quoted CSV fields and report bad rows by line', () => {
+    const { entries, invalid } = parseCsv({
+      name: 'journal.csv',
+      content: 'date,title,content\n2025-06-01 21:30,"야근, 또","회의가 ""길었다""\n집에 늦게 옴"\nnot-a-date,제목,내용\n',
+    });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ row: 2, title: '야근, 또', content: '회의가 "길었다"\n집에 늦게 옴', date: local('2025-06-01T21:30') }),
+    ]);
+    expect(invalid).toEqual([{ source: 'journal.csv', row: 4, reason: 'Missing or invalid date' }]);
+  });
+
+  it('should read Day One entries and unescape their Markdown', () => {
+    const { entries } = parseDayOneJson({
+      name: 'Journal.json',
+      content: JSON.stringify({
+        metadata: { version: '1.0' },
+        entries: [{ uuid: 'A1', creationDate: '2025-06-01T01:00:00Z', text: '# 산책\n\n한강에서 1\\.5km 걸었다\\!' }],
+      }),
+    });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ title: '산책', content: '한강에서 1.5km 걸었다!', date: new Date('2025-06-01T01:00:00Z') }),
+    ]);
+  });
+
+  it('should validate maegeul rows with parseDiary', () => {
+    const { entries, invalid } = parseMaegeulJson({
+      name: 'export.json',
+      content: JSON.stringify({
+        diaries: [
+          { diary_id: 1, user_id: 9, title: '카페', content: '친구랑 카페', color: '노란색', date: '2025-06-01T01:00:00.000Z' },
+          { diary_id: 2, user_id: 9, title: 3, content: '내용', color: '파란색', date: '2025-06-02T01:00:00.000Z' },
+        ],
+      }),
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(invalid).toEqual([{ source: 'export.json', row: 2, reason: 'Invalid title: must be a string' }]);
+  });
+
+  it('should detect the format from the file name and JSON shape', () => {
+    expect(detectImportFormat({ name: 'a.csv', content: '' })).toBe('csv');
+    expect(detectImportFormat({ name: 'a.md', content: '' })).toBe('markdown');
+    expect(detectImportFormat({ name: 'a.json', content: '{"entries":[]}' })).toBe('dayone');
+    expect(detectImportFormat({ name: 'a.json', content: '[]' })).toBe('maegeul');
+  });
+});
+
+describe('importDiaries', () => {
+  const csv = {
+    name: 'journal.csv',
+    content: 'date,title,content,color\n2025-06-01 10:00,카페,친구랑 카페,노란색\n2025-06-01 10:00,카페,친구랑 카페,노란색\n2025-06-02 22:00,야근,회의가 길었다,파란색\n,빈 날짜,내용,\n',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ timezone: 'Asia/Seoul', locale: 'ko-KR' } as any);
+    vi.mocked(prisma.diary.findMany).mockResolvedValue([
+      { diary_id: 7, title: '야근', content: 'enc:회의가 길었다', date: kst('2025-06-02T22:00:30'), key_version: 3 },
+    ] as any);
+  });
+
+  it('should report duplicates and invalid rows without saving on a dry run', async () => {
+    const result = await importDiaries(1, [csv], { dryRun: true });
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.report).toMatchObject({ dry_run: true, total: 4, importable: 1, imported: 0, embedding_job_id: null });
+    expect(result.report.duplicates).toEqual([
+      expect.objectContaining({ row: 3, duplicate_of: 'file' }),
+      expect.objectContaining({ row: 4, duplicate_of: 'existing', diary_id: 7 }),
+    ]);
+    expect(result.report.invalid).toEqual([expect.objectContaining({ row: 5 })]);
+    expect(saveDiary).not.toHaveBeenCalled();
+  });
+
+  it('should save new entries encrypted with their original dates in the user\'s time zone and queue embeddings', async () => {
+    const result = await importDiaries(1, [csv]);
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.report.imported).toBe(1);
+    expect(saveDiary).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveDiary).mock.calls[0][0]).toEqual({
+      user_id: 1,
+      title: '카페',
+      encryptedContent: 'enc:친구랑 카페',
+      color: '노란색',
+      key_version: 3,
+      date: kst('2025-06-01T10:00'),
+    });
+    expect(startUserEmbeddingBackfill).toHaveBeenCalledWith(1, 'missing');
+    expect(result.report.embedding_job_id).toBe('job-1');
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * Diary Import Service
+ * Moves diaries from other journaling apps (and maegeul's own exports) into an account.
+ *
+ * Supported formats:
+ * - maegeul: JSON array of SerializedDiaryEntry, or an account export ({ diaries: [...] }), read with parseDiary
+ * - markdown: `# YYYY-MM-DD` day headings with `## title (HH:MM · color)` entries (the export layout),
+ *   or a plain note whose file name contains the day
+ * - csv: header row with date, content and optional title and color columns
+ * - dayone: Day One JSON export ({ entries: [{ creationDate, text }] })
+ *
+ * Entries are encrypted through saveDiary with their original dates. An entry with the same
+ * minute, title and content as an existing diary (or an earlier row) is reported as a duplicate
+ * and skipped, so re-running a partially failed import is safe. Embeddings are generated by a
+ * per-user backfill job instead of one API call per imported entry.
+ */
+
+import crypto from 'crypto';
+import { Diary } from '@prisma/client';
+import prisma from '../db';
+import { encrypt, decrypt } from '../util/encrypt';
+import { saveDiary } from '../models/diaryModel';
+import { parseDiary } from './diary-serialization';
+import { getUserKeyring, getCurrentKey, getKeyForVersion } from './key-management.service';
+import { startUserEmbeddingBackfill } from './embedding-backfill.service';
+import { getUserTimeSettings } from './user-settings.service';
+import { SERVER_TIMEZONE, parseLocalDateTime } from '../util/timezone';
+
+export const MAX_IMPORT_ENTRIES = Number(process.env.MAX_IMPORT_ENTRIES) || 2000;
+const MAX_TITLE_LENGTH = 255; // Diary.title VarChar(255)
+const MAX_COLOR_LENGTH = 50; // Diary.color VarChar(50)
+const DERIVED_TITLE_LENGTH = 50;
+
+export type ImportFormat = 'maegeul' | 'markdown' | 'csv' | 'dayone';
+export const IMPORT_FORMATS: ImportFormat[] = ['maegeul', 'markdown', 'csv', 'dayone'];
+
+export interface ImportFile {
+  name: string;
+  content: string;
+}
+
+export interface ImportCandidate {
+  source: string;
+  row: number;
+  title: string;
+  content: string;
+  color: string;
+  date: Date;
+}
+
+/**
+ * row is the 1-based entry index for JSON, and the line number for Markdown and CSV
+ */
+export interface InvalidImportRow {
+  source: string;
+  row: number;
+  reason: string;
+}
+
+export interface DuplicateImportRow {
+  source: string;
+  row: number;
+  title: string;
+  date: string;
+  duplicate_of: 'existing' | 'file';
+  diary_id?: number;
+}
+
+export interface ParsedImport {
+  entries: ImportCandidate[];
+  invalid: InvalidImportRow[];
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  files: Array<{ name: string; format: ImportFormat; entries: number; invalid: number }>;
+  total: number;
+  importable: number;
+  imported: number;
+  diary_ids: number[];
+  duplicates: DuplicateImportRow[];
+  invalid: InvalidImportRow[];
+  embedding_job_id: string | null;
+}
+
+export type ImportResult =
+  | { status: 'ok'; report: ImportReport }
+  | { status: 'too_many_entries'; limit: number; found: number };
+
+export interface ImportOptions {
+  format?: ImportFormat;
+  dryRun?: boolean;
+}
+
+const DAY_PATTERN = /(\d{4}-\d{2}-\d{2})/;
+
+/**
+ * Parses an import date. Dates without an offset are read in the given time zone
+ * (the importing user's), like the diary list filters and the Markdown export.
+ */
+export function parseImportDate(raw: string, timeZone: string = SERVER_TIMEZONE): Date | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  const local = parseLocalDateTime(value, timeZone);
+  if (local) return local;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function deriveTitle(content: string): string {
+  const firstLine = content.split('\n').find((line) => line.trim()) ?? '';
+  return firstLine.replace(/^#+\s*/, '').trim().slice(0, DERIVED_TITLE_LENGTH);
+}
+
+function toCandidate(
+  source: string,
+  row: number,
+  fields: { title?: string | null; content: string; color?: string | null; date: Date | null }
+): ImportCandidate | InvalidImportRow {
+  const content = fields.content.trim();
+  if (!content) {
+    return { source, row, reason: 'Empty content' };
+  }
+  if (!fields.date) {
+    return { source, row, reason: 'Missing or invalid date' };
+  }
+
+  const title = fields.title?.trim() || deriveTitle(content);
+  if (title.length > MAX_TITLE_LENGTH) {
+    return { source, row, reason: `Title is longer than ${MAX_TITLE_LENGTH} characters` };
+  }
+
+  const color = fields.color?.trim() ?? '';
+  if (color.length > MAX_COLOR_LENGTH) {
+    return { source, row, reason: `Color is longer than ${MAX_COLOR_LENGTH} characters` };
+  }
+
+  return { source, row, title, content, color, date: fields.date };
+}
+
+function collect(results: Array<ImportCandidate | InvalidImportRow>): ParsedImport {
+  const parsed: ParsedImport = { entries: [], invalid: [] };
+  for (const result of results) {
+    if ('reason' in result) {
+      parsed.invalid.push(result);
+    } else {
+      parsed.entries.push(result);
+    }
+  }
+  return parsed;
+}
+
+function parseJson(file: ImportFile): { data?: any; error?: InvalidImportRow } {
+  try {
+    return { data: JSON.parse(file.content) };
+  } catch (error: any) {
+    return { error: { source: file.name, row: 0, reason: `Invalid JSON: ${error.message}` } };
+  }
+}
+
+/**
+ * Reads maegeul JSON (SerializedDiaryEntry rows); diary_id and user_id are not kept
+ */
+export function parseMaegeulJson(file: ImportFile): ParsedImport {
+  const { data, error } = parseJson(file);
+  if (error) return { entries: [], invalid: [error] };
+
+  const rows = Array.isArray(data) ? data : data?.diaries;
+  if (!Array.isArray(rows)) {
+    return { entries: [], invalid: [{ source: file.name, row: 0, reason: 'Expected an array of diaries' }] };
+  }
+
+  return collect(
+    rows.map((row, index) => {
+      try {
+        const diary = parseDiary(JSON.stringify(row));
+        return toCandidate(file.name, index + 1, diary);
+      } catch (error: any) {
+        return { source: file.name, row: index + 1, reason: error.message };
+      }
+    })
+  );
+}
+
+// Day One escapes Markdown punctuation in `text`
+const unescapeDayOne = (text: string) => text.replace(/\\([\\`*_{}[\]()#+\-.!])/g, '$1');
+
+/**
+ * Reads a Day One JSON export; a leading `# heading` becomes the title
+ */
+export function parseDayOneJson(file: ImportFile, timeZone: string = SERVER_TIMEZONE): ParsedImport {
+  const { data, error } = parseJson(file);
+  if (error) return { entries: [], invalid: [error] };
+
+  if (!Array.isArray(data?.entries)) {
+    return { entries: [], invalid: [{ source: file.name, row: 0, reason: 'Expected a Day One export with entries' }] };
+  }
+
+  return collect(
+    data.entries.map((entry: any, index: number) => {
+      const row = index + 1;
+      if (typeof entry?.text !== 'string') {
+        return { source: file.name, row, reason: 'Invalid text: must be a string' };
+      }
+
+      const text = unescapeDayOne(entry.text).trim();
+      const heading = text.match(/^#+\s+(.+)\n?/);
+      return toCandidate(file.name, row, {
+        title: heading?.[1],
+        content: heading ? text.slice(heading[0].length) : text,
+        date: typeof entry.creationDate === 'string' ? parseImportDate(entry.creationDate, timeZone) : null,
+      });
+    })
+  );
+}
+
+/**
+ * Reads Markdown journals
+ * Every heading starts a section; a `YYYY-MM-DD` at the start of a heading sets the day for
+ * the sections below it, and `(HH:MM · color)` after a title sets the time and color.
+ * Letters and mood meter sections written by the export are skipped.
+ */
+export function parseMarkdown(file: ImportFile, timeZone: string = SERVER_TIMEZONE): ParsedImport {
+  const results: Array<ImportCandidate | InvalidImportRow> = [];
+  let day = file.name.match(DAY_PATTERN)?.[1] ?? null;
+
+  let section: {
+    row: number;
+    level: number;
+    title: string | null;
+    time: string | null;
+    color: string | null;
+    lines: string[];
+  } | null = { row: 1, level: 1, title: null, time: null, color: null, lines: [] };
+  let skipping = false;
+
+  const flush = () => {
+    if (!section) return;
+    const content = section.lines.join('\n').trim();
+    // A bare heading (day or document title) is only a container
+    if (content || (section.level > 1 && section.title)) {
+      const date = day ? parseImportDate(`${day} ${section.time ?? '00:00'}`, timeZone) : null;
+      results.push(
+        !date && content
+          ? { source: file.name, row: section.row, reason: "No date (use a '# YYYY-MM-DD' heading or a YYYY-MM-DD file name)" }
+          : toCandidate(file.name, section.row, { title: section.title, content, color: section.color, date })
+      );
+    }
+    section = null;
+  };
+
+  file.content.split(/\r?\n/).forEach((line, index) => {
+    const heading = line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+
+    if (!heading) {
+      if (section && !skipping) section.lines.push(line);
+      return;
+    }
+
+    const level = heading[1].length;
+    let text = heading[2];
+
+    // Letters belong to the entry above them but are not diary text
+    if (level >= 3 && text.startsWith('무디타의 편지')) {
+      skipping = true;
+      return;
+    }
+
+    flush();
+    skipping = text === '무드 미터';
+    if (skipping) return;
+
+    const headingDay = text.match(new RegExp(`^${DAY_PATTERN.source}`));
+    if (headingDay) {
+      day = headingDay[1];
+      text = text.slice(headingDay[1].length).trim();
+    }
+
+    const meta = text.match(/^(.*?)\s*\((\d{1,2}:\d{2})(?:\s*·\s*([^)]*))?\)$/);
+    section = {
+      row: index + 1,
+      level: headingDay && !text ? 1 : level,
+      title: (meta ? meta[1] : text) || null,
+      time: meta?.[2] ?? null,
+      color: meta?.[3] ?? null,
+      lines: [],
+    };
+  });
+  flush();
+
+  return collect(results);
+}
+
+/**
+ * Splits CSV (RFC 4180: quoted fields may contain commas, quotes and newlines)
+ * @returns Records with the line number each one starts on
+ */
+export function parseCsvRecords(text: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      if (fields.some((value) => value !== '')) records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  if (fields.some((value) => value !== '')) records.push({ line: recordLine, fields });
+  return records;
+}
+
+const CSV_COLUMNS: Record<'date' | 'title' | 'content' | 'color', string[]> = {
+  date: ['date', 'created_at', '날짜'],
+  title: ['title', '제목'],
+  content: ['content', 'body', 'text', '내용'],
+  color: ['color', '색상'],
+};
+
+/**
+ * Reads CSV with a header row (date and content are required)
+ */
+export function parseCsv(file: ImportFile, timeZone: string = SERVER_TIMEZONE): ParsedImport {
+  const [header, ...records] = parseCsvRecords(file.content);
+  const names = header?.fields.map((name) => name.trim().toLowerCase()) ?? [];
+  const column = (key: keyof typeof CSV_COLUMNS) => names.findIndex((name) => CSV_COLUMNS[key].includes(name));
+
+  const dateIndex = column('date');
+  const contentIndex = column('content');
+  if (dateIndex < 0 || contentIndex < 0) {
+    return { entries: [], invalid: [{ source: file.name, row: 1, reason: 'CSV header needs date and content columns' }] };
+  }
+  const titleIndex = column('title');
+  const colorIndex = column('color');
+
+  return collect(
+    records.map(({ line, fields }) =>
+      toCandidate(file.name, line, {
+        date: parseImportDate(fields[dateIndex] ?? '', timeZone),
+        content: fields[contentIndex] ?? '',
+        title: titleIndex >= 0 ? fields[titleIndex] : null,
+        color: colorIndex >= 0 ? fields[colorIndex] : null,
+      })
+    )
+  );
+}
+
+/**
+ * Picks a parser from the file name, or from the JSON shape
+ */
+export function detectImportFormat(file: ImportFile): ImportFormat {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.csv')) return 'csv';
+  if (/\.(md|markdown|txt)$/.test(name)) return 'markdown';
+
+  try {
+    const data = JSON.parse(file.content);
+    return Array.isArray(data?.entries) ? 'dayone' : 'maegeul';
+  } catch {
+    return file.content.trimStart().startsWith('#') ? 'markdown' : 'maegeul';
+  }
+}
+
+const PARSERS: Record<ImportFormat, (file: ImportFile, timeZone: string) => ParsedImport> = {
+  maegeul: parseMaegeulJson,
+  markdown: parseMarkdown,
+  csv: parseCsv,
+  dayone: parseDayOneJson,
+};
+
+// Same minute, title and content (Markdown exports only keep HH:MM)
+function fingerprint(entry: { date: Date; title: string; content: string }): string {
+  const minute = Math.floor(entry.date.getTime() / 60000);
+  return crypto
+    .createHash('sha256')
+    .update(`${minute}\n${entry.title.trim()}\n${entry.content.trim()}`)
+    .digest('hex');
+}
+
+/**
+ * Fingerprints of the user's diaries in the date range of the import
+ */
+async function findExistingFingerprints(userId: number, entries: ImportCandidate[]): Promise<Map<string, number>> {
+  const existing = new Map<string, number>();
+  if (entries.length === 0) return existing;
+
+  const times = entries.map((entry) => entry.date.getTime());
+  const from = new Date(Math.floor(Math.min(...times) / 60000) * 60000);
+  const to = new Date(Math.floor(Math.max(...times) / 60000) * 60000 + 60000);
+
+  const [keyring, diaries] = await Promise.all([
+    getUserKeyring(userId),
+    prisma.diary.findMany({
+      where: { user_id: userId, deleted_at: null, date: { gte: from, lt: to } },
+      select: { diary_id: true, title: true, content: true, date: true, key_version: true },
+    }),
+  ]);
+
+  for (const diary of diaries) {
+    try {
+      const content = decrypt(diary.content, getKeyForVersion(keyring, diary.key_version));
+      existing.set(fingerprint({ date: diary.date, title: diary.title, content }), diary.diary_id);
+    } catch (error) {
+      console.warn(`[DiaryImport] Could not decrypt diary ${diary.diary_id} for duplicate check`);
+    }
+  }
+  return existing;
+}
+
+function saveImportedDiary(data: Parameters<typeof saveDiary>[0]): Promise<Diary> {
+  return new Promise((resolve, reject) => {
+    saveDiary(data, (error, diary) => (error ? reject(error) : resolve(diary!)));
+  });
+}
+
+/**
+ * Parses, de-duplicates and (unless dryRun) saves imported diaries
+ * @param userId - The importing user
+ * @param files - Uploaded files (UTF-8 text)
+ * @param options - format overrides detection for every file; dryRun only reports
+ */
+export async function importDiaries(
+  userId: number,
+  files: ImportFile[],
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const dryRun = options.dryRun ?? false;
+  const report: ImportReport = {
+    dry_run: dryRun,
+    files: [],
+    total: 0,
+    importable: 0,
+    imported: 0,
+    diary_ids: [],
+    duplicates: [],
+    invalid: [],
+    embedding_job_id: null,
+  };
+
+  // Dates without an offset are the user's wall-clock time
+  const { timeZone } = await getUserTimeSettings(userId);
+
+  const entries: ImportCandidate[] = [];
+  for (const file of files) {
+    const format = options.format ?? detectImportFormat(file);
+    const parsed = PARSERS[format](file, timeZone);
+    entries.push(...parsed.entries);
+    report.invalid.push(...parsed.invalid);
+    report.files.push({ name: file.name, format, entries: parsed.entries.length, invalid: parsed.invalid.length });
+  }
+  report.total = entries.length + report.invalid.length;
+
+  if (entries.length > MAX_IMPORT_ENTRIES) {
+    return { status: 'too_many_entries', limit: MAX_IMPORT_ENTRIES, found: entries.length };
+  }
+
+  const existing = await findExistingFingerprints(userId, entries);
+  const seen = new Set<string>();
+  const importable: ImportCandidate[] = [];
+
+  for (const entry of entries) {
+    const key = fingerprint(entry);
+    const duplicate = { source: entry.source, row: entry.row, title: entry.title, date: entry.date.toISOString() };
+
+    if (existing.has(key)) {
+      report.duplicates.push({ ...duplicate, duplicate_of: 'existing', diary_id: existing.get(key) });
+    } else if (seen.has(key)) {
+      report.duplicates.push({ ...duplicate, duplicate_of: 'file' });
+    } else {
+      seen.add(key);
+      importable.push(entry);
+    }
+  }
+  report.importable = importable.length;
+
+  if (dryRun || importable.length === 0) {
+    return { status: 'ok', report };
+  }
+
+  const keyring = await getUserKeyring(userId);
+  for (const entry of importable) {
+    const diary = await saveImportedDiary({
+      user_id: userId,
+      title: entry.title,
+      encryptedContent: encrypt(entry.content, getCurrentKey(keyring)),
+      color: entry.color,
+      key_version: keyring.version,
+      date: entry.date,
+    });
+    report.diary_ids.push(diary.diary_id);
+  }
+  report.imported = report.diary_ids.length;
+
+  const job = await startUserEmbeddingBackfill(userId, 'missing');
+  report.embedding_job_id = job.job_id;
+
+  console.log(`[DiaryImport] User ${userId} imported ${report.imported} diaries (${report.duplicates.length} duplicates, ${report.invalid.length} invalid)`);
+  return { status: 'ok', report };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+vi.mock('../db', () => ({ default: {} }));
+
+import {
+  tokenizeQuery,
+  findHighlights,
+  buildSnippet,
+  reciprocalRankFusion,
+} from './diary-search.service';
+
+/**
+ * Hybrid diary search helpers
+ * Rank fusion and highlighted snippets for GET /api/diary/search
+ */
+
+describe('reciprocalRankFusion', () => {
+  it('should rank a diary found by both legs above diaries found by one', () => {
+    const fused = reciprocalRankFusion([
+      [1, 2, 3],
+      [4, 2, 5],
+    ]);
+
+    expect(fused[0].diary_id).toBe(2);
+  });
+
+  it('should return every input ID exactly once with descending scores', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.uniqueArray(fc.integer({ min: 1, max: 50 }), { maxLength: 20 }), { maxLength: 3 }),
+        (rankings) => {
+          const fused = reciprocalRankFusion(rankings);
+          const expectedIds = new Set(rankings.flat());
+
+          expect(fused.map((r) => r.diary_id).sort((a, b) => a - b)).toEqual(
+            Array.from(expectedIds).sort((a, b) => a - b)
+          );
+          for (let i = 1; i < fused.length; i++) {
+            expect(fused[i - 1].score).toBeGreaterThanOrEqual(fused[i].score);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('findHighlights', () => {
+  it('should find case-insensitive matches and merge overlapping ranges', () => {
+    expect(findHighlights('Hello hello', ['hello'])).toEqual([
+      { start: 0, end: 5 },
+      { start: 6, end: 11 },
+    ]);
+    expect(findHighlights('산책했다', ['산책', '책했'])).toEqual([{ start: 0, end: 3 }]);
+  });
+
+  it('should keep offsets when lowercasing would change the text length', () => {
+    // 'İ'.toLowerCase() is two code units long
+    expect(findHighlights('İİ 산책 (a+b)', ['산책', '(a+b)'])).toEqual([
+      { start: 3, end: 5 },
+      { start: 6, end: 11 },
+    ]);
+  });
+
+  it('should return ranges that point at the matched terms', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), fc.string({ minLength: 1, maxLength: 5 }), (text, term) => {
+        const lowerTerm = term.toLowerCase();
+
+        for (const range of findHighlights(text, [lowerTerm])) {
+          expect(text.slice(range.start, range.end).toUpperCase()).toContain(lowerTerm.toUpperCase());
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should center the snippet on the first match with ellipses', () => {
+    const content = 'a'.repeat(200) + '회사' + 'b'.repeat(200);
+    const { snippet, highlights } = buildSnippet(content, ['회사'], 10);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(highlights).toHaveLength(1);
+    expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe('회사');
+  });
+
+  it('should fall back to the beginning of the text when nothing matches', () => {
+    const { snippet, highlights } = buildSnippet('오늘은 조용한 하루였다.', ['회사']);
+
+    expect(snippet).toBe('오늘은 조용한 하루였다.');
+    expect(highlights).toEqual([]);
+  });
+});
+
+describe('tokenizeQuery', () => {
+  it('should lowercase, split on whitespace and dedupe terms', () => {
+    expect(tokenizeQuery('  Walk 산책  walk ')).toEqual(['walk', '산책']);
+  });
+});
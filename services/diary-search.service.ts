@@ -0,0 +1,279 @@
+/**
+ * Diary Search Service
+ * Hybrid search for the user-facing search box: pgvector similarity combined with
+ * keyword matching over decrypted content, merged with reciprocal rank fusion.
+ */
+
+import prisma from '../db';
+import { decrypt } from '../util/encrypt';
+import { DiarySearchResult } from './embedding.service';
+import { embedQuery, searchDiariesWithDateFilter, lastInstantOfRange, DateRange } from './diary-insights.service';
+import { rerankDiariesFast } from './reranker.service';
+import { UserKeyring, getUserKeyring, getKeyForVersion } from './key-management.service';
+
+// Search configuration
+const VECTOR_CANDIDATES = 30;
+const MIN_VECTOR_SCORE = 0.3;
+const KEYWORD_SCAN_LIMIT = 1000;
+const RRF_K = 60;
+const SNIPPET_RADIUS = 60;
+
+export type SearchMatchSource = 'keyword' | 'vector';
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface DiarySearchHit {
+  diary_id: number;
+  title: string;
+  date: Date;
+  color: string;
+  snippet: string;
+  highlights: HighlightRange[];
+  titleHighlights: HighlightRange[];
+  score: number;
+  matchedBy: SearchMatchSource[];
+}
+
+export interface DiarySearchOptions {
+  limit?: number;
+  dateRange?: DateRange | null;
+  color?: string;
+}
+
+export interface DiarySearchResponse {
+  query: string;
+  items: DiarySearchHit[];
+  totalCount: number;
+}
+
+/**
+ * Splits a query into lowercase search terms (duplicates removed)
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/\s+/)
+        .map((term) => term.trim())
+        .filter((term) => term.length > 0)
+    )
+  );
+}
+
+const escapeRegExp = (term: string) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds every occurrence of the terms in the text (case-insensitive)
+ * Matching runs on the original text, so the ranges stay valid even for characters whose
+ * lowercase form has a different length. Overlapping ranges are merged so the client can
+ * highlight them directly.
+ */
+export function findHighlights(text: string, terms: string[]): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+
+  for (const term of terms) {
+    for (const match of text.matchAll(new RegExp(escapeRegExp(term), 'gi'))) {
+      ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: HighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Builds a snippet around the first keyword match (or the beginning of the text)
+ * Highlight offsets are relative to the returned snippet
+ */
+export function buildSnippet(
+  content: string,
+  terms: string[],
+  radius: number = SNIPPET_RADIUS
+): { snippet: string; highlights: HighlightRange[] } {
+  const ranges = findHighlights(content, terms);
+  const anchor = ranges[0]?.start ?? 0;
+
+  const start = Math.max(0, anchor - radius);
+  const end = Math.min(content.length, (ranges[0]?.end ?? 0) + radius * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+
+  const highlights = ranges
+    .filter((r) => r.start >= start && r.end <= end)
+    .map((r) => ({
+      start: r.start - start + prefix.length,
+      end: r.end - start + prefix.length,
+    }));
+
+  return { snippet: prefix + content.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * Merges several ranked lists of diary IDs with reciprocal rank fusion
+ * score(d) = Σ 1 / (k + rank), rank starting at 1
+ * @returns Diary IDs with fused scores, best first (ties keep first-seen order)
+ */
+export function reciprocalRankFusion(
+  rankings: number[][],
+  k: number = RRF_K
+): Array<{ diary_id: number; score: number }> {
+  const scores = new Map<number, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((diaryId, index) => {
+      scores.set(diaryId, (scores.get(diaryId) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores, ([diary_id, score]) => ({ diary_id, score })).sort(
+    (a, b) => b.score - a.score
+  );
+}
+
+function decryptContent(keyring: UserKeyring, content: string, keyVersion: number): string | null {
+  try {
+    return decrypt(content, getKeyForVersion(keyring, keyVersion));
+  } catch (error) {
+    console.error('[DiarySearch] Failed to decrypt diary content:', error);
+    return null;
+  }
+}
+
+/**
+ * Loads and decrypts the user's diaries that pass the filters
+ */
+async function loadDecryptedDiaries(
+  userId: number,
+  keyring: UserKeyring,
+  options: DiarySearchOptions,
+  diaryIds?: number[]
+): Promise<DiarySearchResult[]> {
+  const rows = await prisma.diary.findMany({
+    where: {
+      user_id: userId,
+      deleted_at: null,
+      ...(diaryIds && { diary_id: { in: diaryIds } }),
+      ...(options.dateRange && {
+        date: { gte: options.dateRange.startDate, lte: lastInstantOfRange(options.dateRange) },
+      }),
+      ...(options.color && { color: options.color }),
+    },
+    orderBy: { date: 'desc' },
+    take: KEYWORD_SCAN_LIMIT,
+    select: { diary_id: true, title: true, content: true, date: true, color: true, key_version: true },
+  });
+
+  return rows.flatMap((row) => {
+    const content = decryptContent(keyring, row.content, row.key_version);
+    if (content === null) return [];
+    return [{ diary_id: row.diary_id, title: row.title, content, date: row.date, color: row.color, score: 0 }];
+  });
+}
+
+/**
+ * Vector leg: diary IDs ordered by embedding similarity
+ * Returns an empty ranking when embeddings are unavailable so keyword search still works
+ */
+async function vectorRanking(userId: number, query: string, options: DiarySearchOptions): Promise<number[]> {
+  try {
+    const queryEmbedding = await embedQuery(query);
+    const results = await searchDiariesWithDateFilter(userId, queryEmbedding, VECTOR_CANDIDATES, options.dateRange);
+    return results
+      .filter((r) => r.score >= MIN_VECTOR_SCORE)
+      .filter((r) => !options.color || r.color === options.color)
+      .map((r) => r.diary_id);
+  } catch (error) {
+    console.warn('[DiarySearch] Vector search unavailable, using keyword results only:', error);
+    return [];
+  }
+}
+
+/**
+ * Keyword leg: diaries whose title or content contains a query term,
+ * scored by the fraction of terms matched and ordered with rerankDiariesFast
+ */
+function keywordRanking(query: string, terms: string[], diaries: DiarySearchResult[]): number[] {
+  const matches = diaries
+    .map((diary) => {
+      const haystack = `${diary.title}\n${diary.content}`.toLowerCase();
+      const matched = terms.filter((term) => haystack.includes(term)).length;
+      return { ...diary, score: matched / terms.length };
+    })
+    .filter((diary) => diary.score > 0);
+
+  return rerankDiariesFast(query, matches, matches.length).map((r) => r.diary.diary_id);
+}
+
+/**
+ * Searches a user's diaries with hybrid keyword + vector retrieval
+ * @param userId - The authenticated user's ID
+ * @param query - Search text
+ * @param options - Result limit and filters
+ * @returns Ranked hits with highlighted snippets
+ */
+export async function searchUserDiaries(
+  userId: number,
+  query: string,
+  options: DiarySearchOptions = {}
+): Promise<DiarySearchResponse> {
+  const limit = options.limit ?? 20;
+  const terms = tokenizeQuery(query);
+  const keyring = await getUserKeyring(userId);
+
+  const [diaries, vectorIds] = await Promise.all([
+    loadDecryptedDiaries(userId, keyring, options),
+    vectorRanking(userId, query, options),
+  ]);
+
+  const byId = new Map(diaries.map((d) => [d.diary_id, d]));
+
+  // Vector hits outside the keyword scan window still need their content
+  const missingIds = vectorIds.filter((id) => !byId.has(id));
+  if (missingIds.length > 0) {
+    for (const diary of await loadDecryptedDiaries(userId, keyring, options, missingIds)) {
+      byId.set(diary.diary_id, diary);
+    }
+  }
+
+  const keywordIds = keywordRanking(query, terms, diaries);
+  const keywordSet = new Set(keywordIds);
+  const vectorSet = new Set(vectorIds);
+  const fused = reciprocalRankFusion([keywordIds, vectorIds]).filter((r) => byId.has(r.diary_id));
+
+  const items = fused.slice(0, limit).map(({ diary_id, score }) => {
+    const diary = byId.get(diary_id)!;
+    const { snippet, highlights } = buildSnippet(diary.content, terms);
+    return {
+      diary_id,
+      title: diary.title,
+      date: diary.date,
+      color: diary.color,
+      snippet,
+      highlights,
+      titleHighlights: findHighlights(diary.title, terms),
+      score,
+      matchedBy: [
+        ...(keywordSet.has(diary_id) ? ['keyword' as const] : []),
+        ...(vectorSet.has(diary_id) ? ['vector' as const] : []),
+      ],
+    };
+  });
+
+  console.log(`[DiarySearch] user ${userId}: ${keywordIds.length} keyword, ${vectorIds.length} vector, ${fused.length} fused`);
+
+  return { query, items, totalCount: fused.length };
+}
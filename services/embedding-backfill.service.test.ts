@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Embedding Backfill Job Tests
+ * The job embeds diaries after the stored cursor, records failures without stopping,
+ * and persists progress after every batch so it can resume.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    diary: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./embedding.service', () => ({
+  upsertDiaryEmbedding: vi.fn(),
+}));
+
+vi.mock('./embedding-models', () => ({
+  getActiveEmbeddingModels: vi.fn(() => [
+    { model: 'test-embedding-model', dimension: 1536 },
+    { model: 'next-embedding-model', dimension: 3072 },
+  ]),
+}));
+
+vi.mock('./key-management.service', () => ({
+  getUserKeyring: vi.fn(async (userId: number) => ({ userId, version: 0, keys: { 0: 'key' } })),
+  getKeyForVersion: vi.fn(() => 'key'),
+}));
+
+vi.mock('../util/encrypt', () => ({
+  decrypt: vi.fn((content: string) => content.replace('enc:', '')),
+}));
+
+vi.mock('./background-job.service', () => ({
+  getJob: vi.fn(),
+  findOrCreateJob: vi.fn(),
+  markJobRunning: vi.fn(),
+  updateJobProgress: vi.fn(),
+  completeJob: vi.fn(),
+  failJob: vi.fn(),
+}));
+
+import prisma from '../db';
+import { upsertDiaryEmbedding } from './embedding.service';
+import {
+  getJob,
+  findOrCreateJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+} from './background-job.service';
+import { runEmbeddingBackfillJob, EmbeddingBackfillProgress } from './embedding-backfill.service';
+
+function makeJob(cursor: string | null, progress: Partial<EmbeddingBackfillProgress> = {}) {
+  return {
+    job_id: 'job-1',
+    type: 'embedding_backfill',
+    status: 'failed' as const,
+    user_id: 7,
+    cursor,
+    error: null,
+    result: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    started_at: null,
+    finished_at: null,
+    progress: {
+      mode: 'missing' as const,
+      models: ['test-embedding-model', 'next-embedding-model'],
+      total: 3,
+      processed: 0,
+      embedded: 0,
+      failed: 0,
+      failedDiaryIds: [],
+      ...progress,
+    },
+  };
+}
+
+const diary = (id: number) => ({ diary_id: id, user_id: 7, content: `enc:diary ${id}`, key_version: 0 });
+
+describe('runEmbeddingBackfillJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resume an unfinished job from its cursor', async () => {
+    const job = makeJob('10', { processed: 1, embedded: 1 });
+    vi.mocked(findOrCreateJob).mockResolvedValueOnce(job);
+    vi.mocked(getJob).mockResolvedValueOnce(job);
+    vi.mocked(prisma.diary.findMany)
+      .mockResolvedValueOnce([diary(11), diary(12)] as any)
+      .mockResolvedValueOnce([]);
+
+    await runEmbeddingBackfillJob({ userId: 7, requestsPerMinute: 600000 });
+
+    expect(findOrCreateJob).toHaveBeenCalledWith(
+      'embedding_backfill',
+      7,
+      { mode: 'missing', models: ['test-embedding-model', 'next-embedding-model'] },
+      expect.objectContaining({ mode: 'missing', processed: 0 })
+    );
+    expect(vi.mocked(prisma.diary.findMany).mock.calls[0][0]?.where).toMatchObject({
+      user_id: 7,
+      OR: [
+        { embeddings: { none: { model: 'test-embedding-model' } } },
+        { embeddings: { none: { model: 'next-embedding-model' } } },
+      ],
+      diary_id: { gt: 10 },
+    });
+    expect(upsertDiaryEmbedding).toHaveBeenCalledWith(11, 'diary 11');
+    expect(upsertDiaryEmbedding).toHaveBeenCalledWith(12, 'diary 12');
+    expect(updateJobProgress).toHaveBeenCalledWith('job-1', expect.objectContaining({ processed: 3, embedded: 3 }), '12');
+    expect(completeJob).toHaveBeenCalled();
+  });
+
+  it('should record diaries that fail to embed and keep going', async () => {
+    const job = makeJob(null);
+    vi.mocked(findOrCreateJob).mockResolvedValueOnce(job);
+    vi.mocked(getJob).mockResolvedValueOnce(job);
+    vi.mocked(prisma.diary.findMany)
+      .mockResolvedValueOnce([diary(1), diary(2), diary(3)] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(upsertDiaryEmbedding)
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new Error('rate limited'))
+      .mockResolvedValueOnce();
+
+    await runEmbeddingBackfillJob({ userId: 7, requestsPerMinute: 600000 });
+
+    expect(job.progress).toMatchObject({ processed: 3, embedded: 2, failed: 1, failedDiaryIds: [2] });
+    expect(completeJob).toHaveBeenCalled();
+    expect(failJob).not.toHaveBeenCalled();
+  });
+
+  it('should mark the job failed and keep its cursor when the run aborts', async () => {
+    const job = makeJob('5');
+    vi.mocked(findOrCreateJob).mockResolvedValueOnce(job);
+    vi.mocked(prisma.diary.findMany).mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(runEmbeddingBackfillJob({ userId: 7 })).rejects.toThrow('connection lost');
+
+    expect(failJob).toHaveBeenCalledWith('job-1', expect.any(Error));
+    expect(updateJobProgress).not.toHaveBeenCalled();
+  });
+
+  it('should only resume a job with the requested mode and models', async () => {
+    const job = makeJob(null, { mode: 'reindex' });
+    vi.mocked(prisma.diary.count).mockResolvedValueOnce(4);
+    vi.mocked(findOrCreateJob).mockResolvedValueOnce(job);
+    vi.mocked(getJob).mockResolvedValueOnce(job);
+    vi.mocked(prisma.diary.findMany).mockResolvedValueOnce([]);
+
+    await runEmbeddingBackfillJob({ userId: 7, mode: 'reindex' });
+
+    // Mode and models are part of the match, so an unfinished missing-only job is never resumed here
+    expect(findOrCreateJob).toHaveBeenCalledWith(
+      'embedding_backfill',
+      7,
+      { mode: 'reindex', models: ['test-embedding-model', 'next-embedding-model'] },
+      expect.objectContaining({ mode: 'reindex', total: 4 })
+    );
+    expect(vi.mocked(prisma.diary.count).mock.calls[0][0]?.where).not.toHaveProperty('OR');
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Embedding Backfill Service
+ * Regenerates diary embeddings that failed at write time (generateEmbeddingAsync only logs
+ * failures), fills a newly added secondary model during a model switch, and re-indexes
+ * every diary on demand.
+ * Runs as a resumable background job with rate limiting.
+ */
+
+import prisma from '../db';
+import { Prisma } from '@prisma/client';
+import { decrypt } from '../util/encrypt';
+import { upsertDiaryEmbedding } from './embedding.service';
+import { getActiveEmbeddingModels } from './embedding-models';
+import { UserKeyring, getUserKeyring, getKeyForVersion } from './key-management.service';
+import {
+  BackgroundJob,
+  getJob,
+  findOrCreateJob,
+  markJobRunning,
+  updateJobProgress,
+  completeJob,
+  failJob,
+} from './background-job.service';
+
+export const EMBEDDING_BACKFILL_JOB_TYPE = 'embedding_backfill';
+
+// Backfill configuration
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_REQUESTS_PER_MINUTE = Number(process.env.EMBEDDING_BACKFILL_RPM) || 60;
+const MAX_FAILED_IDS = 100;
+
+/**
+ * missing: only diaries lacking an embedding for one of the active models
+ * reindex: every diary
+ */
+export const BACKFILL_MODES = ['missing', 'reindex'] as const;
+export type BackfillMode = (typeof BACKFILL_MODES)[number];
+
+export interface EmbeddingBackfillProgress {
+  mode: BackfillMode;
+  models: string[];
+  total: number;
+  processed: number;
+  embedded: number;
+  failed: number;
+  failedDiaryIds: number[];
+}
+
+export interface EmbeddingBackfillOptions {
+  jobId?: string;
+  userId?: number | null;
+  mode?: BackfillMode;
+  batchSize?: number;
+  requestsPerMinute?: number;
+  onProgress?: (progress: EmbeddingBackfillProgress) => void;
+}
+
+// Jobs currently executing in this process (prevents running the same job twice)
+const activeJobs = new Set<string>();
+
+function buildDiaryFilter(mode: BackfillMode, userId: number | null): Prisma.DiaryWhereInput {
+  return {
+    deleted_at: null,
+    ...(userId !== null && { user_id: userId }),
+    ...(mode === 'missing' && {
+      OR: getActiveEmbeddingModels().map(({ model }) => ({ embeddings: { none: { model } } })),
+    }),
+  };
+}
+
+/**
+ * Counts diaries the backfill would process
+ */
+export async function countDiariesToEmbed(mode: BackfillMode, userId: number | null = null): Promise<number> {
+  return prisma.diary.count({ where: buildDiaryFilter(mode, userId) });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Finds the unfinished job for a scope with the same mode and models, or creates a new one
+ * A reindex never resumes a missing-only job (or the other way round), and a job started
+ * before a model switch is not resumed with the new model list.
+ */
+async function resolveJob(
+  options: EmbeddingBackfillOptions
+): Promise<BackgroundJob<EmbeddingBackfillProgress>> {
+  const userId = options.userId ?? null;
+
+  if (options.jobId) {
+    const job = await getJob<EmbeddingBackfillProgress>(options.jobId);
+    if (!job) {
+      throw new Error(`Job ${options.jobId} not found`);
+    }
+    return job;
+  }
+
+  const mode = options.mode ?? 'missing';
+  const models = getActiveEmbeddingModels().map(({ model }) => model);
+
+  return findOrCreateJob<EmbeddingBackfillProgress>(
+    EMBEDDING_BACKFILL_JOB_TYPE,
+    userId,
+    { mode, models },
+    {
+      mode,
+      models,
+      total: await countDiariesToEmbed(mode, userId),
+      processed: 0,
+      embedded: 0,
+      failed: 0,
+      failedDiaryIds: [],
+    }
+  );
+}
+
+/**
+ * Runs (or resumes) an embedding backfill job
+ * Without a jobId, the latest unfinished job for the scope (one user or all users) with the
+ * same mode and models is resumed.
+ * Each diary is decrypted and embedded at most `requestsPerMinute` times per minute;
+ * createEmbedding retries transient API errors, and diaries that still fail are recorded
+ * in the progress so the run can continue.
+ * @returns The finished job
+ */
+export async function runEmbeddingBackfillJob(
+  options: EmbeddingBackfillOptions = {}
+): Promise<BackgroundJob<EmbeddingBackfillProgress>> {
+  const job = await resolveJob(options);
+
+  if (activeJobs.has(job.job_id)) {
+    throw new Error(`Job ${job.job_id} is already running`);
+  }
+  activeJobs.add(job.job_id);
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const minIntervalMs = 60000 / (options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE);
+  const progress = job.progress;
+  const filter = buildDiaryFilter(progress.mode, job.user_id);
+  let cursor = job.cursor ? parseInt(job.cursor) : 0;
+
+  console.log(`[EmbeddingBackfill] Running job ${job.job_id} (${progress.mode}, models ${progress.models.join(', ')}) from diary ${cursor}`);
+
+  try {
+    await markJobRunning(job.job_id);
+    const keyrings = new Map<number, UserKeyring>();
+
+    while (true) {
+      const batch = await prisma.diary.findMany({
+        where: { ...filter, diary_id: { gt: cursor } },
+        orderBy: { diary_id: 'asc' },
+        take: batchSize,
+        select: { diary_id: true, user_id: true, content: true, key_version: true },
+      });
+
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const diary of batch) {
+        const startedAt = Date.now();
+        try {
+          let keyring = keyrings.get(diary.user_id);
+          if (!keyring) {
+            keyring = await getUserKeyring(diary.user_id);
+            keyrings.set(diary.user_id, keyring);
+          }
+
+          const content = decrypt(diary.content, getKeyForVersion(keyring, diary.key_version));
+          await upsertDiaryEmbedding(diary.diary_id, content);
+          progress.embedded++;
+        } catch (error) {
+          console.error(`[EmbeddingBackfill] Failed to embed diary ${diary.diary_id}:`, error);
+          progress.failed++;
+          if (progress.failedDiaryIds.length < MAX_FAILED_IDS) {
+            progress.failedDiaryIds.push(diary.diary_id);
+          }
+        }
+        progress.processed++;
+
+        const elapsed = Date.now() - startedAt;
+        if (elapsed < minIntervalMs) {
+          await sleep(minIntervalMs - elapsed);
+        }
+      }
+
+      cursor = batch[batch.length - 1].diary_id;
+      keyrings.clear();
+
+      await updateJobProgress(job.job_id, progress, String(cursor));
+      options.onProgress?.(progress);
+    }
+
+    await completeJob(job.job_id, {
+      embedded: progress.embedded,
+      failed: progress.failed,
+    });
+    console.log(`[EmbeddingBackfill] Job ${job.job_id} completed: ${progress.embedded} embedded, ${progress.failed} failed`);
+  } catch (error) {
+    console.error(`[EmbeddingBackfill] Job ${job.job_id} failed at diary ${cursor}:`, error);
+    await failJob(job.job_id, error);
+    throw error;
+  } finally {
+    activeJobs.delete(job.job_id);
+  }
+
+  return getJob<EmbeddingBackfillProgress>(job.job_id);
+}
+
+/**
+ * Starts a backfill for one user without waiting for it to finish
+ * Returns the job that is already running for the user, if any.
+ * @param userId - The user whose diaries are embedded
+ * @param mode - missing (default) or reindex
+ * @returns The job to poll
+ */
+export async function startUserEmbeddingBackfill(
+  userId: number,
+  mode: BackfillMode = 'missing'
+): Promise<BackgroundJob<EmbeddingBackfillProgress>> {
+  const job = await resolveJob({ userId, mode });
+
+  if (!activeJobs.has(job.job_id)) {
+    runEmbeddingBackfillJob({ jobId: job.job_id }).catch(() => {
+      // Failure is recorded on the job row
+    });
+  }
+
+  return job;
+}
@@ -0,0 +1,66 @@
+/**
+ * Embedding model configuration
+ * Every stored vector (diary_embeddings, semantic_cache) records the model that produced
+ * it, and searches only compare vectors of the same model.
+ *
+ * Switching models without downtime:
+ *   1. EMBEDDING_SECONDARY_MODEL=<new model> (+ EMBEDDING_SECONDARY_DIMENSION) → new diaries are embedded with both
+ *   2. npm run embeddings -- backfill         → fills the new model's vectors for existing diaries
+ *   3. add a partial index for the new model (see migration 20251229000000_add_embedding_model_versioning)
+ *   4. swap EMBEDDING_MODEL and EMBEDDING_SECONDARY_MODEL → searches use the new model
+ *   5. unset EMBEDDING_SECONDARY_MODEL, then npm run embeddings -- prune <old model>
+ */
+
+import { Prisma } from '@prisma/client';
+
+export interface EmbeddingModelConfig {
+  model: string;
+  dimension: number;
+}
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const DEFAULT_EMBEDDING_DIMENSION = 1536;
+
+function parseDimension(raw: string | undefined, fallback: number): number {
+  const dimension = raw ? parseInt(raw) : fallback;
+  if (!Number.isInteger(dimension) || dimension < 1) {
+    throw new Error(`Invalid embedding dimension: ${raw}`);
+  }
+  return dimension;
+}
+
+/**
+ * Model used for search and for the semantic cache
+ */
+export const PRIMARY_EMBEDDING_MODEL: EmbeddingModelConfig = {
+  model: process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+  dimension: parseDimension(process.env.EMBEDDING_DIMENSION, DEFAULT_EMBEDDING_DIMENSION),
+};
+
+/**
+ * Optional model written alongside the primary one while a switch is in progress
+ */
+export const SECONDARY_EMBEDDING_MODEL: EmbeddingModelConfig | null = process.env.EMBEDDING_SECONDARY_MODEL
+  ? {
+      model: process.env.EMBEDDING_SECONDARY_MODEL,
+      dimension: parseDimension(process.env.EMBEDDING_SECONDARY_DIMENSION, DEFAULT_EMBEDDING_DIMENSION),
+    }
+  : null;
+
+/**
+ * Models every diary embedding is written for (primary first)
+ */
+export function getActiveEmbeddingModels(): EmbeddingModelConfig[] {
+  return SECONDARY_EMBEDDING_MODEL
+    ? [PRIMARY_EMBEDDING_MODEL, SECONDARY_EMBEDDING_MODEL]
+    : [PRIMARY_EMBEDDING_MODEL];
+}
+
+/**
+ * SQL type for a model's vectors, e.g. vector(1536)
+ * The columns are untyped `vector`; casting to the model's dimension lets Postgres use the
+ * per-model partial index. The dimension is a validated integer, so raw SQL is safe here.
+ */
+export function vectorType(config: EmbeddingModelConfig): Prisma.Sql {
+  return Prisma.raw(`vector(${Math.trunc(config.dimension)})`);
+}
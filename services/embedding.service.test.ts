@@ -16,6 +16,7 @@ vi.mock('../db', () => ({
     $executeRaw: vi.fn(),
     diaryEmbedding: {
       delete: vi.fn(),
+      deleteMany: vi.fn(),
       findUnique: vi.fn(),
     },
   },
@@ -23,7 +24,7 @@ vi.mock('../db', () => ({
 
 // Import after mocking
 import prisma from '../db';
-import { searchSimilarDiaries, EMBEDDING_DIMENSION } from './embedding.service';
+import { searchSimilarDiaries, pruneEmbeddingModel, EMBEDDING_DIMENSION, EMBEDDING_MODEL } from './embedding.service';
 
 // Arbitrary generator for user IDs
 const userIdArbitrary = fc.integer({ min: 1, max: 1000000 });
@@ -124,6 +125,39 @@ describe('User Isolation in Vector Search', () => {
   });
 });
 
+/**
+ * Embedding model versioning
+ * Vectors from different models are never compared, and the model in use cannot be pruned.
+ */
+describe('Embedding Model Isolation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should only search vectors of the primary model', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([]);
+
+    await searchSimilarDiaries(1, new Array(EMBEDDING_DIMENSION).fill(0.1), 5);
+
+    const [strings, ...values] = vi.mocked(prisma.$queryRaw).mock.calls[0] as unknown as [TemplateStringsArray, ...unknown[]];
+    expect(strings.join('?')).toContain('de.model = ?');
+    expect(values).toContain(EMBEDDING_MODEL);
+  });
+
+  it('should refuse to prune the active model', async () => {
+    await expect(pruneEmbeddingModel(EMBEDDING_MODEL)).rejects.toThrow(/active embedding model/);
+    expect(prisma.diaryEmbedding.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('should delete diary and cache vectors of a retired model', async () => {
+    vi.mocked(prisma.diaryEmbedding.deleteMany).mockResolvedValueOnce({ count: 3 });
+
+    await expect(pruneEmbeddingModel('text-embedding-ada-002')).resolves.toBe(3);
+    expect(prisma.diaryEmbedding.deleteMany).toHaveBeenCalledWith({ where: { model: 'text-embedding-ada-002' } });
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+});
+
 /**
  * **Feature: mudita-bot, Property 10: Top-K Retrieval Limit**
  * **Validates: Requirements 4.2, 4.4**
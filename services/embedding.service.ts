@@ -3,15 +3,20 @@
  * Validates: Requirements 4.1, 4.2, 4.3, 4.4
  */
 
-import axios from 'axios';
 import prisma from '../db';
+import { getLLMProvider } from './llm-provider';
+import {
+  EmbeddingModelConfig,
+  PRIMARY_EMBEDDING_MODEL,
+  getActiveEmbeddingModels,
+  vectorType,
+} from './embedding-models';
 
-// Embedding dimension for text-embedding-3-small
-export const EMBEDDING_DIMENSION = 1536;
+// Embedding dimension of the primary model (1536 for text-embedding-3-small)
+export const EMBEDDING_DIMENSION = PRIMARY_EMBEDDING_MODEL.dimension;
 
-// OpenAI API configuration
-const OPENAI_API_URL = 'https://api.openai.com/v1/embeddings';
-const EMBEDDING_MODEL = 'text-embedding-3-small';
+// Primary embedding model (see embedding-models.ts for switching models)
+export const EMBEDDING_MODEL = PRIMARY_EMBEDDING_MODEL.model;
 
 // Retry configuration
 const MAX_RETRIES = 3;
@@ -27,43 +32,30 @@ export interface DiarySearchResult {
 }
 
 /**
- * Creates an embedding vector for the given text using OpenAI's text-embedding-3-small model
+ * Creates an embedding vector for the given text
  * @param text - The text to embed
- * @returns A 1536-dimensional embedding vector
+ * @param config - The model to embed with (defaults to the primary model)
+ * @returns An embedding vector of the model's dimension
  */
-export async function createEmbedding(text: string): Promise<number[]> {
+export async function createEmbedding(
+  text: string,
+  config: EmbeddingModelConfig = PRIMARY_EMBEDDING_MODEL
+): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error('Text cannot be empty');
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
-  }
-
   let lastError: Error | null = null;
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const response = await axios.post(
-        OPENAI_API_URL,
-        {
-          model: EMBEDDING_MODEL,
-          input: text,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${apiKey}`,
-          },
-          timeout: 30000, // 30 second timeout
-        }
-      );
-
-      const embedding = response.data.data[0].embedding;
+      const embedding = await getLLMProvider().embed(text, {
+        model: config.model,
+        dimensions: config.dimension,
+      });
       
-      if (!Array.isArray(embedding) || embedding.length !== EMBEDDING_DIMENSION) {
-        throw new Error(`Invalid embedding dimension: expected ${EMBEDDING_DIMENSION}, got ${embedding?.length}`);
+      if (!Array.isArray(embedding) || embedding.length !== config.dimension) {
+        throw new Error(`Invalid embedding dimension: expected ${config.dimension}, got ${embedding?.length}`);
       }
 
       return embedding;
@@ -71,7 +63,8 @@ export async function createEmbedding(text: string): Promise<number[]> {
       lastError = error;
       
       // Don't retry on client errors (4xx) except rate limiting (429)
-      if (error.response?.status && error.response.status >= 400 && error.response.status < 500 && error.response.status !== 429) {
+      const status = error.status ?? error.response?.status;
+      if (status && status >= 400 && status < 500 && status !== 429) {
         throw new Error(`OpenAI API error: ${error.response?.data?.error?.message || error.message}`);
       }
 
@@ -91,28 +84,32 @@ export async function createEmbedding(text: string): Promise<number[]> {
 
 /**
  * Upserts a diary embedding in the vector store
- * Creates a new embedding if one doesn't exist, or updates the existing one
+ * Creates a new embedding if one doesn't exist, or updates the existing one.
+ * Writes one row per active model (primary, plus the secondary model during a switch).
  * @param diaryId - The diary ID to associate with the embedding
  * @param content - The diary content to embed
  */
 export async function upsertDiaryEmbedding(diaryId: number, content: string): Promise<void> {
-  const embedding = await createEmbedding(content);
-  const embeddingStr = `[${embedding.join(',')}]`;
-
-  // Use raw SQL for pgvector operations since Prisma doesn't natively support vector types
-  await prisma.$executeRaw`
-    INSERT INTO diary_embeddings (diary_id, embedding, created_at, updated_at)
-    VALUES (${diaryId}, ${embeddingStr}::vector, NOW(), NOW())
-    ON CONFLICT (diary_id) 
-    DO UPDATE SET 
-      embedding = ${embeddingStr}::vector,
-      updated_at = NOW()
-  `;
+  for (const config of getActiveEmbeddingModels()) {
+    const embedding = await createEmbedding(content, config);
+    const embeddingStr = `[${embedding.join(',')}]`;
+
+    // Use raw SQL for pgvector operations since Prisma doesn't natively support vector types
+    await prisma.$executeRaw`
+      INSERT INTO diary_embeddings (diary_id, model, dimension, embedding, created_at, updated_at)
+      VALUES (${diaryId}, ${config.model}, ${config.dimension}, ${embeddingStr}::vector, NOW(), NOW())
+      ON CONFLICT (diary_id, model) 
+      DO UPDATE SET 
+        embedding = ${embeddingStr}::vector,
+        dimension = ${config.dimension},
+        updated_at = NOW()
+    `;
+  }
 }
 
 /**
  * Searches for similar diaries using pgvector cosine similarity
- * Only returns diaries belonging to the specified user
+ * Only returns diaries belonging to the specified user, compared against primary model vectors
  * @param userId - The authenticated user's ID (for access control)
  * @param queryEmbedding - The query embedding vector
  * @param topK - Maximum number of results to return (default: 5)
@@ -132,9 +129,11 @@ export async function searchSimilarDiaries(
   }
 
   const embeddingStr = `[${queryEmbedding.join(',')}]`;
+  const vector = vectorType(PRIMARY_EMBEDDING_MODEL);
 
   // Use raw SQL for pgvector cosine similarity search
   // The <=> operator computes cosine distance, so we use 1 - distance for similarity score
+  // Casting to the model's dimension matches the per-model partial index
   const results = await prisma.$queryRaw<Array<{
     diary_id: number;
     title: string;
@@ -149,11 +148,13 @@ export async function searchSimilarDiaries(
       d.content,
       d.date,
       d.color,
-      1 - (de.embedding <=> ${embeddingStr}::vector) as score
+      1 - (de.embedding::${vector} <=> ${embeddingStr}::${vector}) as score
     FROM diary_embeddings de
     JOIN "Diary" d ON de.diary_id = d.diary_id
     WHERE d.user_id = ${userId}
-    ORDER BY de.embedding <=> ${embeddingStr}::vector ASC
+      AND d.deleted_at IS NULL
+      AND de.model = ${PRIMARY_EMBEDDING_MODEL.model}
+    ORDER BY de.embedding::${vector} <=> ${embeddingStr}::${vector} ASC
     LIMIT ${topK}
   `;
 
@@ -168,27 +169,44 @@ export async function searchSimilarDiaries(
 }
 
 /**
- * Deletes a diary embedding from the vector store
+ * Deletes a diary's embeddings (all models) from the vector store
  * Note: This is typically handled by CASCADE delete, but provided for explicit cleanup
- * @param diaryId - The diary ID whose embedding should be deleted
+ * @param diaryId - The diary ID whose embeddings should be deleted
  */
 export async function deleteDiaryEmbedding(diaryId: number): Promise<void> {
-  await prisma.diaryEmbedding.delete({
+  await prisma.diaryEmbedding.deleteMany({
     where: { diary_id: diaryId },
-  }).catch(() => {
-    // Ignore if embedding doesn't exist
   });
 }
 
 /**
- * Checks if a diary has an embedding
+ * Checks if a diary has an embedding for a model
  * @param diaryId - The diary ID to check
+ * @param model - The embedding model (defaults to the primary model)
  * @returns True if the diary has an embedding
  */
-export async function hasDiaryEmbedding(diaryId: number): Promise<boolean> {
+export async function hasDiaryEmbedding(
+  diaryId: number,
+  model: string = PRIMARY_EMBEDDING_MODEL.model
+): Promise<boolean> {
   const embedding = await prisma.diaryEmbedding.findUnique({
-    where: { diary_id: diaryId },
+    where: { diary_id_model: { diary_id: diaryId, model } },
     select: { id: true },
   });
   return embedding !== null;
 }
+
+/**
+ * Deletes every stored embedding of a model (after switching away from it)
+ * @param model - The embedding model to remove
+ * @returns Number of deleted embeddings
+ */
+export async function pruneEmbeddingModel(model: string): Promise<number> {
+  if (getActiveEmbeddingModels().some((config) => config.model === model)) {
+    throw new Error(`Cannot prune active embedding model ${model}`);
+  }
+
+  const { count } = await prisma.diaryEmbedding.deleteMany({ where: { model } });
+  await prisma.$executeRaw`DELETE FROM semantic_cache WHERE model = ${model}`;
+  return count;
+}
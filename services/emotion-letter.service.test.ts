@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+
+/**
+ * Emotion Letter Tests
+ * Letters are generated from the decrypted diary and stored with the model, prompt version
+ * and the diary content they were written for; edited diaries keep their old letters as history.
+ */
+
+vi.mock('../db', () => {
+  const prisma = {
+    user: {
+      findUnique: vi.fn(),
+    },
+    diary: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+    moodMeter: {
+      findFirst: vi.fn(),
+    },
+    emotionAnalysis: {
+      create: vi.fn(async ({ data }) => ({ id: 1, created_at: new Date(), ...data })),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn(async (fn: (tx: any) => Promise<any>) => fn(prisma)),
+  };
+  return { default: prisma };
+});
+
+vi.mock('./key-management.service', () => ({
+  getUserKeyring: vi.fn(async (userId: number) => ({ userId, version: 0, keys: { 0: 'key' } })),
+  getKeyForVersion: vi.fn(() => 'key'),
+}));
+
+vi.mock('../util/encrypt', () => ({
+  decrypt: vi.fn((content: string) => content.replace('enc:', '')),
+}));
+
+import prisma from '../db';
+import { MockLLMProvider } from './mock-llm-provider';
+import { setLLMProvider } from './llm-provider';
+import {
+  createDiaryLetter,
+  findOrCreateDiaryLetter,
+  getLatestDiaryLetter,
+  listDiaryLetters,
+  EMOTION_LETTER_MODEL,
+  EMOTION_LETTER_PROMPT_VERSION,
+} from './emotion-letter.service';
+
+const mock = new MockLLMProvider();
+
+const diary = {
+  diary_id: 3,
+  user_id: 7,
+  title: '카페',
+  content: 'enc:오늘 친구랑 카페에 갔다',
+  color: '노란색',
+  date: new Date('2025-06-01T10:00:00'),
+  key_version: 0,
+  content_version: 2,
+};
+
+describe('createDiaryLetter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock.reset();
+    setLLMProvider(mock);
+    vi.mocked(prisma.diary.findUniqueOrThrow).mockResolvedValue(diary as any);
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+  });
+
+  it('should store the letter with its model and prompt version', async () => {
+    vi.mocked(prisma.moodMeter.findFirst).mockResolvedValueOnce(null);
+    mock.enqueue({ content: '  민지야, 카페 이야기 읽었어. 무디타가 ' });
+
+    const letter = await createDiaryLetter(3, '민지');
+
+    expect(letter.emotion_result).toBe('민지야, 카페 이야기 읽었어. 무디타가');
+    expect(prisma.emotionAnalysis.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          user_id: 7,
+          diary_id: 3,
+          model: EMOTION_LETTER_MODEL,
+          prompt_version: EMOTION_LETTER_PROMPT_VERSION,
+          content_version: 2,
+        }),
+      })
+    );
+  });
+
+  it('should write the letter from the decrypted diary and the same-day mood', async () => {
+    vi.mocked(prisma.moodMeter.findFirst).mockResolvedValueOnce({
+      id: 1,
+      user_id: 7,
+      label: '신나는',
+      color: '노란색',
+      pleasantness: 8,
+      energy: 9,
+      created_at: new Date('2025-06-01T09:00:00'),
+    });
+
+    await createDiaryLetter(3, '민지');
+
+    const [system, user] = mock.calls[0].messages!;
+    expect(user.content).toContain('오늘 친구랑 카페에 갔다');
+    expect(system.content).toContain('신나는');
+    expect(system.content).toContain('8/10');
+  });
+
+  it('should not store an empty letter', async () => {
+    vi.mocked(prisma.moodMeter.findFirst).mockResolvedValueOnce(null);
+    mock.enqueue({ content: '   ' });
+
+    await expect(createDiaryLetter(3)).rejects.toThrow(/Empty letter/);
+    expect(prisma.emotionAnalysis.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('Letters of an edited diary', () => {
+  const letter = (id: number, contentVersion: number) => ({
+    id,
+    diary_id: 3,
+    emotion_result: `편지 ${id}`,
+    model: EMOTION_LETTER_MODEL,
+    prompt_version: EMOTION_LETTER_PROMPT_VERSION,
+    content_version: contentVersion,
+    created_at: new Date(),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mock.reset();
+    setLLMProvider(mock);
+    vi.mocked(prisma.diary.findUnique).mockResolvedValue({ content_version: 2 } as any);
+    vi.mocked(prisma.diary.findUniqueOrThrow).mockResolvedValue(diary as any);
+    vi.mocked(prisma.moodMeter.findFirst).mockResolvedValue(null);
+  });
+
+  afterAll(() => {
+    setLLMProvider(null);
+  });
+
+  it('should only count letters for the current content as the diary\'s letter', async () => {
+    vi.mocked(prisma.emotionAnalysis.findFirst).mockResolvedValueOnce(null);
+
+    expect(await getLatestDiaryLetter(3)).toBeNull();
+    expect(prisma.emotionAnalysis.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { diary_id: 3, content_version: 2 } })
+    );
+  });
+
+  it('should keep letters written before the edit in the history as stale', async () => {
+    vi.mocked(prisma.emotionAnalysis.findMany).mockResolvedValueOnce([letter(5, 2), letter(4, 1)]);
+
+    const letters = await listDiaryLetters(3);
+
+    expect(letters.map(({ id, stale }) => ({ id, stale }))).toEqual([
+      { id: 5, stale: false },
+      { id: 4, stale: true },
+    ]);
+  });
+
+  it('should write a fresh letter once the diary was edited', async () => {
+    vi.mocked(prisma.emotionAnalysis.findFirst).mockResolvedValue(null);
+    mock.enqueue({ content: '민지야, 고친 일기도 읽었어. 무디타가' });
+
+    const { letter, created } = await findOrCreateDiaryLetter(3, '민지');
+
+    expect(created).toBe(true);
+    expect(letter).toMatchObject({ content_version: 2, emotion_result: '민지야, 고친 일기도 읽었어. 무디타가' });
+  });
+
+  it('should store only one letter when first requests race', async () => {
+    const concurrent = letter(6, 2);
+    // Nothing yet when this request starts, but a concurrent one stored its letter meanwhile
+    vi.mocked(prisma.emotionAnalysis.findFirst)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(concurrent as any);
+    mock.enqueue({ content: '민지야, 무디타가' });
+
+    const result = await findOrCreateDiaryLetter(3, '민지');
+
+    expect(result).toEqual({ letter: concurrent, created: false });
+    expect(prisma.$executeRaw).toHaveBeenCalled();
+    expect(prisma.emotionAnalysis.create).not.toHaveBeenCalled();
+  });
+});
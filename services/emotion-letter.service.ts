@@ -0,0 +1,335 @@
+/**
+ * Emotion Letter Service
+ * Generates Mudita's letter for a diary entry and stores it in EmotionAnalysis together
+ * with the model and prompt version, so letters can be regenerated and compared later.
+ * Each letter also records the diary's content_version: editing the diary keeps its letters
+ * as history, but only letters for the current content count as the diary's letter.
+ */
+
+import prisma from '../db';
+import { Diary, EmotionAnalysis, Prisma } from '@prisma/client';
+import { decrypt } from '../util/encrypt';
+import { getLLMProvider, ChatMessage } from './llm-provider';
+import { getUserKeyring, getKeyForVersion } from './key-management.service';
+import { getUserTimeSettings } from './user-settings.service';
+import { startOfLocalDay, endOfLocalDay } from '../util/timezone';
+
+// Bump when the prompt below changes so stored letters can be told apart
+export const EMOTION_LETTER_PROMPT_VERSION = 'letter-v1';
+export const EMOTION_LETTER_MODEL = 'gpt-4o-mini';
+
+export interface LetterContext {
+  text: string;
+  moodColor?: string;
+  moodLabels?: string[];
+  pleasantness?: number;
+  energy?: number;
+  userName?: string;
+}
+
+export interface GeneratedLetter {
+  content: string;
+  model: string;
+  promptVersion: string;
+}
+
+export type EmotionLetter = Pick<
+  EmotionAnalysis,
+  'id' | 'diary_id' | 'emotion_result' | 'model' | 'prompt_version' | 'content_version' | 'created_at'
+>;
+
+// A letter in the history; stale letters were written before the diary was last edited
+export type DiaryLetterHistoryItem = EmotionLetter & { stale: boolean };
+
+const LETTER_SELECT = {
+  id: true,
+  diary_id: true,
+  emotion_result: true,
+  model: true,
+  prompt_version: true,
+  content_version: true,
+  created_at: true,
+} as const;
+
+// 무드 컬러별 심리학적 특성 (LLM 컨텍스트용)
+const moodColorTraits: Record<
+  string,
+  { 
+    zone: string; 
+    psychologyNote: string;
+    approachTip: string;
+  }
+> = {
+  빨간색: {
+    zone: "고에너지 + 불쾌감",
+    psychologyNote: "교감신경이 활성화된 상태로, 스트레스 호르몬(코르티솔)이 높을 수 있음. 감정 조절이 어려울 수 있으니 먼저 신체적 안정이 필요함.",
+    approachTip: "감정을 부정하지 말고 인정해주되, 신체 기반 진정법(호흡, 냉각, 움직임)을 일기 내용과 연결해서 제안해줘.",
+  },
+  노란색: {
+    zone: "고에너지 + 쾌적함",
+    psychologyNote: "도파민과 세로토닌이 균형 잡힌 최적의 상태. 이 긍정적 경험을 기억에 각인시키면 회복탄력성이 높아짐.",
+    approachTip: "이 좋은 순간을 축하하고, 일기에 나온 긍정적 경험을 강화할 수 있는 후속 활동을 제안해줘.",
+  },
+  파란색: {
+    zone: "저에너지 + 불쾌감",
+    psychologyNote: "부교감신경 과활성 또는 에너지 고갈 상태. 작은 성취감이 회복에 도움됨. 큰 변화보다 미세한 행동이 효과적.",
+    approachTip: "따뜻하게 공감하고, 일기에서 언급된 상황에 맞는 아주 작고 쉬운 자기돌봄 활동을 제안해줘.",
+  },
+  초록색: {
+    zone: "저에너지 + 쾌적함",
+    psychologyNote: "이상적인 휴식 상태. 마음챙김과 현재 순간 인식이 잘 되어있음. 이 평온함을 유지하고 음미하는 것이 중요.",
+    approachTip: "현재의 평화로운 상태를 인정하고, 일기 내용에서 좋았던 점을 짚어주며 이 순간을 즐기도록 격려해줘.",
+  },
+};
+
+// 시스템 프롬프트 생성
+const buildSystemPrompt = (context: LetterContext): string => {
+  const { moodColor, moodLabels, pleasantness, energy, userName } = context;
+
+  const colorInfo = moodColor ? moodColorTraits[moodColor] : null;
+  const labelsText =
+    moodLabels && moodLabels.length > 0
+      ? moodLabels.join(", ")
+      : "";
+
+  const displayName = userName || "친구";
+
+  return `당신은 '무디타'라는 이름의 따뜻한 친구예요. ${displayName}에게 진심 어린 편지를 써주세요.
+
+## ${displayName}의 감정 데이터 (참고용, 편지에 그대로 언급하지 말 것)
+${moodColor ? `
+- 무드 존: ${colorInfo?.zone || ""}
+- 심리학적 배경: ${colorInfo?.psychologyNote || ""}
+${labelsText ? `- 감정 키워드: ${labelsText}` : ""}
+${pleasantness !== undefined ? `- 편안함 수치: ${pleasantness}/10` : ""}
+${energy !== undefined ? `- 에너지 수치: ${energy}/10` : ""}
+- 접근 팁: ${colorInfo?.approachTip || "따뜻하게 공감해주세요."}
+` : ""}
+
+## 핵심 규칙
+1. **일기 내용 기반 개인화**: 일기에 나온 구체적인 상황, 사람, 장소, 행동을 직접 언급하며 공감
+2. **맞춤 솔루션**: 일기 내용과 연결된 구체적인 활동 제안 (일반적인 "산책하기", "음악듣기" 금지)
+   - 예: 일기에 "카페"가 나오면 → "내일 그 카페에서 좋아하는 음료 한 잔 어때?"
+   - 예: "친구"가 나오면 → "그 친구한테 오늘 고마웠다고 짧게 연락해보는 건?"
+3. **감정 데이터 활용**: 편안함/에너지 수치를 참고해서 톤 조절 (수치 자체는 언급 X)
+
+## 편지 구조 (자연스럽게, 섹션 구분 없이)
+- "${displayName}아/야," 로 시작
+- 일기 내용 구체적 언급 + 공감 (2-3문장)
+- 심리학적 인사이트를 친근하게 풀어서 (1문장)
+- 일기 내용 기반 맞춤 제안 (1-2가지)
+- 따뜻한 마무리 + "무디타가"
+
+## 말투
+- 친한 언니/오빠가 쓴 것처럼 다정한 반말
+- 이모지 2-3개 (💛🌿🌸☁️✨ 등 부드러운 것)
+- "힘내", "괜찮아", "화이팅", "넌 할 수 있어" 같은 상투적 표현 절대 금지
+- "~했구나", "~였겠다", "~한 거 읽었어" 식으로 공감
+- 전체 250-350자`;
+};
+
+/**
+ * Builds the system and user messages for a letter
+ */
+export function buildLetterMessages(context: LetterContext): ChatMessage[] {
+  const displayName = context.userName || "친구";
+
+  const userMessage = `${displayName}가 오늘 쓴 일기야:
+
+"${context.text}"
+
+이 일기를 읽고 ${displayName}에게 친한 친구처럼 따뜻한 편지를 써줘. 섹션 구분 없이 자연스러운 편지 형식으로.`;
+
+  return [
+    { role: 'system', content: buildSystemPrompt(context) },
+    { role: 'user', content: userMessage },
+  ];
+}
+
+/**
+ * Generates a letter without storing it
+ * @param context - Diary text and optional mood data
+ * @returns The letter with the model and prompt version that produced it
+ */
+export async function generateEmotionLetter(context: LetterContext): Promise<GeneratedLetter> {
+  const response = await getLLMProvider().chat(buildLetterMessages(context), {
+    model: EMOTION_LETTER_MODEL,
+    temperature: 0.8,
+    maxTokens: 600,
+  });
+
+  const content = (response.content ?? '').trim();
+  return { content, model: EMOTION_LETTER_MODEL, promptVersion: EMOTION_LETTER_PROMPT_VERSION };
+}
+
+/**
+ * Generates a letter token by token without storing it
+ * @param context - Diary text and optional mood data
+ * @param onToken - Called with each streamed token
+ * @returns The complete letter
+ */
+export async function streamEmotionLetter(
+  context: LetterContext,
+  onToken: (token: string) => void
+): Promise<GeneratedLetter> {
+  let content = '';
+
+  for await (const chunk of getLLMProvider().streamChat(buildLetterMessages(context), {
+    model: EMOTION_LETTER_MODEL,
+    temperature: 0.8,
+    maxTokens: 600,
+  })) {
+    if (chunk.content) {
+      content += chunk.content;
+      onToken(chunk.content);
+    }
+  }
+
+  return { content: content.trim(), model: EMOTION_LETTER_MODEL, promptVersion: EMOTION_LETTER_PROMPT_VERSION };
+}
+
+type LetterDiary = Pick<Diary, 'diary_id' | 'user_id' | 'content_version'>;
+
+/**
+ * Writes (but does not store) a letter for a diary
+ * Mood data comes from the diary's color and the latest mood meter entry with that color
+ * on the diary's day.
+ */
+async function writeDiaryLetter(
+  diaryId: number,
+  userName?: string
+): Promise<{ diary: LetterDiary; letter: GeneratedLetter }> {
+  const diary = await prisma.diary.findUniqueOrThrow({ where: { diary_id: diaryId } });
+  const keyring = await getUserKeyring(diary.user_id);
+  const text = decrypt(diary.content, getKeyForVersion(keyring, diary.key_version));
+
+  // The diary's day in the user's time zone
+  const { timeZone } = await getUserTimeSettings(diary.user_id);
+  const dayStart = startOfLocalDay(diary.date, timeZone);
+  const dayEnd = new Date(endOfLocalDay(diary.date, timeZone).getTime() + 1);
+
+  const mood = await prisma.moodMeter.findFirst({
+    where: {
+      user_id: diary.user_id,
+      color: diary.color,
+      created_at: { gte: dayStart, lt: dayEnd },
+    },
+    orderBy: { created_at: 'desc' },
+  });
+
+  const letter = await generateEmotionLetter({
+    text,
+    moodColor: diary.color,
+    moodLabels: mood ? [mood.label] : undefined,
+    pleasantness: mood?.pleasantness,
+    energy: mood?.energy,
+    userName,
+  });
+
+  if (!letter.content) {
+    throw new Error(`Empty letter returned for diary ${diaryId}`);
+  }
+
+  return { diary, letter };
+}
+
+async function storeDiaryLetter(
+  client: Prisma.TransactionClient | typeof prisma,
+  diary: LetterDiary,
+  letter: GeneratedLetter
+): Promise<EmotionLetter> {
+  const saved = await client.emotionAnalysis.create({
+    data: {
+      user_id: diary.user_id,
+      diary_id: diary.diary_id,
+      emotion_result: letter.content,
+      model: letter.model,
+      prompt_version: letter.promptVersion,
+      content_version: diary.content_version,
+    },
+    select: LETTER_SELECT,
+  });
+
+  console.log(`[EmotionLetter] Stored letter ${saved.id} for diary ${diary.diary_id} (${letter.model}, ${letter.promptVersion})`);
+  return saved;
+}
+
+/**
+ * Generates a letter for a diary and stores it as a new EmotionAnalysis row
+ * Ownership must be checked by the caller.
+ * @param diaryId - The diary to write a letter for
+ * @param userName - Name used in the letter's greeting
+ * @returns The stored letter
+ */
+export async function createDiaryLetter(diaryId: number, userName?: string): Promise<EmotionLetter> {
+  const { diary, letter } = await writeDiaryLetter(diaryId, userName);
+  return storeDiaryLetter(prisma, diary, letter);
+}
+
+/**
+ * Returns the diary's letter for its current content, writing one if there is none
+ * Concurrent first requests may each generate a letter, but the insert re-checks under an
+ * advisory lock on the diary, so only one is stored and every caller gets that one.
+ * Ownership must be checked by the caller.
+ * @returns The letter and whether this call stored it
+ */
+export async function findOrCreateDiaryLetter(
+  diaryId: number,
+  userName?: string
+): Promise<{ letter: EmotionLetter; created: boolean }> {
+  const existing = await getLatestDiaryLetter(diaryId);
+  if (existing) {
+    return { letter: existing, created: false };
+  }
+
+  const { diary, letter } = await writeDiaryLetter(diaryId, userName);
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('diary_letter'), ${diaryId}::int)`;
+
+    const stored = await tx.emotionAnalysis.findFirst({
+      where: { diary_id: diaryId, content_version: diary.content_version },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      select: LETTER_SELECT,
+    });
+    if (stored) {
+      return { letter: stored, created: false };
+    }
+
+    return { letter: await storeDiaryLetter(tx, diary, letter), created: true };
+  });
+}
+
+async function getContentVersion(diaryId: number): Promise<number | undefined> {
+  const diary = await prisma.diary.findUnique({
+    where: { diary_id: diaryId },
+    select: { content_version: true },
+  });
+  return diary?.content_version;
+}
+
+/**
+ * Returns the most recent letter for the diary's current content, or null if none was
+ * written since the diary was last edited
+ */
+export async function getLatestDiaryLetter(diaryId: number): Promise<EmotionLetter | null> {
+  return prisma.emotionAnalysis.findFirst({
+    where: { diary_id: diaryId, content_version: await getContentVersion(diaryId) },
+    orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+    select: LETTER_SELECT,
+  });
+}
+
+/**
+ * Returns every letter written for a diary, newest first, marking letters written
+ * before the last edit as stale
+ */
+export async function listDiaryLetters(diaryId: number): Promise<DiaryLetterHistoryItem[]> {
+  const contentVersion = await getContentVersion(diaryId);
+  const letters = await prisma.emotionAnalysis.findMany({
+    where: { diary_id: diaryId },
+    orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+    select: LETTER_SELECT,
+  });
+  return letters.map((letter) => ({ ...letter, stale: letter.content_version !== contentVersion }));
+}
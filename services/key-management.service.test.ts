@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+/**
+ * Diary key management
+ * Data keys survive a wrap/unwrap round trip, rotation re-encrypts every diary in batches,
+ * legacy (version 0) keys keep decrypting old diaries, and the key migration can be re-run.
+ */
+
+type UserRow = { user_id: number; password: string; salt: string };
+type UserKeyRow = { user_id: number; wrapped_key: string; key_version: number; previous_wrapped_key: string | null };
+type DiaryRow = { diary_id: number; user_id: number; content: string; key_version: number };
+
+const users = new Map<number, UserRow>();
+const userKeys = new Map<number, UserKeyRow>();
+const diaries = new Map<number, DiaryRow>();
+
+// Minimal in-memory users / user_keys / Diary tables (only the queries the service uses)
+vi.mock('../db', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(async ({ where }: any) => users.get(where.user_id) ?? null),
+      findMany: vi.fn(async ({ where, take }: any) =>
+        [...users.values()]
+          .filter((user) => !userKeys.has(user.user_id) && user.user_id > (where.user_id?.gt ?? 0))
+          .sort((a, b) => a.user_id - b.user_id)
+          .slice(0, take)
+          .map(({ user_id }) => ({ user_id }))
+      ),
+    },
+    userKey: {
+      findUnique: vi.fn(async ({ where }: any) => (userKeys.has(where.user_id) ? { ...userKeys.get(where.user_id)! } : null)),
+      findUniqueOrThrow: vi.fn(async ({ where }: any) => ({ ...userKeys.get(where.user_id)! })),
+      create: vi.fn(async ({ data }: any) => {
+        if (userKeys.has(data.user_id)) throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        const row = { previous_wrapped_key: null, ...data };
+        userKeys.set(data.user_id, row);
+        return { ...row };
+      }),
+      update: vi.fn(async ({ where, data }: any) => ({ ...Object.assign(userKeys.get(where.user_id)!, data) })),
+    },
+    diary: {
+      findMany: vi.fn(async ({ where, take }: any) =>
+        [...diaries.values()]
+          .filter(
+            (diary) =>
+              diary.user_id === where.user_id &&
+              diary.key_version < where.key_version.lt &&
+              diary.diary_id > (where.diary_id?.gt ?? 0) &&
+              (where.diary_id?.in === undefined || where.diary_id.in.includes(diary.diary_id))
+          )
+          .sort((a, b) => a.diary_id - b.diary_id)
+          .slice(0, take)
+          .map((diary) => ({ ...diary }))
+      ),
+      // Like Prisma's lazy queries, batched updates only run inside $transaction
+      updateMany: vi.fn(({ where, data }: any) => () => {
+        const diary = diaries.get(where.diary_id);
+        if (!diary || diary.content !== where.content || diary.key_version !== where.key_version) return { count: 0 };
+        Object.assign(diary, data);
+        return { count: 1 };
+      }),
+    },
+    $transaction: vi.fn(async (operations: Array<() => unknown>) => operations.map((run) => run())),
+  },
+}));
+
+import prisma from '../db';
+import { encrypt, decrypt, generateEncryptionKey } from '../util/encrypt';
+import {
+  deriveKeyEncryptionKey,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  getUserKeyring,
+  getKeyForVersion,
+  getCurrentKey,
+  provisionUserKey,
+  rotateUserDataKey,
+  migrateLegacyUserKeys,
+} from './key-management.service';
+
+const ALICE: UserRow = { user_id: 1, password: 'kakao-1001', salt: 'a1b2c3d4e5f60718' };
+
+function addUser(user: UserRow) {
+  users.set(user.user_id, user);
+}
+
+function addDiary(diaryId: number, userId: number, text: string, key: string, keyVersion: number) {
+  diaries.set(diaryId, { diary_id: diaryId, user_id: userId, content: encrypt(text, key), key_version: keyVersion });
+}
+
+beforeEach(() => {
+  users.clear();
+  userKeys.clear();
+  diaries.clear();
+  vi.clearAllMocks();
+});
+
+describe('wrapDataKey / unwrapDataKey', () => {
+  it('should unwrap a data key only with the KEK it was wrapped with', () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1, maxLength: 40 }), fc.string({ minLength: 1, maxLength: 40 }), (password, salt) => {
+        const dataKey = generateDataKey();
+        const kek = deriveKeyEncryptionKey({ password, salt });
+
+        // Property: the round trip returns the key, and another user's KEK cannot read it
+        expect(unwrapDataKey(wrapDataKey(dataKey, kek), kek)).toBe(dataKey);
+        const otherKek = deriveKeyEncryptionKey({ password: `${password}!`, salt });
+        expect(() => unwrapDataKey(wrapDataKey(dataKey, kek), otherKek)).toThrow();
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should never use the legacy diary key as the KEK', () => {
+    const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+
+    expect(deriveKeyEncryptionKey(ALICE)).not.toBe(legacyKey);
+  });
+});
+
+describe('legacy (version 0) keys', () => {
+  it('should provision the credential-derived key as version 0 so old diaries still decrypt', async () => {
+    addUser(ALICE);
+    const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+    addDiary(10, ALICE.user_id, '예전에 쓴 일기', legacyKey, 0);
+
+    const keyring = await getUserKeyring(ALICE.user_id);
+
+    expect(keyring).toMatchObject({ userId: ALICE.user_id, version: 0 });
+    expect(decrypt(diaries.get(10)!.content, getKeyForVersion(keyring, 0))).toBe('예전에 쓴 일기');
+    expect(userKeys.get(ALICE.user_id)!.wrapped_key).not.toContain(legacyKey);
+  });
+
+  it('should keep the row another request provisioned first', async () => {
+    addUser(ALICE);
+    const first = await provisionUserKey(ALICE.user_id);
+
+    const second = await provisionUserKey(ALICE.user_id);
+
+    expect(second).toEqual(first);
+    expect(prisma.userKey.create).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('rotateUserDataKey', () => {
+  it('should re-encrypt every batch with the new key and bump key_version', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 12 }), fc.integer({ min: 1, max: 5 }), async (diaryCount, batchSize) => {
+        users.clear();
+        userKeys.clear();
+        diaries.clear();
+        addUser(ALICE);
+        const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+        for (let i = 1; i <= diaryCount; i++) addDiary(i, ALICE.user_id, `일기 ${i}`, legacyKey, 0);
+
+        const progress = await rotateUserDataKey(ALICE.user_id, batchSize);
+
+        // Property: every diary moved to the new version and still reads back the same text
+        expect(progress).toEqual({
+          userId: ALICE.user_id,
+          version: 1,
+          reencrypted: diaryCount,
+          failed: 0,
+          failedDiaryIds: [],
+          completed: true,
+        });
+        const keyring = await getUserKeyring(ALICE.user_id);
+        expect(keyring.version).toBe(1);
+        expect(Object.keys(keyring.keys)).toEqual(['1']);
+        expect(getCurrentKey(keyring)).not.toBe(legacyKey);
+        for (const diary of diaries.values()) {
+          expect(diary.key_version).toBe(1);
+          expect(decrypt(diary.content, getCurrentKey(keyring))).toBe(`일기 ${diary.diary_id}`);
+        }
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should resume an interrupted rotation instead of starting another', async () => {
+    addUser(ALICE);
+    const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+    for (let i = 1; i <= 4; i++) addDiary(i, ALICE.user_id, `일기 ${i}`, legacyKey, 0);
+    vi.mocked(prisma.$transaction).mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(rotateUserDataKey(ALICE.user_id, 2)).rejects.toThrow('connection lost');
+
+    // Mid-rotation both versions are readable
+    const interrupted = await getUserKeyring(ALICE.user_id);
+    expect(Object.keys(interrupted.keys)).toEqual(['0', '1']);
+
+    const progress = await rotateUserDataKey(ALICE.user_id, 2);
+
+    expect(progress).toMatchObject({ version: 1, reencrypted: 4, completed: true });
+    expect(getCurrentKey(await getUserKeyring(ALICE.user_id))).toBe(getCurrentKey(interrupted));
+  });
+
+  it('should not overwrite a diary edited while its batch was re-encrypted', async () => {
+    addUser(ALICE);
+    const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+    for (let i = 1; i <= 3; i++) addDiary(i, ALICE.user_id, `일기 ${i}`, legacyKey, 0);
+    const { $transaction } = prisma as any;
+    vi.mocked(prisma.$transaction).mockImplementationOnce(async (operations: any) => {
+      // The user saves diary 2 (with the new key, like the diary editor) before the batch commits
+      const keyring = await getUserKeyring(ALICE.user_id);
+      diaries.get(2)!.content = encrypt('수정한 일기', getCurrentKey(keyring));
+      diaries.get(2)!.key_version = keyring.version;
+      return $transaction.getMockImplementation()(operations);
+    });
+
+    const progress = await rotateUserDataKey(ALICE.user_id);
+
+    const keyring = await getUserKeyring(ALICE.user_id);
+    expect(decrypt(diaries.get(2)!.content, getCurrentKey(keyring))).toBe('수정한 일기');
+    expect(progress).toMatchObject({ reencrypted: 2, failed: 0, completed: true });
+  });
+
+  it('should re-read a diary whose update lost a race and still rotate it', async () => {
+    addUser(ALICE);
+    const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+    addDiary(1, ALICE.user_id, '일기 1', legacyKey, 0);
+    const { $transaction } = prisma as any;
+    vi.mocked(prisma.$transaction).mockImplementationOnce(async (operations: any) => {
+      // A save that is still written with the previous key (e.g. started before the rotation)
+      diaries.get(1)!.content = encrypt('다시 쓴 일기', legacyKey);
+      return $transaction.getMockImplementation()(operations);
+    });
+
+    const progress = await rotateUserDataKey(ALICE.user_id);
+
+    expect(progress).toMatchObject({ reencrypted: 1, completed: true });
+    expect(decrypt(diaries.get(1)!.content, getCurrentKey(await getUserKeyring(ALICE.user_id)))).toBe('다시 쓴 일기');
+  });
+
+  it('should skip diaries it cannot decrypt and keep the previous key for them', async () => {
+    addUser(ALICE);
+    const legacyKey = generateEncryptionKey(ALICE.password, ALICE.salt);
+    for (let i = 1; i <= 4; i++) addDiary(i, ALICE.user_id, `일기 ${i}`, legacyKey, 0);
+    diaries.get(2)!.content = encrypt('다른 키로 쓴 일기', generateDataKey());
+
+    const first = await rotateUserDataKey(ALICE.user_id, 2);
+    const retry = await rotateUserDataKey(ALICE.user_id, 2);
+
+    expect(first).toMatchObject({ version: 1, reencrypted: 3, failed: 1, failedDiaryIds: [2], completed: false });
+    // The retry resumes the same rotation instead of starting another or getting stuck
+    expect(retry).toMatchObject({ version: 1, reencrypted: 0, failed: 1, failedDiaryIds: [2], completed: false });
+    const keyring = await getUserKeyring(ALICE.user_id);
+    expect(Object.keys(keyring.keys)).toEqual(['0', '1']);
+    expect([1, 3, 4].map((id) => diaries.get(id)!.key_version)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('migrateLegacyUserKeys', () => {
+  it('should provision every legacy user once and do nothing when re-run', async () => {
+    for (let userId = 1; userId <= 5; userId++) {
+      addUser({ user_id: userId, password: `kakao-${userId}`, salt: `salt-${userId}` });
+    }
+
+    const first = await migrateLegacyUserKeys({ batchSize: 2 });
+    const wrappedKeys = [...userKeys.values()].map((row) => row.wrapped_key);
+    const second = await migrateLegacyUserKeys({ batchSize: 2 });
+
+    expect(first).toEqual({ processed: 5, failed: [], lastUserId: 5 });
+    expect(second).toEqual({ processed: 0, failed: [], lastUserId: null });
+    expect(prisma.userKey.create).toHaveBeenCalledTimes(5);
+    expect([...userKeys.values()].map((row) => row.wrapped_key)).toEqual(wrappedKeys);
+  });
+
+  it('should resume after the last migrated user', async () => {
+    for (let userId = 1; userId <= 4; userId++) {
+      addUser({ user_id: userId, password: `kakao-${userId}`, salt: `salt-${userId}` });
+    }
+
+    const progress = await migrateLegacyUserKeys({ afterUserId: 2 });
+
+    expect(progress).toEqual({ processed: 2, failed: [], lastUserId: 4 });
+    expect([...userKeys.keys()]).toEqual([3, 4]);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Key Management Service for diary encryption
+ * Each user owns a data key (DEK) that encrypts diary content. The DEK is stored
+ * wrapped by a key-encryption key (KEK) derived from the user's credentials, so a
+ * credential change only re-wraps the DEK instead of re-encrypting every diary.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { encrypt, decrypt, generateEncryptionKey } from '../util/encrypt';
+
+// Rotation/migration configuration
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_FAILED_IDS = 100;
+const KEK_CONTEXT = 'maegeul:kek';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface UserCredentials {
+  password: string;
+  salt: string;
+}
+
+/**
+ * Unwrapped data keys for a user
+ * `keys` holds the current version and, while a rotation is in progress, the previous one
+ */
+export interface UserKeyring {
+  userId: number;
+  version: number;
+  keys: Record<number, string>;
+}
+
+export interface RotationProgress {
+  userId: number;
+  version: number;
+  reencrypted: number;
+  failed: number;
+  failedDiaryIds: number[];
+  completed: boolean;
+}
+
+type RotationDiary = { diary_id: number; content: string; key_version: number };
+
+export interface KeyMigrationProgress {
+  processed: number;
+  failed: number[];
+  lastUserId: number | null;
+}
+
+/**
+ * Derives the key-encryption key from a user's stored credentials
+ * Uses a separate context from the legacy diary key so the KEK never equals a DEK
+ */
+export function deriveKeyEncryptionKey(credentials: UserCredentials): string {
+  return generateEncryptionKey(credentials.password, `${KEK_CONTEXT}:${credentials.salt}`);
+}
+
+/**
+ * Generates a new random 256-bit data key (hex encoded)
+ */
+export function generateDataKey(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function wrapDataKey(dataKey: string, kek: string): string {
+  return encrypt(dataKey, kek);
+}
+
+export function unwrapDataKey(wrappedKey: string, kek: string): string {
+  return decrypt(wrappedKey, kek);
+}
+
+/**
+ * Returns the data key for a diary's key_version
+ * @throws if the keyring does not hold that version
+ */
+export function getKeyForVersion(keyring: UserKeyring, version: number): string {
+  const key = keyring.keys[version];
+  if (!key) {
+    throw new Error(`No data key for version ${version} (user ${keyring.userId})`);
+  }
+  return key;
+}
+
+/**
+ * Returns the data key used for new writes
+ */
+export function getCurrentKey(keyring: UserKeyring): string {
+  return getKeyForVersion(keyring, keyring.version);
+}
+
+async function loadCredentials(userId: number, client: DbClient = prisma): Promise<UserCredentials> {
+  const user = await client.user.findUnique({
+    where: { user_id: userId },
+    select: { password: true, salt: true },
+  });
+
+  if (!user || !user.password || !user.salt) {
+    throw new Error(`Credentials not found for user ${userId}`);
+  }
+
+  return { password: user.password, salt: user.salt };
+}
+
+function buildKeyring(
+  userId: number,
+  row: { wrapped_key: string; key_version: number; previous_wrapped_key: string | null },
+  kek: string
+): UserKeyring {
+  const keys: Record<number, string> = {
+    [row.key_version]: unwrapDataKey(row.wrapped_key, kek),
+  };
+
+  if (row.previous_wrapped_key) {
+    keys[row.key_version - 1] = unwrapDataKey(row.previous_wrapped_key, kek);
+  }
+
+  return { userId, version: row.key_version, keys };
+}
+
+/**
+ * Creates the user_keys row for a user who does not have one yet
+ * Existing diaries were encrypted with the credential-derived legacy key, so that key
+ * becomes the user's version 0 data key and no diary has to be re-encrypted.
+ * Idempotent: concurrent callers end up with the same row.
+ * @param userId - The user's ID
+ * @returns The user's keyring
+ */
+export async function provisionUserKey(userId: number): Promise<UserKeyring> {
+  const credentials = await loadCredentials(userId);
+  const kek = deriveKeyEncryptionKey(credentials);
+  const legacyKey = generateEncryptionKey(credentials.password, credentials.salt);
+
+  try {
+    await prisma.userKey.create({
+      data: {
+        user_id: userId,
+        wrapped_key: wrapDataKey(legacyKey, kek),
+        key_version: 0,
+      },
+    });
+  } catch (error: any) {
+    // P2002: another request provisioned the key first
+    if (error?.code !== 'P2002') {
+      throw error;
+    }
+  }
+
+  const row = await prisma.userKey.findUniqueOrThrow({ where: { user_id: userId } });
+  return buildKeyring(userId, row, kek);
+}
+
+/**
+ * Loads and unwraps a user's data keys, provisioning them on first use
+ * @param userId - The user's ID
+ * @returns The user's keyring
+ */
+export async function getUserKeyring(userId: number): Promise<UserKeyring> {
+  const row = await prisma.userKey.findUnique({ where: { user_id: userId } });
+
+  if (!row) {
+    return provisionUserKey(userId);
+  }
+
+  const credentials = await loadCredentials(userId);
+  return buildKeyring(userId, row, deriveKeyEncryptionKey(credentials));
+}
+
+/**
+ * Re-wraps a user's data keys when their credentials change
+ * Must run in the same transaction that writes the new password/salt.
+ * @param userId - The user's ID
+ * @param oldCredentials - Credentials currently stored for the user
+ * @param newCredentials - Credentials about to be stored
+ * @param client - Transaction client (defaults to the shared client)
+ */
+export async function rewrapUserKey(
+  userId: number,
+  oldCredentials: UserCredentials,
+  newCredentials: UserCredentials,
+  client: DbClient = prisma
+): Promise<void> {
+  const oldKek = deriveKeyEncryptionKey(oldCredentials);
+  const newKek = deriveKeyEncryptionKey(newCredentials);
+
+  const row = await client.userKey.findUnique({ where: { user_id: userId } });
+
+  if (!row) {
+    // Legacy user: wrap the credential-derived key under the new KEK directly
+    const legacyKey = generateEncryptionKey(oldCredentials.password, oldCredentials.salt);
+    await client.userKey.create({
+      data: {
+        user_id: userId,
+        wrapped_key: wrapDataKey(legacyKey, newKek),
+        key_version: 0,
+      },
+    });
+    return;
+  }
+
+  const keyring = buildKeyring(userId, row, oldKek);
+
+  await client.userKey.update({
+    where: { user_id: userId },
+    data: {
+      wrapped_key: wrapDataKey(keyring.keys[row.key_version], newKek),
+      previous_wrapped_key: row.previous_wrapped_key
+        ? wrapDataKey(keyring.keys[row.key_version - 1], newKek)
+        : null,
+    },
+  });
+}
+
+/**
+ * Re-encrypts diaries with the keyring's current key
+ * Each update is a compare-and-swap on the ciphertext and key version that were read, so a
+ * diary edited in the meantime is never overwritten with its old text.
+ * @returns Diaries whose update lost such a race (to be read again)
+ */
+async function reencryptForRotation(
+  diaries: RotationDiary[],
+  keyring: UserKeyring,
+  progress: RotationProgress
+): Promise<number[]> {
+  const updates: Array<{ diary: RotationDiary; content: string }> = [];
+
+  for (const diary of diaries) {
+    try {
+      const plaintext = decrypt(diary.content, getKeyForVersion(keyring, diary.key_version));
+      updates.push({ diary, content: encrypt(plaintext, getCurrentKey(keyring)) });
+    } catch (error) {
+      console.error(`[KeyManagement] Failed to re-encrypt diary ${diary.diary_id}:`, error);
+      progress.failed++;
+      if (progress.failedDiaryIds.length < MAX_FAILED_IDS) {
+        progress.failedDiaryIds.push(diary.diary_id);
+      }
+    }
+  }
+
+  const results = await prisma.$transaction(
+    updates.map(({ diary, content }) =>
+      prisma.diary.updateMany({
+        where: { diary_id: diary.diary_id, content: diary.content, key_version: diary.key_version },
+        data: { content, key_version: keyring.version },
+      })
+    )
+  );
+
+  const lost = updates.filter((_, i) => results[i].count === 0).map(({ diary }) => diary.diary_id);
+  progress.reencrypted += updates.length - lost.length;
+  return lost;
+}
+
+/**
+ * Rotates a user's data key and re-encrypts their diaries in batches
+ * Resumable: if a previous rotation was interrupted, calling this again continues it
+ * instead of starting a new one (diaries carry the key_version they were written with).
+ * Diaries that cannot be decrypted are recorded and skipped; the previous key is then kept
+ * so they stay readable, and the rotation is reported as not completed.
+ * @param userId - The user's ID
+ * @param batchSize - Diaries re-encrypted per transaction
+ * @returns Final rotation progress
+ */
+export async function rotateUserDataKey(
+  userId: number,
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<RotationProgress> {
+  const credentials = await loadCredentials(userId);
+  const kek = deriveKeyEncryptionKey(credentials);
+
+  let row = await prisma.userKey.findUnique({ where: { user_id: userId } });
+  if (!row) {
+    await provisionUserKey(userId);
+    row = await prisma.userKey.findUniqueOrThrow({ where: { user_id: userId } });
+  }
+
+  // Start a new rotation unless one is already in progress
+  if (!row.previous_wrapped_key) {
+    row = await prisma.userKey.update({
+      where: { user_id: userId },
+      data: {
+        wrapped_key: wrapDataKey(generateDataKey(), kek),
+        key_version: row.key_version + 1,
+        previous_wrapped_key: row.wrapped_key,
+      },
+    });
+    console.log(`[KeyManagement] Started key rotation for user ${userId} (version ${row.key_version})`);
+  } else {
+    console.log(`[KeyManagement] Resuming key rotation for user ${userId} (version ${row.key_version})`);
+  }
+
+  const keyring = buildKeyring(userId, row, kek);
+  const progress: RotationProgress = {
+    userId,
+    version: keyring.version,
+    reencrypted: 0,
+    failed: 0,
+    failedDiaryIds: [],
+    completed: false,
+  };
+  const pending = { user_id: userId, key_version: { lt: keyring.version } };
+  const select = { diary_id: true, content: true, key_version: true };
+  let cursor = 0;
+
+  while (true) {
+    const batch = await prisma.diary.findMany({
+      where: { ...pending, diary_id: { gt: cursor } },
+      orderBy: { diary_id: 'asc' },
+      take: batchSize,
+      select,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    let lost = await reencryptForRotation(batch, keyring, progress);
+    while (lost.length > 0) {
+      // Edited while we worked: re-read them (an edit written with the new key is done)
+      const reread = await prisma.diary.findMany({ where: { ...pending, diary_id: { in: lost } }, select });
+      lost = await reencryptForRotation(reread, keyring, progress);
+    }
+
+    cursor = batch[batch.length - 1].diary_id;
+    console.log(`[KeyManagement] Re-encrypted ${progress.reencrypted} diaries for user ${userId}`);
+  }
+
+  if (progress.failed > 0) {
+    console.warn(
+      `[KeyManagement] Key rotation for user ${userId} left ${progress.failed} diaries on the previous key`
+    );
+    return progress;
+  }
+
+  await prisma.userKey.update({
+    where: { user_id: userId },
+    data: { previous_wrapped_key: null },
+  });
+
+  console.log(`[KeyManagement] Key rotation complete for user ${userId}`);
+  return { ...progress, completed: true };
+}
+
+/**
+ * Provisions data keys for every user that does not have one yet
+ * Safe to re-run: users are processed in user_id order and each step is idempotent,
+ * so an interrupted migration can resume from `lastUserId`.
+ * @param options.batchSize - Users loaded per query
+ * @param options.afterUserId - Resume after this user ID
+ * @param options.onProgress - Called after each batch
+ * @returns Migration progress
+ */
+export async function migrateLegacyUserKeys(
+  options: {
+    batchSize?: number;
+    afterUserId?: number;
+    onProgress?: (progress: KeyMigrationProgress) => void;
+  } = {}
+): Promise<KeyMigrationProgress> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const progress: KeyMigrationProgress = {
+    processed: 0,
+    failed: [],
+    lastUserId: options.afterUserId ?? null,
+  };
+
+  while (true) {
+    const users = await prisma.user.findMany({
+      where: {
+        dataKey: null,
+        ...(progress.lastUserId !== null && { user_id: { gt: progress.lastUserId } }),
+      },
+      orderBy: { user_id: 'asc' },
+      take: batchSize,
+      select: { user_id: true },
+    });
+
+    if (users.length === 0) {
+      break;
+    }
+
+    for (const { user_id } of users) {
+      try {
+        await provisionUserKey(user_id);
+        progress.processed++;
+      } catch (error) {
+        console.error(`[KeyManagement] Failed to provision key for user ${user_id}:`, error);
+        progress.failed.push(user_id);
+      }
+      progress.lastUserId = user_id;
+    }
+
+    options.onProgress?.(progress);
+  }
+
+  return progress;
+}
@@ -0,0 +1,121 @@
+/**
+ * LLM Provider abstraction for Mudita Bot
+ * Every chat, streaming, tool-calling, structured-output and embedding call goes
+ * through a single LLMProvider so the pipeline can run against OpenAI or an offline fake.
+ *
+ * Provider selection: LLM_PROVIDER=openai (default) | mock
+ */
+
+import { OpenAIProvider } from './openai-provider';
+import { MockLLMProvider } from './mock-llm-provider';
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/**
+ * Function tool definition (JSON schema parameters)
+ */
+export interface FunctionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
+}
+
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: FunctionTool[];
+}
+
+export interface ChatResult {
+  content: string | null;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * Partial tool call from a stream; deltas with the same index belong to the same call
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface ChatStreamChunk {
+  content?: string;
+  toolCallDeltas?: ToolCallDelta[];
+}
+
+export interface StructuredOutputOptions extends Omit<ChatOptions, 'tools'> {
+  schemaName: string;
+  schema: Record<string, any>;
+}
+
+export interface EmbedOptions {
+  model?: string;
+  dimensions?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
+  streamChat(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatStreamChunk>;
+  /**
+   * Returns the parsed JSON object, or null when the model returned nothing
+   */
+  structured<T>(messages: ChatMessage[], options: StructuredOutputOptions): Promise<T | null>;
+  embed(input: string, options?: EmbedOptions): Promise<number[]>;
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Creates a provider by name
+ * @throws if the name is unknown
+ */
+export function createLLMProvider(name: string = process.env.LLM_PROVIDER || 'openai'): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * Returns the shared provider, created lazily from LLM_PROVIDER
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createLLMProvider();
+    console.log(`[LLMProvider] Using ${provider.name} provider`);
+  }
+  return provider;
+}
+
+/**
+ * Replaces the shared provider (tests, scripts); pass null to re-read LLM_PROVIDER
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
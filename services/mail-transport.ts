@@ -0,0 +1,112 @@
+/**
+ * Pluggable mail transport (MAIL_TRANSPORT=console | file)
+ * Password reset mails go through this interface so a real provider can be added
+ * without touching the reset flow.
+ *
+ * - console: prints the mail to the server log (default, development only)
+ * - file: writes each mail as JSON to MAIL_OUTBOX_DIR (default ./outbox) for local inspection
+ *
+ * Neither delivers mail. In production the console transport is replaced by one that
+ * refuses to send (reset links in the log are live credentials): the server still starts,
+ * and only password reset requests fail until a delivering transport is configured.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly outboxDir: string = process.env.MAIL_OUTBOX_DIR || 'outbox') {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+    await fs.writeFile(filePath, JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2));
+    console.log(`[Mail] Wrote mail to ${filePath}`);
+  }
+}
+
+/**
+ * Thrown when a mail is sent without a transport that may deliver it
+ */
+export class MailNotConfiguredError extends Error {
+  constructor() {
+    super('No mail transport is configured for this environment (see MAIL_TRANSPORT)');
+    this.name = 'MailNotConfiguredError';
+  }
+}
+
+export class UnavailableMailTransport implements MailTransport {
+  readonly name = 'unavailable';
+
+  async send(): Promise<void> {
+    throw new MailNotConfiguredError();
+  }
+}
+
+/**
+ * Whether mail sent through the transport can reach anyone (callers check before
+ * creating anything the mail was meant to carry)
+ */
+export function isMailAvailable(transport: MailTransport): boolean {
+  return !(transport instanceof UnavailableMailTransport);
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Creates a transport by name
+ */
+export function createMailTransport(name: string = process.env.MAIL_TRANSPORT || 'console'): MailTransport {
+  switch (name) {
+    case 'console':
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('[Mail] MAIL_TRANSPORT=console would log reset links in production; mail is disabled');
+        return new UnavailableMailTransport();
+      }
+      return new ConsoleMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  }
+}
+
+/**
+ * Returns the shared transport, created lazily from MAIL_TRANSPORT
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createMailTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replaces the shared transport (tests, scripts); pass null to re-read MAIL_TRANSPORT
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
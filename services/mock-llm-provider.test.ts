@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import * as fc from 'fast-check';
+
+/**
+ * Offline LLM provider tests
+ * The mock provider is deterministic and drives the chat pipeline without network access.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    moodMeter: { findMany: vi.fn(), create: vi.fn() },
+    chatPendingAction: { create: vi.fn() },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+import prisma from '../db';
+import { MockLLMProvider, defaultForSchema } from './mock-llm-provider';
+import { setLLMProvider, createLLMProvider, ChatOptions } from './llm-provider';
+import { generateResponse, ToolEvent } from './rag.service';
+import { rerankDiaries } from './reranker.service';
+import type { DiarySearchResult } from './embedding.service';
+
+const mock = new MockLLMProvider();
+
+beforeEach(() => {
+  mock.reset();
+  setLLMProvider(mock);
+});
+
+afterAll(() => {
+  setLLMProvider(null);
+});
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe('MockLLMProvider', () => {
+  it('should be selected with LLM_PROVIDER=mock', () => {
+    expect(createLLMProvider('mock').name).toBe('mock');
+    expect(() => createLLMProvider('unknown')).toThrow();
+  });
+
+  it('should return the same unit-length embedding for the same text', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.string({ maxLength: 200 }), async (text) => {
+        const a = await mock.embed(text, { dimensions: 64 });
+        const b = await mock.embed(text, { dimensions: 64 });
+
+        expect(a).toEqual(b);
+        expect(a).toHaveLength(64);
+        expect(Math.abs(cosine(a, a) - 1)).toBeLessThan(1e-9);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should embed texts sharing words closer than unrelated texts', async () => {
+    const base = await mock.embed('오늘 친구랑 카페에서 커피');
+    const similar = await mock.embed('친구랑 카페에서 수다');
+    const unrelated = await mock.embed('회사 회의 야근 보고서');
+
+    expect(cosine(base, similar)).toBeGreaterThan(cosine(base, unrelated));
+  });
+
+  it('should stream scripted tool calls as indexed deltas before content', async () => {
+    mock.enqueue({ content: '찾아볼게', toolCalls: [{ name: 'searchDiaries', arguments: { query: '카페' } }] });
+
+    const chunks = [];
+    for await (const chunk of mock.streamChat([{ role: 'user', content: '카페 일기 찾아줘' }])) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0].toolCallDeltas?.[0]).toMatchObject({ index: 0, name: 'searchDiaries' });
+    expect(chunks[1].toolCallDeltas?.[0].arguments).toBe('{"query":"카페"}');
+    expect(chunks.map((c) => c.content ?? '').join('')).toBe('찾아볼게');
+  });
+
+  it('should build a schema-valid default for structured output', () => {
+    expect(
+      defaultForSchema({
+        type: 'object',
+        properties: {
+          shouldShowCTA: { type: 'boolean' },
+          ctaType: { type: ['string', 'null'], enum: ['write_diary', null] },
+          items: { type: 'array', items: { type: 'string' } },
+        },
+      })
+    ).toEqual({ shouldShowCTA: false, ctaType: 'write_diary', items: [] });
+  });
+});
+
+describe('Chat pipeline on the mock provider', () => {
+  it('should stream the generated response token by token', async () => {
+    mock.enqueue({ content: '오늘 하루 정말 수고 많았어. 푹 쉬어!' });
+    const tokens: string[] = [];
+
+    const response = await generateResponse('', '오늘 너무 피곤해', (t) => tokens.push(t), '민지', [], false);
+
+    expect(response).toBe('오늘 하루 정말 수고 많았어. 푹 쉬어!');
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(response);
+    expect(mock.calls[0].method).toBe('streamChat');
+  });
+
+  it('should rerank diaries with structured output from the provider', async () => {
+    const diaries: DiarySearchResult[] = [1, 2, 3, 4, 5].map((id) => ({
+      diary_id: id,
+      title: `일기 ${id}`,
+      content: '내용',
+      date: new Date('2025-01-01'),
+      color: '초록색',
+      score: 0.5,
+    }));
+    mock.enqueue({
+      structured: {
+        rankings: [
+          { diaryId: 4, relevanceScore: 9, reason: '직접 관련' },
+          { diaryId: 2, relevanceScore: 7, reason: '맥락 관련' },
+        ],
+      },
+    });
+
+    const results = await rerankDiaries('회사 스트레스', diaries, 2);
+
+    expect(results.map((r) => r.diary.diary_id)).toEqual([4, 2]);
+  });
+
+  it('should run tools for the requesting user when chat streams interleave', async () => {
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    const labelOf = (userId: number) => `user${userId}의 기분`;
+
+    // Each user's data comes back after a different delay, so tool calls overlap
+    vi.mocked(prisma.moodMeter.findMany).mockImplementation((async ({ where }: any) => {
+      await wait(where.user_id % 3);
+      return [{ id: where.user_id, label: labelOf(where.user_id), color: '노란색', pleasantness: 7, energy: 6, created_at: new Date() }];
+    }) as any);
+    vi.mocked(prisma.$queryRaw).mockImplementation((async (_sql: unknown, userId: number) => {
+      await wait(userId % 2);
+      return [];
+    }) as any);
+
+    // First round asks for analyzeMood, the second answers with whatever the tool returned
+    mock.setResponder((messages) => {
+      const toolResult = messages.find((m) => m.role === 'tool');
+      return toolResult
+        ? { content: toolResult.content as string }
+        : { toolCalls: [{ name: 'analyzeMood', arguments: {} }] };
+    });
+
+    await fc.assert(
+      fc.asyncProperty(fc.uniqueArray(fc.integer({ min: 1, max: 1000 }), { minLength: 2, maxLength: 6 }), async (userIds) => {
+        const responses = await Promise.all(
+          userIds.map((userId) =>
+            generateResponse('', '요즘 내 기분 어때?', () => {}, `user${userId}`, [], true, userId)
+          )
+        );
+
+        // Property: every response only contains the requesting user's mood data
+        responses.forEach((response, i) => {
+          expect(response).toContain(labelOf(userIds[i]));
+          for (const other of userIds.filter((id) => id !== userIds[i])) {
+            expect(response).not.toContain(labelOf(other));
+          }
+        });
+
+        return true;
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should run parallel tool calls over several rounds and report their progress', async () => {
+    vi.mocked(prisma.moodMeter.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([]);
+    mock.enqueue(
+      {
+        toolCalls: [
+          { id: 'call_a', name: 'analyzeMood', arguments: { period: 'this_week' } },
+          { id: 'call_b', name: 'findEmotionTriggers', arguments: {} },
+        ],
+      },
+      { toolCalls: [{ id: 'call_c', name: 'getRecommendations', arguments: { currentMood: 'negative' } }] },
+      { content: '이번 주는 조금 지쳤구나.' }
+    );
+    const events: ToolEvent[] = [];
+
+    const response = await generateResponse('', '요즘 왜 이렇게 지칠까?', () => {}, '민지', [], true, 1, undefined, (e) =>
+      events.push(e)
+    );
+
+    expect(response).toBe('이번 주는 조금 지쳤구나.');
+    const rounds = mock.calls.filter((c) => c.method === 'streamChat');
+    expect(rounds).toHaveLength(3);
+
+    // Both calls of the first round are kept apart and every call is answered by id
+    const conversation = rounds[2].messages;
+    expect(conversation.find((m) => m.role === 'assistant' && m.tool_calls)?.tool_calls).toEqual([
+      { id: 'call_a', name: 'analyzeMood', arguments: '{"period":"this_week"}' },
+      { id: 'call_b', name: 'findEmotionTriggers', arguments: '{}' },
+    ]);
+    expect(conversation.filter((m) => m.role === 'tool').map((m) => m.tool_call_id)).toEqual([
+      'call_a',
+      'call_b',
+      'call_c',
+    ]);
+
+    // Parallel calls both start before either result comes back
+    expect(events.slice(0, 2)).toEqual([
+      { type: 'tool_start', id: 'call_a', name: 'analyzeMood', message: expect.any(String) },
+      { type: 'tool_start', id: 'call_b', name: 'findEmotionTriggers', message: expect.any(String) },
+    ]);
+    expect(events.slice(2, 4).map((e) => e.type)).toEqual(['tool_result', 'tool_result']);
+    expect(events.slice(4)).toEqual([
+      { type: 'tool_start', id: 'call_c', name: 'getRecommendations', message: expect.any(String) },
+      { type: 'tool_result', id: 'call_c', name: 'getRecommendations', success: true },
+    ]);
+  });
+
+  it('should ask the user to confirm write tools instead of saving', async () => {
+    const expiresAt = new Date('2025-06-16T00:00:00Z');
+    vi.mocked(prisma.chatPendingAction.create).mockResolvedValue({ action_id: 'action-1', expires_at: expiresAt } as any);
+    const mood = { label: '뿌듯함', color: '노란색', pleasantness: 8, energy: 6 };
+    mock.enqueue({ toolCalls: [{ id: 'call_m', name: 'logMood', arguments: mood }] }, { content: '기록해둘까?' });
+    const events: ToolEvent[] = [];
+
+    // Write tools are offered to users without diaries too
+    await generateResponse('', '오늘 발표 잘 끝냈어!', () => {}, '민지', [], false, 1, undefined, (e) => events.push(e));
+
+    expect(events.at(-1)).toEqual({
+      type: 'action_required',
+      id: 'call_m',
+      name: 'logMood',
+      action: { action_id: 'action-1', tool: 'logMood', payload: mood, expires_at: expiresAt },
+    });
+    expect(prisma.moodMeter.create).not.toHaveBeenCalled();
+  });
+
+  it('should not run the tools of a completed round again when a later round is retried', async () => {
+    vi.useFakeTimers();
+    vi.mocked(prisma.chatPendingAction.create).mockClear().mockResolvedValue({ action_id: 'action-1', expires_at: new Date() } as any);
+    const mood = { label: '뿌듯함', color: '노란색', pleasantness: 8, energy: 6 };
+    mock.setResponder((messages) =>
+      messages.some((m) => m.role === 'tool')
+        ? { content: '기록해둘까?' }
+        : { toolCalls: [{ id: 'call_m', name: 'logMood', arguments: mood }] }
+    );
+    const streamChat = mock.streamChat.bind(mock);
+    const spy = vi.spyOn(mock, 'streamChat').mockImplementation((messages, options) => {
+      // The round after the tool call fails once with a server error
+      if (spy.mock.calls.length === 2) throw Object.assign(new Error('upstream unavailable'), { status: 503 });
+      return streamChat(messages, options);
+    });
+
+    try {
+      const response = generateResponse('', '오늘 발표 잘 끝냈어!', () => {}, '민지', [], false, 1);
+      await vi.runAllTimersAsync();
+
+      expect(await response).toBe('기록해둘까?');
+      expect(prisma.chatPendingAction.create).toHaveBeenCalledOnce();
+      expect(spy).toHaveBeenCalledTimes(3);
+    } finally {
+      spy.mockRestore();
+      vi.useRealTimers();
+    }
+  });
+
+  it('should stop offering tools after the last tool round', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([]);
+    mock.setResponder(() => ({ toolCalls: [{ name: 'getRecommendations', arguments: {} }] }));
+
+    await generateResponse('', '뭐 하면 좋을까?', () => {}, '민지', [], true, 1);
+
+    const rounds = mock.calls.filter((c) => c.method === 'streamChat');
+    expect(rounds).toHaveLength(4);
+    const offeredTools = rounds.map((c) => (c.options as ChatOptions).tools);
+    expect(offeredTools.slice(0, 3).every((tools) => tools && tools.length > 0)).toBe(true);
+    expect(offeredTools[3]).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Deterministic offline LLMProvider (LLM_PROVIDER=mock)
+ * Lets the full chat pipeline run in CI and on laptops without network access.
+ *
+ * - chat/streamChat: replies from a script queue or a responder function; otherwise a
+ *   canned reply derived from the last user message
+ * - structured: scripted value, or the minimal object that satisfies the JSON schema
+ * - embed: bag-of-words hashing, so texts sharing words get similar vectors
+ */
+
+import crypto from 'crypto';
+import {
+  LLMProvider,
+  ChatMessage,
+  ChatOptions,
+  ChatResult,
+  ChatStreamChunk,
+  StructuredOutputOptions,
+  EmbedOptions,
+  ToolCall,
+} from './llm-provider';
+
+const DEFAULT_DIMENSIONS = 1536;
+
+export interface MockReply {
+  content?: string | null;
+  toolCalls?: Array<{ id?: string; name: string; arguments: Record<string, any> | string }>;
+  structured?: unknown;
+}
+
+export type MockResponder = (
+  messages: ChatMessage[],
+  options: ChatOptions | StructuredOutputOptions
+) => MockReply | undefined;
+
+export interface MockCall {
+  method: 'chat' | 'streamChat' | 'structured' | 'embed';
+  messages?: ChatMessage[];
+  input?: string;
+  options?: unknown;
+}
+
+function hashToInt(text: string): number {
+  return crypto.createHash('sha256').update(text).digest().readUInt32BE(0);
+}
+
+/**
+ * Builds the smallest value that satisfies a (strict-mode) JSON schema
+ */
+export function defaultForSchema(schema: Record<string, any>): unknown {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.includes('null')
+      ? 'null'
+      : schema.type[0]
+    : schema.type;
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          defaultForSchema(value as Record<string, any>),
+        ])
+      );
+    case 'array':
+      return [];
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly calls: MockCall[] = [];
+  private queue: MockReply[] = [];
+  private responder: MockResponder | null = null;
+  private toolCallCounter = 0;
+
+  /**
+   * Queues replies consumed in order by chat, streamChat and structured
+   */
+  enqueue(...replies: MockReply[]): this {
+    this.queue.push(...replies);
+    return this;
+  }
+
+  /**
+   * Sets a function that decides replies from the request (used when the queue is empty)
+   */
+  setResponder(responder: MockResponder | null): this {
+    this.responder = responder;
+    return this;
+  }
+
+  reset(): void {
+    this.queue = [];
+    this.responder = null;
+    this.calls.length = 0;
+    this.toolCallCounter = 0;
+  }
+
+  private nextReply(messages: ChatMessage[], options: ChatOptions | StructuredOutputOptions): MockReply | undefined {
+    return this.queue.shift() ?? this.responder?.(messages, options);
+  }
+
+  private defaultContent(messages: ChatMessage[]): string {
+    const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+    const text = (lastUser?.content ?? '').slice(0, 40);
+    return `[mock] "${text}"에 대한 무디타의 답장이에요.`;
+  }
+
+  private toResult(reply: MockReply | undefined, messages: ChatMessage[]): ChatResult {
+    const toolCalls: ToolCall[] = (reply?.toolCalls ?? []).map((tc) => ({
+      id: tc.id ?? `call_mock_${++this.toolCallCounter}`,
+      name: tc.name,
+      arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments),
+    }));
+
+    const content =
+      reply?.content !== undefined ? reply.content : toolCalls.length > 0 ? null : this.defaultContent(messages);
+
+    return { content, toolCalls };
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    this.calls.push({ method: 'chat', messages, options });
+    return this.toResult(this.nextReply(messages, options), messages);
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<ChatStreamChunk> {
+    this.calls.push({ method: 'streamChat', messages, options });
+    const result = this.toResult(this.nextReply(messages, options), messages);
+
+    // Tool calls are streamed like OpenAI: id/name first, arguments in a later delta
+    for (const [index, toolCall] of result.toolCalls.entries()) {
+      yield { toolCallDeltas: [{ index, id: toolCall.id, name: toolCall.name, arguments: '' }] };
+      yield { toolCallDeltas: [{ index, arguments: toolCall.arguments }] };
+    }
+
+    for (const token of (result.content ?? '').match(/\S+\s*|\s+/g) ?? []) {
+      await Promise.resolve();
+      yield { content: token };
+    }
+  }
+
+  async structured<T>(messages: ChatMessage[], options: StructuredOutputOptions): Promise<T | null> {
+    this.calls.push({ method: 'structured', messages, options });
+    const reply = this.nextReply(messages, options);
+
+    if (reply && 'structured' in reply) {
+      return reply.structured as T | null;
+    }
+    return defaultForSchema(options.schema) as T;
+  }
+
+  async embed(input: string, options: EmbedOptions = {}): Promise<number[]> {
+    this.calls.push({ method: 'embed', input, options });
+    const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+    const vector = new Array<number>(dimensions).fill(0);
+
+    for (const token of input.toLowerCase().split(/\s+/).filter(Boolean)) {
+      const hash = hashToInt(token);
+      vector[hash % dimensions] += hash & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((v) => v / norm);
+  }
+}
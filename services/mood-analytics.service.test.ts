@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+/**
+ * Mood Analytics Tests
+ * Property-based tests for mood meter aggregation on the user's calendar
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    moodMeter: { findMany: vi.fn() },
+  },
+}));
+
+import prisma from '../db';
+import { computeMoodStats, getMoodStats, getMoodStatsRange, MoodEntry } from './mood-analytics.service';
+
+const NOW = new Date('2026-03-15T03:00:00Z'); // 2026-03-15 (Sunday) 12:00 in Asia/Seoul
+const RANGE = getMoodStatsRange(null, null, 'Asia/Seoul', NOW);
+
+const timeZoneArbitrary = fc.constantFrom('Asia/Seoul', 'UTC', 'America/Los_Angeles');
+
+const entryArbitrary: fc.Arbitrary<MoodEntry> = fc.record({
+  pleasantness: fc.integer({ min: 1, max: 10 }),
+  energy: fc.integer({ min: 1, max: 10 }),
+  color: fc.constantFrom('빨간색', '노란색', '파란색', '초록색'),
+  created_at: fc
+    .integer({ min: RANGE.startDate.getTime(), max: RANGE.endDate.getTime() - 1 })
+    .map((timestamp) => new Date(timestamp)),
+});
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('Mood statistics', () => {
+  it('should assign every entry to exactly one bucket of each series', () => {
+    fc.assert(
+      fc.property(fc.array(entryArbitrary, { maxLength: 80 }), timeZoneArbitrary, (entries, timeZone) => {
+        const stats = computeMoodStats(entries, timeZone, RANGE);
+
+        // Property: bucket counts add up to the number of entries
+        for (const series of [stats.daily, stats.weekly, stats.monthly, stats.heatmap]) {
+          expect(sum(series.map((bucket) => bucket.count))).toBe(entries.length);
+        }
+        expect(sum(stats.quadrants.map((share) => share.count))).toBe(entries.length);
+        for (const bucket of stats.daily) {
+          expect(sum(Object.values(bucket.quadrants))).toBe(bucket.count);
+        }
+
+        // Property: series are in chronological order without repeated periods
+        const periods = stats.daily.map((bucket) => bucket.period);
+        expect(periods).toEqual([...new Set(periods)].sort());
+
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should keep averages within the recorded values and volatility at zero for a constant mood', () => {
+    fc.assert(
+      fc.property(
+        fc.array(entryArbitrary, { minLength: 1, maxLength: 40 }),
+        fc.integer({ min: 1, max: 10 }),
+        (entries, constant) => {
+          const stats = computeMoodStats(entries, 'Asia/Seoul', RANGE);
+          const values = entries.map((entry) => entry.pleasantness);
+
+          // Property: every average lies between the smallest and largest entry
+          for (const bucket of [...stats.daily, ...stats.weekly, ...stats.monthly]) {
+            expect(bucket.pleasantness).toBeGreaterThanOrEqual(Math.min(...values));
+            expect(bucket.pleasantness).toBeLessThanOrEqual(Math.max(...values));
+          }
+
+          // Property: a mood that never changes has no volatility
+          const flat = computeMoodStats(
+            entries.map((entry) => ({ ...entry, pleasantness: constant, energy: constant })),
+            'Asia/Seoul',
+            RANGE
+          );
+          expect(flat.volatility).toEqual({
+            pleasantness_stddev: 0,
+            energy_stddev: 0,
+            pleasantness_daily_change: 0,
+            energy_daily_change: 0,
+          });
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should bucket late-night entries by the Korean day, week and hour', () => {
+    const entries: MoodEntry[] = [
+      { pleasantness: 8, energy: 9, color: '노란색', created_at: new Date('2026-03-07T14:30:00Z') }, // Sat 03-07 23:30 KST
+      { pleasantness: 2, energy: 3, color: '파란색', created_at: new Date('2026-03-07T15:30:00Z') }, // Sun 03-08 00:30 KST
+      { pleasantness: 4, energy: 5, color: '파란색', created_at: new Date('2026-03-08T15:10:00Z') }, // Mon 03-09 00:10 KST
+    ];
+
+    const stats = computeMoodStats(entries, 'Asia/Seoul', RANGE);
+
+    expect(stats.daily.map((bucket) => [bucket.period, bucket.pleasantness])).toEqual([
+      ['2026-03-07', 8],
+      ['2026-03-08', 2],
+      ['2026-03-09', 4],
+    ]);
+    expect(stats.weekly).toEqual([
+      { period: '2026-03-01', count: 1, pleasantness: 8, energy: 9, quadrants: { 노란색: 1 } },
+      { period: '2026-03-08', count: 2, pleasantness: 3, energy: 4, quadrants: { 파란색: 2 } },
+    ]);
+    expect(stats.monthly).toEqual([
+      { period: '2026-03', count: 3, pleasantness: 4.67, energy: 5.67, quadrants: { 노란색: 1, 파란색: 2 } },
+    ]);
+    expect(stats.quadrants).toEqual([
+      { color: '파란색', count: 2, percentage: 66.67 },
+      { color: '노란색', count: 1, percentage: 33.33 },
+    ]);
+    expect(stats.heatmap).toEqual([
+      { weekday: 0, hour: 0, count: 1, pleasantness: 2, energy: 3 },
+      { weekday: 1, hour: 0, count: 1, pleasantness: 4, energy: 5 },
+      { weekday: 6, hour: 23, count: 1, pleasantness: 8, energy: 9 },
+    ]);
+    expect(stats.volatility).toMatchObject({ pleasantness_daily_change: 4, energy_daily_change: 4 });
+  });
+
+  it('should return empty series for a range without entries', () => {
+    expect(computeMoodStats([], 'Asia/Seoul', RANGE)).toMatchObject({
+      from: '2025-12-16',
+      to: '2026-03-15',
+      total_entries: 0,
+      averages: { pleasantness: null, energy: null },
+      daily: [],
+      quadrants: [],
+      volatility: null,
+      heatmap: [],
+    });
+  });
+
+  it('should query the range from local midnight to the end of the last day', async () => {
+    vi.mocked(prisma.moodMeter.findMany).mockResolvedValueOnce([]);
+    const range = getMoodStatsRange({ year: 2026, month: 3, day: 1 }, { year: 2026, month: 3, day: 14 }, 'Asia/Seoul');
+
+    await getMoodStats(7, 'Asia/Seoul', range);
+
+    expect(prisma.moodMeter.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          user_id: 7,
+          created_at: { gte: new Date('2026-02-28T15:00:00Z'), lt: new Date('2026-03-14T15:00:00Z') },
+        },
+      })
+    );
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Mood Analytics Service
+ * Time-series statistics over a user's MoodMeter entries, so dashboards do not have to pull
+ * every row and aggregate on the client.
+ *
+ * Entries are bucketed by the user's calendar (day, Sunday-start week, month) in their time
+ * zone. Each bucket carries pleasantness/energy averages and the mood meter quadrant (color)
+ * counts. Volatility is the standard deviation of the entries plus the mean absolute change
+ * between consecutive daily averages, and the heatmap groups entries by local weekday and hour.
+ */
+
+import prisma from '../db';
+import {
+  LocalDate,
+  addDays,
+  formatLocalDay,
+  getWeekday,
+  toLocalDate,
+  toLocalHour,
+  zonedTimeToDate,
+} from '../util/timezone';
+
+export const DEFAULT_STATS_RANGE_DAYS = 90;
+export const MAX_STATS_RANGE_DAYS = 366;
+
+export interface MoodEntry {
+  pleasantness: number;
+  energy: number;
+  color: string;
+  created_at: Date;
+}
+
+export interface MoodBucket {
+  period: string; // YYYY-MM-DD (day, week start) or YYYY-MM (month)
+  count: number;
+  pleasantness: number;
+  energy: number;
+  quadrants: Record<string, number>;
+}
+
+export interface QuadrantShare {
+  color: string;
+  count: number;
+  percentage: number;
+}
+
+export interface MoodVolatility {
+  pleasantness_stddev: number;
+  energy_stddev: number;
+  pleasantness_daily_change: number;
+  energy_daily_change: number;
+}
+
+export interface HeatmapCell {
+  weekday: number; // 0 = Sunday
+  hour: number; // 0-23, local time
+  count: number;
+  pleasantness: number;
+  energy: number;
+}
+
+export interface MoodStats {
+  timezone: string;
+  from: string;
+  to: string;
+  total_entries: number;
+  averages: {
+    pleasantness: number | null;
+    energy: number | null;
+  };
+  daily: MoodBucket[];
+  weekly: MoodBucket[];
+  monthly: MoodBucket[];
+  quadrants: QuadrantShare[];
+  volatility: MoodVolatility | null;
+  heatmap: HeatmapCell[];
+}
+
+/**
+ * Date range of the statistics, as calendar days in the user's time zone (both inclusive)
+ */
+export interface MoodStatsRange {
+  from: LocalDate;
+  to: LocalDate;
+  startDate: Date; // from 00:00 local
+  endDate: Date; // the day after `to`, 00:00 local (exclusive)
+}
+
+/**
+ * Builds the statistics range; defaults to the DEFAULT_STATS_RANGE_DAYS days ending today
+ * @param from - First day (inclusive), or null
+ * @param to - Last day (inclusive), or null for today
+ */
+export function getMoodStatsRange(
+  from: LocalDate | null,
+  to: LocalDate | null,
+  timeZone: string,
+  now: Date = new Date()
+): MoodStatsRange {
+  const last = to ?? toLocalDate(now, timeZone);
+  const first = from ?? addDays(last, -(DEFAULT_STATS_RANGE_DAYS - 1));
+
+  return {
+    from: first,
+    to: last,
+    startDate: zonedTimeToDate(first, timeZone),
+    endDate: zonedTimeToDate(addDays(last, 1), timeZone),
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface Accumulator {
+  count: number;
+  pleasantness: number;
+  energy: number;
+  quadrants: Record<string, number>;
+}
+
+function accumulate(buckets: Map<string, Accumulator>, key: string, entry: MoodEntry): void {
+  const bucket = buckets.get(key) ?? { count: 0, pleasantness: 0, energy: 0, quadrants: {} };
+  bucket.count++;
+  bucket.pleasantness += entry.pleasantness;
+  bucket.energy += entry.energy;
+  bucket.quadrants[entry.color] = (bucket.quadrants[entry.color] ?? 0) + 1;
+  buckets.set(key, bucket);
+}
+
+function toBuckets(buckets: Map<string, Accumulator>): MoodBucket[] {
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, bucket]) => ({
+      period,
+      count: bucket.count,
+      pleasantness: round(bucket.pleasantness / bucket.count),
+      energy: round(bucket.energy / bucket.count),
+      quadrants: bucket.quadrants,
+    }));
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+function meanAbsoluteChange(values: number[]): number {
+  if (values.length < 2) return 0;
+  let total = 0;
+  for (let i = 1; i < values.length; i++) {
+    total += Math.abs(values[i] - values[i - 1]);
+  }
+  return total / (values.length - 1);
+}
+
+/**
+ * Aggregates mood entries on the user's calendar
+ * @param entries - MoodMeter rows (any order)
+ * @param timeZone - IANA time zone of the user
+ * @param range - Reported range (entries are expected to be inside it)
+ */
+export function computeMoodStats(entries: MoodEntry[], timeZone: string, range: MoodStatsRange): MoodStats {
+  const daily = new Map<string, Accumulator>();
+  const weekly = new Map<string, Accumulator>();
+  const monthly = new Map<string, Accumulator>();
+  const heatmap = new Map<string, Accumulator>();
+  const quadrants = new Map<string, number>();
+
+  for (const entry of entries) {
+    const day = toLocalDate(entry.created_at, timeZone);
+    const weekday = getWeekday(day);
+
+    accumulate(daily, formatLocalDay(day), entry);
+    accumulate(weekly, formatLocalDay(addDays(day, -weekday)), entry);
+    accumulate(monthly, formatLocalDay(day).slice(0, 7), entry);
+    accumulate(heatmap, `${weekday}:${toLocalHour(entry.created_at, timeZone)}`, entry);
+    quadrants.set(entry.color, (quadrants.get(entry.color) ?? 0) + 1);
+  }
+
+  const total = entries.length;
+  // Unrounded daily means, so rounding does not add to the day-to-day change
+  const days = [...daily.keys()].sort().map((key) => daily.get(key)!);
+
+  return {
+    timezone: timeZone,
+    from: formatLocalDay(range.from),
+    to: formatLocalDay(range.to),
+    total_entries: total,
+    averages: {
+      pleasantness: total ? round(entries.reduce((sum, e) => sum + e.pleasantness, 0) / total) : null,
+      energy: total ? round(entries.reduce((sum, e) => sum + e.energy, 0) / total) : null,
+    },
+    daily: toBuckets(daily),
+    weekly: toBuckets(weekly),
+    monthly: toBuckets(monthly),
+    quadrants: [...quadrants.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .map(([color, count]) => ({ color, count, percentage: round((count / total) * 100) })),
+    volatility: total
+      ? {
+          pleasantness_stddev: round(standardDeviation(entries.map((e) => e.pleasantness))),
+          energy_stddev: round(standardDeviation(entries.map((e) => e.energy))),
+          pleasantness_daily_change: round(meanAbsoluteChange(days.map((day) => day.pleasantness / day.count))),
+          energy_daily_change: round(meanAbsoluteChange(days.map((day) => day.energy / day.count))),
+        }
+      : null,
+    heatmap: [...heatmap.entries()]
+      .map(([key, bucket]) => {
+        const [weekday, hour] = key.split(':').map(Number);
+        return {
+          weekday,
+          hour,
+          count: bucket.count,
+          pleasantness: round(bucket.pleasantness / bucket.count),
+          energy: round(bucket.energy / bucket.count),
+        };
+      })
+      .sort((a, b) => a.weekday - b.weekday || a.hour - b.hour),
+  };
+}
+
+/**
+ * Computes a user's mood statistics for a date range
+ * @param userId - The user
+ * @param timeZone - IANA time zone used for days, weeks, months and hours
+ * @param range - Calendar range in that time zone
+ */
+export async function getMoodStats(userId: number, timeZone: string, range: MoodStatsRange): Promise<MoodStats> {
+  const entries = await prisma.moodMeter.findMany({
+    where: {
+      user_id: userId,
+      created_at: { gte: range.startDate, lt: range.endDate },
+    },
+    select: { pleasantness: true, energy: true, color: true, created_at: true },
+    orderBy: { created_at: 'asc' },
+  });
+
+  return computeMoodStats(entries, timeZone, range);
+}
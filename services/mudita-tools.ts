@@ -0,0 +1,310 @@
+/**
+ * Mudita Tools
+ * The chatbot's function-calling tools. Each tool is declared once here and exposed to the
+ * model through the registry; adding a tool means adding a defineTool entry to the list below.
+ *
+ * logMood and draftDiary write data, so they only propose the change and save it after the
+ * user confirms (see pending-action.service).
+ */
+
+import { z } from 'zod';
+import { ToolRegistry, defineTool } from './tool-registry';
+import { DEFAULT_TIME_SETTINGS } from './user-settings.service';
+import { proposeAction } from './pending-action.service';
+import { saveDiaryEntry, embedDiaryEntry } from './diary-entry.service';
+import { saveMoodMeter } from '../models/moodModel';
+import { createMoodMeterSchema } from '../schemas/mood.schema';
+import { createDiarySchema } from '../schemas/diary.schema';
+import {
+  DateRange,
+  embedQuery,
+  searchDiariesWithDateFilter,
+  getRecentMoodMeterData,
+  getDiariesForPatternAnalysis,
+  analyzeMoodDistribution,
+  generatePersonalizedSuggestions,
+  extractEmotionTriggers,
+  moodColorTraits,
+} from './diary-insights.service';
+import { formatDateForUser, getCalendarPeriod, getRecentRange } from '../util/timezone';
+
+// 일기 검색 도구
+const searchDiaries = defineTool({
+  name: 'searchDiaries',
+  description: '사용자의 일기에서 특정 주제, 감정, 시간대에 대한 내용을 검색합니다. 사용자가 과거 경험이나 감정에 대해 물어볼 때 사용하세요.',
+  statusMessage: '일기를 찾아보고 있어요…',
+  inputSchema: z.object({
+    query: z.string().describe('검색할 내용 (예: "행복했던 날", "스트레스 받았을 때", "친구와 만났던 일")'),
+  }),
+  requiresDiaries: true,
+  dateRange: 'optional',
+  execute: async ({ query }, context) => {
+    console.log(`[Tool:searchDiaries] Called with query="${query}", dateRange=${context.dateRange ? 'set' : 'none'}`);
+
+    try {
+      const queryEmbedding = await embedQuery(query);
+      const timeSettings = context.timeSettings ?? DEFAULT_TIME_SETTINGS;
+
+      const diaries = await searchDiariesWithDateFilter(context.userId, queryEmbedding, 5, context.dateRange);
+
+      console.log(`[Tool:searchDiaries] Found ${diaries.length} diaries for user ${context.userId}`);
+
+      if (diaries.length === 0) {
+        return {
+          success: true,
+          found: false,
+          message: '관련된 일기를 찾지 못했어요.',
+        };
+      }
+
+      const formattedDiaries = diaries.map((d) => ({
+        date: formatDateForUser(d.date, timeSettings),
+        title: d.title,
+        content: d.content.slice(0, 200) + (d.content.length > 200 ? '...' : ''),
+        mood: moodColorTraits[d.color]?.description || d.color,
+      }));
+
+      console.log(`[Tool:searchDiaries] Returning ${formattedDiaries.length} formatted diaries`);
+
+      return {
+        success: true,
+        found: true,
+        diaries: formattedDiaries,
+        count: diaries.length,
+      };
+    } catch (error) {
+      console.error('[Tool:searchDiaries] Error:', error);
+      return { success: false, message: '일기 검색 중 오류가 발생했어요.' };
+    }
+  },
+});
+
+// 감정 분석 도구
+const analyzeMood = defineTool({
+  name: 'analyzeMood',
+  description: '사용자의 최근 감정 상태와 패턴을 분석합니다. 사용자가 자신의 감정 패턴이나 최근 기분에 대해 물어볼 때 사용하세요.',
+  statusMessage: '최근 감정을 살펴보고 있어요…',
+  inputSchema: z.object({
+    period: z.enum(['recent', 'this_week', 'this_month']).optional().describe('분석 기간 (기본값: recent - 최근 5개)'),
+  }),
+  requiresDiaries: true,
+  execute: async ({ period = 'recent' }, context) => {
+    console.log(`[Tool:analyzeMood] Called with period="${period}"`);
+
+    try {
+      // Get mood meter data
+      const moodData = await getRecentMoodMeterData(context.userId, 10);
+      console.log(`[Tool:analyzeMood] Found ${moodData.length} mood entries for user ${context.userId}`);
+
+      // Get recent diaries for pattern analysis
+      const timeSettings = context.timeSettings ?? DEFAULT_TIME_SETTINGS;
+      let dateRange: DateRange | null = null;
+
+      if (period === 'this_week') {
+        dateRange = getRecentRange({ days: 7 }, timeSettings.timeZone);
+      } else if (period === 'this_month') {
+        dateRange = getCalendarPeriod('this_month', timeSettings.timeZone);
+      }
+
+      const diaries = await getDiariesForPatternAnalysis(context.userId, dateRange, 20);
+
+      console.log(`[Tool:analyzeMood] Analyzing ${diaries.length} diaries`);
+
+      // Analyze mood distribution
+      const moodDistribution = analyzeMoodDistribution(diaries);
+
+      // Format mood data
+      const recentMoods = moodData.slice(0, 5).map((m) => ({
+        date: formatDateForUser(m.created_at, timeSettings, { month: 'long', day: 'numeric' }),
+        label: m.label,
+        zone: moodColorTraits[m.color]?.zone || m.color,
+        pleasantness: m.pleasantness,
+        energy: m.energy,
+      }));
+
+      const result = {
+        success: true,
+        recentMoods,
+        moodDistribution: moodDistribution.slice(0, 4),
+        diaryCount: diaries.length,
+        summary:
+          moodDistribution.length > 0
+            ? `최근 가장 많이 느낀 감정은 "${moodDistribution[0].description}" (${moodDistribution[0].percentage}%)입니다.`
+            : '아직 분석할 감정 데이터가 충분하지 않아요.',
+      };
+
+      console.log(`[Tool:analyzeMood] Result: ${result.summary}`);
+      return result;
+    } catch (error) {
+      console.error('[Tool:analyzeMood] Error:', error);
+      return { success: false, message: '감정 분석 중 오류가 발생했어요.' };
+    }
+  },
+});
+
+// 개인화된 추천 도구
+const getRecommendations = defineTool({
+  name: 'getRecommendations',
+  description: '사용자의 일기 내용을 바탕으로 개인화된 활동이나 조언을 추천합니다. 사용자가 뭘 해야 할지 모르겠거나 기분 전환이 필요할 때 사용하세요.',
+  statusMessage: '어울리는 활동을 찾고 있어요…',
+  inputSchema: z.object({
+    currentMood: z.enum(['positive', 'negative', 'neutral']).optional().describe('현재 사용자의 기분 상태'),
+  }),
+  requiresDiaries: true,
+  execute: async ({ currentMood = 'neutral' }, context) => {
+    console.log(`[Tool:getRecommendations] Called with currentMood="${currentMood}"`);
+
+    try {
+      const diaries = await getDiariesForPatternAnalysis(context.userId, null, 30);
+
+      console.log(`[Tool:getRecommendations] Found ${diaries.length} diaries for user ${context.userId}`);
+
+      if (diaries.length === 0) {
+        console.log('[Tool:getRecommendations] No diaries found, cannot generate recommendations');
+        return {
+          success: true,
+          hasRecommendations: false,
+          message: '아직 일기가 없어서 맞춤 추천을 드리기 어려워요. 일기를 쓰면 더 좋은 추천을 해드릴 수 있어요!',
+        };
+      }
+
+      // Map mood to color for suggestion generation
+      const moodColorMap: Record<string, string> = {
+        positive: '노란색',
+        negative: '파란색',
+        neutral: '초록색',
+      };
+
+      const suggestions = generatePersonalizedSuggestions(diaries, moodColorMap[currentMood], 3);
+
+      console.log(`[Tool:getRecommendations] Generated ${suggestions.length} recommendations`);
+
+      return {
+        success: true,
+        hasRecommendations: suggestions.length > 0,
+        recommendations: suggestions.map((s) => s.suggestion),
+        basedOnDiaryCount: diaries.length,
+      };
+    } catch (error) {
+      console.error('[Tool:getRecommendations] Error:', error);
+      return { success: false, message: '추천 생성 중 오류가 발생했어요.' };
+    }
+  },
+});
+
+// 감정 트리거 분석 도구
+const findEmotionTriggers = defineTool({
+  name: 'findEmotionTriggers',
+  description: '특정 감정을 느끼게 하는 상황이나 요인을 분석합니다. 사용자가 왜 특정 감정을 느끼는지 알고 싶어할 때 사용하세요.',
+  statusMessage: '감정의 원인을 살펴보고 있어요…',
+  inputSchema: z.object({
+    targetMood: z.enum(['happy', 'sad', 'angry', 'calm']).optional().describe('분석할 감정 (기본값: 전체)'),
+  }),
+  requiresDiaries: true,
+  execute: async ({ targetMood }, context) => {
+    console.log(`[Tool:findEmotionTriggers] Called with targetMood="${targetMood || 'all'}"`);
+
+    try {
+      const diaries = await getDiariesForPatternAnalysis(context.userId, null, 50);
+
+      console.log(`[Tool:findEmotionTriggers] Found ${diaries.length} diaries for user ${context.userId}`);
+
+      if (diaries.length < 3) {
+        console.log('[Tool:findEmotionTriggers] Not enough diaries for analysis');
+        return {
+          success: true,
+          hasAnalysis: false,
+          message: '감정 트리거를 분석하려면 최소 3개 이상의 일기가 필요해요.',
+        };
+      }
+
+      // Filter by mood if specified
+      let filteredDiaries = diaries;
+      if (targetMood) {
+        const moodColorMap: Record<string, string> = {
+          happy: '노란색',
+          sad: '파란색',
+          angry: '빨간색',
+          calm: '초록색',
+        };
+        filteredDiaries = diaries.filter((d) => d.color === moodColorMap[targetMood]);
+        console.log(`[Tool:findEmotionTriggers] Filtered to ${filteredDiaries.length} diaries for mood "${targetMood}"`);
+      }
+
+      const triggers = extractEmotionTriggers(filteredDiaries);
+
+      console.log(`[Tool:findEmotionTriggers] Found ${triggers.length} emotion triggers`);
+
+      return {
+        success: true,
+        hasAnalysis: triggers.length > 0,
+        triggers: triggers.slice(0, 3).map((t) => ({
+          mood: moodColorTraits[t.moodColor]?.description || t.moodColor,
+          commonThemes: t.triggers.slice(0, 5),
+          diaryCount: t.diaryIds.length,
+        })),
+      };
+    } catch (error) {
+      console.error('[Tool:findEmotionTriggers] Error:', error);
+      return { success: false, message: '감정 트리거 분석 중 오류가 발생했어요.' };
+    }
+  },
+});
+
+const moodColorDescription = '무드 색상 (빨간색: 화남·불안, 노란색: 기쁨·활력, 파란색: 슬픔·피로, 초록색: 평온·만족)';
+
+// 무드미터 기록 도구 (사용자가 확인하면 저장)
+const logMood = defineTool({
+  name: 'logMood',
+  description: '대화에서 드러난 사용자의 지금 기분을 무드미터에 기록하자고 제안합니다. 사용자가 기분을 기록하고 싶어하거나 지금 감정을 분명하게 이야기했을 때 사용하세요. 사용자가 확인해야 저장됩니다.',
+  statusMessage: '무드미터 기록을 준비하고 있어요…',
+  inputSchema: z.object({
+    label: createMoodMeterSchema.shape.label.describe('지금 감정을 나타내는 단어 (예: "설렘", "지침")'),
+    color: createMoodMeterSchema.shape.color.describe(moodColorDescription),
+    pleasantness: createMoodMeterSchema.shape.pleasantness.describe('쾌적함 (1: 매우 불쾌 ~ 10: 매우 쾌적)'),
+    energy: createMoodMeterSchema.shape.energy.describe('에너지 (1: 매우 낮음 ~ 10: 매우 높음)'),
+  }),
+  execute: async (mood, context) => {
+    console.log(`[Tool:logMood] Proposing "${mood.label}" (${mood.color}) for user ${context.userId}`);
+    return proposeAction(context, 'logMood', mood);
+  },
+  confirm: (mood, context, tx) =>
+    new Promise((resolve, reject) => {
+      saveMoodMeter(
+        { ...mood, user_id: context.userId },
+        (error, result) => (error ? reject(error) : resolve({ id: result!.id })),
+        tx
+      );
+    }),
+});
+
+// 대화로 일기 초안 작성 도구 (사용자가 확인하면 저장)
+const draftDiary = defineTool({
+  name: 'draftDiary',
+  description: '지금까지의 대화를 바탕으로 사용자의 일기 초안을 작성해 저장하자고 제안합니다. 사용자가 오늘 이야기를 일기로 남기고 싶어할 때 사용하세요. 사용자가 내용을 확인하고 고친 뒤 수락해야 저장됩니다.',
+  statusMessage: '대화를 일기로 정리하고 있어요…',
+  inputSchema: z.object({
+    title: createDiarySchema.shape.title.describe('일기 제목'),
+    content: createDiarySchema.shape.content.describe('사용자가 직접 쓴 것처럼 1인칭으로 쓴 일기 본문 (대화에서 사용자가 말한 내용만 사용)'),
+    color: createDiarySchema.shape.color.describe(moodColorDescription),
+  }),
+  execute: async (draft, context) => {
+    console.log(`[Tool:draftDiary] Proposing a diary draft for user ${context.userId}`);
+    return proposeAction(context, 'draftDiary', draft);
+  },
+  confirm: async (draft, context, tx) => {
+    // The saved diary links back to the chat it was drafted from
+    const diary = await saveDiaryEntry(context.userId, { ...draft, source_session_id: context.sessionId }, tx);
+    return { diary_id: diary.diary_id };
+  },
+  afterConfirm: (result, draft) => embedDiaryEntry(result.diary_id as number, draft.content),
+});
+
+export const muditaTools = new ToolRegistry([
+  searchDiaries,
+  analyzeMood,
+  getRecommendations,
+  findEmotionTriggers,
+  logMood,
+  draftDiary,
+]);
@@ -0,0 +1,131 @@
+/**
+ * OpenAI implementation of LLMProvider
+ * Errors from the SDK are passed through unchanged (status/code are preserved
+ * so callers can decide whether to retry).
+ */
+
+import OpenAI from 'openai';
+import {
+  LLMProvider,
+  ChatMessage,
+  ChatOptions,
+  ChatResult,
+  ChatStreamChunk,
+  StructuredOutputOptions,
+  EmbedOptions,
+} from './llm-provider';
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+function toOpenAIMessages(messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((m) => {
+    if (m.role === 'tool') {
+      return { role: 'tool', tool_call_id: m.tool_call_id!, content: m.content ?? '' };
+    }
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content,
+        tool_calls: m.tool_calls.map((tc) => ({
+          id: tc.id,
+          type: 'function' as const,
+          function: { name: tc.name, arguments: tc.arguments },
+        })),
+      };
+    }
+    return { role: m.role, content: m.content ?? '' } as OpenAI.Chat.ChatCompletionMessageParam;
+  });
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  // Lazy-initialized so importing the provider never requires an API key
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is not set');
+      }
+      this.client = new OpenAI({ apiKey });
+    }
+    return this.client;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: options.model ?? DEFAULT_CHAT_MODEL,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...(options.tools && { tools: options.tools, tool_choice: 'auto' as const }),
+    });
+
+    const message = response.choices[0]?.message;
+    return {
+      content: message?.content ?? null,
+      toolCalls: (message?.tool_calls ?? [])
+        .filter((tc) => tc.type === 'function')
+        .map((tc) => ({ id: tc.id, name: tc.function.name, arguments: tc.function.arguments })),
+    };
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<ChatStreamChunk> {
+    const stream = await this.getClient().chat.completions.create({
+      model: options.model ?? DEFAULT_CHAT_MODEL,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+      ...(options.tools && { tools: options.tools, tool_choice: 'auto' as const }),
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      yield {
+        ...(delta.content && { content: delta.content }),
+        ...(delta.tool_calls && {
+          toolCallDeltas: delta.tool_calls.map((tc) => ({
+            index: tc.index,
+            id: tc.id,
+            name: tc.function?.name,
+            arguments: tc.function?.arguments,
+          })),
+        }),
+      };
+    }
+  }
+
+  async structured<T>(messages: ChatMessage[], options: StructuredOutputOptions): Promise<T | null> {
+    const response = await this.getClient().chat.completions.create({
+      model: options.model ?? DEFAULT_CHAT_MODEL,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: options.schemaName,
+          strict: true,
+          schema: options.schema,
+        },
+      },
+    });
+
+    const content = response.choices[0]?.message?.content;
+    return content ? (JSON.parse(content) as T) : null;
+  }
+
+  async embed(input: string, options: EmbedOptions = {}): Promise<number[]> {
+    const response = await this.getClient().embeddings.create({
+      model: options.model ?? DEFAULT_EMBEDDING_MODEL,
+      input,
+      ...(options.dimensions && { dimensions: options.dimensions }),
+    });
+    return response.data[0].embedding;
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Ownership Service
+ * Owner lookups used by the resource-ownership guards (middleware/ownership.ts).
+ * Items in the trash count as missing here; the trash endpoints scope their queries by
+ * user instead.
+ */
+
+import prisma from '../db';
+
+/**
+ * Returns the owner of a diary, or null if the diary does not exist or is in the trash
+ */
+export async function getDiaryOwnerId(diaryId: number): Promise<number | null> {
+  const diary = await prisma.diary.findUnique({
+    where: { diary_id: diaryId, deleted_at: null },
+    select: { user_id: true },
+  });
+  return diary?.user_id ?? null;
+}
+
+/**
+ * Returns the owner of a chat session, or null if the session does not exist or is in the trash
+ */
+export async function getSessionOwnerId(sessionId: string): Promise<number | null> {
+  const session = await prisma.chatSession.findUnique({
+    where: { session_id: sessionId, deleted_at: null },
+    select: { user_id: true },
+  });
+  return session?.user_id ?? null;
+}
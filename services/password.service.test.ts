@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+
+/**
+ * Password Change and Reset Tests
+ * A new password is written together with the re-wrapped data key, and other sessions are revoked.
+ */
+
+vi.mock('../db', () => {
+  const prisma = {
+    user: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    passwordResetToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(async (fn: (tx: any) => Promise<any>) => fn(prisma)),
+  };
+  return { default: prisma };
+});
+
+vi.mock('./key-management.service', () => ({
+  rewrapUserKey: vi.fn(),
+}));
+
+vi.mock('./token.service', () => ({
+  revokeAllUserSessions: vi.fn(async () => 2),
+  hashToken: (token: string) => `hash:${token}`,
+}));
+
+import prisma from '../db';
+import { rewrapUserKey } from './key-management.service';
+import { revokeAllUserSessions } from './token.service';
+import { setMailTransport, createMailTransport, MailMessage, MailNotConfiguredError } from './mail-transport';
+import {
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  hashPassword,
+  DIARY_RESET_NOTICE,
+} from './password.service';
+
+const sent: MailMessage[] = [];
+setMailTransport({ name: 'memory', send: async (message) => void sent.push(message) });
+
+const storedUser = {
+  password: hashPassword('old-password', 'old-salt'),
+  salt: 'old-salt',
+  login_type: 'local',
+};
+
+describe('Password service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sent.length = 0;
+    vi.mocked(prisma.user.findUniqueOrThrow).mockResolvedValue(storedUser as any);
+  });
+
+  afterAll(() => {
+    setMailTransport(null);
+  });
+
+  it('should change the password and re-wrap the data key in one transaction', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValueOnce(storedUser as any);
+
+    const result = await changePassword(7, 'old-password', 'new-password', 'session-1');
+
+    expect(result).toEqual({ status: 'ok', revokedSessions: 2 });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+
+    const written = vi.mocked(prisma.user.update).mock.calls[0][0].data as { password: string; salt: string };
+    expect(written.salt).not.toBe('old-salt');
+    expect(written.password).toBe(hashPassword('new-password', written.salt));
+    expect(rewrapUserKey).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({ password: storedUser.password, salt: 'old-salt' }),
+      written,
+      prisma
+    );
+    expect(revokeAllUserSessions).toHaveBeenCalledWith(7, 'password_changed', 'session-1');
+  });
+
+  it('should refuse a wrong current password without touching the key', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValueOnce(storedUser as any);
+
+    const result = await changePassword(7, 'guess', 'new-password');
+
+    expect(result.status).toBe('invalid_current_password');
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(rewrapUserKey).not.toHaveBeenCalled();
+  });
+
+  it('should mail a reset link that explains what happens to diaries', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({
+      user_id: 7,
+      login_type: 'local',
+      profile_name: '민지',
+      username: 'minji',
+    } as any);
+
+    await requestPasswordReset('minji@example.com');
+
+    expect(sent).toHaveLength(1);
+    const token = sent[0].text.match(/reset-password\?token=(\S+)/)![1];
+    expect(prisma.passwordResetToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ user_id: 7, token_hash: `hash:${token}` }),
+    });
+    expect(sent[0].text).toContain(DIARY_RESET_NOTICE);
+  });
+
+  it('should not reveal a failed reset mail to the caller', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({
+      user_id: 7,
+      login_type: 'local',
+      profile_name: '민지',
+      username: 'minji',
+    } as any);
+    setMailTransport({ name: 'broken', send: async () => Promise.reject(new Error('smtp down')) });
+
+    try {
+      await expect(requestPasswordReset('minji@example.com')).resolves.toBeUndefined();
+    } finally {
+      setMailTransport({ name: 'memory', send: async (message) => void sent.push(message) });
+    }
+  });
+
+  it('should start without a delivering transport in production and refuse only reset requests', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    try {
+      const transport = createMailTransport('console');
+      setMailTransport(transport);
+
+      await expect(requestPasswordReset('minji@example.com')).rejects.toBeInstanceOf(MailNotConfiguredError);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+      expect(prisma.passwordResetToken.create).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllEnvs();
+      setMailTransport({ name: 'memory', send: async (message) => void sent.push(message) });
+    }
+  });
+
+  it('should not send mail for unknown emails', async () => {
+    vi.mocked(prisma.user.findUnique).mockResolvedValueOnce(null);
+
+    await requestPasswordReset('nobody@example.com');
+
+    expect(sent).toHaveLength(0);
+    expect(prisma.passwordResetToken.create).not.toHaveBeenCalled();
+  });
+
+  it('should reset the password with a valid token and sign out every session', async () => {
+    vi.mocked(prisma.passwordResetToken.findUnique).mockResolvedValueOnce({
+      token_id: 'reset-1',
+      user_id: 7,
+      token_hash: 'hash:abc',
+      expires_at: new Date(Date.now() + 60_000),
+      used_at: null,
+      created_at: new Date(),
+    });
+    vi.mocked(prisma.passwordResetToken.updateMany).mockResolvedValue({ count: 1 });
+
+    const result = await resetPassword('abc', 'new-password');
+
+    expect(result.status).toBe('ok');
+    // Token consumption and the password write commit or roll back together
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledTimes(2);
+    expect(rewrapUserKey).toHaveBeenCalledTimes(1);
+    expect(revokeAllUserSessions).toHaveBeenCalledWith(7, 'password_reset');
+  });
+
+  it('should reject used or expired reset tokens', async () => {
+    vi.mocked(prisma.passwordResetToken.findUnique)
+      .mockResolvedValueOnce({
+        token_id: 'reset-1',
+        user_id: 7,
+        token_hash: 'hash:abc',
+        expires_at: new Date(Date.now() + 60_000),
+        used_at: new Date(),
+        created_at: new Date(),
+      })
+      .mockResolvedValueOnce({
+        token_id: 'reset-2',
+        user_id: 7,
+        token_hash: 'hash:def',
+        expires_at: new Date(Date.now() - 1000),
+        used_at: null,
+        created_at: new Date(),
+      });
+
+    expect((await resetPassword('abc', 'new-password')).status).toBe('invalid_token');
+    expect((await resetPassword('def', 'new-password')).status).toBe('invalid_token');
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
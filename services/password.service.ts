@@ -0,0 +1,214 @@
+/**
+ * Password Service
+ * Password change and forgot-password reset for local (email) accounts.
+ *
+ * Diary data keys are wrapped by a key derived from the stored password hash and salt
+ * (see key-management.service), so both flows re-wrap the data key in the same
+ * transaction that writes the new password. Diaries are never re-encrypted and are kept
+ * across a reset: the server holds the keys, this is encryption at rest, not end-to-end.
+ * All other login sessions are revoked afterwards.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { rewrapUserKey } from './key-management.service';
+import { revokeAllUserSessions, hashToken } from './token.service';
+import { getMailTransport, isMailAvailable, MailNotConfiguredError } from './mail-transport';
+
+export const MIN_PASSWORD_LENGTH = 8;
+const RESET_TOKEN_TTL_MINUTES = 60;
+const RESET_TOKEN_BYTES = 32;
+
+// Shown on the forgot-password screen and in the reset mail
+export const DIARY_RESET_NOTICE =
+  '비밀번호를 재설정해도 작성한 일기는 삭제되지 않습니다. 일기 암호화 키는 새 비밀번호 기준으로 다시 보호되며, 다른 기기에서는 모두 로그아웃됩니다.';
+
+export type ChangePasswordResult =
+  | { status: 'ok'; revokedSessions: number }
+  | { status: 'not_found' | 'not_local_account' | 'invalid_current_password' | 'weak_password' };
+
+export type ResetPasswordResult =
+  | { status: 'ok'; revokedSessions: number }
+  | { status: 'invalid_token' | 'weak_password' };
+
+/**
+ * Hashes a password with PBKDF2 (same parameters as registration and login)
+ */
+export function hashPassword(password: string, salt: string): string {
+  return crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
+}
+
+export function isStrongEnough(password: unknown): password is string {
+  return typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH;
+}
+
+/**
+ * Writes a new password and re-wraps the user's data key inside the caller's transaction
+ */
+async function writePassword(tx: Prisma.TransactionClient, userId: number, newPassword: string): Promise<void> {
+  const current = await tx.user.findUniqueOrThrow({
+    where: { user_id: userId },
+    select: { password: true, salt: true },
+  });
+
+  const salt = crypto.randomBytes(16).toString('hex');
+  const password = hashPassword(newPassword, salt);
+
+  await tx.user.update({
+    where: { user_id: userId },
+    data: { password, salt },
+  });
+
+  await rewrapUserKey(userId, current, { password, salt }, tx);
+}
+
+/**
+ * Writes a new password and re-wraps the user's data key atomically
+ */
+async function setPassword(userId: number, newPassword: string): Promise<void> {
+  await prisma.$transaction((tx) => writePassword(tx, userId, newPassword));
+}
+
+/**
+ * Changes the password of a signed-in user after checking the current one
+ * @param userId - The authenticated user
+ * @param currentPassword - The password the user signed in with
+ * @param newPassword - The new password
+ * @param keepSessionId - Session to keep signed in (the caller's)
+ */
+export async function changePassword(
+  userId: number,
+  currentPassword: string,
+  newPassword: string,
+  keepSessionId?: string
+): Promise<ChangePasswordResult> {
+  if (!isStrongEnough(newPassword)) {
+    return { status: 'weak_password' };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { user_id: userId },
+    select: { password: true, salt: true, login_type: true },
+  });
+
+  if (!user) {
+    return { status: 'not_found' };
+  }
+
+  if (user.login_type !== 'local') {
+    return { status: 'not_local_account' };
+  }
+
+  const expected = Buffer.from(user.password);
+  const actual = Buffer.from(hashPassword(currentPassword ?? '', user.salt));
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { status: 'invalid_current_password' };
+  }
+
+  await setPassword(userId, newPassword);
+  const revokedSessions = await revokeAllUserSessions(userId, 'password_changed', keepSessionId);
+
+  console.log(`[Password] User ${userId} changed password, revoked ${revokedSessions} other sessions`);
+  return { status: 'ok', revokedSessions };
+}
+
+/**
+ * Sends a reset link to a local account
+ * Silently does nothing for unknown emails and social accounts so the response does
+ * not reveal which emails are registered. Mail delivery failures are logged, not thrown,
+ * for the same reason.
+ * @throws MailNotConfiguredError before looking anything up when no transport can deliver mail
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const transport = getMailTransport();
+  if (!isMailAvailable(transport)) {
+    throw new MailNotConfiguredError();
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { user_id: true, login_type: true, profile_name: true, username: true },
+  });
+
+  if (!user || user.login_type !== 'local') {
+    return;
+  }
+
+  const token = crypto.randomBytes(RESET_TOKEN_BYTES).toString('base64url');
+
+  await prisma.passwordResetToken.create({
+    data: {
+      user_id: user.user_id,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  const baseUrl = process.env.CLIENT_BASE_URL || 'http://localhost:3000/';
+  const resetUrl = `${baseUrl.replace(/\/?$/, '/')}reset-password?token=${token}`;
+  const name = user.profile_name || user.username;
+
+  try {
+    await transport.send({
+      to: email,
+      subject: '[매글] 비밀번호 재설정 안내',
+      text: [
+        `${name}님, 비밀번호 재설정을 요청하셨어요.`,
+        `아래 링크에서 ${RESET_TOKEN_TTL_MINUTES}분 안에 새 비밀번호를 설정해주세요.`,
+        resetUrl,
+        '',
+        DIARY_RESET_NOTICE,
+        '요청하지 않으셨다면 이 메일을 무시하셔도 됩니다.',
+      ].join('\n'),
+    });
+  } catch (error) {
+    console.error(`[Password] Failed to send reset mail to user ${user.user_id}:`, error);
+  }
+}
+
+/**
+ * Sets a new password with a reset token and signs the user out everywhere
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<ResetPasswordResult> {
+  if (!isStrongEnough(newPassword)) {
+    return { status: 'weak_password' };
+  }
+
+  const stored = await prisma.passwordResetToken.findUnique({
+    where: { token_hash: hashToken(token) },
+  });
+
+  if (!stored || stored.used_at || stored.expires_at <= new Date()) {
+    return { status: 'invalid_token' };
+  }
+
+  // The token is spent only if the new password is written too; losing a concurrent race
+  // means it is already spent
+  const consumed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { token_id: stored.token_id, used_at: null },
+      data: { used_at: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    // Older links sent to the same user stop working too
+    await tx.passwordResetToken.updateMany({
+      where: { user_id: stored.user_id, used_at: null },
+      data: { used_at: new Date() },
+    });
+
+    await writePassword(tx, stored.user_id, newPassword);
+    return true;
+  });
+  if (!consumed) {
+    return { status: 'invalid_token' };
+  }
+
+  const revokedSessions = await revokeAllUserSessions(stored.user_id, 'password_reset');
+
+  console.log(`[Password] User ${stored.user_id} reset password, revoked ${revokedSessions} sessions`);
+  return { status: 'ok', revokedSessions };
+}
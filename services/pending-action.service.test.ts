@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+/**
+ * Pending write-tool actions
+ * A tool's proposal is saved only when its owner confirms it before it expires, at most once,
+ * and with the user's edits validated like the model's arguments.
+ */
+
+type Row = {
+  action_id: string;
+  user_id: number;
+  session_id?: string;
+  tool_name: string;
+  payload: any;
+  status: string;
+  result: any;
+  expires_at: Date;
+  resolved_at: Date | null;
+};
+
+const rows = new Map<string, Row>();
+
+// Minimal in-memory chat_pending_actions table (only the filters the service uses)
+const matches = (row: Row, where: any) =>
+  (where.action_id === undefined || row.action_id === where.action_id) &&
+  (where.user_id === undefined || row.user_id === where.user_id) &&
+  (where.status === undefined || row.status === where.status) &&
+  (where.expires_at === undefined || row.expires_at > where.expires_at.gt);
+
+vi.mock('../db', () => {
+  const db: any = {
+    chatPendingAction: {
+      create: vi.fn(async ({ data }: any) => {
+        const row = { action_id: `00000000-0000-4000-8000-${String(rows.size).padStart(12, '0')}`, status: 'pending', result: null, resolved_at: null, ...data };
+        rows.set(row.action_id, row);
+        return row;
+      }),
+      findFirst: vi.fn(async ({ where }: any) => [...rows.values()].find((row) => matches(row, where)) ?? null),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const found = [...rows.values()].filter((row) => matches(row, where));
+        found.forEach((row) => Object.assign(row, data));
+        return { count: found.length };
+      }),
+      update: vi.fn(async ({ where, data }: any) => Object.assign(rows.get(where.action_id)!, data)),
+    },
+    moodMeter: { create: vi.fn() },
+    // Rolls the table back when the callback throws
+    $transaction: vi.fn(async (fn: any) => {
+      const snapshot = [...rows.values()].map((row) => ({ ...row }));
+      try {
+        return await fn(db);
+      } catch (error) {
+        rows.clear();
+        snapshot.forEach((row) => rows.set(row.action_id, row));
+        throw error;
+      }
+    }),
+  };
+  return { default: db };
+});
+
+vi.mock('./diary-entry.service', () => ({
+  saveDiaryEntry: vi.fn(),
+  embedDiaryEntry: vi.fn(),
+}));
+
+import prisma from '../db';
+import { saveDiaryEntry, embedDiaryEntry } from './diary-entry.service';
+import { muditaTools } from './mudita-tools';
+import { proposeAction, confirmAction, rejectAction, PENDING_ACTION_TTL_MS } from './pending-action.service';
+import { koreanErrorMap } from '../middleware/validate';
+
+const ALICE = 1;
+const BOB = 2;
+const SESSION_ID = '00000000-0000-4000-8000-0000000000c1';
+const mood = { label: '설렘', color: '노란색', pleasantness: 8, energy: 7 };
+
+async function proposeMood(userId = ALICE) {
+  const proposal = await muditaTools.execute('logMood', JSON.stringify(mood), { userId });
+  return (proposal as any).action.action_id as string;
+}
+
+beforeEach(() => {
+  rows.clear();
+  vi.clearAllMocks();
+  vi.mocked(prisma.moodMeter.create).mockResolvedValue({ id: 31 } as any);
+});
+
+describe('proposeAction', () => {
+  it('should store the proposal and tell the model nothing is saved yet', async () => {
+    const before = Date.now();
+
+    const proposal = await proposeAction({ userId: ALICE }, 'logMood', mood);
+
+    expect(proposal).toMatchObject({ success: true, awaitingConfirmation: true, action: { tool: 'logMood', payload: mood } });
+    expect(proposal.action.expires_at.getTime()).toBeGreaterThanOrEqual(before + PENDING_ACTION_TTL_MS);
+    expect(rows.get(proposal.action.action_id)).toMatchObject({ user_id: ALICE, status: 'pending' });
+    expect(prisma.moodMeter.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('confirmAction', () => {
+  it('should save the mood for the proposing user with their edits', async () => {
+    const actionId = await proposeMood();
+
+    const resolution = await confirmAction(muditaTools, ALICE, actionId, { label: '뿌듯함' });
+
+    expect(resolution).toEqual({ status: 'confirmed', action_id: actionId, tool: 'logMood', result: { id: 31 } });
+    expect(prisma.moodMeter.create).toHaveBeenCalledWith({
+      data: { user_id: ALICE, label: '뿌듯함', color: '노란색', pleasantness: 8, energy: 7 },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledOnce();
+    expect(rows.get(actionId)).toMatchObject({ status: 'confirmed', result: { id: 31 } });
+  });
+
+  it('should apply a proposal at most once however often it is confirmed', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 2, max: 5 }), async (attempts) => {
+        rows.clear();
+        vi.mocked(prisma.moodMeter.create).mockClear();
+        const actionId = await proposeMood();
+
+        const resolutions = await Promise.all(
+          Array.from({ length: attempts }, () => confirmAction(muditaTools, ALICE, actionId))
+        );
+
+        // Property: exactly one confirm wins, the rest find nothing to apply
+        expect(resolutions.filter((r) => r.status === 'confirmed')).toHaveLength(1);
+        expect(resolutions.filter((r) => r.status === 'not_found')).toHaveLength(attempts - 1);
+        expect(prisma.moodMeter.create).toHaveBeenCalledOnce();
+
+        return true;
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should not apply another user\'s, rejected or expired proposals', async () => {
+    const bobsAction = await proposeMood(BOB);
+    const rejectedAction = await proposeMood();
+    const expiredAction = await proposeMood();
+    rows.get(expiredAction)!.expires_at = new Date(Date.now() - 1000);
+
+    expect(await rejectAction(ALICE, rejectedAction)).toEqual({ status: 'rejected', action_id: rejectedAction });
+
+    for (const actionId of [bobsAction, rejectedAction, expiredAction]) {
+      expect(await confirmAction(muditaTools, ALICE, actionId)).toEqual({ status: 'not_found' });
+    }
+    expect(await rejectAction(ALICE, bobsAction)).toEqual({ status: 'not_found' });
+    expect(prisma.moodMeter.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid edits and keep the proposal open', async () => {
+    const actionId = await proposeMood();
+
+    const resolution = await confirmAction(muditaTools, ALICE, actionId, { pleasantness: 11, color: '보라색' }, koreanErrorMap);
+
+    expect(resolution.status).toBe('invalid');
+    expect(resolution.status === 'invalid' && resolution.error.issues.map((i) => i.path.join('.'))).toEqual([
+      'color',
+      'pleasantness',
+    ]);
+    expect(rows.get(actionId)!.status).toBe('pending');
+    expect(prisma.moodMeter.create).not.toHaveBeenCalled();
+  });
+
+  it('should leave the proposal open when saving fails', async () => {
+    const actionId = await proposeMood();
+    vi.mocked(prisma.moodMeter.create).mockRejectedValueOnce(new Error('db down'));
+
+    await expect(confirmAction(muditaTools, ALICE, actionId)).rejects.toThrow('db down');
+
+    expect(rows.get(actionId)).toMatchObject({ status: 'pending', resolved_at: null });
+    expect((await confirmAction(muditaTools, ALICE, actionId)).status).toBe('confirmed');
+  });
+
+  it('should save an accepted diary draft through the diary pipeline linked to its chat', async () => {
+    const draft = { title: '퇴근길', content: '오늘은 오랜만에 걸어서 퇴근했다.', color: '초록색' };
+    vi.mocked(saveDiaryEntry).mockResolvedValue({ diary_id: 77 } as any);
+    const proposal = await muditaTools.execute('draftDiary', JSON.stringify(draft), { userId: ALICE, sessionId: SESSION_ID });
+
+    const resolution = await confirmAction(muditaTools, ALICE, (proposal as any).action.action_id);
+
+    expect(saveDiaryEntry).toHaveBeenCalledWith(ALICE, { ...draft, source_session_id: SESSION_ID }, prisma);
+    expect(embedDiaryEntry).toHaveBeenCalledWith(77, draft.content);
+    expect(resolution).toMatchObject({ status: 'confirmed', tool: 'draftDiary', result: { diary_id: 77 } });
+  });
+
+  it('should not embed a diary whose save was rolled back', async () => {
+    const draft = { title: '퇴근길', content: '오늘은 오랜만에 걸어서 퇴근했다.', color: '초록색' };
+    vi.mocked(saveDiaryEntry).mockRejectedValue(new Error('db down'));
+    const proposal = await muditaTools.execute('draftDiary', JSON.stringify(draft), { userId: ALICE });
+
+    await expect(confirmAction(muditaTools, ALICE, (proposal as any).action.action_id)).rejects.toThrow('db down');
+
+    expect(embedDiaryEntry).not.toHaveBeenCalled();
+    expect(rows.get((proposal as any).action.action_id)!.status).toBe('pending');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Pending Action Service
+ * Write tools never change data during the chat. Their execute stores a proposal here and
+ * the client shows it to the user (SSE action_required); the tool's confirm runs only when
+ * the user accepts it. Rejected and expired proposals are never applied, and a proposal is
+ * applied at most once.
+ */
+
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { ActionProposal, ToolContext, ToolRegistry } from './tool-registry';
+
+// Proposals the user has not answered within this time expire
+export const PENDING_ACTION_TTL_MS = 30 * 60 * 1000;
+
+export type ActionResolution =
+  | { status: 'confirmed'; action_id: string; tool: string; result: Record<string, unknown> }
+  | { status: 'rejected'; action_id: string }
+  | { status: 'not_found' }
+  | { status: 'invalid'; error: z.ZodError };
+
+/**
+ * Stores a write tool's proposal for the user to confirm
+ * @returns The tool result telling the model nothing is saved yet
+ */
+export async function proposeAction(
+  context: ToolContext,
+  tool: string,
+  payload: Record<string, unknown>
+): Promise<ActionProposal> {
+  const action = await prisma.chatPendingAction.create({
+    data: {
+      user_id: context.userId,
+      session_id: context.sessionId,
+      tool_name: tool,
+      payload: payload as Prisma.InputJsonValue,
+      expires_at: new Date(Date.now() + PENDING_ACTION_TTL_MS),
+    },
+  });
+
+  console.log(`[PendingAction] ${tool} proposed for user ${context.userId} (${action.action_id})`);
+
+  return {
+    success: true,
+    awaitingConfirmation: true,
+    action: {
+      action_id: action.action_id,
+      tool,
+      payload,
+      expires_at: action.expires_at,
+    },
+    message: '아직 저장되지 않았어요. 사용자가 화면에서 내용을 확인하고 수락하면 저장돼요.',
+  };
+}
+
+function findOpenAction(userId: number, actionId: string) {
+  return prisma.chatPendingAction.findFirst({
+    where: { action_id: actionId, user_id: userId, status: 'pending', expires_at: { gt: new Date() } },
+  });
+}
+
+/**
+ * Applies a proposal the user accepted, with the user's edits to the proposed values
+ * Edits are validated against the tool's input schema like the model's arguments were.
+ * @param tools - Registry the proposing tool belongs to (passed in by the caller so this
+ *   service does not import the tools that import it)
+ */
+export async function confirmAction(
+  tools: ToolRegistry,
+  userId: number,
+  actionId: string,
+  edits: Record<string, unknown> = {},
+  errorMap?: z.ZodErrorMap
+): Promise<ActionResolution> {
+  const action = await findOpenAction(userId, actionId);
+  if (!action) return { status: 'not_found' };
+
+  const tool = tools.get(action.tool_name);
+  if (!tool?.confirm) {
+    throw new Error(`Tool cannot be confirmed: ${action.tool_name}`);
+  }
+
+  const parsed = tool.inputSchema.safeParse({ ...(action.payload as Record<string, unknown>), ...edits }, { errorMap });
+  if (!parsed.success) return { status: 'invalid', error: parsed.error };
+
+  const context: ToolContext = { userId, sessionId: action.session_id ?? undefined };
+
+  // Claim and apply together: a double submit cannot apply the proposal twice, and a
+  // failed or interrupted save leaves it pending for the user to try again
+  const result = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.chatPendingAction.updateMany({
+      where: { action_id: actionId, status: 'pending' },
+      data: { status: 'confirmed', payload: parsed.data as Prisma.InputJsonValue, resolved_at: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const applied = await tool.confirm(parsed.data, context, tx);
+    await tx.chatPendingAction.update({
+      where: { action_id: actionId },
+      data: { result: applied as Prisma.InputJsonValue },
+    });
+    return applied;
+  });
+  if (!result) return { status: 'not_found' };
+
+  tool.afterConfirm?.(result, parsed.data, context);
+
+  console.log(`[PendingAction] ${action.tool_name} confirmed by user ${userId} (${actionId})`);
+  return { status: 'confirmed', action_id: actionId, tool: action.tool_name, result };
+}
+
+/**
+ * Discards a proposal the user declined
+ */
+export async function rejectAction(userId: number, actionId: string): Promise<ActionResolution> {
+  const rejected = await prisma.chatPendingAction.updateMany({
+    where: { action_id: actionId, user_id: userId, status: 'pending', expires_at: { gt: new Date() } },
+    data: { status: 'rejected', resolved_at: new Date() },
+  });
+
+  return rejected.count > 0 ? { status: 'rejected', action_id: actionId } : { status: 'not_found' };
+}
@@ -175,6 +175,20 @@ describe('Date Range Parsing', () => {
     const result = parseDateRange('기분이 어때?');
     expect(result).toBeNull();
   });
+
+  it('should compute relative dates on the user\'s calendar', () => {
+    // 2025-06-16 01:30 in Seoul while the server clock is still on the 15th
+    const now = new Date('2025-06-15T16:30:00Z');
+
+    expect(parseDateRange('오늘 뭐 했지?', 'Asia/Seoul', now)).toEqual({
+      startDate: new Date('2025-06-15T15:00:00Z'),
+      endDate: new Date('2025-06-15T15:00:00Z'),
+      timeZone: 'Asia/Seoul',
+    });
+    expect(parseDateRange('2025-03-15에 뭘 썼어?', 'Asia/Seoul')?.startDate).toEqual(
+      new Date('2025-03-14T15:00:00Z')
+    );
+  });
 });
 
 describe('Date Range Filtering in Search', () => {
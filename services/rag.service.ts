@@ -3,49 +3,48 @@
  * Validates: Requirements 1.2, 1.3, 1.4, 1.5, 3.1, 3.2, 3.4, 8.1
  */
 
-import { createEmbedding, searchSimilarDiaries, DiarySearchResult } from './embedding.service';
+import { DiarySearchResult } from './embedding.service';
 export type { DiarySearchResult } from './embedding.service';
 import prisma from '../db';
-import OpenAI from 'openai';
-import { z } from 'zod';
+import { getLLMProvider, ChatMessage, ToolCall } from './llm-provider';
+import { ToolContext, ProposedAction, isActionProposal } from './tool-registry';
+import { muditaTools } from './mudita-tools';
 import { searchCache, storeInCache } from './semantic-cache.service';
 import {
   rerankDiaries,
   rerankDiariesFast,
   shouldUseLLMReranking,
 } from './reranker.service';
+import {
+  SERVER_TIMEZONE,
+  CalendarPeriod,
+  getCalendarPeriod,
+  getRecentRange,
+  getDayRange,
+  formatDateForUser,
+} from '../util/timezone';
+import { UserTimeSettings, DEFAULT_TIME_SETTINGS, getUserTimeSettings } from './user-settings.service';
+import {
+  DateRange,
+  MoodMeterData,
+  embedQuery,
+  searchDiariesWithDateFilter,
+  getRecentMoodMeterData,
+} from './diary-insights.service';
+
+// Retrieval and pattern analysis live in diary-insights.service (shared with the chatbot tools)
+export * from './diary-insights.service';
 
 // LLM configuration
 const LLM_MODEL = 'gpt-4o-mini';
 const MAX_TOKENS = 1000;
 const TEMPERATURE = 0.8;
+const MAX_TOOL_ROUNDS = 3; // Tool rounds before the model must answer in text
 
 // Retry configuration
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 3000;
 
-// Lazy-initialized OpenAI client (for Structured Output - still uses openai package)
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
-// Mood color traits for context (consistent with analyzeController)
-const moodColorTraits: Record<string, { zone: string; description: string }> = {
-  '빨간색': { zone: '고에너지 + 불쾌감', description: '화남, 불안, 스트레스' },
-  '노란색': { zone: '고에너지 + 쾌적함', description: '흥분, 기쁨, 활력' },
-  '파란색': { zone: '저에너지 + 불쾌감', description: '슬픔, 우울, 피로' },
-  '초록색': { zone: '저에너지 + 쾌적함', description: '평온, 만족, 편안함' },
-};
-
 export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -58,202 +57,71 @@ export interface RAGContext {
   contextText: string;
 }
 
-export interface DateRange {
-  startDate: Date;
-  endDate: Date;
-}
-
-/**
- * Embeds a user query using OpenAI's embedding model
- * @param query - The user's query text
- * @returns The embedding vector
- */
-export async function embedQuery(query: string): Promise<number[]> {
-  return createEmbedding(query);
-}
-
 /**
  * Parses date range from user query text
  * Supports various Korean and English date formats
+ * "Today", "this week" etc. are calendar days in the given time zone.
  * @param query - The user's query text
+ * @param timeZone - IANA time zone of the user (defaults to the server's)
+ * @param now - Reference time
  * @returns DateRange if found, null otherwise
  */
-export function parseDateRange(query: string): DateRange | null {
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  
+export function parseDateRange(
+  query: string,
+  timeZone: string = SERVER_TIMEZONE,
+  now: Date = new Date()
+): DateRange | null {
+  const recentDays = (pattern: RegExp) => () => {
+    const match = query.match(pattern);
+    const days = match ? parseInt(match[1]) : 7;
+    return getRecentRange({ days }, timeZone, now);
+  };
+  const recent = (amount: { days?: number; months?: number }) => () =>
+    getRecentRange(amount, timeZone, now);
+  const period = (name: CalendarPeriod) => () => getCalendarPeriod(name, timeZone, now);
+
   // Korean relative date patterns
   const koreanPatterns: { pattern: RegExp; getDates: () => DateRange }[] = [
     // "지난 N일" - last N days
-    {
-      pattern: /지난\s*(\d+)\s*일/,
-      getDates: () => {
-        const match = query.match(/지난\s*(\d+)\s*일/);
-        const days = match ? parseInt(match[1]) : 7;
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - days);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /지난\s*(\d+)\s*일/, getDates: recentDays(/지난\s*(\d+)\s*일/) },
     // "최근 N일" - recent N days
-    {
-      pattern: /최근\s*(\d+)\s*일/,
-      getDates: () => {
-        const match = query.match(/최근\s*(\d+)\s*일/);
-        const days = match ? parseInt(match[1]) : 7;
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - days);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /최근\s*(\d+)\s*일/, getDates: recentDays(/최근\s*(\d+)\s*일/) },
     // "지난 주" - last week
-    {
-      pattern: /지난\s*주/,
-      getDates: () => {
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 7);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /지난\s*주/, getDates: recent({ days: 7 }) },
     // "이번 주" - this week
-    {
-      pattern: /이번\s*주/,
-      getDates: () => {
-        const startDate = new Date(today);
-        const dayOfWeek = startDate.getDay();
-        startDate.setDate(startDate.getDate() - dayOfWeek);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /이번\s*주/, getDates: period('this_week') },
     // "지난 달" or "지난달" - last month
-    {
-      pattern: /지난\s*달/,
-      getDates: () => {
-        const startDate = new Date(today);
-        startDate.setMonth(startDate.getMonth() - 1);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /지난\s*달/, getDates: recent({ months: 1 }) },
     // "이번 달" or "이번달" - this month
-    {
-      pattern: /이번\s*달/,
-      getDates: () => {
-        const startDate = new Date(today.getFullYear(), today.getMonth(), 1);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /이번\s*달/, getDates: period('this_month') },
     // "요즘" or "최근" - recently (default 7 days)
-    {
-      pattern: /요즘|최근에/,
-      getDates: () => {
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 7);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /요즘|최근에/, getDates: recent({ days: 7 }) },
     // "오늘" - today
-    {
-      pattern: /오늘/,
-      getDates: () => {
-        return { startDate: today, endDate: today };
-      }
-    },
+    { pattern: /오늘/, getDates: period('today') },
     // "어제" - yesterday
-    {
-      pattern: /어제/,
-      getDates: () => {
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-        return { startDate: yesterday, endDate: yesterday };
-      }
-    },
+    { pattern: /어제/, getDates: period('yesterday') },
   ];
 
   // English relative date patterns
   const englishPatterns: { pattern: RegExp; getDates: () => DateRange }[] = [
     // "last N days"
-    {
-      pattern: /last\s*(\d+)\s*days?/i,
-      getDates: () => {
-        const match = query.match(/last\s*(\d+)\s*days?/i);
-        const days = match ? parseInt(match[1]) : 7;
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - days);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /last\s*(\d+)\s*days?/i, getDates: recentDays(/last\s*(\d+)\s*days?/i) },
     // "past N days"
-    {
-      pattern: /past\s*(\d+)\s*days?/i,
-      getDates: () => {
-        const match = query.match(/past\s*(\d+)\s*days?/i);
-        const days = match ? parseInt(match[1]) : 7;
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - days);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /past\s*(\d+)\s*days?/i, getDates: recentDays(/past\s*(\d+)\s*days?/i) },
     // "last week"
-    {
-      pattern: /last\s*week/i,
-      getDates: () => {
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 7);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /last\s*week/i, getDates: recent({ days: 7 }) },
     // "this week"
-    {
-      pattern: /this\s*week/i,
-      getDates: () => {
-        const startDate = new Date(today);
-        const dayOfWeek = startDate.getDay();
-        startDate.setDate(startDate.getDate() - dayOfWeek);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /this\s*week/i, getDates: period('this_week') },
     // "last month"
-    {
-      pattern: /last\s*month/i,
-      getDates: () => {
-        const startDate = new Date(today);
-        startDate.setMonth(startDate.getMonth() - 1);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /last\s*month/i, getDates: recent({ months: 1 }) },
     // "this month"
-    {
-      pattern: /this\s*month/i,
-      getDates: () => {
-        const startDate = new Date(today.getFullYear(), today.getMonth(), 1);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /this\s*month/i, getDates: period('this_month') },
     // "recently" or "lately"
-    {
-      pattern: /recently|lately/i,
-      getDates: () => {
-        const startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 7);
-        return { startDate, endDate: today };
-      }
-    },
+    { pattern: /recently|lately/i, getDates: recent({ days: 7 }) },
     // "today"
-    {
-      pattern: /\btoday\b/i,
-      getDates: () => {
-        return { startDate: today, endDate: today };
-      }
-    },
+    { pattern: /\btoday\b/i, getDates: period('today') },
     // "yesterday"
-    {
-      pattern: /\byesterday\b/i,
-      getDates: () => {
-        const yesterday = new Date(today);
-        yesterday.setDate(yesterday.getDate() - 1);
-        return { startDate: yesterday, endDate: yesterday };
-      }
-    },
+    { pattern: /\byesterday\b/i, getDates: period('yesterday') },
   ];
 
   // Check Korean patterns first
@@ -275,94 +143,24 @@ export function parseDateRange(query: string): DateRange | null {
   const specificMatch = query.match(specificDatePattern);
   if (specificMatch) {
     const year = parseInt(specificMatch[1]);
-    const month = parseInt(specificMatch[2]) - 1; // 0-indexed
+    const month = parseInt(specificMatch[2]);
     const day = parseInt(specificMatch[3]);
-    const specificDate = new Date(year, month, day);
-    return { startDate: specificDate, endDate: specificDate };
+    return getDayRange({ year, month, day }, timeZone);
   }
 
   return null;
 }
 
-/**
- * Searches for relevant diaries with optional date range filtering
- * Validates: Requirements 1.3, 1.4
- * @param userId - The authenticated user's ID
- * @param queryEmbedding - The query embedding vector
- * @param topK - Maximum number of results
- * @param dateRange - Optional date range filter
- * @returns Array of diary search results
- */
-export async function searchDiariesWithDateFilter(
-  userId: number,
-  queryEmbedding: number[],
-  topK: number = 5,
-  dateRange?: DateRange | null
-): Promise<DiarySearchResult[]> {
-  // If no date range, use the standard search
-  if (!dateRange) {
-    return searchSimilarDiaries(userId, queryEmbedding, topK);
-  }
-
-  const embeddingStr = `[${queryEmbedding.join(',')}]`;
-  
-  // Adjust end date to include the entire day
-  const endOfDay = new Date(dateRange.endDate);
-  endOfDay.setHours(23, 59, 59, 999);
-
-  // Use raw SQL for pgvector cosine similarity search with date filtering
-  const results = await prisma.$queryRaw<Array<{
-    diary_id: number;
-    title: string;
-    content: string;
-    date: Date;
-    color: string;
-    score: number;
-  }>>`
-    SELECT 
-      d.diary_id,
-      d.title,
-      d.content,
-      d.date,
-      d.color,
-      1 - (de.embedding <=> ${embeddingStr}::vector) as score
-    FROM diary_embeddings de
-    JOIN "Diary" d ON de.diary_id = d.diary_id
-    WHERE d.user_id = ${userId}
-      AND d.date >= ${dateRange.startDate}
-      AND d.date <= ${endOfDay}
-    ORDER BY de.embedding <=> ${embeddingStr}::vector ASC
-    LIMIT ${topK}
-  `;
-
-  return results.map(r => ({
-    diary_id: r.diary_id,
-    title: r.title,
-    content: r.content,
-    date: r.date,
-    color: r.color,
-    score: Number(r.score),
-  }));
-}
-
-/**
- * MoodMeter data for context
- */
-export interface MoodMeterData {
-  id: number;
-  label: string;
-  color: string;
-  pleasantness: number;
-  energy: number;
-  created_at: Date;
-}
-
 /**
  * Formats MoodMeter data for inclusion in the LLM context
  * @param moodData - Array of recent MoodMeter entries
+ * @param settings - Time zone and locale used for the dates
  * @returns Formatted string representation
  */
-function formatMoodMeterForContext(moodData: MoodMeterData[]): string {
+function formatMoodMeterForContext(
+  moodData: MoodMeterData[],
+  settings: UserTimeSettings = DEFAULT_TIME_SETTINGS
+): string {
   if (moodData.length === 0) return '';
 
   const moodDescriptions: Record<string, string> = {
@@ -373,9 +171,7 @@ function formatMoodMeterForContext(moodData: MoodMeterData[]): string {
   };
 
   const entries = moodData.slice(0, 5).map(mood => {
-    const dateStr = mood.created_at instanceof Date
-      ? mood.created_at.toLocaleDateString('ko-KR', { month: 'long', day: 'numeric' })
-      : new Date(mood.created_at).toLocaleDateString('ko-KR', { month: 'long', day: 'numeric' });
+    const dateStr = formatDateForUser(mood.created_at, settings, { month: 'long', day: 'numeric' });
     
     const colorDesc = moodDescriptions[mood.color] || mood.color;
     
@@ -385,41 +181,17 @@ function formatMoodMeterForContext(moodData: MoodMeterData[]): string {
   return entries.join('\n');
 }
 
-/**
- * Retrieves recent MoodMeter data for a user
- * @param userId - The authenticated user's ID
- * @param limit - Maximum number of entries to retrieve
- * @returns Array of recent MoodMeter entries
- */
-export async function getRecentMoodMeterData(
-  userId: number,
-  limit: number = 5
-): Promise<MoodMeterData[]> {
-  const results = await prisma.moodMeter.findMany({
-    where: { user_id: userId },
-    orderBy: { id: 'desc' },
-    take: limit,
-  });
-
-  return results.map(r => ({
-    id: r.id,
-    label: r.label,
-    color: r.color,
-    pleasantness: r.pleasantness,
-    energy: r.energy,
-    created_at: r.created_at,
-  }));
-}
-
 /**
  * Formats a diary entry for inclusion in the LLM context
  * @param diary - The diary search result
+ * @param settings - Time zone and locale used for the date
  * @returns Formatted string representation
  */
-function formatDiaryForContext(diary: DiarySearchResult): string {
-  const dateStr = diary.date instanceof Date 
-    ? diary.date.toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' })
-    : new Date(diary.date).toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' });
+function formatDiaryForContext(
+  diary: DiarySearchResult,
+  settings: UserTimeSettings = DEFAULT_TIME_SETTINGS
+): string {
+  const dateStr = formatDateForUser(diary.date, settings);
   
   const moodMap: Record<string, string> = {
     '빨간색': '불쾌/화남',
@@ -456,25 +228,27 @@ function formatChatHistory(messages: Message[]): string {
  * @param diaries - Retrieved diary entries
  * @param chatHistory - Previous messages in the session
  * @param moodData - Optional recent MoodMeter data
+ * @param settings - The user's time zone and locale for displayed dates
  * @returns Combined context string
  */
 export function buildContext(
   diaries: DiarySearchResult[],
   chatHistory: Message[],
-  moodData?: MoodMeterData[]
+  moodData?: MoodMeterData[],
+  settings: UserTimeSettings = DEFAULT_TIME_SETTINGS
 ): string {
   const parts: string[] = [];
 
   // Add recent mood meter data if available
   if (moodData && moodData.length > 0) {
     parts.push('=== 최근 감정 상태 (MoodMeter) ===');
-    parts.push(formatMoodMeterForContext(moodData));
+    parts.push(formatMoodMeterForContext(moodData, settings));
   }
 
   // Add diary context if available
   if (diaries.length > 0) {
     parts.push('\n=== 관련 일기 기록 ===');
-    parts.push(diaries.map(formatDiaryForContext).join('\n\n'));
+    parts.push(diaries.map((diary) => formatDiaryForContext(diary, settings)).join('\n\n'));
   }
 
   // Add chat history if available
@@ -494,6 +268,7 @@ export function buildContext(
  * @param chatHistory - Previous messages in the session
  * @param topK - Maximum number of diary entries to retrieve
  * @param useReranking - Whether to apply reranking (default: true)
+ * @param settings - The user's time zone and locale (relative dates in the query use this zone)
  * @returns RAG context with diaries, chat history, mood data, and formatted context text
  */
 export async function retrieveContext(
@@ -501,10 +276,11 @@ export async function retrieveContext(
   query: string,
   chatHistory: Message[] = [],
   topK: number = 5,
-  useReranking: boolean = true
+  useReranking: boolean = true,
+  settings: UserTimeSettings = DEFAULT_TIME_SETTINGS
 ): Promise<RAGContext> {
   // Parse date range from query
-  const dateRange = parseDateRange(query);
+  const dateRange = parseDateRange(query, settings.timeZone);
 
   // Embed the query
   const queryEmbedding = await embedQuery(query);
@@ -527,7 +303,7 @@ export async function retrieveContext(
     if (useLLM) {
       // Use LLM-based reranking for complex queries
       console.log(`[RAG] Using LLM reranking for query: "${query.slice(0, 50)}..."`);
-      const rerankedResults = await rerankDiaries(query, diaries, topK);
+      const rerankedResults = await rerankDiaries(query, diaries, topK, settings);
       diaries = rerankedResults.map((r) => r.diary);
     } else {
       // Use fast heuristic reranking
@@ -541,7 +317,7 @@ export async function retrieveContext(
   const moodData = await getRecentMoodMeterData(userId, 5);
 
   // Build the context string with mood data
-  const contextText = buildContext(diaries, chatHistory, moodData);
+  const contextText = buildContext(diaries, chatHistory, moodData, settings);
 
   return {
     diaries,
@@ -631,6 +407,8 @@ export function buildSystemPrompt(context: string, userName?: string, hasDiaries
    - 사용자가 짧게 대답하면 ("응", "알겠어", "그래" 등) 이전 맥락을 이어서 대화해요
    - 같은 질문을 반복하지 말고, 대화를 발전시켜 나가요
 6. **감정 인식**: 사용자의 현재 감정 상태를 파악하고 적절히 반응해요
+7. **기록 도와주기**: 사용자가 오늘 이야기를 일기로 남기고 싶어하면 draftDiary로 대화를 일기 초안으로 정리하고, 기분을 기록하고 싶어하면 logMood를 사용해요
+   - 이 도구들은 바로 저장하지 않아요. 사용자가 화면에서 확인하고 수락해야 저장된다고 알려줘요
 
 ## 짧은 응답 처리
 - 사용자가 "응", "알겠어", "그래", "ㅇㅇ" 등 짧게 대답하면:
@@ -665,6 +443,17 @@ ${context || '(아직 일기 기록이 없어요)'}
  */
 export type OnTokenCallback = (token: string) => void;
 
+/**
+ * Tool progress reported while generating, sent to the client as SSE events of the same name
+ * (action_required carries a write tool's proposal for the user to confirm or reject)
+ */
+export type ToolEvent =
+  | { type: 'tool_start'; id: string; name: string; message?: string }
+  | { type: 'tool_result'; id: string; name: string; success: boolean }
+  | { type: 'action_required'; id: string; name: string; action: ProposedAction };
+
+export type OnToolEventCallback = (event: ToolEvent) => void;
+
 /**
  * Helper function to delay execution
  * @param ms - Milliseconds to delay
@@ -698,451 +487,40 @@ function isRetryableError(error: any): boolean {
   return false;
 }
 
-// ============================================================================
-// Function Calling Tools for Mudita Bot
-// ============================================================================
-
 /**
- * Tool context passed to tool execution functions
+ * Runs one tool call for the requesting user, reporting its start and result
+ * Failures are returned to the model as a result instead of aborting the response.
  */
-interface ToolContext {
-  userId: number;
-  userName?: string;
-}
-
-// Global tool context (set before generateResponse call)
-let currentToolContext: ToolContext | null = null;
-
-/**
- * Sets the tool context for function calling
- */
-export function setToolContext(context: ToolContext): void {
-  currentToolContext = context;
-}
-
-/**
- * Clears the tool context after use
- */
-export function clearToolContext(): void {
-  currentToolContext = null;
-}
-
-/**
- * Creates the tools object for Vercel AI SDK v6
- * Tools allow the LLM to call functions when needed
- */
-function createMuditaTools() {
-  return {
-    // 일기 검색 도구
-    searchDiaries: {
-      description: '사용자의 일기에서 특정 주제, 감정, 시간대에 대한 내용을 검색합니다. 사용자가 과거 경험이나 감정에 대해 물어볼 때 사용하세요.',
-      inputSchema: z.object({
-        query: z.string().describe('검색할 내용 (예: "행복했던 날", "스트레스 받았을 때", "친구와 만났던 일")'),
-        dateFilter: z.enum(['today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month', 'all']).optional()
-          .describe('날짜 필터 (선택사항)'),
-      }),
-      execute: async ({ query, dateFilter }: { query: string; dateFilter?: string }) => {
-        console.log(`[Tool:searchDiaries] Called with query="${query}", dateFilter=${dateFilter || 'none'}`);
-        
-        if (!currentToolContext) {
-          console.log('[Tool:searchDiaries] Error: No tool context');
-          return { success: false, message: '사용자 정보를 찾을 수 없어요.' };
-        }
-        
-        try {
-          const queryEmbedding = await embedQuery(query);
-          let dateRange: DateRange | null = null;
-          
-          // Parse date filter
-          if (dateFilter && dateFilter !== 'all') {
-            const now = new Date();
-            const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-            
-            switch (dateFilter) {
-              case 'today':
-                dateRange = { startDate: today, endDate: today };
-                break;
-              case 'yesterday':
-                const yesterday = new Date(today);
-                yesterday.setDate(yesterday.getDate() - 1);
-                dateRange = { startDate: yesterday, endDate: yesterday };
-                break;
-              case 'this_week':
-                const weekStart = new Date(today);
-                weekStart.setDate(weekStart.getDate() - today.getDay());
-                dateRange = { startDate: weekStart, endDate: today };
-                break;
-              case 'last_week':
-                const lastWeekEnd = new Date(today);
-                lastWeekEnd.setDate(lastWeekEnd.getDate() - today.getDay() - 1);
-                const lastWeekStart = new Date(lastWeekEnd);
-                lastWeekStart.setDate(lastWeekStart.getDate() - 6);
-                dateRange = { startDate: lastWeekStart, endDate: lastWeekEnd };
-                break;
-              case 'this_month':
-                dateRange = { startDate: new Date(today.getFullYear(), today.getMonth(), 1), endDate: today };
-                break;
-              case 'last_month':
-                const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
-                const lastMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-                dateRange = { startDate: lastMonthStart, endDate: lastMonthEnd };
-                break;
-            }
-          }
-          
-          const diaries = await searchDiariesWithDateFilter(
-            currentToolContext.userId,
-            queryEmbedding,
-            5,
-            dateRange
-          );
-          
-          console.log(`[Tool:searchDiaries] Found ${diaries.length} diaries for user ${currentToolContext.userId}`);
-          
-          if (diaries.length === 0) {
-            return { 
-              success: true, 
-              found: false, 
-              message: '관련된 일기를 찾지 못했어요.' 
-            };
-          }
-          
-          const formattedDiaries = diaries.map(d => ({
-            date: d.date instanceof Date 
-              ? d.date.toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' })
-              : new Date(d.date).toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' }),
-            title: d.title,
-            content: d.content.slice(0, 200) + (d.content.length > 200 ? '...' : ''),
-            mood: moodColorTraits[d.color]?.description || d.color,
-          }));
-          
-          console.log(`[Tool:searchDiaries] Returning ${formattedDiaries.length} formatted diaries`);
-          
-          return { 
-            success: true, 
-            found: true, 
-            diaries: formattedDiaries,
-            count: diaries.length 
-          };
-        } catch (error) {
-          console.error('[Tool:searchDiaries] Error:', error);
-          return { success: false, message: '일기 검색 중 오류가 발생했어요.' };
-        }
-      },
-    },
-
-    // 감정 분석 도구
-    analyzeMood: {
-      description: '사용자의 최근 감정 상태와 패턴을 분석합니다. 사용자가 자신의 감정 패턴이나 최근 기분에 대해 물어볼 때 사용하세요.',
-      inputSchema: z.object({
-        period: z.enum(['recent', 'this_week', 'this_month']).optional()
-          .describe('분석 기간 (기본값: recent - 최근 5개)'),
-      }),
-      execute: async ({ period = 'recent' }: { period?: string }) => {
-        console.log(`[Tool:analyzeMood] Called with period="${period}"`);
-        
-        if (!currentToolContext) {
-          console.log('[Tool:analyzeMood] Error: No tool context');
-          return { success: false, message: '사용자 정보를 찾을 수 없어요.' };
-        }
-        
-        try {
-          // Get mood meter data
-          const moodData = await getRecentMoodMeterData(currentToolContext.userId, 10);
-          console.log(`[Tool:analyzeMood] Found ${moodData.length} mood entries for user ${currentToolContext.userId}`);
-          
-          // Get recent diaries for pattern analysis
-          let dateRange: DateRange | null = null;
-          const now = new Date();
-          const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          
-          if (period === 'this_week') {
-            const weekStart = new Date(today);
-            weekStart.setDate(weekStart.getDate() - 7);
-            dateRange = { startDate: weekStart, endDate: today };
-          } else if (period === 'this_month') {
-            dateRange = { startDate: new Date(today.getFullYear(), today.getMonth(), 1), endDate: today };
-          }
-          
-          const diaries = await getDiariesForPatternAnalysis(
-            currentToolContext.userId,
-            dateRange,
-            20
-          );
-          
-          console.log(`[Tool:analyzeMood] Analyzing ${diaries.length} diaries`);
-          
-          // Analyze mood distribution
-          const moodDistribution = analyzeMoodDistribution(diaries);
-          
-          // Format mood data
-          const recentMoods = moodData.slice(0, 5).map(m => ({
-            date: m.created_at instanceof Date
-              ? m.created_at.toLocaleDateString('ko-KR', { month: 'long', day: 'numeric' })
-              : new Date(m.created_at).toLocaleDateString('ko-KR', { month: 'long', day: 'numeric' }),
-            label: m.label,
-            zone: moodColorTraits[m.color]?.zone || m.color,
-            pleasantness: m.pleasantness,
-            energy: m.energy,
-          }));
-          
-          const result = {
-            success: true,
-            recentMoods,
-            moodDistribution: moodDistribution.slice(0, 4),
-            diaryCount: diaries.length,
-            summary: moodDistribution.length > 0 
-              ? `최근 가장 많이 느낀 감정은 "${moodDistribution[0].description}" (${moodDistribution[0].percentage}%)입니다.`
-              : '아직 분석할 감정 데이터가 충분하지 않아요.',
-          };
-          
-          console.log(`[Tool:analyzeMood] Result: ${result.summary}`);
-          return result;
-        } catch (error) {
-          console.error('[Tool:analyzeMood] Error:', error);
-          return { success: false, message: '감정 분석 중 오류가 발생했어요.' };
-        }
-      },
-    },
-
-    // 개인화된 추천 도구
-    getRecommendations: {
-      description: '사용자의 일기 내용을 바탕으로 개인화된 활동이나 조언을 추천합니다. 사용자가 뭘 해야 할지 모르겠거나 기분 전환이 필요할 때 사용하세요.',
-      inputSchema: z.object({
-        currentMood: z.enum(['positive', 'negative', 'neutral']).optional()
-          .describe('현재 사용자의 기분 상태'),
-      }),
-      execute: async ({ currentMood = 'neutral' }: { currentMood?: string }) => {
-        console.log(`[Tool:getRecommendations] Called with currentMood="${currentMood}"`);
-        
-        if (!currentToolContext) {
-          console.log('[Tool:getRecommendations] Error: No tool context');
-          return { success: false, message: '사용자 정보를 찾을 수 없어요.' };
-        }
-        
-        try {
-          const diaries = await getDiariesForPatternAnalysis(
-            currentToolContext.userId,
-            null,
-            30
-          );
-          
-          console.log(`[Tool:getRecommendations] Found ${diaries.length} diaries for user ${currentToolContext.userId}`);
-          
-          if (diaries.length === 0) {
-            console.log('[Tool:getRecommendations] No diaries found, cannot generate recommendations');
-            return {
-              success: true,
-              hasRecommendations: false,
-              message: '아직 일기가 없어서 맞춤 추천을 드리기 어려워요. 일기를 쓰면 더 좋은 추천을 해드릴 수 있어요!',
-            };
-          }
-          
-          // Map mood to color for suggestion generation
-          const moodColorMap: Record<string, string> = {
-            positive: '노란색',
-            negative: '파란색',
-            neutral: '초록색',
-          };
-          
-          const suggestions = generatePersonalizedSuggestions(
-            diaries,
-            moodColorMap[currentMood || 'neutral'],
-            3
-          );
-          
-          console.log(`[Tool:getRecommendations] Generated ${suggestions.length} recommendations`);
-          
-          return {
-            success: true,
-            hasRecommendations: suggestions.length > 0,
-            recommendations: suggestions.map(s => s.suggestion),
-            basedOnDiaryCount: diaries.length,
-          };
-        } catch (error) {
-          console.error('[Tool:getRecommendations] Error:', error);
-          return { success: false, message: '추천 생성 중 오류가 발생했어요.' };
-        }
-      },
-    },
-
-    // 감정 트리거 분석 도구
-    findEmotionTriggers: {
-      description: '특정 감정을 느끼게 하는 상황이나 요인을 분석합니다. 사용자가 왜 특정 감정을 느끼는지 알고 싶어할 때 사용하세요.',
-      inputSchema: z.object({
-        targetMood: z.enum(['happy', 'sad', 'angry', 'calm']).optional()
-          .describe('분석할 감정 (기본값: 전체)'),
-      }),
-      execute: async ({ targetMood }: { targetMood?: string }) => {
-        console.log(`[Tool:findEmotionTriggers] Called with targetMood="${targetMood || 'all'}"`);
-        
-        if (!currentToolContext) {
-          console.log('[Tool:findEmotionTriggers] Error: No tool context');
-          return { success: false, message: '사용자 정보를 찾을 수 없어요.' };
-        }
-        
-        try {
-          const diaries = await getDiariesForPatternAnalysis(
-            currentToolContext.userId,
-            null,
-            50
-          );
-          
-          console.log(`[Tool:findEmotionTriggers] Found ${diaries.length} diaries for user ${currentToolContext.userId}`);
-          
-          if (diaries.length < 3) {
-            console.log('[Tool:findEmotionTriggers] Not enough diaries for analysis');
-            return {
-              success: true,
-              hasAnalysis: false,
-              message: '감정 트리거를 분석하려면 최소 3개 이상의 일기가 필요해요.',
-            };
-          }
-          
-          // Filter by mood if specified
-          let filteredDiaries = diaries;
-          if (targetMood) {
-            const moodColorMap: Record<string, string> = {
-              happy: '노란색',
-              sad: '파란색',
-              angry: '빨간색',
-              calm: '초록색',
-            };
-            filteredDiaries = diaries.filter(d => d.color === moodColorMap[targetMood]);
-            console.log(`[Tool:findEmotionTriggers] Filtered to ${filteredDiaries.length} diaries for mood "${targetMood}"`);
-          }
-          
-          const triggers = extractEmotionTriggers(filteredDiaries);
-          
-          console.log(`[Tool:findEmotionTriggers] Found ${triggers.length} emotion triggers`);
-          
-          return {
-            success: true,
-            hasAnalysis: triggers.length > 0,
-            triggers: triggers.slice(0, 3).map(t => ({
-              mood: moodColorTraits[t.moodColor]?.description || t.moodColor,
-              commonThemes: t.triggers.slice(0, 5),
-              diaryCount: t.diaryIds.length,
-            })),
-          };
-        } catch (error) {
-          console.error('[Tool:findEmotionTriggers] Error:', error);
-          return { success: false, message: '감정 트리거 분석 중 오류가 발생했어요.' };
-        }
-      },
-    },
-  };
-}
+async function runToolCall(
+  toolCall: ToolCall,
+  toolContext: ToolContext | null,
+  onToolEvent?: OnToolEventCallback
+): Promise<unknown> {
+  const { id, name } = toolCall;
+  onToolEvent?.({ type: 'tool_start', id, name, message: muditaTools.get(name)?.statusMessage });
+
+  let result: unknown;
+  try {
+    result = toolContext
+      ? await muditaTools.execute(name, toolCall.arguments, toolContext)
+      : { success: false, message: '사용자 정보를 찾을 수 없어요.' };
+  } catch (error) {
+    console.error(`[generateResponse] Tool execution error:`, error);
+    result = { success: false, message: 'Tool execution failed' };
+  }
 
-/**
- * Converts Mudita tools to OpenAI function format
- */
-function convertToolsToOpenAIFunctions() {
-  const muditaTools = createMuditaTools();
-  
-  return [
-    {
-      type: 'function' as const,
-      function: {
-        name: 'searchDiaries',
-        description: muditaTools.searchDiaries.description,
-        parameters: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: '검색할 내용 (예: "행복했던 날", "스트레스 받았을 때", "친구와 만났던 일")',
-            },
-            dateFilter: {
-              type: 'string',
-              enum: ['today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month', 'all'],
-              description: '날짜 필터 (선택사항)',
-            },
-          },
-          required: ['query'],
-        },
-      },
-    },
-    {
-      type: 'function' as const,
-      function: {
-        name: 'analyzeMood',
-        description: muditaTools.analyzeMood.description,
-        parameters: {
-          type: 'object',
-          properties: {
-            period: {
-              type: 'string',
-              enum: ['recent', 'this_week', 'this_month'],
-              description: '분석 기간 (기본값: recent - 최근 5개)',
-            },
-          },
-          required: [],
-        },
-      },
-    },
-    {
-      type: 'function' as const,
-      function: {
-        name: 'getRecommendations',
-        description: muditaTools.getRecommendations.description,
-        parameters: {
-          type: 'object',
-          properties: {
-            currentMood: {
-              type: 'string',
-              enum: ['positive', 'negative', 'neutral'],
-              description: '현재 사용자의 기분 상태',
-            },
-          },
-          required: [],
-        },
-      },
-    },
-    {
-      type: 'function' as const,
-      function: {
-        name: 'findEmotionTriggers',
-        description: muditaTools.findEmotionTriggers.description,
-        parameters: {
-          type: 'object',
-          properties: {
-            targetMood: {
-              type: 'string',
-              enum: ['happy', 'sad', 'angry', 'calm'],
-              description: '분석할 감정 (기본값: 전체)',
-            },
-          },
-          required: [],
-        },
-      },
-    },
-  ];
-}
+  onToolEvent?.({ type: 'tool_result', id, name, success: (result as { success?: boolean })?.success !== false });
 
-/**
- * Executes a tool call and returns the result
- */
-async function executeToolCall(toolName: string, args: any): Promise<any> {
-  const tools = createMuditaTools();
-  
-  switch (toolName) {
-    case 'searchDiaries':
-      return await tools.searchDiaries.execute(args);
-    case 'analyzeMood':
-      return await tools.analyzeMood.execute(args);
-    case 'getRecommendations':
-      return await tools.getRecommendations.execute(args);
-    case 'findEmotionTriggers':
-      return await tools.findEmotionTriggers.execute(args);
-    default:
-      return { success: false, message: `Unknown tool: ${toolName}` };
+  // Write tools only propose; the client asks the user to confirm
+  if (isActionProposal(result)) {
+    onToolEvent?.({ type: 'action_required', id, name, action: result.action });
   }
+  return result;
 }
 
 /**
  * Generates a response using the LLM with streaming support and retry logic
- * Uses OpenAI SDK directly for reliable Function Calling with streaming
+ * Streams through the configured LLMProvider (Function Calling supported)
  * Validates: Requirements 1.2, 1.5, 8.1, 9.3
  * @param context - The RAG context string with diary entries and chat history
  * @param userMessage - The user's current message
@@ -1151,6 +529,9 @@ async function executeToolCall(toolName: string, args: any): Promise<any> {
  * @param chatHistory - Optional array of previous messages for multi-turn conversation
  * @param hasDiaries - Whether the user has diary entries (affects CTA frequency)
  * @param userId - Optional user ID for function calling tools
+ * @param timeSettings - The user's time zone and locale for date filters in tools
+ * @param onToolEvent - Called when a tool call starts and when its result is ready
+ * @param sessionId - The chat session the message belongs to (kept with write-tool proposals)
  * @returns The complete response string
  */
 export async function generateResponse(
@@ -1160,17 +541,18 @@ export async function generateResponse(
   userName?: string,
   chatHistory?: Message[],
   hasDiaries: boolean = true,
-  userId?: number
+  userId?: number,
+  timeSettings?: UserTimeSettings,
+  onToolEvent?: OnToolEventCallback,
+  sessionId?: string
 ): Promise<string> {
   const systemPrompt = buildSystemPrompt(context, userName, hasDiaries);
   
-  // Set tool context if userId is provided
-  if (userId) {
-    setToolContext({ userId, userName });
-  }
+  // Tool context for this request only (tools run for the user who sent the message)
+  const toolContext: ToolContext | null = userId ? { userId, sessionId, userName, timeSettings, hasDiaries } : null;
   
-  // Build messages array for OpenAI
-  const messages: Array<{ role: 'system' | 'user' | 'assistant' | 'tool'; content: string; tool_call_id?: string; name?: string }> = [
+  // Build messages array for the LLM
+  const messages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
   ];
   
@@ -1190,133 +572,82 @@ export async function generateResponse(
 
   let lastError: Error | null = null;
   
-  // Create tools only if user has diaries (tools need diary data)
-  const shouldUseTools = hasDiaries && userId;
-  const tools = shouldUseTools ? convertToolsToOpenAIFunctions() : undefined;
+  // Tools that need diary data are left out when the user has none
+  const functionSpecs = toolContext ? muditaTools.toFunctionSpecs(toolContext) : [];
+  const tools = functionSpecs.length > 0 ? functionSpecs : undefined;
+
+  // Completed tool rounds are kept across retries, so a retry resumes at the failed round
+  // instead of running the tools again (write tools would propose the same change twice)
+  const conversation: ChatMessage[] = [...messages];
+  let round = 0;
   
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const openai = getOpenAIClient();
+      const llm = getLLMProvider();
       
       console.log(`[generateResponse] Starting stream for user message: "${userMessage.slice(0, 50)}..."`);
       
-      // First call - may return tool calls
-      const stream = await openai.chat.completions.create({
-        model: LLM_MODEL,
-        messages: messages as any,
-        temperature: TEMPERATURE,
-        max_tokens: MAX_TOKENS,
-        stream: true,
-        ...(tools && { tools, tool_choice: 'auto' }),
-      });
-
       let fullResponse = '';
-      let toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
-      let currentToolCall: { id?: string; name?: string; arguments: string } | null = null;
 
-      // Process the stream
-      for await (const chunk of stream) {
-        const delta = chunk.choices[0]?.delta;
-        
-        // Handle tool calls
-        if (delta?.tool_calls) {
-          for (const toolCall of delta.tool_calls) {
-            if (toolCall.index === 0 && toolCall.id) {
-              // New tool call
-              if (currentToolCall && currentToolCall.id) {
-                toolCalls.push(currentToolCall as any);
-              }
-              currentToolCall = {
-                id: toolCall.id,
-                name: toolCall.function?.name || '',
-                arguments: toolCall.function?.arguments || '',
-              };
-            } else if (currentToolCall && toolCall.function?.arguments) {
-              // Continue building arguments
-              currentToolCall.arguments += toolCall.function.arguments;
-            }
+      for (; ; round++) {
+        // The last round offers no tools so the model has to answer
+        const stream = llm.streamChat(conversation, {
+          model: LLM_MODEL,
+          temperature: TEMPERATURE,
+          maxTokens: MAX_TOKENS,
+          tools: round < MAX_TOOL_ROUNDS ? tools : undefined,
+        });
+
+        fullResponse = '';
+        // Deltas with the same index belong to the same call (parallel calls interleave)
+        const pendingCalls = new Map<number, ToolCall>();
+
+        for await (const chunk of stream) {
+          for (const delta of chunk.toolCallDeltas ?? []) {
+            const call = pendingCalls.get(delta.index) ?? { id: '', name: '', arguments: '' };
+            if (delta.id) call.id = delta.id;
+            if (delta.name) call.name += delta.name;
+            if (delta.arguments) call.arguments += delta.arguments;
+            pendingCalls.set(delta.index, call);
+          }
+
+          if (chunk.content) {
+            fullResponse += chunk.content;
+            onToken(chunk.content);
           }
         }
-        
-        // Handle text content
-        if (delta?.content) {
-          fullResponse += delta.content;
-          onToken(delta.content);
-        }
-      }
 
-      // Save last tool call if exists
-      if (currentToolCall && currentToolCall.id) {
-        toolCalls.push(currentToolCall as any);
-      }
+        const toolCalls = [...pendingCalls.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([, call]) => call)
+          .filter((call) => call.id && call.name);
 
-      // If there were tool calls, execute them and get final response
-      if (toolCalls.length > 0) {
-        console.log(`[generateResponse] Executing ${toolCalls.length} tool calls`);
-        
-        // Add assistant message with tool calls (OpenAI requires this format)
-        messages.push({
+        // Calls asked for in the tool-less last round are ignored
+        if (toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) break;
+
+        console.log(`[generateResponse] Round ${round + 1}: executing ${toolCalls.length} tool calls`);
+
+        // Add assistant message with tool calls (the API requires it before tool results)
+        conversation.push({
           role: 'assistant',
           content: fullResponse || null,
-          tool_calls: toolCalls.map(tc => ({
-            id: tc.id,
-            type: 'function' as const,
-            function: {
-              name: tc.name,
-              arguments: tc.arguments,
-            },
-          })),
-        } as any);
-
-        // Execute each tool and add results
-        for (const toolCall of toolCalls) {
-          try {
-            const args = JSON.parse(toolCall.arguments);
-            const result = await executeToolCall(toolCall.name, args);
-            
-            messages.push({
-              role: 'tool',
-              tool_call_id: toolCall.id,
-              name: toolCall.name,
-              content: JSON.stringify(result),
-            } as any);
-          } catch (error) {
-            console.error(`[generateResponse] Tool execution error:`, error);
-            messages.push({
-              role: 'tool',
-              tool_call_id: toolCall.id,
-              name: toolCall.name,
-              content: JSON.stringify({ success: false, message: 'Tool execution failed' }),
-            } as any);
-          }
-        }
-
-        // Make second call to get natural language response
-        console.log(`[generateResponse] Getting natural language response after tool calls`);
-        
-        const finalStream = await openai.chat.completions.create({
-          model: LLM_MODEL,
-          messages: messages as any,
-          temperature: TEMPERATURE,
-          max_tokens: MAX_TOKENS,
-          stream: true,
+          tool_calls: toolCalls,
         });
 
-        fullResponse = ''; // Reset for final response
-        
-        for await (const chunk of finalStream) {
-          const delta = chunk.choices[0]?.delta;
-          if (delta?.content) {
-            fullResponse += delta.content;
-            onToken(delta.content);
-          }
-        }
+        // Calls in one round are independent, so they run in parallel
+        const results = await Promise.all(toolCalls.map((toolCall) => runToolCall(toolCall, toolContext, onToolEvent)));
+
+        toolCalls.forEach((toolCall, i) => {
+          conversation.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            name: toolCall.name,
+            content: JSON.stringify(results[i]),
+          });
+        });
       }
 
       console.log(`[generateResponse] Stream complete. Response length: ${fullResponse.length}`);
-
-      // Clear tool context after use
-      clearToolContext();
       
       return fullResponse;
     } catch (error: any) {
@@ -1335,9 +666,6 @@ export async function generateResponse(
     }
   }
 
-  // Clear tool context on error
-  clearToolContext();
-
   // All retries exhausted or non-retryable error
   const error = lastError as any;
   
@@ -1453,16 +781,13 @@ async function analyzeCTAWithStructuredOutput(
   conversationLength: number
 ): Promise<ResponseAction | undefined> {
   try {
-    const openai = getOpenAIClient();
-    
     // CTA 빈도 조절: 일기 없는 사용자는 더 자주, 있는 사용자는 드물게
     const ctaFrequencyGuide = hasDiaries
       ? '기존 사용자이므로 CTA는 매우 드물게 (10번 대화 중 1번). 정말 특별한 순간에만.'
       : '신규 사용자이므로 CTA를 적극적으로 (3~5번 대화 중 1번). 일기 쓰기의 장점을 알려주는 것이 좋음.';
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
+    const decision = await getLLMProvider().structured<CTADecision>(
+      [
         {
           role: 'system',
           content: `당신은 대화 분석가입니다. 사용자와 AI 친구(무디타)의 대화를 분석하여 "일기 쓰러 가기" CTA 버튼을 보여줄지 결정합니다.
@@ -1490,41 +815,35 @@ ${ctaFrequencyGuide}
           content: `사용자: ${userMessage}\n\n무디타: ${assistantResponse}`
         }
       ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'cta_decision',
-          strict: true,
-          schema: {
-            type: 'object',
-            properties: {
-              shouldShowCTA: {
-                type: 'boolean',
-                description: 'CTA 버튼을 보여줄지 여부'
-              },
-              ctaType: {
-                type: ['string', 'null'],
-                enum: ['write_diary', 'view_dashboard', 'view_diary', null],
-                description: 'CTA 타입 (shouldShowCTA가 false면 null)'
-              },
-              reason: {
-                type: 'string',
-                description: '판단 이유 (디버깅용)'
-              }
+      {
+        model: 'gpt-4o-mini',
+        schemaName: 'cta_decision',
+        schema: {
+          type: 'object',
+          properties: {
+            shouldShowCTA: {
+              type: 'boolean',
+              description: 'CTA 버튼을 보여줄지 여부'
             },
-            required: ['shouldShowCTA', 'ctaType', 'reason'],
-            additionalProperties: false
-          }
-        }
-      },
-      temperature: 0.3,
-      max_tokens: 200,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) return undefined;
+            ctaType: {
+              type: ['string', 'null'],
+              enum: ['write_diary', 'view_dashboard', 'view_diary', null],
+              description: 'CTA 타입 (shouldShowCTA가 false면 null)'
+            },
+            reason: {
+              type: 'string',
+              description: '판단 이유 (디버깅용)'
+            }
+          },
+          required: ['shouldShowCTA', 'ctaType', 'reason'],
+          additionalProperties: false
+        },
+        temperature: 0.3,
+        maxTokens: 200,
+      }
+    );
 
-    const decision: CTADecision = JSON.parse(content);
+    if (!decision) return undefined;
     
     if (decision.shouldShowCTA && decision.ctaType) {
       console.log(`CTA Decision: ${decision.ctaType} - ${decision.reason}`);
@@ -1564,6 +883,8 @@ function parseCTAMarker(response: string): { cleanedResponse: string; action?: R
  * @param chatHistory - Previous messages in the session
  * @param onToken - Callback function called for each streamed token
  * @param userName - Optional user name for personalization
+ * @param onToolEvent - Called when a tool call starts and when its result is ready
+ * @param sessionId - The chat session the message belongs to
  * @returns Object containing the full response, referenced diary IDs, and optional action
  */
 export async function generateRAGResponse(
@@ -1571,12 +892,17 @@ export async function generateRAGResponse(
   userMessage: string,
   chatHistory: Message[] = [],
   onToken: OnTokenCallback,
-  userName?: string
+  userName?: string,
+  onToolEvent?: OnToolEventCallback,
+  sessionId?: string
 ): Promise<{ response: string; diaryIds: number[]; action?: ResponseAction; cached?: boolean }> {
   // Check if user has any diary entries
-  const userDiaryCount = await prisma.diary.count({
-    where: { user_id: userId }
-  });
+  const [userDiaryCount, timeSettings] = await Promise.all([
+    prisma.diary.count({
+      where: { user_id: userId, deleted_at: null }
+    }),
+    getUserTimeSettings(userId),
+  ]);
 
   // Handle empty diary state (Requirement 9.1)
   // 일기가 없어도 자연스럽게 대화하면서 일기 쓰기를 부드럽게 유도
@@ -1603,7 +929,10 @@ export async function generateRAGResponse(
         userName,
         chatHistory,
         false,  // hasDiaries = false (일기 없는 사용자)
-        userId  // userId for function calling (tools disabled for no-diary users)
+        userId,  // userId for function calling (only tools that don't need diaries)
+        timeSettings,
+        onToolEvent,
+        sessionId
       );
       // 마커 파싱 (fallback) + Structured Output CTA 분석
       const { cleanedResponse } = parseCTAMarker(rawResponse);
@@ -1666,13 +995,13 @@ export async function generateRAGResponse(
   }
 
   // Retrieve relevant context
-  const ragContext = await retrieveContext(userId, userMessage, chatHistory);
+  const ragContext = await retrieveContext(userId, userMessage, chatHistory, 5, true, timeSettings);
   
   // Handle empty search results (Requirement 9.2)
   // 관련 일기가 없어도 자연스럽게 대화 이어감
   if (ragContext.diaries.length === 0) {
     // LLM을 통해 자연스럽게 대화 (일기 컨텍스트 없이)
-    const minimalContext = buildContext([], chatHistory, ragContext.moodData);
+    const minimalContext = buildContext([], chatHistory, ragContext.moodData, timeSettings);
     
     try {
       const rawResponse = await generateResponse(
@@ -1682,7 +1011,10 @@ export async function generateRAGResponse(
         userName,
         chatHistory,
         true,  // hasDiaries = true (일기 있는 사용자, 관련 일기만 없음)
-        userId  // userId for function calling
+        userId,  // userId for function calling
+        timeSettings,
+        onToolEvent,
+        sessionId
       );
       // 마커 파싱 (fallback) + Structured Output CTA 분석
       const { cleanedResponse } = parseCTAMarker(rawResponse);
@@ -1711,7 +1043,10 @@ export async function generateRAGResponse(
     userName,
     chatHistory,
     true,  // hasDiaries = true (일기 있는 사용자)
-    userId  // userId for function calling
+    userId,  // userId for function calling
+    timeSettings,
+    onToolEvent,
+    sessionId
   );
   
   // 마커 파싱 (fallback) + Structured Output CTA 분석
@@ -1738,804 +1073,3 @@ export async function generateRAGResponse(
   
   return { response: cleanedResponse, diaryIds, action };
 }
-
-
-// ============================================================================
-// Emotional Pattern Analysis
-// Validates: Requirements 3.1, 3.2, 3.4
-// ============================================================================
-
-/**
- * Mood color distribution result
- */
-export interface MoodColorDistribution {
-  color: string;
-  count: number;
-  percentage: number;
-  description: string;
-}
-
-/**
- * Recurring theme identified from diary content
- */
-export interface RecurringTheme {
-  theme: string;
-  frequency: number;
-  diaryIds: number[];
-  examples: string[];
-}
-
-/**
- * Emotion trigger analysis result
- */
-export interface EmotionTrigger {
-  moodColor: string;
-  triggers: string[];
-  diaryIds: number[];
-  examples: DiaryExample[];
-}
-
-/**
- * Diary example for pattern analysis
- */
-export interface DiaryExample {
-  diary_id: number;
-  title: string;
-  date: Date;
-  excerpt: string;
-}
-
-/**
- * Complete emotional pattern analysis result
- */
-export interface EmotionalPatternAnalysis {
-  moodDistribution: MoodColorDistribution[];
-  recurringThemes: RecurringTheme[];
-  emotionTriggers: EmotionTrigger[];
-  diaryCount: number;
-  dateRange: { start: Date; end: Date } | null;
-}
-
-/**
- * Analyzes mood color distribution over a set of diary entries
- * Validates: Requirements 3.1, 3.3
- * @param diaries - Array of diary entries to analyze
- * @returns Array of mood color distributions sorted by count (descending)
- */
-export function analyzeMoodDistribution(diaries: DiarySearchResult[]): MoodColorDistribution[] {
-  if (diaries.length === 0) {
-    return [];
-  }
-
-  const colorCounts: Record<string, number> = {};
-  
-  for (const diary of diaries) {
-    const color = diary.color || '알 수 없음';
-    colorCounts[color] = (colorCounts[color] || 0) + 1;
-  }
-
-  const total = diaries.length;
-  const distribution: MoodColorDistribution[] = [];
-
-  for (const [color, count] of Object.entries(colorCounts)) {
-    const trait = moodColorTraits[color];
-    distribution.push({
-      color,
-      count,
-      percentage: Math.round((count / total) * 100),
-      description: trait?.description || '알 수 없는 감정',
-    });
-  }
-
-  // Sort by count descending
-  return distribution.sort((a, b) => b.count - a.count);
-}
-
-/**
- * Common Korean words to exclude from theme extraction
- */
-const KOREAN_STOP_WORDS = new Set([
-  '그', '저', '이', '것', '수', '등', '때', '더', '안', '못', '잘', '좀',
-  '너무', '정말', '진짜', '아주', '매우', '조금', '많이', '다시', '또',
-  '오늘', '어제', '내일', '지금', '항상', '가끔', '자주', '계속',
-  '나', '내', '저', '제', '우리', '그녀', '그', '그들',
-  '하다', '되다', '있다', '없다', '같다', '보다', '가다', '오다', '주다', '받다',
-  '하고', '하면', '해서', '했다', '한다', '할', '하는', '했는데',
-  '그리고', '그래서', '하지만', '그런데', '그러나', '또한', '그래도',
-  '이런', '저런', '그런', '어떤', '무슨', '왜', '어떻게',
-  '아', '어', '음', '응', '네', '예', '아니', '아니요',
-]);
-
-/**
- * Extracts meaningful words/phrases from diary content
- * @param content - Diary content text
- * @returns Array of extracted words/phrases
- */
-function extractKeywords(content: string): string[] {
-  // Remove special characters and split into words
-  const words = content
-    .replace(/[^\w\s가-힣]/g, ' ')
-    .split(/\s+/)
-    .filter(word => word.length >= 2)
-    .map(word => word.toLowerCase());
-
-  // Filter out stop words and short words
-  return words.filter(word => 
-    !KOREAN_STOP_WORDS.has(word) && 
-    word.length >= 2 &&
-    !/^\d+$/.test(word) // Exclude pure numbers
-  );
-}
-
-/**
- * Identifies recurring themes in diary content
- * Validates: Requirements 3.1, 3.2
- * @param diaries - Array of diary entries to analyze
- * @param minFrequency - Minimum frequency for a theme to be considered recurring (default: 2)
- * @returns Array of recurring themes with diary references
- */
-export function identifyRecurringThemes(
-  diaries: DiarySearchResult[],
-  minFrequency: number = 2
-): RecurringTheme[] {
-  if (diaries.length === 0) {
-    return [];
-  }
-
-  // Track word occurrences across diaries
-  const wordToDiaries: Map<string, Set<number>> = new Map();
-  const wordToExamples: Map<string, string[]> = new Map();
-
-  for (const diary of diaries) {
-    const keywords = extractKeywords(diary.content);
-    const seenInThisDiary = new Set<string>();
-
-    for (const word of keywords) {
-      // Only count each word once per diary
-      if (!seenInThisDiary.has(word)) {
-        seenInThisDiary.add(word);
-        
-        if (!wordToDiaries.has(word)) {
-          wordToDiaries.set(word, new Set());
-          wordToExamples.set(word, []);
-        }
-        
-        wordToDiaries.get(word)!.add(diary.diary_id);
-        
-        // Store example excerpt (first 100 chars containing the word)
-        const examples = wordToExamples.get(word)!;
-        if (examples.length < 3) {
-          const excerpt = extractExcerpt(diary.content, word);
-          if (excerpt) {
-            examples.push(excerpt);
-          }
-        }
-      }
-    }
-  }
-
-  // Convert to RecurringTheme array
-  const themes: RecurringTheme[] = [];
-  
-  for (const [word, diaryIdSet] of wordToDiaries.entries()) {
-    const frequency = diaryIdSet.size;
-    if (frequency >= minFrequency) {
-      themes.push({
-        theme: word,
-        frequency,
-        diaryIds: Array.from(diaryIdSet),
-        examples: wordToExamples.get(word) || [],
-      });
-    }
-  }
-
-  // Sort by frequency descending, then alphabetically
-  return themes.sort((a, b) => {
-    if (b.frequency !== a.frequency) {
-      return b.frequency - a.frequency;
-    }
-    return a.theme.localeCompare(b.theme);
-  });
-}
-
-/**
- * Extracts a short excerpt containing the given word
- * @param content - Full content text
- * @param word - Word to find
- * @returns Excerpt string or null if not found
- */
-function extractExcerpt(content: string, word: string): string | null {
-  const lowerContent = content.toLowerCase();
-  const index = lowerContent.indexOf(word.toLowerCase());
-  
-  if (index === -1) {
-    return null;
-  }
-
-  const start = Math.max(0, index - 30);
-  const end = Math.min(content.length, index + word.length + 70);
-  
-  let excerpt = content.slice(start, end).trim();
-  
-  if (start > 0) {
-    excerpt = '...' + excerpt;
-  }
-  if (end < content.length) {
-    excerpt = excerpt + '...';
-  }
-  
-  return excerpt;
-}
-
-/**
- * Extracts emotion triggers from diary entries grouped by mood color
- * Validates: Requirements 3.4
- * @param diaries - Array of diary entries to analyze
- * @returns Array of emotion triggers grouped by mood color
- */
-export function extractEmotionTriggers(diaries: DiarySearchResult[]): EmotionTrigger[] {
-  if (diaries.length === 0) {
-    return [];
-  }
-
-  // Group diaries by mood color
-  const diariesByColor: Map<string, DiarySearchResult[]> = new Map();
-  
-  for (const diary of diaries) {
-    const color = diary.color || '알 수 없음';
-    if (!diariesByColor.has(color)) {
-      diariesByColor.set(color, []);
-    }
-    diariesByColor.get(color)!.push(diary);
-  }
-
-  const triggers: EmotionTrigger[] = [];
-
-  for (const [color, colorDiaries] of diariesByColor.entries()) {
-    // Find common themes within this mood color
-    const themes = identifyRecurringThemes(colorDiaries, 1);
-    
-    // Take top 5 themes as triggers
-    const topThemes = themes.slice(0, 5);
-    
-    // Create diary examples
-    const examples: DiaryExample[] = colorDiaries.slice(0, 3).map(diary => ({
-      diary_id: diary.diary_id,
-      title: diary.title,
-      date: diary.date,
-      excerpt: diary.content.slice(0, 100) + (diary.content.length > 100 ? '...' : ''),
-    }));
-
-    triggers.push({
-      moodColor: color,
-      triggers: topThemes.map(t => t.theme),
-      diaryIds: colorDiaries.map(d => d.diary_id),
-      examples,
-    });
-  }
-
-  // Sort by number of diaries (most common mood first)
-  return triggers.sort((a, b) => b.diaryIds.length - a.diaryIds.length);
-}
-
-/**
- * Performs comprehensive emotional pattern analysis on diary entries
- * Validates: Requirements 3.1, 3.2, 3.4
- * @param diaries - Array of diary entries to analyze
- * @returns Complete emotional pattern analysis
- */
-export function analyzeEmotionalPatterns(diaries: DiarySearchResult[]): EmotionalPatternAnalysis {
-  if (diaries.length === 0) {
-    return {
-      moodDistribution: [],
-      recurringThemes: [],
-      emotionTriggers: [],
-      diaryCount: 0,
-      dateRange: null,
-    };
-  }
-
-  // Calculate date range
-  const dates = diaries.map(d => new Date(d.date).getTime());
-  const minDate = new Date(Math.min(...dates));
-  const maxDate = new Date(Math.max(...dates));
-
-  return {
-    moodDistribution: analyzeMoodDistribution(diaries),
-    recurringThemes: identifyRecurringThemes(diaries),
-    emotionTriggers: extractEmotionTriggers(diaries),
-    diaryCount: diaries.length,
-    dateRange: { start: minDate, end: maxDate },
-  };
-}
-
-/**
- * Retrieves diaries by mood color for trigger analysis
- * Validates: Requirements 3.4
- * @param userId - The authenticated user's ID
- * @param moodColor - The mood color to filter by
- * @param limit - Maximum number of diaries to retrieve
- * @returns Array of diary entries with the specified mood color
- */
-export async function getDiariesByMoodColor(
-  userId: number,
-  moodColor: string,
-  limit: number = 10
-): Promise<DiarySearchResult[]> {
-  const results = await prisma.$queryRaw<Array<{
-    diary_id: number;
-    title: string;
-    content: string;
-    date: Date;
-    color: string;
-  }>>`
-    SELECT 
-      diary_id,
-      title,
-      content,
-      date,
-      color
-    FROM "Diary"
-    WHERE user_id = ${userId}
-      AND color = ${moodColor}
-    ORDER BY date DESC
-    LIMIT ${limit}
-  `;
-
-  return results.map(r => ({
-    diary_id: r.diary_id,
-    title: r.title,
-    content: r.content,
-    date: r.date,
-    color: r.color,
-    score: 1.0, // Direct match, full score
-  }));
-}
-
-/**
- * Retrieves all diaries for a user within a date range for pattern analysis
- * Validates: Requirements 3.1, 3.3
- * @param userId - The authenticated user's ID
- * @param dateRange - Optional date range filter
- * @param limit - Maximum number of diaries to retrieve
- * @returns Array of diary entries
- */
-export async function getDiariesForPatternAnalysis(
-  userId: number,
-  dateRange?: DateRange | null,
-  limit: number = 50
-): Promise<DiarySearchResult[]> {
-  if (dateRange) {
-    const endOfDay = new Date(dateRange.endDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const results = await prisma.$queryRaw<Array<{
-      diary_id: number;
-      title: string;
-      content: string;
-      date: Date;
-      color: string;
-    }>>`
-      SELECT 
-        diary_id,
-        title,
-        content,
-        date,
-        color
-      FROM "Diary"
-      WHERE user_id = ${userId}
-        AND date >= ${dateRange.startDate}
-        AND date <= ${endOfDay}
-      ORDER BY date DESC
-      LIMIT ${limit}
-    `;
-
-    return results.map(r => ({
-      diary_id: r.diary_id,
-      title: r.title,
-      content: r.content,
-      date: r.date,
-      color: r.color,
-      score: 1.0,
-    }));
-  }
-
-  // No date range - get recent diaries
-  const results = await prisma.$queryRaw<Array<{
-    diary_id: number;
-    title: string;
-    content: string;
-    date: Date;
-    color: string;
-  }>>`
-    SELECT 
-      diary_id,
-      title,
-      content,
-      date,
-      color
-    FROM "Diary"
-    WHERE user_id = ${userId}
-    ORDER BY date DESC
-    LIMIT ${limit}
-  `;
-
-  return results.map(r => ({
-    diary_id: r.diary_id,
-    title: r.title,
-    content: r.content,
-    date: r.date,
-    color: r.color,
-    score: 1.0,
-  }));
-}
-
-
-// ============================================================================
-// Personalized Suggestion Generation
-// Validates: Requirements 7.1, 7.2, 7.3, 7.4
-// ============================================================================
-
-/**
- * Entity types that can be extracted from diary content
- */
-export type EntityType = 'activity' | 'person' | 'place';
-
-/**
- * Extracted entity from diary content
- */
-export interface ExtractedEntity {
-  type: EntityType;
-  value: string;
-  frequency: number;
-  diaryIds: number[];
-  moodColors: string[];
-}
-
-/**
- * Personalized suggestion based on diary content
- */
-export interface PersonalizedSuggestion {
-  suggestion: string;
-  basedOn: ExtractedEntity[];
-  diaryIds: number[];
-  moodContext: string;
-}
-
-/**
- * Common activity keywords in Korean
- */
-const ACTIVITY_KEYWORDS = new Set([
-  '운동', '산책', '조깅', '달리기', '수영', '헬스', '요가', '필라테스', '등산',
-  '독서', '책', '영화', '드라마', '음악', '노래', '춤', '그림', '그리기',
-  '요리', '베이킹', '청소', '정리', '빨래', '설거지',
-  '공부', '학습', '강의', '수업', '시험', '과제',
-  '게임', '쇼핑', '여행', '캠핑', '피크닉', '드라이브',
-  '명상', '휴식', '낮잠', '수면', '잠',
-  '카페', '커피', '차', '맥주', '술', '식사', '밥', '점심', '저녁', '아침',
-  '미팅', '회의', '발표', '프로젝트', '업무', '일',
-  '데이트', '약속', '모임', '파티', '생일',
-  '병원', '치료', '검진', '약',
-  '글쓰기', '일기', '블로그', '사진', '촬영',
-]);
-
-/**
- * Common relationship/person keywords in Korean
- */
-const PERSON_KEYWORDS = new Set([
-  '친구', '가족', '부모님', '엄마', '아빠', '어머니', '아버지',
-  '형', '오빠', '누나', '언니', '동생', '남동생', '여동생',
-  '할머니', '할아버지', '조부모', '삼촌', '이모', '고모', '외삼촌',
-  '남편', '아내', '배우자', '애인', '여자친구', '남자친구', '연인',
-  '아들', '딸', '자녀', '아이', '아기',
-  '동료', '상사', '부하', '팀장', '사장', '대표', '선배', '후배',
-  '선생님', '교수님', '강사', '학생', '제자',
-  '이웃', '주민',
-]);
-
-/**
- * Common place keywords in Korean
- */
-const PLACE_KEYWORDS = new Set([
-  '집', '회사', '사무실', '학교', '대학', '학원',
-  '카페', '커피숍', '식당', '레스토랑', '맛집', '술집', '바',
-  '공원', '산', '바다', '해변', '강', '호수', '숲',
-  '병원', '약국', '은행', '마트', '슈퍼', '백화점', '쇼핑몰',
-  '헬스장', '체육관', '수영장', '운동장', '경기장',
-  '도서관', '서점', '미술관', '박물관', '영화관', '극장', '공연장',
-  '역', '버스정류장', '공항', '터미널',
-  '호텔', '펜션', '숙소', '리조트',
-  '교회', '절', '성당',
-]);
-
-/**
- * Extracts entities (activities, people, places) from diary content
- * Validates: Requirements 7.1, 7.2
- * @param diaries - Array of diary entries to analyze
- * @returns Array of extracted entities with frequency and context
- */
-export function extractEntities(diaries: DiarySearchResult[]): ExtractedEntity[] {
-  if (diaries.length === 0) {
-    return [];
-  }
-
-  const entityMap: Map<string, {
-    type: EntityType;
-    frequency: number;
-    diaryIds: Set<number>;
-    moodColors: Set<string>;
-  }> = new Map();
-
-  for (const diary of diaries) {
-    const content = diary.content.toLowerCase();
-    const words = content.split(/\s+/);
-
-    // Check for activities
-    for (const word of words) {
-      const cleanWord = word.replace(/[^\w가-힣]/g, '');
-      
-      if (ACTIVITY_KEYWORDS.has(cleanWord)) {
-        updateEntityMap(entityMap, cleanWord, 'activity', diary);
-      } else if (PERSON_KEYWORDS.has(cleanWord)) {
-        updateEntityMap(entityMap, cleanWord, 'person', diary);
-      } else if (PLACE_KEYWORDS.has(cleanWord)) {
-        updateEntityMap(entityMap, cleanWord, 'place', diary);
-      }
-    }
-
-    // Also check for multi-word patterns
-    for (const keyword of ACTIVITY_KEYWORDS) {
-      if (content.includes(keyword)) {
-        updateEntityMap(entityMap, keyword, 'activity', diary);
-      }
-    }
-    for (const keyword of PERSON_KEYWORDS) {
-      if (content.includes(keyword)) {
-        updateEntityMap(entityMap, keyword, 'person', diary);
-      }
-    }
-    for (const keyword of PLACE_KEYWORDS) {
-      if (content.includes(keyword)) {
-        updateEntityMap(entityMap, keyword, 'place', diary);
-      }
-    }
-  }
-
-  // Convert map to array and sort by frequency
-  const entities: ExtractedEntity[] = [];
-  for (const [value, data] of entityMap.entries()) {
-    entities.push({
-      type: data.type,
-      value,
-      frequency: data.frequency,
-      diaryIds: Array.from(data.diaryIds),
-      moodColors: Array.from(data.moodColors),
-    });
-  }
-
-  return entities.sort((a, b) => b.frequency - a.frequency);
-}
-
-/**
- * Helper function to update entity map
- */
-function updateEntityMap(
-  map: Map<string, {
-    type: EntityType;
-    frequency: number;
-    diaryIds: Set<number>;
-    moodColors: Set<string>;
-  }>,
-  value: string,
-  type: EntityType,
-  diary: DiarySearchResult
-): void {
-  if (!map.has(value)) {
-    map.set(value, {
-      type,
-      frequency: 0,
-      diaryIds: new Set(),
-      moodColors: new Set(),
-    });
-  }
-  
-  const entry = map.get(value)!;
-  // Only increment frequency once per diary
-  if (!entry.diaryIds.has(diary.diary_id)) {
-    entry.frequency++;
-    entry.diaryIds.add(diary.diary_id);
-  }
-  entry.moodColors.add(diary.color);
-}
-
-/**
- * Suggestion templates based on entity type and mood context
- */
-const SUGGESTION_TEMPLATES: Record<EntityType, Record<string, string[]>> = {
-  activity: {
-    positive: [
-      '{entity}을(를) 하면서 좋은 시간을 보냈던 것 같아. 다시 해보는 건 어때?',
-      '전에 {entity} 했을 때 기분이 좋았잖아. 오늘도 한번 해볼까?',
-      '{entity}이(가) 너한테 잘 맞는 것 같아. 꾸준히 해보면 좋겠다!',
-    ],
-    negative: [
-      '힘들 때 {entity}을(를) 해보는 건 어때? 기분 전환이 될 수도 있어.',
-      '전에 {entity} 하고 나서 기분이 나아졌던 적 있잖아.',
-      '잠깐 {entity}을(를) 하면서 머리 좀 식혀보는 건 어떨까?',
-    ],
-  },
-  person: {
-    positive: [
-      '{entity}와(과) 함께한 시간이 즐거웠던 것 같아. 연락해보는 건 어때?',
-      '{entity}이(가) 너한테 좋은 영향을 주는 것 같아. 자주 만나면 좋겠다!',
-      '{entity}와(과) 또 좋은 시간 보내면 좋겠다.',
-    ],
-    negative: [
-      '{entity}한테 연락해보는 건 어때? 이야기 나누면 기분이 나아질 수도 있어.',
-      '힘들 때 {entity}와(과) 대화해보면 도움이 될 것 같아.',
-      '{entity}이(가) 네 이야기를 들어줄 수 있을 것 같아.',
-    ],
-  },
-  place: {
-    positive: [
-      '{entity}에 가면 기분이 좋아지는 것 같아. 다시 가보는 건 어때?',
-      '전에 {entity}에서 좋은 시간 보냈잖아. 또 가볼까?',
-      '{entity}이(가) 너한테 좋은 장소인 것 같아.',
-    ],
-    negative: [
-      '기분 전환으로 {entity}에 가보는 건 어때?',
-      '{entity}에 가서 잠깐 쉬어보는 것도 좋을 것 같아.',
-      '환경을 바꿔서 {entity}에 가보면 기분이 나아질 수도 있어.',
-    ],
-  },
-};
-
-/**
- * Determines if the mood context is positive or negative
- * @param moodColors - Array of mood colors
- * @returns 'positive' or 'negative'
- */
-function getMoodContext(moodColors: string[]): 'positive' | 'negative' {
-  const positiveColors = ['초록색', '노란색'];
-  const negativeColors = ['빨간색', '파란색'];
-  
-  let positiveCount = 0;
-  let negativeCount = 0;
-  
-  for (const color of moodColors) {
-    if (positiveColors.includes(color)) {
-      positiveCount++;
-    } else if (negativeColors.includes(color)) {
-      negativeCount++;
-    }
-  }
-  
-  return positiveCount >= negativeCount ? 'positive' : 'negative';
-}
-
-/**
- * Generates personalized suggestions based on diary content
- * Validates: Requirements 7.1, 7.2, 7.3, 7.4
- * @param diaries - Array of diary entries to analyze
- * @param currentMood - Optional current mood color for context-aware suggestions
- * @param maxSuggestions - Maximum number of suggestions to generate (default: 3)
- * @returns Array of personalized suggestions
- */
-export function generatePersonalizedSuggestions(
-  diaries: DiarySearchResult[],
-  currentMood?: string,
-  maxSuggestions: number = 3
-): PersonalizedSuggestion[] {
-  if (diaries.length === 0) {
-    return [];
-  }
-
-  const entities = extractEntities(diaries);
-  
-  if (entities.length === 0) {
-    return [];
-  }
-
-  const suggestions: PersonalizedSuggestion[] = [];
-  const usedEntities = new Set<string>();
-
-  // Determine mood context
-  const isNegativeMood = currentMood === '빨간색' || currentMood === '파란색';
-  
-  // Prioritize entities based on mood context
-  // For negative moods, prioritize entities associated with positive experiences
-  const sortedEntities = [...entities].sort((a, b) => {
-    if (isNegativeMood) {
-      // For negative moods, prefer entities with positive mood associations
-      const aPositive = a.moodColors.filter(c => c === '초록색' || c === '노란색').length;
-      const bPositive = b.moodColors.filter(c => c === '초록색' || c === '노란색').length;
-      if (aPositive !== bPositive) {
-        return bPositive - aPositive;
-      }
-    }
-    return b.frequency - a.frequency;
-  });
-
-  for (const entity of sortedEntities) {
-    if (suggestions.length >= maxSuggestions) {
-      break;
-    }
-
-    // Skip if we've already used this entity
-    if (usedEntities.has(entity.value)) {
-      continue;
-    }
-
-    // Get appropriate templates based on entity type and mood
-    const templates = SUGGESTION_TEMPLATES[entity.type];
-    const moodContext = isNegativeMood ? 'negative' : getMoodContext(entity.moodColors);
-    const templateList = templates[moodContext];
-
-    // Select a template (rotate through templates based on suggestion count)
-    const template = templateList[suggestions.length % templateList.length];
-    
-    // Generate suggestion text
-    const suggestionText = template.replace('{entity}', entity.value);
-
-    suggestions.push({
-      suggestion: suggestionText,
-      basedOn: [entity],
-      diaryIds: entity.diaryIds,
-      moodContext: moodContext,
-    });
-
-    usedEntities.add(entity.value);
-  }
-
-  return suggestions;
-}
-
-/**
- * Checks if a suggestion contains at least one entity from the user's diary entries
- * Validates: Requirements 7.1, 7.2, 7.3, 7.4
- * @param suggestion - The suggestion to validate
- * @param diaries - The user's diary entries
- * @returns True if the suggestion contains a user-specific entity
- */
-export function isPersonalizedSuggestion(
-  suggestion: PersonalizedSuggestion,
-  diaries: DiarySearchResult[]
-): boolean {
-  if (suggestion.basedOn.length === 0) {
-    return false;
-  }
-
-  // Check that at least one entity in the suggestion appears in the user's diaries
-  for (const entity of suggestion.basedOn) {
-    for (const diary of diaries) {
-      if (diary.content.toLowerCase().includes(entity.value.toLowerCase())) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-}
-
-/**
- * Generates suggestions for negative emotional patterns
- * Validates: Requirements 7.1
- * @param diaries - Array of diary entries with negative mood colors
- * @returns Array of personalized suggestions
- */
-export function generateSuggestionsForNegativePatterns(
-  diaries: DiarySearchResult[]
-): PersonalizedSuggestion[] {
-  // Filter to get diaries with positive moods to find what made the user happy
-  const positiveDiaries = diaries.filter(d => 
-    d.color === '초록색' || d.color === '노란색'
-  );
-
-  // If user has positive experiences, suggest based on those
-  if (positiveDiaries.length > 0) {
-    return generatePersonalizedSuggestions(positiveDiaries, '빨간색', 3);
-  }
-
-  // Otherwise, generate suggestions from all diaries
-  return generatePersonalizedSuggestions(diaries, '빨간색', 3);
-}
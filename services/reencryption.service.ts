@@ -0,0 +1,169 @@
+/**
+ * Diary Re-encryption Service
+ * Upgrades diaries stored in the legacy AES-256-CBC format (v1) to the
+ * authenticated v2 envelope (AES-256-GCM). Runs as a resumable background job.
+ */
+
+import prisma from '../db';
+import { encrypt, decrypt } from '../util/encrypt';
+import { UserKeyring, getUserKeyring, getKeyForVersion } from './key-management.service';
+import {
+  BackgroundJob,
+  createJob,
+  getJob,
+  findResumableJob,
+  markJobRunning,
+  updateJobProgress,
+  completeJob,
+  failJob,
+} from './background-job.service';
+
+export const REENCRYPTION_JOB_TYPE = 'diary_reencryption';
+
+// Re-encryption configuration
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_FAILED_IDS = 100;
+
+export interface ReencryptionProgress {
+  total: number;
+  processed: number;
+  upgraded: number;
+  skipped: number;
+  failed: number;
+  failedDiaryIds: number[];
+}
+
+const legacyDiaryFilter = { NOT: { content: { startsWith: 'v2:' } } };
+
+/**
+ * Counts diaries still stored in the legacy format
+ * @returns Number of legacy diaries
+ */
+export async function countLegacyDiaries(): Promise<number> {
+  return prisma.diary.count({ where: legacyDiaryFilter });
+}
+
+/**
+ * Re-encrypts one batch of legacy diaries with the v2 envelope
+ * The key version is unchanged; only the ciphertext format is upgraded.
+ * A diary edited concurrently is skipped (it was already written as v2).
+ */
+async function reencryptBatch(
+  diaries: Array<{ diary_id: number; user_id: number; content: string; key_version: number }>,
+  progress: ReencryptionProgress
+): Promise<void> {
+  const keyrings = new Map<number, UserKeyring>();
+
+  for (const diary of diaries) {
+    try {
+      let keyring = keyrings.get(diary.user_id);
+      if (!keyring) {
+        keyring = await getUserKeyring(diary.user_id);
+        keyrings.set(diary.user_id, keyring);
+      }
+
+      const key = getKeyForVersion(keyring, diary.key_version);
+      const upgraded = encrypt(decrypt(diary.content, key), key);
+
+      // Compare-and-swap on the old ciphertext so a concurrent edit is never overwritten
+      const { count } = await prisma.diary.updateMany({
+        where: { diary_id: diary.diary_id, content: diary.content },
+        data: { content: upgraded },
+      });
+
+      if (count === 0) {
+        progress.skipped++;
+      } else {
+        progress.upgraded++;
+      }
+    } catch (error) {
+      console.error(`[Reencryption] Failed to re-encrypt diary ${diary.diary_id}:`, error);
+      progress.failed++;
+      if (progress.failedDiaryIds.length < MAX_FAILED_IDS) {
+        progress.failedDiaryIds.push(diary.diary_id);
+      }
+    }
+    progress.processed++;
+  }
+}
+
+/**
+ * Runs (or resumes) the diary re-encryption job
+ * Without a jobId, the latest unfinished job is resumed from its cursor, or a new job is created.
+ * Diaries that cannot be decrypted are recorded in the progress and skipped, so one corrupt
+ * row does not block the rest of the upgrade.
+ * @param options.jobId - Resume a specific job
+ * @param options.batchSize - Diaries loaded per batch
+ * @param options.onProgress - Called after each batch
+ * @returns The finished job
+ */
+export async function runReencryptionJob(
+  options: {
+    jobId?: string;
+    batchSize?: number;
+    onProgress?: (progress: ReencryptionProgress) => void;
+  } = {}
+): Promise<BackgroundJob<ReencryptionProgress>> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  let job = options.jobId
+    ? await getJob<ReencryptionProgress>(options.jobId)
+    : await findResumableJob<ReencryptionProgress>(REENCRYPTION_JOB_TYPE);
+
+  if (options.jobId && !job) {
+    throw new Error(`Job ${options.jobId} not found`);
+  }
+
+  if (!job) {
+    job = await createJob<ReencryptionProgress>(REENCRYPTION_JOB_TYPE, {
+      total: await countLegacyDiaries(),
+      processed: 0,
+      upgraded: 0,
+      skipped: 0,
+      failed: 0,
+      failedDiaryIds: [],
+    });
+    console.log(`[Reencryption] Created job ${job.job_id} (${job.progress.total} legacy diaries)`);
+  } else {
+    console.log(`[Reencryption] Resuming job ${job.job_id} from diary ${job.cursor ?? 'start'}`);
+  }
+
+  const progress = job.progress;
+  let cursor = job.cursor ? parseInt(job.cursor) : 0;
+
+  await markJobRunning(job.job_id);
+
+  try {
+    while (true) {
+      const batch = await prisma.diary.findMany({
+        where: { ...legacyDiaryFilter, diary_id: { gt: cursor } },
+        orderBy: { diary_id: 'asc' },
+        take: batchSize,
+        select: { diary_id: true, user_id: true, content: true, key_version: true },
+      });
+
+      if (batch.length === 0) {
+        break;
+      }
+
+      await reencryptBatch(batch, progress);
+      cursor = batch[batch.length - 1].diary_id;
+
+      await updateJobProgress(job.job_id, progress, String(cursor));
+      options.onProgress?.(progress);
+    }
+
+    await completeJob(job.job_id, {
+      upgraded: progress.upgraded,
+      skipped: progress.skipped,
+      failed: progress.failed,
+    });
+    console.log(`[Reencryption] Job ${job.job_id} completed: ${progress.upgraded} upgraded, ${progress.failed} failed`);
+  } catch (error) {
+    console.error(`[Reencryption] Job ${job.job_id} failed at diary ${cursor}:`, error);
+    await failJob(job.job_id, error);
+    throw error;
+  }
+
+  return getJob<ReencryptionProgress>(job.job_id);
+}
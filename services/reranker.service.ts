@@ -4,28 +4,16 @@
  * Improves RAG quality by selecting the most contextually relevant diaries
  */
 
-import OpenAI from 'openai';
 import { DiarySearchResult } from './embedding.service';
+import { getLLMProvider } from './llm-provider';
+import { UserTimeSettings, DEFAULT_TIME_SETTINGS } from './user-settings.service';
+import { formatDateForUser } from '../util/timezone';
 
 // Reranker configuration
 const RERANKER_MODEL = 'gpt-4o-mini';
 const MAX_DIARIES_TO_RERANK = 10;
 const TOP_K_AFTER_RERANK = 3;
 
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
 export interface RerankResult {
   diary: DiarySearchResult;
   relevanceScore: number;
@@ -47,12 +35,14 @@ export interface RerankResponse {
  * @param query - The user's query
  * @param diaries - Retrieved diary entries from vector search
  * @param topK - Number of top results to return after reranking
+ * @param settings - The user's time zone and locale for diary dates in the prompt
  * @returns Reranked diary entries with relevance scores
  */
 export async function rerankDiaries(
   query: string,
   diaries: DiarySearchResult[],
-  topK: number = TOP_K_AFTER_RERANK
+  topK: number = TOP_K_AFTER_RERANK,
+  settings: UserTimeSettings = DEFAULT_TIME_SETTINGS
 ): Promise<RerankResult[]> {
   // Skip reranking if too few diaries
   if (diaries.length <= topK) {
@@ -67,13 +57,9 @@ export async function rerankDiaries(
   const diariesToRerank = diaries.slice(0, MAX_DIARIES_TO_RERANK);
 
   try {
-    const openai = getOpenAIClient();
-
     // Build diary summaries for the prompt
     const diarySummaries = diariesToRerank.map((diary, index) => {
-      const dateStr = diary.date instanceof Date
-        ? diary.date.toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' })
-        : new Date(diary.date).toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' });
+      const dateStr = formatDateForUser(diary.date, settings);
       
       // Truncate content for efficiency
       const truncatedContent = diary.content.length > 300
@@ -86,9 +72,8 @@ export async function rerankDiaries(
 내용: ${truncatedContent}`;
     }).join('\n\n');
 
-    const response = await openai.chat.completions.create({
-      model: RERANKER_MODEL,
-      messages: [
+    const rerankResponse = await getLLMProvider().structured<RerankResponse>(
+      [
         {
           role: 'system',
           content: `당신은 일기 관련성 평가 전문가입니다. 사용자의 질문과 일기 내용을 비교하여 관련성을 평가합니다.
@@ -117,48 +102,44 @@ ${diarySummaries}
 각 일기에 대해 1-10점 사이의 관련성 점수와 간단한 이유를 JSON 형식으로 응답해주세요.`
         }
       ],
-      response_format: {
-        type: 'json_schema',
-        json_schema: {
-          name: 'rerank_response',
-          strict: true,
-          schema: {
-            type: 'object',
-            properties: {
-              rankings: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    diaryId: {
-                      type: 'number',
-                      description: '일기 ID'
-                    },
-                    relevanceScore: {
-                      type: 'number',
-                      description: '관련성 점수 (1-10)'
-                    },
-                    reason: {
-                      type: 'string',
-                      description: '점수 부여 이유 (한 문장)'
-                    }
+      {
+        model: RERANKER_MODEL,
+        schemaName: 'rerank_response',
+        schema: {
+          type: 'object',
+          properties: {
+            rankings: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  diaryId: {
+                    type: 'number',
+                    description: '일기 ID'
                   },
-                  required: ['diaryId', 'relevanceScore', 'reason'],
-                  additionalProperties: false
-                }
+                  relevanceScore: {
+                    type: 'number',
+                    description: '관련성 점수 (1-10)'
+                  },
+                  reason: {
+                    type: 'string',
+                    description: '점수 부여 이유 (한 문장)'
+                  }
+                },
+                required: ['diaryId', 'relevanceScore', 'reason'],
+                additionalProperties: false
               }
-            },
-            required: ['rankings'],
-            additionalProperties: false
-          }
-        }
-      },
-      temperature: 0.3,
-      max_tokens: 1000,
-    });
+            }
+          },
+          required: ['rankings'],
+          additionalProperties: false
+        },
+        temperature: 0.3,
+        maxTokens: 1000,
+      }
+    );
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
+    if (!rerankResponse) {
       console.warn('[Reranker] Empty response, falling back to vector scores');
       return diaries.slice(0, topK).map(diary => ({
         diary,
@@ -167,8 +148,6 @@ ${diarySummaries}
       }));
     }
 
-    const rerankResponse: RerankResponse = JSON.parse(content);
-
     // Create a map of diary_id to ranking info
     const rankingMap = new Map<number, { score: number; reason: string }>();
     for (const ranking of rerankResponse.rankings) {
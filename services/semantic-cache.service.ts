@@ -6,6 +6,7 @@
 
 import prisma from '../db';
 import { createEmbedding } from './embedding.service';
+import { PRIMARY_EMBEDDING_MODEL, vectorType } from './embedding-models';
 
 // Cache configuration
 const SIMILARITY_THRESHOLD = 0.92; // 92% similarity required for cache hit
@@ -46,6 +47,7 @@ export async function searchCache(
     // Get or compute embedding
     const embedding = queryEmbedding || await createEmbedding(query);
     const embeddingStr = `[${embedding.join(',')}]`;
+    const vector = vectorType(PRIMARY_EMBEDDING_MODEL);
     
     // Calculate TTL cutoff
     const ttlCutoff = new Date();
@@ -68,12 +70,13 @@ export async function searchCache(
         response,
         diary_ids,
         created_at,
-        1 - (query_embedding <=> ${embeddingStr}::vector) as similarity
+        1 - (query_embedding::${vector} <=> ${embeddingStr}::${vector}) as similarity
       FROM semantic_cache
       WHERE user_id = ${userId}
+        AND model = ${PRIMARY_EMBEDDING_MODEL.model}
         AND created_at > ${ttlCutoff}
-        AND 1 - (query_embedding <=> ${embeddingStr}::vector) >= ${SIMILARITY_THRESHOLD}
-      ORDER BY query_embedding <=> ${embeddingStr}::vector ASC
+        AND 1 - (query_embedding::${vector} <=> ${embeddingStr}::${vector}) >= ${SIMILARITY_THRESHOLD}
+      ORDER BY query_embedding::${vector} <=> ${embeddingStr}::${vector} ASC
       LIMIT 1
     `;
     
@@ -133,8 +136,8 @@ export async function storeInCache(
     
     // Insert into cache
     await prisma.$executeRaw`
-      INSERT INTO semantic_cache (user_id, query, query_embedding, response, diary_ids, created_at)
-      VALUES (${userId}, ${query}, ${embeddingStr}::vector, ${response}, ${diaryIds}::integer[], NOW())
+      INSERT INTO semantic_cache (user_id, query, model, query_embedding, response, diary_ids, created_at)
+      VALUES (${userId}, ${query}, ${PRIMARY_EMBEDDING_MODEL.model}, ${embeddingStr}::vector, ${response}, ${diaryIds}::integer[], NOW())
     `;
     
     console.log(`[SemanticCache] Stored response for user ${userId}`);
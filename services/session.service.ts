@@ -5,27 +5,15 @@
  */
 
 import prisma from '../db';
-import OpenAI from 'openai';
+import { getLLMProvider } from './llm-provider';
+import { getUserTimeSettings } from './user-settings.service';
+import { startOfLocalDay } from '../util/timezone';
 
 // Message summarization configuration
 const SUMMARIZATION_THRESHOLD = 10;
 const SUMMARY_MODEL = 'gpt-4o-mini';
 const SUMMARY_MAX_TOKENS = 500;
 
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    openaiClient = new OpenAI({ apiKey });
-  }
-  return openaiClient;
-}
-
 export interface Message {
   message_id: string;
   session_id: string;
@@ -43,6 +31,7 @@ export interface ChatSession {
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null;
   messages?: Message[];
 }
 
@@ -53,15 +42,16 @@ export interface ChatSession {
  * @returns The chat session (existing from today or newly created)
  */
 export async function getOrCreateSession(userId: number): Promise<ChatSession> {
-  // Get the start of today (midnight)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  // Get the start of today (midnight in the user's time zone)
+  const { timeZone } = await getUserTimeSettings(userId);
+  const today = startOfLocalDay(new Date(), timeZone);
 
   // Try to find an existing active session from today
   const existingSession = await prisma.chatSession.findFirst({
     where: {
       user_id: userId,
       is_active: true,
+      deleted_at: null,
       created_at: {
         gte: today,
       },
@@ -135,14 +125,14 @@ export async function createSession(userId: number, title?: string): Promise<Cha
  * Validates: Requirements 2.3
  * @param sessionId - The session ID
  * @param includeMessages - Whether to include messages
- * @returns The chat session or null if not found
+ * @returns The chat session or null if not found (or in the trash)
  */
 export async function getSessionById(
   sessionId: string,
   includeMessages: boolean = false
 ): Promise<ChatSession | null> {
   const session = await prisma.chatSession.findUnique({
-    where: { session_id: sessionId },
+    where: { session_id: sessionId, deleted_at: null },
     include: includeMessages ? { messages: { orderBy: { created_at: 'asc' } } } : undefined,
   });
 
@@ -179,7 +169,7 @@ export async function getSessionById(
  */
 export async function getUserSessions(userId: number): Promise<ChatSession[]> {
   const sessions = await prisma.chatSession.findMany({
-    where: { user_id: userId },
+    where: { user_id: userId, deleted_at: null },
     orderBy: { updated_at: 'desc' },
   });
 
@@ -310,10 +300,8 @@ export async function summarizeOldMessages(sessionId: string): Promise<string |
     .join('\n');
 
   // Generate summary using LLM
-  const openai = getOpenAIClient();
-  const response = await openai.chat.completions.create({
-    model: SUMMARY_MODEL,
-    messages: [
+  const response = await getLLMProvider().chat(
+    [
       {
         role: 'system',
         content: `당신은 대화 요약 전문가입니다. 다음 대화 내용을 간결하게 요약해주세요.
@@ -328,11 +316,14 @@ export async function summarizeOldMessages(sessionId: string): Promise<string |
         content: conversationText,
       },
     ],
-    temperature: 0.3,
-    max_tokens: SUMMARY_MAX_TOKENS,
-  });
+    {
+      model: SUMMARY_MODEL,
+      temperature: 0.3,
+      maxTokens: SUMMARY_MAX_TOKENS,
+    }
+  );
 
-  const summary = response.choices[0]?.message?.content || '';
+  const summary = response.content || '';
 
   // Update the session with the summary
   await prisma.chatSession.update({
@@ -362,14 +353,15 @@ export async function needsSummarization(sessionId: string): Promise<boolean> {
 }
 
 /**
- * Deletes a chat session and all its messages
+ * Moves a chat session to the trash (messages are kept until it is purged)
  * @param sessionId - The session ID
- * @returns True if the session was deleted
+ * @returns True if the session was moved to the trash
  */
 export async function deleteSession(sessionId: string): Promise<boolean> {
   try {
-    await prisma.chatSession.delete({
-      where: { session_id: sessionId },
+    await prisma.chatSession.update({
+      where: { session_id: sessionId, deleted_at: null },
+      data: { deleted_at: new Date() },
     });
     return true;
   } catch {
@@ -377,6 +369,56 @@ export async function deleteSession(sessionId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Gets a user's trashed sessions, most recently deleted first
+ * @param userId - The authenticated user's ID
+ * @returns Array of trashed chat sessions
+ */
+export async function getTrashedSessions(userId: number): Promise<ChatSession[]> {
+  const sessions = await prisma.chatSession.findMany({
+    where: { user_id: userId, deleted_at: { not: null } },
+    orderBy: { deleted_at: 'desc' },
+  });
+
+  return sessions.map((s) => ({
+    session_id: s.session_id,
+    user_id: s.user_id,
+    title: s.title,
+    summary: s.summary,
+    is_active: s.is_active,
+    created_at: s.created_at,
+    updated_at: s.updated_at,
+    deleted_at: s.deleted_at,
+  }));
+}
+
+/**
+ * Restores a trashed session owned by the user
+ * @param sessionId - The session ID
+ * @param userId - The authenticated user's ID
+ * @returns True if a trashed session was restored
+ */
+export async function restoreSession(sessionId: string, userId: number): Promise<boolean> {
+  const { count } = await prisma.chatSession.updateMany({
+    where: { session_id: sessionId, user_id: userId, deleted_at: { not: null } },
+    data: { deleted_at: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Permanently deletes a trashed session owned by the user and all its messages
+ * @param sessionId - The session ID
+ * @param userId - The authenticated user's ID
+ * @returns True if a trashed session was deleted
+ */
+export async function purgeSession(sessionId: string, userId: number): Promise<boolean> {
+  const { count } = await prisma.chatSession.deleteMany({
+    where: { session_id: sessionId, user_id: userId, deleted_at: { not: null } },
+  });
+  return count > 0;
+}
+
 /**
  * Deactivates a session (soft delete)
  * @param sessionId - The session ID
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+/**
+ * Writing Streak Tests
+ * Property-based tests for streak computation on the user's calendar days
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    diary: { findMany: vi.fn() },
+  },
+}));
+
+import prisma from '../db';
+import { computeStreaks, getUserStreaks } from './streak.service';
+import { toLocalDay, isValidTimeZone } from '../util/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-15T03:00:00Z'); // 2026-03-15 12:00 in Asia/Seoul
+
+const timeZoneArbitrary = fc.constantFrom('Asia/Seoul', 'UTC', 'America/Los_Angeles', 'Pacific/Kiritimati');
+
+const dateArbitrary = fc
+  .integer({
+    min: new Date('2025-12-01T00:00:00Z').getTime(),
+    max: new Date('2026-03-20T00:00:00Z').getTime(),
+  })
+  .map((timestamp) => new Date(timestamp));
+
+const datesArbitrary = fc.array(dateArbitrary, { minLength: 0, maxLength: 60 });
+
+describe('Streak computation', () => {
+  it('should partition the distinct writing days into runs', () => {
+    fc.assert(
+      fc.property(datesArbitrary, timeZoneArbitrary, (dates, timeZone) => {
+        const result = computeStreaks(dates, timeZone, NOW);
+        const distinctDays = new Set(dates.map((date) => toLocalDay(date, timeZone)));
+
+        // Property: every writing day belongs to exactly one run
+        expect(result.streaks.reduce((sum, run) => sum + run.consecutive_days, 0)).toBe(distinctDays.size);
+        expect(result.calendar.map((day) => day.date)).toEqual([...distinctDays].sort());
+        expect(result.calendar.reduce((sum, day) => sum + day.count, 0)).toBe(dates.length);
+
+        // Property: runs are separated by at least one day without a diary
+        for (let i = 1; i < result.streaks.length; i++) {
+          const gap = Date.parse(result.streaks[i].start_date) - Date.parse(result.streaks[i - 1].end_date);
+          expect(gap).toBeGreaterThan(DAY_MS);
+        }
+
+        // Property: the longest streak bounds every run and the current streak
+        for (const run of result.streaks) {
+          expect(run.consecutive_days).toBeLessThanOrEqual(result.longest_streak);
+        }
+        expect(result.current_streak).toBeLessThanOrEqual(result.longest_streak);
+
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should not change when diaries are reordered or written several times a day', () => {
+    fc.assert(
+      fc.property(
+        fc.array(dateArbitrary, { minLength: 1, maxLength: 40 }),
+        fc.array(fc.integer({ min: 0, max: 60 * 60 * 1000 }), { minLength: 1, maxLength: 40 }),
+        timeZoneArbitrary,
+        (dates, offsets, timeZone) => {
+          const base = computeStreaks(dates, timeZone, NOW);
+
+          // A second diary on the same local day (the same instant when earlier would cross midnight)
+          const extra = dates.map((date, i) => {
+            const earlier = new Date(date.getTime() - offsets[i % offsets.length]);
+            return toLocalDay(earlier, timeZone) === toLocalDay(date, timeZone) ? earlier : date;
+          });
+          const withDuplicates = computeStreaks([...extra, ...dates].reverse(), timeZone, NOW);
+
+          // Property: only calendar counts depend on how many diaries a day has
+          expect(withDuplicates.streaks).toEqual(base.streaks);
+          expect(withDuplicates.current_streak).toBe(base.current_streak);
+          expect(withDuplicates.longest_streak).toBe(base.longest_streak);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should count an unbroken run ending today or yesterday as the current streak', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 60 }),
+        fc.integer({ min: 0, max: 3 }),
+        timeZoneArbitrary,
+        (length, daysAgo, timeZone) => {
+          const dates = Array.from(
+            { length },
+            (_, i) => new Date(NOW.getTime() - (daysAgo + i) * DAY_MS)
+          );
+
+          const result = computeStreaks(dates, timeZone, NOW);
+
+          // Property: a streak survives until the end of the day after the last diary
+          expect(result.current_streak).toBe(daysAgo <= 1 ? length : 0);
+          expect(result.longest_streak).toBe(length);
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should assign diaries written after midnight KST to the Korean day', () => {
+    const dates = [
+      new Date('2026-03-12T14:00:00Z'), // 03-12 23:00 KST
+      new Date('2026-03-12T15:30:00Z'), // 03-13 00:30 KST (still 03-12 in UTC)
+      new Date('2026-03-14T01:00:00Z'), // 03-14 10:00 KST
+      new Date('2026-03-14T16:00:00Z'), // 03-15 01:00 KST
+    ];
+
+    const seoul = computeStreaks(dates, 'Asia/Seoul', NOW);
+    const utc = computeStreaks(dates, 'UTC', NOW);
+
+    expect(seoul.streaks).toEqual([{ start_date: '2026-03-12', end_date: '2026-03-15', consecutive_days: 4 }]);
+    expect(seoul.current_streak).toBe(4);
+    expect(utc.streaks).toEqual([
+      { start_date: '2026-03-12', end_date: '2026-03-12', consecutive_days: 1 },
+      { start_date: '2026-03-14', end_date: '2026-03-14', consecutive_days: 1 },
+    ]);
+  });
+
+  it('should not let future-dated diaries extend the current streak', () => {
+    const dates = [0, 1, 2, 3].map((i) => new Date(NOW.getTime() + (i - 1) * DAY_MS));
+
+    const result = computeStreaks(dates, 'Asia/Seoul', NOW);
+
+    expect(result.longest_streak).toBe(4);
+    expect(result.current_streak).toBe(2);
+  });
+
+  it('should return empty streaks for users without diaries', () => {
+    expect(computeStreaks([], 'Asia/Seoul', NOW)).toMatchObject({
+      today: '2026-03-15',
+      current_streak: 0,
+      longest_streak: 0,
+      streaks: [],
+      calendar: [],
+    });
+  });
+
+  it('should load only diaries that are not in the trash', async () => {
+    vi.mocked(prisma.diary.findMany).mockResolvedValueOnce([{ date: new Date('2026-03-14T16:00:00Z') }] as any);
+
+    const result = await getUserStreaks(7, 'Asia/Seoul', NOW);
+
+    expect(prisma.diary.findMany).toHaveBeenCalledWith({
+      where: { user_id: 7, deleted_at: null },
+      select: { date: true },
+    });
+    expect(result.current_streak).toBe(1);
+  });
+
+  it('should validate IANA time zones', () => {
+    expect(isValidTimeZone('Asia/Seoul')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Streak Service
+ * Writing streaks computed on the user's calendar days.
+ *
+ * Each diary's timestamp is converted to a day (YYYY-MM-DD) in the user's time zone, days
+ * with several diaries count once, and runs of consecutive days form streaks. The current
+ * streak is the run ending today, or yesterday when nothing has been written yet today.
+ */
+
+import prisma from '../db';
+import { DEFAULT_TIMEZONE, toLocalDay } from '../util/timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StreakRun {
+  start_date: string;
+  end_date: string;
+  consecutive_days: number;
+}
+
+export interface CalendarDay {
+  date: string;
+  count: number;
+}
+
+export interface StreakSummary {
+  timezone: string;
+  today: string;
+  current_streak: number;
+  longest_streak: number;
+  streaks: StreakRun[];
+  calendar: CalendarDay[];
+}
+
+// Day number since the epoch, so consecutive days differ by exactly 1
+function dayNumber(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date) / DAY_MS;
+}
+
+/**
+ * Computes streaks and per-day counts from diary timestamps
+ * @param dates - Diary timestamps (any order, duplicates allowed)
+ * @param timeZone - IANA time zone of the user
+ * @param now - Reference time for the current streak
+ */
+export function computeStreaks(dates: Date[], timeZone: string, now: Date = new Date()): StreakSummary {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    const day = toLocalDay(date, timeZone);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+
+  const days = [...counts.keys()].sort();
+  const streaks: StreakRun[] = [];
+
+  for (const day of days) {
+    const last = streaks[streaks.length - 1];
+    if (last && dayNumber(day) - dayNumber(last.end_date) === 1) {
+      last.end_date = day;
+      last.consecutive_days++;
+    } else {
+      streaks.push({ start_date: day, end_date: day, consecutive_days: 1 });
+    }
+  }
+
+  const today = toLocalDay(now, timeZone);
+  // Future-dated diaries (e.g. imported) do not extend the current streak past today
+  const active = streaks.find(
+    (run) => run.start_date <= today && dayNumber(today) - dayNumber(run.end_date) <= 1
+  );
+  const current = active
+    ? Math.min(dayNumber(today), dayNumber(active.end_date)) - dayNumber(active.start_date) + 1
+    : 0;
+
+  return {
+    timezone: timeZone,
+    today,
+    current_streak: current,
+    longest_streak: Math.max(0, ...streaks.map((run) => run.consecutive_days)),
+    streaks,
+    calendar: days.map((date) => ({ date, count: counts.get(date)! })),
+  };
+}
+
+/**
+ * Computes a user's writing streaks (trashed diaries are not counted)
+ * @param userId - The user
+ * @param timeZone - IANA time zone used to assign diaries to days
+ */
+export async function getUserStreaks(
+  userId: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): Promise<StreakSummary> {
+  const diaries = await prisma.diary.findMany({
+    where: { user_id: userId, deleted_at: null },
+    select: { date: true },
+  });
+
+  return computeStreaks(diaries.map((diary) => diary.date), timeZone, now);
+}
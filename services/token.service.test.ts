@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Refresh Token Rotation Tests
+ * Refresh tokens are single-use; reusing one revokes the whole session (token family).
+ */
+
+vi.mock('../db', () => {
+  const prisma = {
+    authSession: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    refreshToken: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      create: vi.fn(),
+    },
+    loginCode: {
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    $transaction: vi.fn(async (fn: (tx: any) => Promise<any>) => fn(prisma)),
+  };
+  return { default: prisma };
+});
+
+import prisma from '../db';
+import {
+  startSession,
+  refreshSession,
+  createLoginCode,
+  exchangeLoginCode,
+  hashToken,
+  isSessionActive,
+  JWT_SECRET,
+} from './token.service';
+
+const user = { user_id: 7, username: 'minji', profile_name: '민지' };
+
+function storedToken(overrides: Record<string, any> = {}) {
+  return {
+    token_id: 'token-1',
+    session_id: 'session-1',
+    token_hash: hashToken('old-token'),
+    expires_at: new Date(Date.now() + 60_000),
+    used_at: null,
+    created_at: new Date(),
+    session: {
+      session_id: 'session-1',
+      user_id: 7,
+      revoked_at: null,
+      user,
+    },
+    ...overrides,
+  };
+}
+
+describe('Token service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should store only the hash of the refresh token and bind the access token to the session', async () => {
+    vi.mocked(prisma.authSession.create).mockResolvedValueOnce({ session_id: 'session-1' } as any);
+
+    const tokens = await startSession(user, 'test-agent');
+
+    const data = vi.mocked(prisma.authSession.create).mock.calls[0][0].data as any;
+    expect(data.refreshTokens.create.token_hash).toBe(hashToken(tokens.refreshToken));
+    expect(JSON.stringify(data)).not.toContain(tokens.refreshToken);
+    expect(jwt.verify(tokens.accessToken, JWT_SECRET)).toMatchObject({ userId: 7, profileName: '민지', sid: 'session-1' });
+  });
+
+  it('should rotate an unused refresh token', async () => {
+    vi.mocked(prisma.refreshToken.findUnique).mockResolvedValueOnce(storedToken() as any);
+    vi.mocked(prisma.refreshToken.updateMany).mockResolvedValueOnce({ count: 1 });
+
+    const result = await refreshSession('old-token');
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.tokens.refreshToken).not.toBe('old-token');
+    expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ session_id: 'session-1', token_hash: hashToken(result.tokens.refreshToken) }),
+    });
+    expect(prisma.authSession.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the whole session when a used refresh token is presented again', async () => {
+    vi.mocked(prisma.refreshToken.findUnique).mockResolvedValueOnce(storedToken({ used_at: new Date() }) as any);
+
+    const result = await refreshSession('old-token');
+
+    expect(result.status).toBe('reused');
+    expect(prisma.authSession.updateMany).toHaveBeenCalledWith({
+      where: { session_id: 'session-1', revoked_at: null },
+      data: expect.objectContaining({ revoked_reason: 'refresh_token_reuse' }),
+    });
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('should treat losing a concurrent refresh race as reuse', async () => {
+    vi.mocked(prisma.refreshToken.findUnique).mockResolvedValueOnce(storedToken() as any);
+    vi.mocked(prisma.refreshToken.updateMany).mockResolvedValueOnce({ count: 0 });
+
+    const result = await refreshSession('old-token');
+
+    expect(result.status).toBe('reused');
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject expired, unknown and revoked refresh tokens', async () => {
+    vi.mocked(prisma.refreshToken.findUnique)
+      .mockResolvedValueOnce(storedToken({ expires_at: new Date(Date.now() - 1000) }) as any)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(
+        storedToken({ session: { ...storedToken().session, revoked_at: new Date() } }) as any
+      );
+
+    expect((await refreshSession('old-token')).status).toBe('expired');
+    expect((await refreshSession('unknown')).status).toBe('invalid');
+    expect((await refreshSession('old-token')).status).toBe('revoked');
+    expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should report revoked sessions as inactive', async () => {
+    vi.mocked(prisma.authSession.findUnique)
+      .mockResolvedValueOnce({ revoked_at: null } as any)
+      .mockResolvedValueOnce({ revoked_at: new Date() } as any)
+      .mockResolvedValueOnce(null);
+
+    expect(await isSessionActive('a')).toBe(true);
+    expect(await isSessionActive('b')).toBe(false);
+    expect(await isSessionActive('c')).toBe(false);
+  });
+
+  it('should store only the hash of a login code and start the session when it is exchanged', async () => {
+    const code = await createLoginCode(user, 'kakao-agent');
+
+    const data = vi.mocked(prisma.loginCode.create).mock.calls[0][0].data as any;
+    expect(data).toMatchObject({ user_id: 7, code_hash: hashToken(code), user_agent: 'kakao-agent' });
+    expect(JSON.stringify(data)).not.toContain(code);
+
+    vi.mocked(prisma.loginCode.updateMany).mockResolvedValueOnce({ count: 1 });
+    vi.mocked(prisma.loginCode.findUnique).mockResolvedValueOnce({ ...data, user } as any);
+    vi.mocked(prisma.authSession.create).mockResolvedValueOnce({ session_id: 'session-2' } as any);
+
+    const result = await exchangeLoginCode(code);
+
+    expect(result?.userId).toBe(7);
+    expect(jwt.verify(result!.tokens.accessToken, JWT_SECRET)).toMatchObject({ userId: 7, sid: 'session-2' });
+    expect(prisma.loginCode.updateMany).toHaveBeenCalledWith({
+      where: { code_hash: hashToken(code), used_at: null, expires_at: { gt: expect.any(Date) } },
+      data: { used_at: expect.any(Date) },
+    });
+  });
+
+  it('should not start a session for a used, expired or unknown login code', async () => {
+    vi.mocked(prisma.loginCode.updateMany).mockResolvedValueOnce({ count: 0 });
+
+    expect(await exchangeLoginCode('used-code')).toBeNull();
+    expect(prisma.loginCode.findUnique).not.toHaveBeenCalled();
+    expect(prisma.authSession.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Token Service
+ * Issues short-lived access tokens (JWT) and rotating refresh tokens bound to a login session.
+ *
+ * - Access tokens carry the session id in the `sid` claim; authenticateToken rejects
+ *   tokens whose session was revoked.
+ * - Refresh tokens are random, stored only as SHA-256 hashes and can be used once.
+ *   Refreshing marks the presented token used and issues its successor in the same session.
+ * - Presenting an already used refresh token means it was copied: the whole session
+ *   (token family) is revoked, logging out both the attacker and the victim.
+ * - Redirect-based logins (Kakao) hand the client a short-lived one-time login code instead
+ *   of tokens, so no token ends up in URLs, browser history or proxy logs.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../db';
+
+export const JWT_SECRET = (() => {
+  if (!process.env.JWT_SECRET) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET must be set in production');
+    }
+    return 'dev-jwt-secret-change-in-production';
+  }
+  return process.env.JWT_SECRET;
+})();
+
+// Token lifetimes
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 60 * 60;
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+const REFRESH_TOKEN_BYTES = 32;
+const LOGIN_CODE_TTL_SECONDS = 60;
+
+export interface AccessTokenPayload {
+  userId: number;
+  profileName: string;
+  sid?: string; // Absent on tokens issued before sessions existed
+}
+
+export interface TokenUser {
+  user_id: number;
+  profile_name?: string | null;
+  username: string;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  sessionId: string;
+}
+
+export type RevokeReason = 'logout' | 'refresh_token_reuse' | 'password_changed' | 'password_reset';
+
+export type RefreshResult =
+  | { status: 'ok'; tokens: IssuedTokens }
+  | { status: 'invalid' | 'expired' | 'revoked' | 'reused' };
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function signAccessToken(user: TokenUser, sessionId: string): string {
+  const payload: AccessTokenPayload = {
+    userId: user.user_id,
+    profileName: user.profile_name || user.username,
+    sid: sessionId,
+  };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+function createRefreshToken(): { token: string; hash: string; expiresAt: Date } {
+  const token = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  return { token, hash: hashToken(token), expiresAt };
+}
+
+/**
+ * Starts a login session and issues its first token pair
+ * @param user - The authenticated user
+ * @param userAgent - Client description shown in session lists (optional)
+ */
+export async function startSession(user: TokenUser, userAgent?: string): Promise<IssuedTokens> {
+  const refresh = createRefreshToken();
+
+  const session = await prisma.authSession.create({
+    data: {
+      user_id: user.user_id,
+      user_agent: userAgent?.slice(0, 255) ?? null,
+      refreshTokens: {
+        create: { token_hash: refresh.hash, expires_at: refresh.expiresAt },
+      },
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(user, session.session_id),
+    refreshToken: refresh.token,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId: session.session_id,
+  };
+}
+
+/**
+ * Creates a one-time login code for a redirect-based login
+ * The session is only started when the client exchanges the code (exchangeLoginCode).
+ * @returns The raw code (only its hash is stored)
+ */
+export async function createLoginCode(user: TokenUser, userAgent?: string): Promise<string> {
+  const code = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+
+  await prisma.loginCode.create({
+    data: {
+      user_id: user.user_id,
+      code_hash: hashToken(code),
+      user_agent: userAgent?.slice(0, 255) ?? null,
+      expires_at: new Date(Date.now() + LOGIN_CODE_TTL_SECONDS * 1000),
+    },
+  });
+
+  return code;
+}
+
+/**
+ * Exchanges a one-time login code for the session's first token pair
+ * The code is consumed atomically, so it can be exchanged at most once.
+ * @returns The issued tokens and the user, or null when the code is unknown, expired or used
+ */
+export async function exchangeLoginCode(
+  code: string
+): Promise<{ tokens: IssuedTokens; userId: number } | null> {
+  const codeHash = hashToken(code);
+  const { count } = await prisma.loginCode.updateMany({
+    where: { code_hash: codeHash, used_at: null, expires_at: { gt: new Date() } },
+    data: { used_at: new Date() },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  const stored = await prisma.loginCode.findUnique({
+    where: { code_hash: codeHash },
+    include: { user: true },
+  });
+  if (!stored) {
+    return null;
+  }
+
+  const tokens = await startSession(stored.user, stored.user_agent ?? undefined);
+  return { tokens, userId: stored.user_id };
+}
+
+/**
+ * Exchanges a refresh token for a new token pair (rotation)
+ * The presented token is consumed atomically, so two concurrent refreshes with the same
+ * token cannot both succeed; the loser is treated as reuse.
+ */
+export async function refreshSession(refreshToken: string): Promise<RefreshResult> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(refreshToken) },
+    include: { session: { include: { user: true } } },
+  });
+
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  const { session } = stored;
+
+  if (session.revoked_at) {
+    return { status: 'revoked' };
+  }
+
+  if (stored.used_at) {
+    await revokeSession(session.session_id, 'refresh_token_reuse');
+    console.warn(`[Token] Refresh token reuse detected, revoked session ${session.session_id} of user ${session.user_id}`);
+    return { status: 'reused' };
+  }
+
+  if (stored.expires_at <= new Date()) {
+    return { status: 'expired' };
+  }
+
+  const next = createRefreshToken();
+
+  const consumed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.refreshToken.updateMany({
+      where: { token_id: stored.token_id, used_at: null },
+      data: { used_at: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.refreshToken.create({
+      data: { session_id: session.session_id, token_hash: next.hash, expires_at: next.expiresAt },
+    });
+    await tx.authSession.update({
+      where: { session_id: session.session_id },
+      data: { last_used_at: new Date() },
+    });
+    return true;
+  });
+
+  if (!consumed) {
+    await revokeSession(session.session_id, 'refresh_token_reuse');
+    console.warn(`[Token] Concurrent refresh token reuse, revoked session ${session.session_id}`);
+    return { status: 'reused' };
+  }
+
+  return {
+    status: 'ok',
+    tokens: {
+      accessToken: signAccessToken(session.user, session.session_id),
+      refreshToken: next.token,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session.session_id,
+    },
+  };
+}
+
+/**
+ * Finds the session a refresh token belongs to (for logout without a valid access token)
+ */
+export async function findSessionIdByRefreshToken(refreshToken: string): Promise<string | null> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { token_hash: hashToken(refreshToken) },
+    select: { session_id: true },
+  });
+  return stored?.session_id ?? null;
+}
+
+/**
+ * Revokes a session; its access and refresh tokens stop working immediately
+ */
+export async function revokeSession(sessionId: string, reason: RevokeReason): Promise<void> {
+  await prisma.authSession.updateMany({
+    where: { session_id: sessionId, revoked_at: null },
+    data: { revoked_at: new Date(), revoked_reason: reason },
+  });
+}
+
+/**
+ * Revokes every session of a user, optionally keeping the current one
+ * @returns Number of revoked sessions
+ */
+export async function revokeAllUserSessions(
+  userId: number,
+  reason: RevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const { count } = await prisma.authSession.updateMany({
+    where: {
+      user_id: userId,
+      revoked_at: null,
+      ...(exceptSessionId && { session_id: { not: exceptSessionId } }),
+    },
+    data: { revoked_at: new Date(), revoked_reason: reason },
+  });
+  return count;
+}
+
+/**
+ * Checks that a session exists and was not revoked
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const session = await prisma.authSession.findUnique({
+    where: { session_id: sessionId },
+    select: { revoked_at: true },
+  });
+  return session !== null && session.revoked_at === null;
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { z } from 'zod';
+import { ToolRegistry, defineTool, DATE_FILTERS } from './tool-registry';
+import { getCalendarPeriod } from '../util/timezone';
+
+/**
+ * Tool registry
+ * Function specs are derived from each tool's zod schema, and the model's arguments are
+ * validated against the same schema before execute ever runs.
+ */
+
+function createRegistry() {
+  const search = vi.fn(async () => ({ success: true }));
+  const remind = vi.fn(async () => ({ success: true }));
+
+  const registry = new ToolRegistry([
+    defineTool({
+      name: 'search',
+      description: '일기 검색',
+      inputSchema: z.object({
+        query: z.string().describe('검색어'),
+        limit: z.number().int().min(1).max(10).optional(),
+      }),
+      requiresDiaries: true,
+      dateRange: 'optional',
+      execute: search,
+    }),
+    defineTool({
+      name: 'remind',
+      description: '알림 설정',
+      inputSchema: z.object({
+        mood: z.enum(['happy', 'sad']),
+        tags: z.array(z.string()).default([]),
+      }),
+      execute: remind,
+    }),
+  ]);
+
+  return { registry, search, remind };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ToolRegistry.toFunctionSpecs', () => {
+  it('should derive the parameters from the zod schema', () => {
+    const { registry } = createRegistry();
+
+    expect(registry.toFunctionSpecs()).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'search',
+          description: '일기 검색',
+          parameters: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', description: '검색어' },
+              limit: { type: 'integer' },
+              dateFilter: { type: 'string', enum: [...DATE_FILTERS, 'all'], description: '날짜 필터 (선택사항)' },
+            },
+            required: ['query'],
+          },
+        },
+      },
+      {
+        type: 'function',
+        function: {
+          name: 'remind',
+          description: '알림 설정',
+          parameters: {
+            type: 'object',
+            properties: {
+              mood: { type: 'string', enum: ['happy', 'sad'] },
+              tags: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['mood'],
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should leave out tools that need diaries when the user has none', () => {
+    const { registry } = createRegistry();
+
+    expect(registry.toFunctionSpecs({ hasDiaries: false }).map((spec) => spec.function.name)).toEqual(['remind']);
+    expect(registry.toFunctionSpecs({ hasDiaries: true })).toHaveLength(2);
+  });
+
+  it('should reject duplicate tool names', () => {
+    const { registry } = createRegistry();
+
+    expect(() => registry.register(registry.get('search')!)).toThrow('Tool already registered: search');
+  });
+});
+
+describe('ToolRegistry.execute', () => {
+  const context = { userId: 1, hasDiaries: true };
+
+  it('should return invalid arguments to the model without running the tool', async () => {
+    const { registry, search, remind } = createRegistry();
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.oneof(
+          fc.constant(['search', '{"query": 3}'] as const),
+          fc.constant(['search', '{"query": "산책", "limit": 11}'] as const),
+          fc.constant(['search', '{"query": "산책", "dateFilter": "tomorrow"}'] as const),
+          fc.constant(['remind', '{"mood": "angry"}'] as const),
+          fc.constant(['remind', '{not json'] as const)
+        ),
+        async ([name, rawArguments]) => {
+          const result = await registry.execute(name, rawArguments, context);
+
+          // Property: execute only ever sees arguments that match the schema
+          expect(result).toMatchObject({ success: false, message: expect.stringContaining('Invalid arguments') });
+          expect(search).not.toHaveBeenCalled();
+          expect(remind).not.toHaveBeenCalled();
+
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should pass parsed arguments with defaults applied', async () => {
+    const { registry, remind } = createRegistry();
+
+    await registry.execute('remind', '{"mood": "happy", "extra": true}', context);
+
+    expect(remind).toHaveBeenCalledWith({ mood: 'happy', tags: [] }, { ...context, dateRange: null });
+  });
+
+  it('should resolve the date filter to calendar days in the user\'s time zone', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-15T16:30:00Z'));
+    const { registry, search } = createRegistry();
+    const timeSettings = { timeZone: 'America/Los_Angeles', locale: 'en-US' };
+
+    await registry.execute('search', '{"query": "산책", "dateFilter": "this_week"}', { ...context, timeSettings });
+
+    expect(search).toHaveBeenCalledWith(
+      { query: '산책' },
+      expect.objectContaining({ dateRange: getCalendarPeriod('this_week', 'America/Los_Angeles') })
+    );
+  });
+
+  it('should treat unknown and unavailable tools as failures', async () => {
+    const { registry, search } = createRegistry();
+
+    expect(await registry.execute('deleteEverything', '{}', context)).toEqual({
+      success: false,
+      message: 'Unknown tool: deleteEverything',
+    });
+    expect(await registry.execute('search', '{"query": "산책"}', { userId: 1, hasDiaries: false })).toMatchObject({
+      success: false,
+    });
+    expect(search).not.toHaveBeenCalled();
+  });
+});
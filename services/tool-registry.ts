@@ -0,0 +1,229 @@
+/**
+ * Tool Registry
+ * Chatbot tools are declared once (name, description, zod input schema, execute) and the
+ * registry derives the OpenAI function specs from the schemas, validates the model's
+ * arguments before execute, and dispatches calls by name.
+ *
+ * Tools can declare that they need the user to have diaries (hidden otherwise) and that
+ * they take a date range: the registry then adds a standard `dateFilter` parameter and
+ * resolves it to calendar days in the user's time zone before execute.
+ *
+ * Write tools also define `confirm`: their execute only proposes the change (see
+ * pending-action.service), and confirm performs it once the user accepts, inside the
+ * transaction that marks the proposal confirmed. Work that must see the committed change
+ * (e.g. embedding a saved diary) goes in `afterConfirm`.
+ */
+
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { FunctionTool } from './llm-provider';
+import { UserTimeSettings, DEFAULT_TIME_SETTINGS } from './user-settings.service';
+import { CalendarPeriod, DayRange, getCalendarPeriod } from '../util/timezone';
+
+/**
+ * Per-request context handed to every tool call
+ * Built per generateResponse call, so concurrent chats never share it.
+ */
+export interface ToolContext {
+  userId: number;
+  sessionId?: string; // Chat session the request came from
+  userName?: string;
+  timeSettings?: UserTimeSettings;
+  hasDiaries?: boolean;
+}
+
+export interface ToolExecutionContext extends ToolContext {
+  dateRange: DayRange | null; // Resolved dateFilter (null = all dates or not a date-range tool)
+}
+
+export const DATE_FILTERS = ['today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month'] as const;
+
+// 'optional' also accepts 'all'; 'required' makes the model pick a period
+export type DateRangeRequirement = 'optional' | 'required';
+
+export interface ToolDefinition<Schema extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  statusMessage?: string; // Shown to the user while the tool runs
+  inputSchema: Schema;
+  requiresDiaries?: boolean;
+  dateRange?: DateRangeRequirement;
+  execute: (args: z.infer<Schema>, context: ToolExecutionContext) => Promise<unknown>;
+  confirm?: (args: z.infer<Schema>, context: ToolContext, tx: Prisma.TransactionClient) => Promise<Record<string, unknown>>;
+  afterConfirm?: (result: Record<string, unknown>, args: z.infer<Schema>, context: ToolContext) => void;
+}
+
+export interface ToolFailure {
+  success: false;
+  message: string;
+}
+
+/**
+ * A write tool's change waiting for the user's confirmation
+ */
+export interface ProposedAction {
+  action_id: string;
+  tool: string;
+  payload: Record<string, unknown>;
+  expires_at: Date;
+}
+
+// Result a write tool returns to the model instead of writing
+export interface ActionProposal {
+  success: true;
+  awaitingConfirmation: true;
+  action: ProposedAction;
+  message: string;
+}
+
+export function isActionProposal(result: unknown): result is ActionProposal {
+  return (result as ActionProposal | null)?.awaitingConfirmation === true;
+}
+
+/**
+ * Declares a tool with its argument types inferred from the input schema
+ */
+export function defineTool<Schema extends z.AnyZodObject>(tool: ToolDefinition<Schema>): ToolDefinition<Schema> {
+  return tool;
+}
+
+function unwrap(schema: z.ZodTypeAny): { schema: z.ZodTypeAny; optional: boolean } {
+  let optional = false;
+  let current = schema;
+  while (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodDefault ||
+    current instanceof z.ZodNullable
+  ) {
+    optional = optional || !(current instanceof z.ZodNullable);
+    current = current instanceof z.ZodDefault ? current._def.innerType : current.unwrap();
+  }
+  return { schema: current, optional };
+}
+
+/**
+ * Converts the zod types used by tool schemas to JSON Schema (function parameters)
+ * Descriptions set with .describe() are kept; unsupported types throw so a new tool
+ * fails at startup instead of sending the model a wrong spec.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const { schema: inner } = unwrap(schema);
+  const description = schema.description ?? inner.description;
+  const withDescription = (json: Record<string, any>) => (description ? { ...json, description } : json);
+
+  if (inner instanceof z.ZodObject) {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(inner.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!unwrap(value).optional) required.push(key);
+    }
+    return withDescription({ type: 'object', properties, required });
+  }
+  if (inner instanceof z.ZodString) return withDescription({ type: 'string' });
+  if (inner instanceof z.ZodNumber) {
+    return withDescription({ type: inner.isInt ? 'integer' : 'number' });
+  }
+  if (inner instanceof z.ZodBoolean) return withDescription({ type: 'boolean' });
+  if (inner instanceof z.ZodEnum) return withDescription({ type: 'string', enum: [...inner.options] });
+  if (inner instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: zodToJsonSchema(inner.element) });
+  }
+
+  throw new Error(`Unsupported zod type in tool schema: ${inner._def.typeName}`);
+}
+
+/**
+ * A set of tools exposed to the model
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition<any>[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  register(tool: ToolDefinition<any>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  get names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  /**
+   * Full input schema of a tool, including the dateFilter parameter for date-range tools
+   */
+  private argumentSchema(tool: ToolDefinition): z.AnyZodObject {
+    if (!tool.dateRange) return tool.inputSchema;
+
+    const dateFilter =
+      tool.dateRange === 'required'
+        ? z.enum(DATE_FILTERS).describe('날짜 필터')
+        : z.enum([...DATE_FILTERS, 'all']).optional().describe('날짜 필터 (선택사항)');
+    return tool.inputSchema.extend({ dateFilter });
+  }
+
+  private isAvailable(tool: ToolDefinition, context: Pick<ToolContext, 'hasDiaries'>): boolean {
+    return !tool.requiresDiaries || context.hasDiaries !== false;
+  }
+
+  /**
+   * OpenAI function specs for the tools available in this context
+   */
+  toFunctionSpecs(context: Pick<ToolContext, 'hasDiaries'> = {}): FunctionTool[] {
+    return [...this.tools.values()]
+      .filter((tool) => this.isAvailable(tool, context))
+      .map((tool) => ({
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: zodToJsonSchema(this.argumentSchema(tool)),
+        },
+      }));
+  }
+
+  /**
+   * Validates the model's JSON arguments and runs the tool
+   * Unknown tools and invalid arguments are returned to the model as failures
+   * (not thrown) so it can correct the call.
+   */
+  async execute(name: string, rawArguments: string, context: ToolContext): Promise<unknown> {
+    const tool = this.tools.get(name);
+
+    if (!tool || !this.isAvailable(tool, context)) {
+      return { success: false, message: `Unknown tool: ${name}` } satisfies ToolFailure;
+    }
+
+    let json: unknown;
+    try {
+      json = rawArguments ? JSON.parse(rawArguments) : {};
+    } catch {
+      return { success: false, message: 'Invalid arguments: not valid JSON' } satisfies ToolFailure;
+    }
+
+    const parsed = this.argumentSchema(tool).safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+      return { success: false, message: `Invalid arguments: ${issues.join('; ')}` } satisfies ToolFailure;
+    }
+
+    const { dateFilter, ...args } = parsed.data;
+    const timeSettings = context.timeSettings ?? DEFAULT_TIME_SETTINGS;
+    const dateRange =
+      tool.dateRange && dateFilter && dateFilter !== 'all'
+        ? getCalendarPeriod(dateFilter as CalendarPeriod, timeSettings.timeZone)
+        : null;
+
+    return tool.execute(tool.dateRange ? args : parsed.data, { ...context, dateRange });
+  }
+}
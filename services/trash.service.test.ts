@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Trash Tests
+ * Only items deleted before the retention cutoff are purged.
+ */
+
+vi.mock('../db', () => ({
+  default: {
+    diary: { deleteMany: vi.fn() },
+    chatSession: { deleteMany: vi.fn() },
+  },
+}));
+
+import prisma from '../db';
+import { purgeExpiredTrash, getTrashPurgeDate, TRASH_RETENTION_DAYS } from './trash.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Trash purge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.diary.deleteMany).mockResolvedValue({ count: 2 });
+    vi.mocked(prisma.chatSession.deleteMany).mockResolvedValue({ count: 1 });
+  });
+
+  it('should purge diaries and sessions deleted before the retention period', async () => {
+    const now = new Date('2026-03-31T12:00:00Z');
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+
+    const result = await purgeExpiredTrash(now);
+
+    expect(result).toEqual({ diaries: 2, chatSessions: 1 });
+    expect(prisma.diary.deleteMany).toHaveBeenCalledWith({ where: { deleted_at: { lt: cutoff } } });
+    expect(prisma.chatSession.deleteMany).toHaveBeenCalledWith({ where: { deleted_at: { lt: cutoff } } });
+  });
+
+  it('should report the purge date of a trashed item', () => {
+    const deletedAt = new Date('2026-03-01T00:00:00Z');
+
+    expect(getTrashPurgeDate(deletedAt).getTime() - deletedAt.getTime()).toBe(TRASH_RETENTION_DAYS * DAY_MS);
+  });
+});
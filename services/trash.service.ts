@@ -0,0 +1,64 @@
+/**
+ * Trash Service
+ * Deleted diaries and chat sessions are only marked with deleted_at, so they can be restored.
+ * Every read path (lists, counts, streaks, search, RAG retrieval, exports) filters them out.
+ * Items are purged for good TRASH_RETENTION_DAYS after deletion; the purge runs on an
+ * interval in the API process and the database cascades take embeddings, emotion letters
+ * and chat messages with them.
+ */
+
+import prisma from '../db';
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const TRASH_PURGE_INTERVAL_HOURS = Number(process.env.TRASH_PURGE_INTERVAL_HOURS ?? 6);
+
+export interface TrashPurgeResult {
+  diaries: number;
+  chatSessions: number;
+}
+
+/**
+ * When a trashed item will be purged
+ */
+export function getTrashPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Permanently deletes items that have been in the trash longer than the retention period
+ * @param now - Reference time (for tests)
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<TrashPurgeResult> {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const [diaries, chatSessions] = await Promise.all([
+    prisma.diary.deleteMany({ where: { deleted_at: { lt: cutoff } } }),
+    prisma.chatSession.deleteMany({ where: { deleted_at: { lt: cutoff } } }),
+  ]);
+
+  if (diaries.count > 0 || chatSessions.count > 0) {
+    console.log(`[Trash] Purged ${diaries.count} diaries and ${chatSessions.count} chat sessions deleted before ${cutoff.toISOString()}`);
+  }
+  return { diaries: diaries.count, chatSessions: chatSessions.count };
+}
+
+/**
+ * Runs purgeExpiredTrash now and then every TRASH_PURGE_INTERVAL_HOURS
+ * Set TRASH_PURGE_INTERVAL_HOURS=0 to disable (e.g. when an external cron does it).
+ * @returns Stops the schedule
+ */
+export function scheduleTrashPurge(): () => void {
+  if (TRASH_PURGE_INTERVAL_HOURS <= 0) {
+    return () => {};
+  }
+
+  const run = () =>
+    purgeExpiredTrash().catch((error) => {
+      console.error('[Trash] Scheduled purge failed:', error);
+    });
+
+  run();
+  const timer = setInterval(run, TRASH_PURGE_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,34 @@
+/**
+ * User Settings Service
+ * Time zone and locale of a user, used by every date-based feature ("today",
+ * "this week", streaks, displayed dates) instead of the server's clock.
+ */
+
+import prisma from '../db';
+import { DEFAULT_TIMEZONE, DEFAULT_LOCALE, isValidTimeZone, isValidLocale } from '../util/timezone';
+
+export interface UserTimeSettings {
+  timeZone: string;
+  locale: string;
+}
+
+export const DEFAULT_TIME_SETTINGS: UserTimeSettings = {
+  timeZone: DEFAULT_TIMEZONE,
+  locale: DEFAULT_LOCALE,
+};
+
+/**
+ * Loads a user's time zone and locale
+ * Unknown users and values the runtime does not support fall back to the defaults.
+ */
+export async function getUserTimeSettings(userId: number): Promise<UserTimeSettings> {
+  const user = await prisma.user.findUnique({
+    where: { user_id: userId },
+    select: { timezone: true, locale: true },
+  });
+
+  return {
+    timeZone: isValidTimeZone(user?.timezone) ? user.timezone : DEFAULT_TIME_SETTINGS.timeZone,
+    locale: isValidLocale(user?.locale) ? user.locale : DEFAULT_TIME_SETTINGS.locale,
+  };
+}
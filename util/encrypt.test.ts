@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import crypto from 'crypto';
+import { encrypt, decrypt, isLegacyCiphertext } from './encrypt';
+
+/**
+ * Diary content encryption envelope
+ * v2 ciphertext round-trips, detects tampering, and legacy v1 (CBC) rows stay readable.
+ */
+
+const keyArbitrary = fc
+  .uint8Array({ minLength: 32, maxLength: 32 })
+  .map((bytes) => Buffer.from(bytes).toString('hex'));
+
+// Writes the pre-v2 "iv:ciphertext" CBC format
+function legacyEncrypt(text: string, key: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(key, 'hex'), iv);
+  return iv.toString('hex') + ':' + cipher.update(text, 'utf8', 'hex') + cipher.final('hex');
+}
+
+describe('encrypt/decrypt envelope', () => {
+  it('should round-trip any text through the v2 envelope', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 2000 }), keyArbitrary, (text, key) => {
+        const encrypted = encrypt(text, key);
+        expect(encrypted.startsWith('v2:')).toBe(true);
+        expect(isLegacyCiphertext(encrypted)).toBe(false);
+        expect(decrypt(encrypted, key)).toBe(text);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should still decrypt legacy v1 ciphertext', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 2000 }), keyArbitrary, (text, key) => {
+        const legacy = legacyEncrypt(text, key);
+        expect(isLegacyCiphertext(legacy)).toBe(true);
+        expect(decrypt(legacy, key)).toBe(text);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject tampered v2 ciphertext', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1, maxLength: 500 }),
+        keyArbitrary,
+        fc.nat(),
+        (text, key, position) => {
+          const [version, iv, tag, content] = encrypt(text, key).split(':');
+          const index = position % content.length;
+          const flipped = (parseInt(content[index], 16) ^ 1).toString(16);
+          const tampered = [
+            version,
+            iv,
+            tag,
+            content.slice(0, index) + flipped + content.slice(index + 1),
+          ].join(':');
+
+          expect(() => decrypt(tampered, key)).toThrow();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject v2 ciphertext decrypted with the wrong key', () => {
+    const text = '오늘은 좋은 하루였다.';
+    const encrypted = encrypt(text, crypto.randomBytes(32).toString('hex'));
+
+    expect(() => decrypt(encrypted, crypto.randomBytes(32).toString('hex'))).toThrow();
+  });
+
+  it('should reject a truncated authentication tag', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), keyArbitrary, fc.integer({ min: 1, max: 15 }), (text, key, tagBytes) => {
+        const [version, iv, tag, content] = encrypt(text, key).split(':');
+        const truncated = [version, iv, tag.slice(0, tagBytes * 2), content].join(':');
+
+        expect(() => decrypt(truncated, key)).toThrow();
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -1,32 +1,85 @@
 import crypto from "crypto";
 
 // 암호화 설정
-const algorithm = "aes-256-cbc";
+// v1(레거시): "iv:ciphertext" (AES-256-CBC, 무결성 검증 없음)
+// v2: "v2:iv:authTag:ciphertext" (AES-256-GCM)
+const legacyAlgorithm = "aes-256-cbc";
+const algorithm = "aes-256-gcm";
+const ENVELOPE_V2_PREFIX = "v2:";
+const GCM_IV_LENGTH = 12;
+const GCM_AUTH_TAG_LENGTH = 16;
 
-// 암호화 함수
+// 암호화 함수 (항상 v2 봉투로 저장)
 export function encrypt(text: string, encryptionKey: string): string {
-  const iv = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(GCM_IV_LENGTH);
   const keyBuffer = Buffer.from(encryptionKey, "hex");
-  const cipher = crypto.createCipheriv(algorithm, keyBuffer, iv);
+  const cipher = crypto.createCipheriv(algorithm, keyBuffer, iv, {
+    authTagLength: GCM_AUTH_TAG_LENGTH,
+  });
   let encrypted = cipher.update(text, "utf8", "hex");
   encrypted += cipher.final("hex");
-  return iv.toString("hex") + ":" + encrypted;
+  const authTag = cipher.getAuthTag();
+  return (
+    ENVELOPE_V2_PREFIX +
+    iv.toString("hex") +
+    ":" +
+    authTag.toString("hex") +
+    ":" +
+    encrypted
+  );
 }
 
-// 복호화 함수
+// 복호화 함수 (v2 봉투와 레거시 v1 형식 모두 지원)
+// v2 암호문이 변조되었으면 인증 태그 검증에 실패하여 예외가 발생
 export function decrypt(encryptedText: string, encryptionKey: string): string {
+  const keyBuffer = Buffer.from(encryptionKey, "hex");
+
+  if (encryptedText.startsWith(ENVELOPE_V2_PREFIX)) {
+    const [ivHex, tagHex, contentHex] = encryptedText
+      .slice(ENVELOPE_V2_PREFIX.length)
+      .split(":");
+
+    if (!ivHex || !tagHex || contentHex === undefined) {
+      throw new Error("잘못된 암호문 형식입니다.");
+    }
+
+    // 잘린 인증 태그는 위조를 쉽게 하므로 16바이트 태그만 허용
+    const authTag = Buffer.from(tagHex, "hex");
+    if (authTag.length !== GCM_AUTH_TAG_LENGTH) {
+      throw new Error("잘못된 인증 태그 길이입니다.");
+    }
+
+    const decipher = crypto.createDecipheriv(
+      algorithm,
+      keyBuffer,
+      Buffer.from(ivHex, "hex"),
+      { authTagLength: GCM_AUTH_TAG_LENGTH }
+    );
+    decipher.setAuthTag(authTag);
+    const decrypted = Buffer.concat([
+      decipher.update(Buffer.from(contentHex, "hex")),
+      decipher.final(),
+    ]);
+
+    return decrypted.toString("utf8");
+  }
+
   const textParts = encryptedText.split(":");
   const iv = Buffer.from(textParts.shift()!, "hex");
   const encryptedContent = Buffer.from(textParts.join(":"), "hex");
-  const keyBuffer = Buffer.from(encryptionKey, "hex");
 
-  const decipher = crypto.createDecipheriv(algorithm, keyBuffer, iv);
+  const decipher = crypto.createDecipheriv(legacyAlgorithm, keyBuffer, iv);
   let decrypted = decipher.update(encryptedContent);
   decrypted = Buffer.concat([decrypted, decipher.final()]);
 
   return decrypted.toString();
 }
 
+// 레거시(v1) 형식의 암호문인지 확인
+export function isLegacyCiphertext(encryptedText: string): boolean {
+  return !encryptedText.startsWith(ENVELOPE_V2_PREFIX);
+}
+
 // 카카오 암호화키 생성 (PBKDF2)
 export function generateEncryptionKey(
   kakaoId: string | number,
@@ -0,0 +1,29 @@
+import { Request, Response } from "express";
+
+// SSE 재연결 간격 (밀리초)
+export const SSE_RETRY_INTERVAL = 3000;
+
+// 클라이언트가 SSE 응답을 원하는지 확인 (Accept: text/event-stream 또는 ?stream=true)
+export function wantsEventStream(req: Request): boolean {
+  const accept = req.headers?.accept ?? "";
+  return accept.includes("text/event-stream") || req.query?.stream === "true";
+}
+
+// SSE 헤더 설정 후 즉시 전송
+export function openEventStream(res: Response): void {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // nginx 버퍼링 비활성화
+  res.flushHeaders();
+}
+
+// 이벤트 하나를 "event: <이름>\ndata: <JSON>\n\n" 형식으로 전송
+export function writeEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// 클라이언트 재연결 간격 안내
+export function writeRetry(res: Response, intervalMs: number = SSE_RETRY_INTERVAL): void {
+  res.write(`retry: ${intervalMs}\n\n`);
+}
@@ -0,0 +1,83 @@
+import zlib from "zlib";
+
+// tar(ustar) 아카이브 생성 (내보내기용 최소 구현: 일반 파일만, 디렉터리는 경로로 표현)
+export interface TarEntry {
+  name: string; // 아카이브 내 경로 (예: "diaries/2025-01-01.md")
+  content: string | Buffer;
+  mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+
+// 숫자 필드는 8진수 문자열 + NUL
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii");
+}
+
+// 경로가 100바이트를 넘으면 ustar prefix(155바이트) 필드로 나눔
+function splitName(name: string): { prefix: string; name: string } {
+  if (Buffer.byteLength(name) <= 100) {
+    return { prefix: "", name };
+  }
+
+  const slash = name.lastIndexOf("/", 155);
+  const prefix = slash > 0 ? name.slice(0, slash) : "";
+  const rest = slash > 0 ? name.slice(slash + 1) : name;
+  if (!prefix || Buffer.byteLength(prefix) > 155 || Buffer.byteLength(rest) > 100) {
+    throw new Error(`tar 경로가 너무 깁니다: ${name}`);
+  }
+  return { prefix, name: rest };
+}
+
+function createHeader(entry: TarEntry, size: number): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { prefix, name } = splitName(entry.name);
+  const mtime = Math.floor((entry.mtime ?? new Date()).getTime() / 1000);
+
+  header.write(name, 0, 100, "utf8");
+  writeOctal(header, 0o644, 100, 8); // mode
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(" ", 148, 156); // 체크섬 계산 시 공백으로 간주
+  header.write("0", 156, 1, "ascii"); // 일반 파일
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+  header.write(prefix, 345, 155, "utf8");
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+
+  return header;
+}
+
+// 파일 목록을 tar 버퍼로 묶음
+export function createTar(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const content = Buffer.isBuffer(entry.content)
+      ? entry.content
+      : Buffer.from(entry.content, "utf8");
+
+    blocks.push(createHeader(entry, content.length), content);
+
+    const padding = (BLOCK_SIZE - (content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // 아카이브 끝: 빈 블록 2개
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+// tar.gz 생성
+export function createTarGz(entries: TarEntry[]): Buffer {
+  return zlib.gzipSync(createTar(entries));
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  isValidTimeZone,
+  isValidLocale,
+  toLocalDay,
+  toLocalTime,
+  addMonths,
+  zonedTimeToDate,
+  parseLocalDateTime,
+  startOfLocalDay,
+  endOfLocalDay,
+  getCalendarPeriod,
+  getRecentRange,
+  formatDateForUser,
+} from './timezone';
+
+/**
+ * User time zone dates
+ * Day boundaries and "today / this week / last month" ranges follow the user's calendar,
+ * including days that are 23 or 25 hours long around DST changes.
+ */
+
+// 2025-06-16 (Monday) 01:30 in Seoul, still Sunday 2025-06-15 in UTC
+const NOW = new Date('2025-06-15T16:30:00Z');
+
+const timeZoneArbitrary = fc.constantFrom(
+  'Asia/Seoul',
+  'UTC',
+  'America/Los_Angeles',
+  'Australia/Lord_Howe',
+  'Asia/Kolkata'
+);
+
+const instantArbitrary = fc
+  .integer({
+    min: new Date('2024-01-01T00:00:00Z').getTime(),
+    max: new Date('2026-12-31T00:00:00Z').getTime(),
+  })
+  .map((timestamp) => new Date(timestamp));
+
+describe('Time zone day boundaries', () => {
+  it('should bound every instant by the start and end of its local day', () => {
+    fc.assert(
+      fc.property(instantArbitrary, timeZoneArbitrary, (instant, timeZone) => {
+        const start = startOfLocalDay(instant, timeZone);
+        const end = endOfLocalDay(instant, timeZone);
+
+        // Property: the instant lies inside its own local day
+        expect(start.getTime()).toBeLessThanOrEqual(instant.getTime());
+        expect(end.getTime()).toBeGreaterThanOrEqual(instant.getTime());
+
+        // Property: both bounds are on the same calendar day, and the next millisecond is not
+        const day = toLocalDay(instant, timeZone);
+        expect(toLocalDay(start, timeZone)).toBe(day);
+        expect(toLocalDay(end, timeZone)).toBe(day);
+        expect(toLocalDay(new Date(start.getTime() - 1), timeZone)).not.toBe(day);
+        expect(toLocalDay(new Date(end.getTime() + 1), timeZone)).not.toBe(day);
+
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should handle days shortened or lengthened by DST', () => {
+    const springForward = new Date('2025-03-09T12:00:00Z');
+    const fallBack = new Date('2025-11-02T12:00:00Z');
+    const HOUR_MS = 60 * 60 * 1000;
+
+    expect(startOfLocalDay(springForward, 'America/Los_Angeles')).toEqual(new Date('2025-03-09T08:00:00Z'));
+    expect(endOfLocalDay(springForward, 'America/Los_Angeles').getTime() + 1
+      - startOfLocalDay(springForward, 'America/Los_Angeles').getTime()).toBe(23 * HOUR_MS);
+    expect(endOfLocalDay(fallBack, 'America/Los_Angeles').getTime() + 1
+      - startOfLocalDay(fallBack, 'America/Los_Angeles').getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('should read wall-clock dates in the given zone', () => {
+    expect(parseLocalDateTime('2025-06-01 21:30', 'Asia/Seoul')).toEqual(new Date('2025-06-01T12:30:00Z'));
+    expect(parseLocalDateTime('2025-06-01', 'America/Los_Angeles')).toEqual(new Date('2025-06-01T07:00:00Z'));
+    expect(zonedTimeToDate({ year: 2025, month: 1, day: 1 }, 'UTC')).toEqual(new Date('2025-01-01T00:00:00Z'));
+    expect(parseLocalDateTime('June 1st', 'Asia/Seoul')).toBeNull();
+  });
+
+  it('should format days and times on the user\'s calendar', () => {
+    expect(toLocalDay(NOW, 'Asia/Seoul')).toBe('2025-06-16');
+    expect(toLocalDay(NOW, 'UTC')).toBe('2025-06-15');
+    expect(toLocalTime(NOW, 'Asia/Seoul')).toBe('01:30');
+    expect(formatDateForUser(NOW, { timeZone: 'Asia/Seoul', locale: 'ko-KR' })).toBe('2025년 6월 16일');
+    expect(formatDateForUser(NOW, { timeZone: 'UTC', locale: 'en-US' })).toBe('June 15, 2025');
+  });
+});
+
+describe('Calendar periods', () => {
+  it('should compute "today" and "this week" from the user\'s day, not the server\'s', () => {
+    expect(getCalendarPeriod('today', 'Asia/Seoul', NOW)).toEqual({
+      startDate: new Date('2025-06-15T15:00:00Z'),
+      endDate: new Date('2025-06-15T15:00:00Z'),
+      timeZone: 'Asia/Seoul',
+    });
+    expect(getCalendarPeriod('today', 'UTC', NOW).startDate).toEqual(new Date('2025-06-15T00:00:00Z'));
+
+    // Weeks start on Sunday: Monday in Seoul, Sunday in UTC
+    expect(getCalendarPeriod('this_week', 'Asia/Seoul', NOW).startDate).toEqual(new Date('2025-06-14T15:00:00Z'));
+    expect(getCalendarPeriod('this_week', 'UTC', NOW).startDate).toEqual(new Date('2025-06-15T00:00:00Z'));
+  });
+
+  it('should cover the whole previous week and month', () => {
+    expect(getCalendarPeriod('last_week', 'Asia/Seoul', NOW)).toMatchObject({
+      startDate: new Date('2025-06-07T15:00:00Z'),
+      endDate: new Date('2025-06-13T15:00:00Z'),
+    });
+    expect(getCalendarPeriod('last_month', 'Asia/Seoul', NOW)).toMatchObject({
+      startDate: new Date('2025-04-30T15:00:00Z'),
+      endDate: new Date('2025-05-30T15:00:00Z'),
+    });
+  });
+
+  it('should keep every period inside [start of first day, end of today]', () => {
+    const periods = ['today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month'] as const;
+
+    fc.assert(
+      fc.property(instantArbitrary, timeZoneArbitrary, fc.constantFrom(...periods), (now, timeZone, period) => {
+        const range = getCalendarPeriod(period, timeZone, now);
+
+        // Property: ranges start at local midnight and never end after today
+        expect(range.startDate).toEqual(startOfLocalDay(range.startDate, timeZone));
+        expect(range.startDate.getTime()).toBeLessThanOrEqual(range.endDate.getTime());
+        expect(endOfLocalDay(range.endDate, timeZone).getTime()).toBeLessThanOrEqual(
+          endOfLocalDay(now, timeZone).getTime()
+        );
+
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should clamp month arithmetic to the end of shorter months', () => {
+    expect(addMonths({ year: 2025, month: 3, day: 31 }, -1)).toEqual({ year: 2025, month: 2, day: 28 });
+    expect(getRecentRange({ months: 1 }, 'Asia/Seoul', new Date('2025-03-31T03:00:00Z')).startDate).toEqual(
+      new Date('2025-02-27T15:00:00Z')
+    );
+  });
+});
+
+describe('Settings validation', () => {
+  it('should accept IANA time zones and BCP 47 locales only', () => {
+    expect(isValidTimeZone('Asia/Seoul')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+    expect(isValidLocale('ko-KR')).toBe(true);
+    expect(isValidLocale('en-US')).toBe(true);
+    expect(isValidLocale('not a locale')).toBe(false);
+  });
+});
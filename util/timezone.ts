@@ -0,0 +1,257 @@
+// 사용자 시간대 기준 날짜 계산
+// 모든 날짜 기반 기능(오늘/이번 주/지난달, 연속 작성, 날짜 표시)은 서버 시간대가 아닌
+// 사용자 시간대(IANA, 예: "Asia/Seoul")의 달력 날짜를 기준으로 합니다.
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "Asia/Seoul";
+export const DEFAULT_LOCALE = process.env.DEFAULT_LOCALE || "ko-KR";
+
+// 시간대를 모를 때(기존 호출부) 사용하는 서버 시간대
+export const SERVER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 달력 날짜 (month는 1~12)
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// 사용자 시간대의 날짜 범위
+// startDate: 첫날 00:00, endDate: 마지막 날 00:00 (그날 전체 포함은 endOfLocalDay로 계산)
+export interface DayRange {
+  startDate: Date;
+  endDate: Date;
+  timeZone: string;
+}
+
+export type CalendarPeriod =
+  | "today"
+  | "yesterday"
+  | "this_week"
+  | "last_week"
+  | "this_month"
+  | "last_month";
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocale(locale: unknown): locale is string {
+  if (typeof locale !== "string" || !locale) return false;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// 시간대별 포맷터 재사용 (Intl.DateTimeFormat 생성 비용이 큼)
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(date: Date, timeZone: string): Record<string, number> {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter.formatToParts(date)) {
+    if (type !== "literal") parts[type] = Number(value);
+  }
+  return parts;
+}
+
+// 해당 시각의 UTC 대비 오프셋 (밀리초, 서울은 +9시간)
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+export function toLocalDate(date: Date, timeZone: string): LocalDate {
+  const { year, month, day } = getParts(date, timeZone);
+  return { year, month, day };
+}
+
+// "YYYY-MM-DD"
+export function formatLocalDay(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+export function toLocalDay(date: Date, timeZone: string): string {
+  return formatLocalDay(toLocalDate(date, timeZone));
+}
+
+// "HH:mm"
+export function toLocalTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getParts(date, timeZone);
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+// 0~23시
+export function toLocalHour(date: Date, timeZone: string): number {
+  return getParts(date, timeZone).hour;
+}
+
+// 달력 날짜 계산은 UTC 기준으로 해서 서머타임 영향을 받지 않음
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+// 말일 보정 (3월 31일의 한 달 전은 2월 28/29일)
+export function addMonths(date: LocalDate, months: number): LocalDate {
+  const first = new Date(Date.UTC(date.year, date.month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return {
+    year: first.getUTCFullYear(),
+    month: first.getUTCMonth() + 1,
+    day: Math.min(date.day, lastDay),
+  };
+}
+
+// "YYYY-MM-DD" → 달력 날짜 (형식이 다르거나 없는 날짜면 null)
+export function parseLocalDay(value: string): LocalDate | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  return formatLocalDay(addDays(date, 0)) === formatLocalDay(date) ? date : null;
+}
+
+// 두 날짜 사이의 일수 (to - from)
+export function daysBetween(from: LocalDate, to: LocalDate): number {
+  return (
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / DAY_MS
+  );
+}
+
+// 0 = 일요일
+export function getWeekday(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+// 사용자 시간대의 벽시계 시각을 실제 시각으로 변환
+export function zonedTimeToDate(
+  date: LocalDate,
+  timeZone: string,
+  hour = 0,
+  minute = 0,
+  second = 0
+): Date {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, hour, minute, second);
+  // 오프셋을 두 번 구해 서머타임 전환 직후도 맞춤
+  const guess = asUtc - getOffsetMs(new Date(asUtc), timeZone);
+  return new Date(asUtc - getOffsetMs(new Date(guess), timeZone));
+}
+
+// "YYYY-MM-DD" 또는 "YYYY-MM-DD HH:mm(:ss)"를 사용자 시간대 기준으로 해석 (형식이 다르면 null)
+export function parseLocalDateTime(value: string, timeZone: string): Date | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const date = zonedTimeToDate(
+    { year: Number(year), month: Number(month), day: Number(day) },
+    timeZone,
+    Number(hour),
+    Number(minute),
+    Number(second)
+  );
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+  return zonedTimeToDate(toLocalDate(date, timeZone), timeZone);
+}
+
+// 그날의 마지막 순간 (다음 날 00:00 - 1ms)
+export function endOfLocalDay(date: Date, timeZone: string): Date {
+  const next = addDays(toLocalDate(date, timeZone), 1);
+  return new Date(zonedTimeToDate(next, timeZone).getTime() - 1);
+}
+
+function dayRange(start: LocalDate, end: LocalDate, timeZone: string): DayRange {
+  return {
+    startDate: zonedTimeToDate(start, timeZone),
+    endDate: zonedTimeToDate(end, timeZone),
+    timeZone,
+  };
+}
+
+// 오늘/어제/이번 주/지난주/이번 달/지난달 (주는 일요일 시작)
+export function getCalendarPeriod(
+  period: CalendarPeriod,
+  timeZone: string,
+  now: Date = new Date()
+): DayRange {
+  const today = toLocalDate(now, timeZone);
+  const weekStart = addDays(today, -getWeekday(today));
+  const monthStart = { ...today, day: 1 };
+
+  switch (period) {
+    case "today":
+      return dayRange(today, today, timeZone);
+    case "yesterday": {
+      const yesterday = addDays(today, -1);
+      return dayRange(yesterday, yesterday, timeZone);
+    }
+    case "this_week":
+      return dayRange(weekStart, today, timeZone);
+    case "last_week":
+      return dayRange(addDays(weekStart, -7), addDays(weekStart, -1), timeZone);
+    case "this_month":
+      return dayRange(monthStart, today, timeZone);
+    case "last_month":
+      return dayRange(addMonths(monthStart, -1), addDays(monthStart, -1), timeZone);
+  }
+}
+
+// 최근 N일/N개월 (오늘 포함, 시작일은 N일/N개월 전)
+export function getRecentRange(
+  amount: { days?: number; months?: number },
+  timeZone: string,
+  now: Date = new Date()
+): DayRange {
+  const today = toLocalDate(now, timeZone);
+  const start = amount.months
+    ? addMonths(today, -amount.months)
+    : addDays(today, -(amount.days ?? 0));
+  return dayRange(start, today, timeZone);
+}
+
+// 특정 날짜 하루
+export function getDayRange(date: LocalDate, timeZone: string): DayRange {
+  return dayRange(date, date, timeZone);
+}
+
+// 사용자 언어·시간대로 날짜 표시 (예: "2025년 6월 15일")
+export function formatDateForUser(
+  date: Date | string,
+  settings: { timeZone: string; locale: string },
+  options: Intl.DateTimeFormatOptions = { year: "numeric", month: "long", day: "numeric" }
+): string {
+  return new Date(date).toLocaleDateString(settings.locale, {
+    ...options,
+    timeZone: settings.timeZone,
+  });
+}